@@ -0,0 +1,185 @@
+// ============================================================================
+// Prompt-cache efficiency.
+//
+// Measures how well a session used the prompt cache: hit ratio, cache
+// writes that were never read, misses after idle gaps, and what caching
+// saved compared to billing every prompt token as input.
+// ============================================================================
+
+import type { ApiCallUsage } from "../types.js";
+import { DEFAULT_PRICING, findModelPricing } from "../cost/pricing.js";
+import { extractTokenTimeline as extractClaudeTimeline } from "../parsers/claude/extract.js";
+import type { TranscriptLine } from "../parsers/claude/types.js";
+import { extractTokenTimeline as extractGeminiTimeline } from "../parsers/gemini/extract.js";
+import type { GeminiTranscript } from "../parsers/gemini/types.js";
+import type {
+  CacheAnalysisOptions,
+  CacheCall,
+  CacheEfficiencyReport,
+  IdleCacheMiss,
+} from "./types.js";
+
+const DEFAULT_IDLE_THRESHOLD_MS = 5 * 60 * 1000;
+
+// ── Helpers ──────────────────────────────────────────────────────
+
+function toCacheCall(
+  call: ApiCallUsage,
+  inputTokens: number,
+  cacheWriteTokens: number,
+  cacheReadTokens: number
+): CacheCall {
+  return {
+    messageId: call.messageId,
+    timestamp: call.timestamp,
+    model: call.model,
+    turnIndex: call.turnIndex,
+    inputTokens,
+    cacheWriteTokens,
+    cacheReadTokens,
+    unreadWriteTokens: 0,
+  };
+}
+
+/**
+ * Sets each call's unreadWriteTokens. A call's cache write extends the
+ * cached prefix past the tokens it read; the written tokens count as read
+ * as far as a later call of the same model reads past that point.
+ */
+function markUnreadWrites(calls: CacheCall[]): void {
+  const maxReadAfter = new Map<string, number>();
+
+  for (let i = calls.length - 1; i >= 0; i--) {
+    const call = calls[i];
+    const laterRead = maxReadAfter.get(call.model) ?? 0;
+    const read = Math.min(call.cacheWriteTokens, Math.max(0, laterRead - call.cacheReadTokens));
+    call.unreadWriteTokens = call.cacheWriteTokens - read;
+    maxReadAfter.set(call.model, Math.max(laterRead, call.cacheReadTokens));
+  }
+}
+
+/**
+ * Finds calls that read less than their model's previous call had cached,
+ * after at least `idleThresholdMs` without a call to that model.
+ */
+function findIdleMisses(calls: CacheCall[], idleThresholdMs: number): IdleCacheMiss[] {
+  const misses: IdleCacheMiss[] = [];
+  const previous = new Map<string, CacheCall>();
+
+  for (const call of calls) {
+    const prev = previous.get(call.model);
+    previous.set(call.model, call);
+    if (!prev?.timestamp || !call.timestamp) continue;
+
+    const idleMs = call.timestamp.getTime() - prev.timestamp.getTime();
+    const cachedPrefix = prev.cacheReadTokens + prev.cacheWriteTokens;
+    if (idleMs < idleThresholdMs || call.cacheReadTokens >= cachedPrefix) continue;
+
+    misses.push({
+      messageId: call.messageId,
+      timestamp: call.timestamp,
+      model: call.model,
+      turnIndex: call.turnIndex,
+      idleMs,
+      missedTokens: cachedPrefix - call.cacheReadTokens,
+    });
+  }
+
+  return misses;
+}
+
+function buildReport(calls: CacheCall[], options: CacheAnalysisOptions): CacheEfficiencyReport {
+  const table = options.pricing ?? DEFAULT_PRICING;
+  markUnreadWrites(calls);
+
+  const report: CacheEfficiencyReport = {
+    pricingVersion: table.version,
+    currency: "USD",
+    calls,
+    promptTokens: 0,
+    inputTokens: 0,
+    cacheWriteTokens: 0,
+    cacheReadTokens: 0,
+    hitRatio: 0,
+    unreadWriteTokens: 0,
+    idleMisses: findIdleMisses(calls, options.idleThresholdMs ?? DEFAULT_IDLE_THRESHOLD_MS),
+    baselineCost: 0,
+    actualCost: 0,
+    savings: 0,
+    unreadWriteCost: 0,
+    unpricedModels: [],
+  };
+  const unpriced = new Set<string>();
+
+  for (const call of calls) {
+    const promptTokens = call.inputTokens + call.cacheWriteTokens + call.cacheReadTokens;
+    report.promptTokens += promptTokens;
+    report.inputTokens += call.inputTokens;
+    report.cacheWriteTokens += call.cacheWriteTokens;
+    report.cacheReadTokens += call.cacheReadTokens;
+    report.unreadWriteTokens += call.unreadWriteTokens;
+
+    const pricing = findModelPricing(table, call.model);
+    if (!pricing) {
+      if (promptTokens > 0) unpriced.add(call.model);
+      continue;
+    }
+    report.baselineCost += (promptTokens * pricing.input) / 1_000_000;
+    report.actualCost +=
+      (call.inputTokens * pricing.input +
+        call.cacheWriteTokens * pricing.cacheWrite +
+        call.cacheReadTokens * pricing.cacheRead) /
+      1_000_000;
+    report.unreadWriteCost += (call.unreadWriteTokens * (pricing.cacheWrite - pricing.input)) / 1_000_000;
+  }
+
+  report.hitRatio = report.promptTokens > 0 ? report.cacheReadTokens / report.promptTokens : 0;
+  report.savings = report.baselineCost - report.actualCost;
+  report.unpricedModels = [...unpriced];
+  return report;
+}
+
+// ── Analysis ─────────────────────────────────────────────────────
+
+/**
+ * Reports prompt-cache efficiency of a Claude Code session, from each API
+ * call's input_tokens, cache_creation_input_tokens and
+ * cache_read_input_tokens (calls from extractTokenTimeline). Costs cover
+ * prompt tokens only; output is billed the same with or without caching.
+ *
+ * @param lines - Parsed transcript lines
+ * @param options - Pricing table and idle threshold
+ */
+export function analyzeClaudeCache(
+  lines: TranscriptLine[],
+  options: CacheAnalysisOptions = {}
+): CacheEfficiencyReport {
+  const calls = extractClaudeTimeline(lines).map((call) =>
+    toCacheCall(
+      call,
+      call.usage.inputTokens || 0,
+      call.usage.cacheCreationTokens || 0,
+      call.usage.cacheReadTokens || 0
+    )
+  );
+  return buildReport(calls, options);
+}
+
+/**
+ * Reports prompt-cache efficiency of a Gemini CLI session. Gemini caches
+ * implicitly: `tokens.cached` are the cache reads (included in
+ * `tokens.input`), and there are no billed cache writes.
+ *
+ * @param transcript - Parsed transcript
+ * @param options - Pricing table and idle threshold
+ */
+export function analyzeGeminiCache(
+  transcript: GeminiTranscript,
+  options: CacheAnalysisOptions = {}
+): CacheEfficiencyReport {
+  const calls = extractGeminiTimeline(transcript).map((call) => {
+    const cached = call.usage.cacheReadTokens || 0;
+    return toCacheCall(call, Math.max(0, (call.usage.inputTokens || 0) - cached), 0, cached);
+  });
+  return buildReport(calls, options);
+}
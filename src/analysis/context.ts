@@ -0,0 +1,222 @@
+// ============================================================================
+// Context window utilization.
+//
+// Builds the context-size curve of a session from its per-call token usage,
+// marks where the context was compacted, and flags the turns that came
+// close to auto-compaction.
+// ============================================================================
+
+import type { ApiCallUsage } from "../types.js";
+import { findModelEntry } from "../utils.js";
+import {
+  extractAllUserPrompts as extractClaudePrompts,
+  extractTokenTimeline as extractClaudeTimeline,
+} from "../parsers/claude/extract.js";
+import { extractUserContent } from "../parsers/claude/parse.js";
+import {
+  MessageType as ClaudeMessageType,
+  type MessageWithUsage,
+  type TranscriptLine,
+} from "../parsers/claude/types.js";
+import {
+  extractAllUserPrompts as extractGeminiPrompts,
+  extractTokenTimeline as extractGeminiTimeline,
+} from "../parsers/gemini/extract.js";
+import type { GeminiTranscript } from "../parsers/gemini/types.js";
+import type {
+  CompactionPoint,
+  ContextAnalysis,
+  ContextAnalysisOptions,
+  ContextSample,
+  TurnContext,
+} from "./types.js";
+
+/**
+ * Context window sizes in tokens by model name prefix. Claude models use
+ * the standard 200k window (not the 1M beta); Gemini models 1M.
+ */
+export const DEFAULT_CONTEXT_WINDOWS: Record<string, number> = {
+  "claude-": 200_000,
+  "gemini-": 1_048_576,
+};
+
+const DEFAULT_CONTEXT_WINDOW = 200_000;
+const DEFAULT_NEAR_COMPACTION_THRESHOLD = 0.8;
+
+/** A context shrinking below this fraction of the previous call's counts as a compaction. */
+const INFERRED_COMPACTION_RATIO = 0.5;
+
+/** Claude Code system line marking a compaction. */
+interface CompactBoundaryLine {
+  subtype?: string;
+  compactMetadata?: { trigger?: string; preTokens?: number };
+}
+
+// ── Helpers ──────────────────────────────────────────────────────
+
+function parseTimestamp(value: string | undefined): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Builds the analysis from each call's context size, the compactions found
+ * and the session's prompts.
+ */
+function analyze(
+  calls: { call: ApiCallUsage; contextTokens: number }[],
+  compactions: CompactionPoint[],
+  prompts: string[],
+  options: ContextAnalysisOptions
+): ContextAnalysis {
+  const windows = options.contextWindows ?? DEFAULT_CONTEXT_WINDOWS;
+  const defaultWindow = options.defaultContextWindow ?? DEFAULT_CONTEXT_WINDOW;
+  const threshold = options.nearCompactionThreshold ?? DEFAULT_NEAR_COMPACTION_THRESHOLD;
+
+  const samples: ContextSample[] = calls.map(({ call, contextTokens }) => {
+    const contextWindow = findModelEntry(windows, call.model) ?? defaultWindow;
+    return {
+      messageId: call.messageId,
+      timestamp: call.timestamp,
+      model: call.model,
+      turnIndex: call.turnIndex,
+      contextTokens,
+      contextWindow,
+      utilization: contextWindow > 0 ? contextTokens / contextWindow : 0,
+    };
+  });
+
+  for (const compaction of compactions) {
+    if (compaction.preTokens === undefined && compaction.sampleIndex > 0) {
+      compaction.preTokens = samples[compaction.sampleIndex - 1].contextTokens;
+    }
+  }
+
+  let peak: ContextSample | undefined;
+  for (const sample of samples) {
+    if (!peak || sample.utilization > peak.utilization) peak = sample;
+  }
+
+  const turns: TurnContext[] = prompts.map((prompt, index) => ({
+    index,
+    prompt,
+    peakTokens: 0,
+    peakUtilization: 0,
+    compacted: false,
+    nearCompaction: false,
+  }));
+  for (const sample of samples) {
+    const turn = turns[sample.turnIndex];
+    if (!turn) continue;
+    turn.peakTokens = Math.max(turn.peakTokens, sample.contextTokens);
+    turn.peakUtilization = Math.max(turn.peakUtilization, sample.utilization);
+  }
+  for (const compaction of compactions) {
+    const turn = turns[compaction.turnIndex];
+    if (!turn) continue;
+    turn.compacted = true;
+    if (compaction.trigger !== "manual") turn.nearCompaction = true;
+  }
+  for (const turn of turns) {
+    if (turn.peakUtilization >= threshold) turn.nearCompaction = true;
+  }
+
+  return {
+    samples,
+    compactions,
+    peak,
+    turns,
+    nearCompactionTurns: turns.filter((t) => t.nearCompaction).map((t) => t.index),
+  };
+}
+
+// ── Analysis ─────────────────────────────────────────────────────
+
+/**
+ * Analyzes context window utilization of a Claude Code session.
+ *
+ * Each API call's context is its input + cache creation + cache read
+ * tokens (calls from extractTokenTimeline). Compactions are taken from the
+ * transcript's compact_boundary markers.
+ *
+ * @param lines - Parsed transcript lines
+ * @param options - Context windows and near-compaction threshold
+ */
+export function analyzeClaudeContext(
+  lines: TranscriptLine[],
+  options: ContextAnalysisOptions = {}
+): ContextAnalysis {
+  const calls = extractClaudeTimeline(lines).map((call) => ({
+    call,
+    contextTokens:
+      (call.usage.inputTokens || 0) +
+      (call.usage.cacheCreationTokens || 0) +
+      (call.usage.cacheReadTokens || 0),
+  }));
+
+  const compactions: CompactionPoint[] = [];
+  const callIds = new Set<string>();
+  let turnIndex = -1;
+
+  for (const line of lines) {
+    if (line.type === ClaudeMessageType.User) {
+      if (extractUserContent(line.message)) turnIndex++;
+    } else if (line.type === ClaudeMessageType.Assistant) {
+      const msg = line.message as MessageWithUsage;
+      if (msg?.id && msg.usage) callIds.add(msg.id);
+    } else if (line.type === ClaudeMessageType.System) {
+      const marker = line as TranscriptLine & CompactBoundaryLine;
+      if (marker.subtype !== "compact_boundary") continue;
+      compactions.push({
+        sampleIndex: callIds.size,
+        turnIndex,
+        timestamp: parseTimestamp(line.timestamp),
+        trigger: marker.compactMetadata?.trigger,
+        preTokens: marker.compactMetadata?.preTokens,
+        inferred: false,
+      });
+    }
+  }
+
+  return analyze(calls, compactions, extractClaudePrompts(lines), options);
+}
+
+/**
+ * Analyzes context window utilization of a Gemini CLI session.
+ *
+ * Each API call's context is its `tokens.input` (which includes cached
+ * tokens). Gemini transcripts don't mark compressions, so a context that
+ * shrinks below half of the previous call's (same model) is reported as an
+ * inferred compaction.
+ *
+ * @param transcript - Parsed transcript
+ * @param options - Context windows and near-compaction threshold
+ */
+export function analyzeGeminiContext(
+  transcript: GeminiTranscript,
+  options: ContextAnalysisOptions = {}
+): ContextAnalysis {
+  const calls = extractGeminiTimeline(transcript).map((call) => ({
+    call,
+    contextTokens: call.usage.inputTokens || 0,
+  }));
+
+  const compactions: CompactionPoint[] = [];
+  for (let i = 1; i < calls.length; i++) {
+    const prev = calls[i - 1];
+    const { call, contextTokens } = calls[i];
+    if (call.model !== prev.call.model) continue;
+    if (contextTokens >= prev.contextTokens * INFERRED_COMPACTION_RATIO) continue;
+
+    compactions.push({
+      sampleIndex: i,
+      turnIndex: call.turnIndex,
+      timestamp: call.timestamp,
+      preTokens: prev.contextTokens,
+      inferred: true,
+    });
+  }
+
+  return analyze(calls, compactions, extractGeminiPrompts(transcript), options);
+}
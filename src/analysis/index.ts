@@ -0,0 +1,14 @@
+export type {
+  ContextAnalysisOptions,
+  ContextSample,
+  CompactionPoint,
+  TurnContext,
+  ContextAnalysis,
+  CacheAnalysisOptions,
+  CacheCall,
+  IdleCacheMiss,
+  CacheEfficiencyReport,
+} from "./types.js";
+
+export { DEFAULT_CONTEXT_WINDOWS, analyzeClaudeContext, analyzeGeminiContext } from "./context.js";
+export { analyzeClaudeCache, analyzeGeminiCache } from "./cache.js";
@@ -0,0 +1,143 @@
+// ============================================================================
+// Transcript analysis types.
+// ============================================================================
+
+import type { CostOptions } from "../cost/types.js";
+
+/** Options for context window analysis. */
+export interface ContextAnalysisOptions {
+  /**
+   * Context window sizes in tokens, by model name (matched like pricing
+   * tables: exact name, else the longest name it starts with).
+   * Default: DEFAULT_CONTEXT_WINDOWS.
+   */
+  contextWindows?: Record<string, number>;
+  /** Window for models missing from `contextWindows` (default 200,000) */
+  defaultContextWindow?: number;
+  /**
+   * Utilization at or above which a turn counts as close to
+   * auto-compaction (default 0.8)
+   */
+  nearCompactionThreshold?: number;
+}
+
+/** Context size at one API call. */
+export interface ContextSample {
+  messageId: string;
+  timestamp?: Date;
+  model: string;
+  /** Turn of the call, matching extractAllPromptResponses (-1 before the first prompt) */
+  turnIndex: number;
+  /** Tokens sent to the model (input, including cached) */
+  contextTokens: number;
+  /** Context window of the model */
+  contextWindow: number;
+  /** contextTokens / contextWindow */
+  utilization: number;
+}
+
+/** A point where the context was compacted. */
+export interface CompactionPoint {
+  /** Index of the first sample after the compaction */
+  sampleIndex: number;
+  /** Turn it happened in (-1 before the first prompt) */
+  turnIndex: number;
+  timestamp?: Date;
+  /** "auto" or "manual", when the transcript records it */
+  trigger?: string;
+  /** Context size before compaction (recorded, or the last sample's) */
+  preTokens?: number;
+  /** True when found from a drop in context size rather than a transcript marker */
+  inferred: boolean;
+}
+
+/** Context pressure of one user turn. */
+export interface TurnContext {
+  /** Position of the turn, matching extractAllPromptResponses */
+  index: number;
+  prompt: string;
+  /** Largest context of the turn's calls (0 without calls) */
+  peakTokens: number;
+  peakUtilization: number;
+  /** True when the context was compacted during the turn */
+  compacted: boolean;
+  /** True when peak utilization reached the threshold or the turn was auto-compacted */
+  nearCompaction: boolean;
+}
+
+/** Context window utilization over a session. */
+export interface ContextAnalysis {
+  /** One sample per API call, in order */
+  samples: ContextSample[];
+  compactions: CompactionPoint[];
+  /** Sample with the highest utilization */
+  peak?: ContextSample;
+  turns: TurnContext[];
+  /** Indices of turns flagged nearCompaction */
+  nearCompactionTurns: number[];
+}
+
+/** Options for prompt-cache analysis. */
+export interface CacheAnalysisOptions extends CostOptions {
+  /**
+   * Gap between two calls of a model, in milliseconds, after which a cache
+   * miss counts as caused by idling (default 5 minutes, the Claude cache TTL)
+   */
+  idleThresholdMs?: number;
+}
+
+/** Prompt-cache usage of one API call. */
+export interface CacheCall {
+  messageId: string;
+  timestamp?: Date;
+  model: string;
+  /** Turn of the call, matching extractAllPromptResponses (-1 before the first prompt) */
+  turnIndex: number;
+  /** Prompt tokens neither read from nor written to the cache */
+  inputTokens: number;
+  cacheWriteTokens: number;
+  cacheReadTokens: number;
+  /** Tokens this call wrote that no later call of the model read */
+  unreadWriteTokens: number;
+}
+
+/** A call that lost the cached prefix after the model sat idle. */
+export interface IdleCacheMiss {
+  messageId: string;
+  timestamp?: Date;
+  model: string;
+  turnIndex: number;
+  /** Time since the model's previous call */
+  idleMs: number;
+  /** Tokens the previous call had cached that this call didn't read */
+  missedTokens: number;
+}
+
+/** Prompt-cache efficiency of a session. */
+export interface CacheEfficiencyReport {
+  /** Version of the pricing table used */
+  pricingVersion: string;
+  currency: "USD";
+  /** One entry per API call, in order */
+  calls: CacheCall[];
+  /** All prompt tokens: input + cache writes + cache reads */
+  promptTokens: number;
+  inputTokens: number;
+  cacheWriteTokens: number;
+  cacheReadTokens: number;
+  /** cacheReadTokens / promptTokens (0 without prompt tokens) */
+  hitRatio: number;
+  /** Cache-write tokens never read later in the session */
+  unreadWriteTokens: number;
+  idleMisses: IdleCacheMiss[];
+  /** Cost of the prompt tokens with every token billed at the input rate */
+  baselineCost: number;
+  /** Cost of the prompt tokens as billed */
+  actualCost: number;
+  /** baselineCost - actualCost; negative when cache writes cost more than reads saved */
+  savings: number;
+  /** Surcharge paid over the input rate for unread cache writes */
+  unreadWriteCost: number;
+  /** Models that used tokens but have no price (left out of the costs) */
+  unpricedModels: string[];
+}
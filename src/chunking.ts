@@ -3,36 +3,30 @@
 // Handles splitting large transcripts into manageable chunks and reassembling.
 // ============================================================================
 
-import type { AgentType } from "./types.js";
+import { MAX_CHUNK_SIZE, type AgentType } from "./types.js";
+import { detectAgent, resolveAgent } from "./registry.js";
 
-/** Maximum size for a single transcript chunk (50MB). */
-export const MAX_CHUNK_SIZE = 50 * 1024 * 1024;
+export { MAX_CHUNK_SIZE } from "./types.js";
+export {
+  chunkGeminiJSON,
+  chunkGeminiJSONStream,
+  reassembleGeminiJSON,
+} from "./parsers/gemini/chunk.js";
 
 /** Format for chunk file suffixes (e.g., ".001", ".002"). */
 const CHUNK_SUFFIX_FORMAT = (index: number) =>
   `.${String(index).padStart(3, "0")}`;
 
 /**
- * Detects the agent type from transcript content by examining the format.
- * Returns "Gemini CLI" if the content appears to be a JSON messages array,
- * otherwise returns undefined (assumed JSONL/Claude Code).
+ * Detects the agent type from transcript content using the detectors of
+ * registered agents (Gemini CLI JSON, Codex CLI rollouts, Aider markdown,
+ * plus any registered through `registerAgent`).
+ * Returns undefined when no detector matches (assumed JSONL/Claude Code).
  */
 export function detectAgentTypeFromContent(
   content: string
 ): AgentType | undefined {
-  const trimmed = content.trimStart();
-  if (!trimmed.startsWith("{")) return undefined;
-
-  try {
-    const parsed = JSON.parse(trimmed) as { messages?: unknown[] };
-    if (Array.isArray(parsed.messages) && parsed.messages.length > 0) {
-      return "Gemini CLI";
-    }
-  } catch {
-    // Not valid JSON
-  }
-
-  return undefined;
+  return detectAgent(content)?.type;
 }
 
 /**
@@ -85,66 +79,10 @@ export function reassembleJSONL(chunks: string[]): string {
   return chunks.join("\n");
 }
 
-/**
- * Splits a Gemini JSON transcript at message boundaries.
- *
- * Since Gemini uses a single JSON object with a messages array,
- * chunking splits the messages array across multiple JSON objects.
- */
-export function chunkGeminiJSON(
-  content: string,
-  maxSize: number = MAX_CHUNK_SIZE
-): string[] {
-  if (content.length <= maxSize) return [content];
-
-  const parsed = JSON.parse(content) as { messages: unknown[] };
-  const messages = parsed.messages;
-
-  const chunks: string[] = [];
-  let currentMessages: unknown[] = [];
-  let currentSize = '{"messages":[]}'.length;
-
-  for (const msg of messages) {
-    const msgStr = JSON.stringify(msg);
-    const addedSize = msgStr.length + (currentMessages.length > 0 ? 1 : 0); // +1 for comma
-
-    if (currentSize + addedSize > maxSize && currentMessages.length > 0) {
-      chunks.push(JSON.stringify({ messages: currentMessages }));
-      currentMessages = [];
-      currentSize = '{"messages":[]}'.length;
-    }
-
-    currentMessages.push(msg);
-    currentSize += addedSize;
-  }
-
-  if (currentMessages.length > 0) {
-    chunks.push(JSON.stringify({ messages: currentMessages }));
-  }
-
-  return chunks;
-}
-
-/**
- * Reassembles Gemini JSON chunks back into a single transcript.
- * Merges all messages arrays into one.
- */
-export function reassembleGeminiJSON(chunks: string[]): string {
-  if (chunks.length === 0) return JSON.stringify({ messages: [] });
-  if (chunks.length === 1) return chunks[0];
-
-  const allMessages: unknown[] = [];
-  for (const chunk of chunks) {
-    const parsed = JSON.parse(chunk) as { messages: unknown[] };
-    allMessages.push(...parsed.messages);
-  }
-
-  return JSON.stringify({ messages: allMessages });
-}
-
 /**
  * Splits a transcript into chunks, auto-detecting the format.
- * Falls back to JSONL chunking if the format is not recognized as Gemini JSON.
+ * Uses the chunker of the agent's registered adapter; falls back to JSONL
+ * chunking if the agent has none or the format is not recognized.
  */
 export function chunkTranscript(
   content: string,
@@ -153,10 +91,9 @@ export function chunkTranscript(
 ): string[] {
   if (content.length <= maxSize) return [content];
 
-  const detectedType = agentType || detectAgentTypeFromContent(content);
-
-  if (detectedType === "Gemini CLI") {
-    return chunkGeminiJSON(content, maxSize);
+  const adapter = resolveAgent(content, agentType);
+  if (adapter?.chunk) {
+    return adapter.chunk(content, maxSize);
   }
 
   return chunkJSONL(content, maxSize);
@@ -172,11 +109,9 @@ export function reassembleTranscript(
   if (chunks.length === 0) return "";
   if (chunks.length === 1) return chunks[0];
 
-  const detectedType =
-    agentType || detectAgentTypeFromContent(chunks[0]);
-
-  if (detectedType === "Gemini CLI") {
-    return reassembleGeminiJSON(chunks);
+  const adapter = resolveAgent(chunks[0], agentType);
+  if (adapter?.reassemble) {
+    return adapter.reassemble(chunks);
   }
 
   return reassembleJSONL(chunks);
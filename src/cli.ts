@@ -0,0 +1,519 @@
+// ============================================================================
+// Command-line interface.
+//
+// `agent-session-parser <command> [file]` answers everyday questions about a
+// transcript without a throwaway script. The transcript is read from the file,
+// or from stdin when the file is omitted or "-", and its format is detected
+// through the agent registry. Output is plain text, or JSON with --json.
+// ============================================================================
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { basename, dirname, join, resolve } from "node:path";
+import { parseArgs } from "node:util";
+import type { AgentSession, TokenUsage } from "./types.js";
+import {
+  getAgent,
+  getAgentByType,
+  listAgents,
+  resolveAgent,
+  type AgentAdapter,
+} from "./registry.js";
+import {
+  MAX_CHUNK_SIZE,
+  chunkFileName,
+  chunkTranscript,
+  parseChunkIndex,
+  reassembleTranscript,
+  sortChunkFiles,
+} from "./chunking.js";
+import * as claude from "./parsers/claude/index.js";
+import * as gemini from "./parsers/gemini/index.js";
+import {
+  convertACPEventsToSession,
+  convertSessionToClaudeTranscript,
+  convertSessionToGeminiTranscript,
+  type ACPSessionEvent,
+} from "./converters/index.js";
+import { renderSessionHTML, renderSessionMarkdown } from "./renderers/index.js";
+import { toolCallSummary } from "./renderers/shared.js";
+import { WatchEventType, watchTranscript, type WatchEvent } from "./watch/index.js";
+
+/** Input and output streams used by the CLI. */
+export interface CLIIO {
+  stdout(text: string): void;
+  stderr(text: string): void;
+  /** Reads all of stdin. */
+  readStdin(): Promise<string>;
+  /** Stops long-running commands (watch) */
+  signal?: AbortSignal;
+}
+
+const PROGRAM = "agent-session-parser";
+
+const OPTIONS = {
+  json: { type: "boolean" },
+  agent: { type: "string", short: "a" },
+  "include-subagents": { type: "boolean" },
+  "subagents-dir": { type: "string" },
+  "out-dir": { type: "string" },
+  "max-size": { type: "string" },
+  output: { type: "string", short: "o" },
+  to: { type: "string" },
+  "session-id": { type: "string" },
+  "from-end": { type: "boolean" },
+  help: { type: "boolean", short: "h" },
+} as const;
+
+interface CLIOptions {
+  json?: boolean;
+  agent?: string;
+  "include-subagents"?: boolean;
+  "subagents-dir"?: string;
+  "out-dir"?: string;
+  "max-size"?: string;
+  output?: string;
+  to?: string;
+  "session-id"?: string;
+  "from-end"?: boolean;
+  help?: boolean;
+}
+
+interface CommandContext {
+  args: string[];
+  options: CLIOptions;
+  io: CLIIO;
+}
+
+interface Command {
+  summary: string;
+  run(ctx: CommandContext): Promise<void>;
+}
+
+/** Bad arguments: reported with a pointer to --help and exit code 2. */
+class UsageError extends Error {}
+
+// ── Helpers ──────────────────────────────────────────────────────
+
+function defaultIO(): CLIIO {
+  return {
+    stdout: (text) => process.stdout.write(text),
+    stderr: (text) => process.stderr.write(text),
+    readStdin: async () => {
+      if (process.stdin.isTTY) {
+        throw new UsageError("no input: pass a file or pipe a transcript to stdin");
+      }
+      const chunks: Buffer[] = [];
+      for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+      return Buffer.concat(chunks).toString("utf-8");
+    },
+  };
+}
+
+function isStdin(file: string | undefined): boolean {
+  return file === undefined || file === "-";
+}
+
+async function readInput(ctx: CommandContext): Promise<string> {
+  const file = ctx.args[0];
+  return isStdin(file) ? ctx.io.readStdin() : readFileSync(file, "utf-8");
+}
+
+function selectedAgent(options: CLIOptions): AgentAdapter | undefined {
+  if (!options.agent) return undefined;
+  const adapter = getAgent(options.agent) ?? getAgentByType(options.agent);
+  if (!adapter) {
+    const names = listAgents().map((a) => a.name).join(", ");
+    throw new UsageError(`unknown agent "${options.agent}" (expected one of: ${names})`);
+  }
+  return adapter;
+}
+
+async function loadTranscript(
+  ctx: CommandContext,
+): Promise<{ adapter: AgentAdapter; transcript: unknown }> {
+  const content = await readInput(ctx);
+  const adapter = selectedAgent(ctx.options) ?? resolveAgent(content);
+  if (!adapter) throw new Error("could not detect the transcript format; use --agent");
+  return { adapter, transcript: adapter.parse(content) };
+}
+
+/** Writes `text`, or `value` as JSON with --json. */
+function print(ctx: CommandContext, value: unknown, text: string): void {
+  const out = ctx.options.json ? JSON.stringify(value, null, 2) : text;
+  if (out) ctx.io.stdout(out.endsWith("\n") ? out : out + "\n");
+}
+
+/** Writes to --output when given, otherwise to stdout. */
+function emit(ctx: CommandContext, content: string): void {
+  if (ctx.options.output) {
+    writeFileSync(ctx.options.output, content);
+  } else {
+    ctx.io.stdout(content.endsWith("\n") ? content : content + "\n");
+  }
+}
+
+function indent(text: string, prefix: string): string {
+  return text.replace(/\n/g, `\n${prefix}`);
+}
+
+/**
+ * Looks up Claude Code subagent transcripts (agent-<id>.jsonl) next to the
+ * session file and in its `<session>/subagents` directory, or in --subagents-dir.
+ */
+function subagentLoader(ctx: CommandContext): (agentId: string) => string | null {
+  const file = ctx.args[0];
+  let dirs: string[];
+  if (ctx.options["subagents-dir"]) {
+    dirs = [ctx.options["subagents-dir"]];
+  } else if (!isStdin(file)) {
+    dirs = [dirname(file), join(dirname(file), basename(file, ".jsonl"), "subagents")];
+  } else {
+    throw new UsageError("--include-subagents needs --subagents-dir when reading from stdin");
+  }
+
+  return (agentId) => {
+    for (const dir of dirs) {
+      const path = join(dir, `agent-${agentId}.jsonl`);
+      if (existsSync(path)) return readFileSync(path, "utf-8");
+    }
+    return null;
+  };
+}
+
+function formatTokenUsage(usage: TokenUsage, prefix = ""): string {
+  const rows: Array<[string, number]> = [
+    ["Input tokens", usage.inputTokens],
+    ["Cache creation tokens", usage.cacheCreationTokens],
+    ["Cache read tokens", usage.cacheReadTokens],
+    ["Output tokens", usage.outputTokens],
+    ["API calls", usage.apiCallCount],
+  ];
+  const lines = rows.map(([label, value]) => `${prefix}${label.padEnd(23)}${value}`);
+  if (usage.subagentTokens) {
+    lines.push("", `${prefix}Subagents`, formatTokenUsage(usage.subagentTokens, prefix + "  "));
+  }
+  return lines.join("\n");
+}
+
+function oneLine(text: string, max = 100): string {
+  const line = text.replace(/\s+/g, " ").trim();
+  return line.length > max ? line.slice(0, max - 1) + "…" : line;
+}
+
+function formatWatchEvent(event: WatchEvent): string {
+  switch (event.type) {
+    case WatchEventType.Prompt:
+      return `prompt       ${oneLine(event.prompt)}`;
+    case WatchEventType.ToolCall: {
+      const summary = toolCallSummary(event.input);
+      return `tool call    ${event.toolName}${summary ? ` ${oneLine(summary)}` : ""}`;
+    }
+    case WatchEventType.ToolResult:
+      return `tool result  ${event.toolName ?? event.toolUseId} ${event.isError ? "error" : "ok"}`;
+    case WatchEventType.FileModified:
+      return `modified     ${event.path}`;
+    case WatchEventType.TokenUsage:
+      return (
+        `tokens       +${event.delta.inputTokens} in, +${event.delta.outputTokens} out ` +
+        `(total ${event.total.inputTokens} in, ${event.total.outputTokens} out)`
+      );
+  }
+}
+
+/**
+ * Parses an ACP event log: JSONL or a JSON array of session update events,
+ * bare or wrapped in `session/update` notifications.
+ */
+function parseACPEventLog(content: string): { events: ACPSessionEvent[]; sessionId?: string } {
+  const trimmed = content.trim();
+  let records: unknown[];
+  if (trimmed.startsWith("[")) {
+    records = JSON.parse(trimmed) as unknown[];
+  } else {
+    records = [];
+    const lines = trimmed.split("\n");
+    for (let i = 0; i < lines.length; i++) {
+      if (!lines[i].trim()) continue;
+      try {
+        records.push(JSON.parse(lines[i]));
+      } catch {
+        throw new Error(`invalid JSON on line ${i + 1} of the event log`);
+      }
+    }
+  }
+
+  const events: ACPSessionEvent[] = [];
+  let sessionId: string | undefined;
+  for (const record of records) {
+    if (!record || typeof record !== "object") continue;
+    const r = record as {
+      sessionUpdate?: unknown;
+      sessionId?: string;
+      update?: ACPSessionEvent;
+      params?: { sessionId?: string; update?: ACPSessionEvent };
+    };
+    const container = r.params ?? r;
+    const event = typeof r.sessionUpdate === "string" ? (r as ACPSessionEvent) : container.update;
+    if (!event || typeof event.sessionUpdate !== "string") continue;
+    events.push(event);
+    sessionId ??= container.sessionId;
+  }
+
+  return { events, sessionId };
+}
+
+// ── Commands ─────────────────────────────────────────────────────
+
+const COMMANDS: Record<string, Command> = {
+  files: {
+    summary: "List files modified in the session",
+    async run(ctx) {
+      const { adapter, transcript } = await loadTranscript(ctx);
+      const files = adapter.extractModifiedFiles(transcript);
+      print(ctx, files, files.join("\n"));
+    },
+  },
+
+  prompts: {
+    summary: "List the user prompts",
+    async run(ctx) {
+      const { adapter, transcript } = await loadTranscript(ctx);
+      const prompts = adapter.extractAllUserPrompts(transcript);
+      print(
+        ctx,
+        prompts,
+        prompts.map((prompt, i) => `${i + 1}. ${indent(prompt, "   ")}`).join("\n"),
+      );
+    },
+  },
+
+  tokens: {
+    summary: "Show token usage (--include-subagents for Claude Code subagents)",
+    async run(ctx) {
+      const { adapter, transcript } = await loadTranscript(ctx);
+      let usage: TokenUsage;
+      if (ctx.options["include-subagents"]) {
+        if (adapter.name !== "claude-code") {
+          throw new UsageError("--include-subagents is only supported for Claude Code transcripts");
+        }
+        usage = claude.calculateTotalTokenUsage(
+          transcript as claude.TranscriptLine[],
+          subagentLoader(ctx),
+        );
+      } else if (adapter.calculateTokenUsage) {
+        usage = adapter.calculateTokenUsage(transcript);
+      } else {
+        throw new UsageError(`token usage is not available for ${adapter.type} transcripts`);
+      }
+      print(ctx, usage, formatTokenUsage(usage));
+    },
+  },
+
+  pairs: {
+    summary: "Show each prompt with its responses and modified files",
+    async run(ctx) {
+      const { adapter, transcript } = await loadTranscript(ctx);
+      const pairs = adapter.extractAllPromptResponses(transcript);
+      const blocks = pairs.map((pair, i) => {
+        const parts = [`## Prompt ${i + 1}`, pair.prompt, ...pair.responses];
+        if (pair.files.length > 0) {
+          parts.push(["Files modified:", ...pair.files.map((f) => `- ${f}`)].join("\n"));
+        }
+        return parts.join("\n\n");
+      });
+      print(ctx, pairs, blocks.join("\n\n"));
+    },
+  },
+
+  watch: {
+    summary: "Follow a transcript and print events as they are written (--from-end)",
+    async run(ctx) {
+      const file = ctx.args[0];
+      if (isStdin(file)) throw new UsageError("watch needs a transcript file");
+
+      const adapter = selectedAgent(ctx.options);
+      if (adapter && adapter.name !== "claude-code" && adapter.name !== "gemini") {
+        throw new UsageError("watch supports Claude Code and Gemini CLI transcripts");
+      }
+
+      await new Promise<void>((done) => {
+        const watcher = watchTranscript(file, {
+          agent: adapter?.name as "claude-code" | "gemini" | undefined,
+          fromEnd: ctx.options["from-end"],
+          onEvent: (event) => {
+            ctx.io.stdout((ctx.options.json ? JSON.stringify(event) : formatWatchEvent(event)) + "\n");
+          },
+          onError: (err) => ctx.io.stderr(`${PROGRAM}: ${err.message}\n`),
+        });
+
+        const stop = (): void => {
+          watcher.close();
+          done();
+        };
+        if (ctx.io.signal?.aborted) stop();
+        else ctx.io.signal?.addEventListener("abort", stop, { once: true });
+      });
+    },
+  },
+
+  chunk: {
+    summary: "Split a transcript into chunk files (--out-dir, --max-size)",
+    async run(ctx) {
+      const outDir = ctx.options["out-dir"];
+      if (!outDir) throw new UsageError("chunk needs --out-dir");
+
+      const file = ctx.args[0];
+      // The first chunk takes the transcript's own name
+      if (!isStdin(file) && resolve(outDir) === resolve(dirname(file))) {
+        throw new UsageError("--out-dir must differ from the transcript's directory");
+      }
+
+      let maxSize = MAX_CHUNK_SIZE;
+      if (ctx.options["max-size"] !== undefined) {
+        maxSize = Number(ctx.options["max-size"]);
+        if (!Number.isInteger(maxSize) || maxSize <= 0) {
+          throw new UsageError(`invalid --max-size "${ctx.options["max-size"]}"`);
+        }
+      }
+
+      const content = await readInput(ctx);
+      const chunks = chunkTranscript(content, selectedAgent(ctx.options)?.type, maxSize);
+      const baseName = isStdin(file) ? "transcript" : basename(file);
+
+      mkdirSync(outDir, { recursive: true });
+      const paths = chunks.map((chunk, i) => {
+        const path = join(outDir, chunkFileName(baseName, i));
+        writeFileSync(path, chunk);
+        return path;
+      });
+      print(ctx, paths, paths.join("\n"));
+    },
+  },
+
+  reassemble: {
+    summary: "Join chunk files back into one transcript (-o to write a file)",
+    async run(ctx) {
+      if (ctx.args.length === 0) throw new UsageError("reassemble needs the chunk files");
+
+      // The base file is the one without a chunk suffix, i.e. the shortest name
+      const baseName = ctx.args.reduce((a, b) => (b.length < a.length ? b : a));
+      for (const file of ctx.args) {
+        if (parseChunkIndex(file, baseName) < 0) {
+          throw new UsageError(`${file} is not a chunk of ${baseName}`);
+        }
+      }
+
+      const chunks = sortChunkFiles(ctx.args, baseName).map((file) => readFileSync(file, "utf-8"));
+      emit(ctx, reassembleTranscript(chunks, selectedAgent(ctx.options)?.type));
+    },
+  },
+
+  convert: {
+    summary: "Convert an ACP event log (--to session|claude|gemini|markdown|html)",
+    async run(ctx) {
+      const { events, sessionId } = parseACPEventLog(await readInput(ctx));
+      const file = ctx.args[0];
+      const id =
+        ctx.options["session-id"] ??
+        sessionId ??
+        (isStdin(file) ? "session" : basename(file).replace(/\.[^.]*$/, ""));
+      const session: AgentSession = convertACPEventsToSession(
+        events,
+        id,
+        selectedAgent(ctx.options)?.name,
+      );
+
+      switch (ctx.options.to ?? "session") {
+        case "session":
+          return emit(ctx, JSON.stringify(session, null, 2));
+        case "claude":
+          return emit(ctx, claude.serializeTranscript(convertSessionToClaudeTranscript(session)));
+        case "gemini":
+          return emit(ctx, gemini.serializeTranscript(convertSessionToGeminiTranscript(session)));
+        case "markdown":
+          return emit(ctx, renderSessionMarkdown(session));
+        case "html":
+          return emit(ctx, renderSessionHTML(session));
+        default:
+          throw new UsageError(`unknown --to format "${ctx.options.to}"`);
+      }
+    },
+  },
+};
+
+function usage(): string {
+  const commands = Object.entries(COMMANDS)
+    .map(([name, command]) => `  ${name.padEnd(12)}${command.summary}`)
+    .join("\n");
+  const agents = listAgents().map((a) => a.name).join(", ");
+
+  return `Usage: ${PROGRAM} <command> [file] [options]
+
+Reads the transcript from file, or from stdin when file is omitted or "-".
+The format is detected automatically; use --agent to override it.
+
+Commands:
+${commands}
+
+Options:
+  --json                 Print JSON
+  -a, --agent <name>     Transcript format (${agents})
+  --include-subagents    tokens: include Claude Code subagent transcripts
+  --subagents-dir <dir>  tokens: directory with agent-<id>.jsonl files
+  --out-dir <dir>        chunk: directory for the chunk files
+  --max-size <bytes>     chunk: maximum chunk size (default ${MAX_CHUNK_SIZE})
+  -o, --output <file>    reassemble, convert: write to a file instead of stdout
+  --to <format>          convert: session (default), claude, gemini, markdown, html
+  --session-id <id>      convert: session ID (default: from the log or file name)
+  --from-end             watch: only report content written from now on
+  -h, --help             Show this help
+`;
+}
+
+// ── Entry point ──────────────────────────────────────────────────
+
+/**
+ * Runs the CLI and returns the exit code: 0 on success, 1 on errors,
+ * 2 on bad arguments.
+ *
+ * @param argv - Arguments after the program name
+ * @param io - Streams to use (defaults to the process's)
+ */
+export async function runCLI(argv: string[], io: CLIIO = defaultIO()): Promise<number> {
+  let options: CLIOptions;
+  let positionals: string[];
+  try {
+    ({ values: options, positionals } = parseArgs({
+      args: argv,
+      options: OPTIONS,
+      allowPositionals: true,
+    }));
+  } catch (err) {
+    io.stderr(`${PROGRAM}: ${(err as Error).message}\n`);
+    return 2;
+  }
+
+  const [name, ...args] = positionals;
+  if (options.help || !name) {
+    (options.help ? io.stdout : io.stderr)(usage());
+    return options.help ? 0 : 2;
+  }
+
+  const command = COMMANDS[name];
+  if (!command) {
+    io.stderr(`${PROGRAM}: unknown command "${name}"\nRun "${PROGRAM} --help" for usage.\n`);
+    return 2;
+  }
+
+  try {
+    await command.run({ args, options, io });
+    return 0;
+  } catch (err) {
+    io.stderr(`${PROGRAM}: ${(err as Error).message}\n`);
+    if (err instanceof UsageError) {
+      io.stderr(`Run "${PROGRAM} --help" for usage.\n`);
+      return 2;
+    }
+    return 1;
+  }
+}
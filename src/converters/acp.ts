@@ -121,12 +121,14 @@ export function convertACPEventToEntry(
     case "agent_thought_chunk": {
       const text = extractTextContent(event.content);
       if (!text) return null;
-      return {
+      const entry: SessionEntry = {
         uuid: generateUUID(),
         type: EntryType.Assistant,
         timestamp: new Date(),
         content: text,
       };
+      if (updateType === "agent_thought_chunk") entry.isThinking = true;
+      return entry;
     }
 
     case "user_message_chunk": {
@@ -170,7 +172,10 @@ export function convertACPEventToEntry(
       if (Array.isArray(contentBlocks)) {
         existing.toolOutput = extractContentBlocks(contentBlocks);
       }
-      if (event.status === "failed") {
+      if (event.status === "completed") {
+        existing.toolStatus = "success";
+      } else if (event.status === "failed") {
+        existing.toolStatus = "error";
         existing.toolOutput = existing.toolOutput ?? "Tool call failed";
       }
 
@@ -0,0 +1,133 @@
+// ============================================================================
+// Aider chat history → AgentSession converter.
+//
+// Converts a parsed .aider.chat.history.md into the agent-session-parser's
+// AgentSession / SessionEntry format. Aider records no tool calls; the
+// SEARCH/REPLACE edit blocks in assistant replies become tool entries.
+// ============================================================================
+
+import {
+  EntryType,
+  type AgentSession,
+  type SessionEntry,
+} from "../types.js";
+import {
+  type AiderTranscript,
+  type AiderMessage,
+  MessageType,
+} from "../parsers/aider/types.js";
+import { extractModifiedFiles } from "../parsers/aider/extract.js";
+
+/** Tool name of the entries made from SEARCH/REPLACE edit blocks. */
+const EDIT_BLOCK_TOOL = "search_replace";
+
+/** Options for convertAiderHistoryToSession. */
+export interface AiderSessionOptions {
+  /** Session ID (chat histories don't record one; defaults to "") */
+  sessionId?: string;
+  /** Session reference, e.g. the history path (defaults to the session ID) */
+  sessionRef?: string;
+  /** Repository path (the history file lives in the repository root) */
+  repoPath?: string;
+  /** Raw chat history to keep in `nativeData` */
+  nativeData?: string | Uint8Array;
+}
+
+// ── Helpers ──────────────────────────────────────────────────────
+
+/** Parses the `# aider chat started at` time (local time, "YYYY-MM-DD HH:MM:SS"). */
+function parseStartedAt(value: string | undefined): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value.replace(" ", "T"));
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+// ── Batch converter ──────────────────────────────────────────────
+
+/**
+ * Convert a parsed Aider chat history into an AgentSession.
+ *
+ * Emits a user entry per user message, an assistant entry per assistant
+ * reply followed by one tool entry per edit block, and a system entry per
+ * run of tool output. Modified files match extractModifiedFiles; the start
+ * time comes from the first `# aider chat started at` header.
+ *
+ * @param transcript - Parsed Aider transcript
+ * @param options - Session metadata and optional raw history
+ */
+export function convertAiderHistoryToSession(
+  transcript: AiderTranscript,
+  options: AiderSessionOptions = {},
+): AgentSession {
+  const entries: SessionEntry[] = [];
+  transcript.messages.forEach((msg, index) => {
+    entries.push(...convertAiderMessageToEntries(msg, index));
+  });
+
+  const sessionId = options.sessionId ?? "";
+  const session: AgentSession = {
+    sessionId,
+    agentName: "aider",
+    repoPath: options.repoPath,
+    sessionRef: options.sessionRef ?? sessionId,
+    startTime: parseStartedAt(transcript.messages[0]?.sessionStartedAt),
+    modifiedFiles: extractModifiedFiles(transcript),
+    entries,
+  };
+
+  if (options.nativeData !== undefined) {
+    session.nativeData =
+      typeof options.nativeData === "string"
+        ? new TextEncoder().encode(options.nativeData)
+        : options.nativeData;
+  }
+
+  return session;
+}
+
+// ── Single-message converter ─────────────────────────────────────
+
+/**
+ * Convert a single Aider message into zero or more SessionEntries.
+ *
+ * Entries carry the start time of their chat, since Aider doesn't time
+ * individual messages.
+ *
+ * @param msg - Aider message
+ * @param index - Message index, used for the entry UUIDs
+ */
+export function convertAiderMessageToEntries(
+  msg: AiderMessage,
+  index: number = 0,
+): SessionEntry[] {
+  const uuid = `message_${index}`;
+  const timestamp = parseStartedAt(msg.sessionStartedAt);
+
+  switch (msg.type) {
+    case MessageType.User:
+      return [{ uuid, type: EntryType.User, timestamp, content: msg.content }];
+
+    case MessageType.Assistant: {
+      const entries: SessionEntry[] = [
+        { uuid, type: EntryType.Assistant, timestamp, content: msg.content },
+      ];
+
+      for (const [i, block] of (msg.editBlocks ?? []).entries()) {
+        entries.push({
+          uuid: `${uuid}_edit_${i}`,
+          type: EntryType.Tool,
+          timestamp,
+          content: `Edit: ${block.file}`,
+          toolName: EDIT_BLOCK_TOOL,
+          toolInput: { file: block.file, search: block.search, replace: block.replace },
+          filesAffected: [block.file],
+        });
+      }
+
+      return entries;
+    }
+
+    default:
+      return [{ uuid, type: EntryType.System, timestamp, content: msg.content }];
+  }
+}
@@ -0,0 +1,416 @@
+// ============================================================================
+// Claude Code transcript ↔ AgentSession converter.
+//
+// Converts parsed Claude Code JSONL lines into the agent-session-parser's
+// AgentSession / SessionEntry format, pairing tool_use blocks with the
+// tool_result blocks that answer them, and writes sessions back out as
+// Claude Code transcript lines.
+// ============================================================================
+
+import {
+  EntryType,
+  type AgentSession,
+  type SessionEntry,
+} from "../types.js";
+import { extractUserContent } from "../parsers/claude/parse.js";
+import {
+  type TranscriptLine,
+  type AssistantMessage,
+  type UserMessage,
+  type ContentBlock,
+  type ToolInput,
+  ContentType,
+  FileModificationTools,
+  MessageType,
+} from "../parsers/claude/types.js";
+
+/** Options for convertClaudeTranscriptToSession. */
+export interface ClaudeSessionOptions {
+  /** Session ID (defaults to the `sessionId` of the first line that has one) */
+  sessionId?: string;
+  /** Session reference, e.g. the transcript path (defaults to the session ID) */
+  sessionRef?: string;
+  /** Repository path (defaults to the `cwd` of the first line that has one) */
+  repoPath?: string;
+  /** Raw transcript to keep in `nativeData` */
+  nativeData?: string | Uint8Array;
+}
+
+// ── Helpers ──────────────────────────────────────────────────────
+
+/** Prefix of system entries converted from summary lines. */
+const SUMMARY_PREFIX = "[Summary] ";
+
+function parseTimestamp(value: string | undefined): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+function toolResultText(content: ContentBlock["content"]): string {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+
+  const texts: string[] = [];
+  for (const block of content) {
+    if (block.type === ContentType.Text && block.text) texts.push(block.text);
+  }
+  return texts.join("\n");
+}
+
+function extractFilesFromToolInput(
+  toolName: string,
+  input: unknown,
+): string[] | undefined {
+  if (!FileModificationTools.includes(toolName as (typeof FileModificationTools)[number])) {
+    return undefined;
+  }
+  if (!input || typeof input !== "object") return undefined;
+
+  const file = (input as ToolInput).file_path || (input as ToolInput).notebook_path;
+  return file ? [file] : undefined;
+}
+
+// ── Batch converter ──────────────────────────────────────────────
+
+/**
+ * Convert a parsed Claude Code transcript into an AgentSession.
+ *
+ * Emits user, assistant, tool and system entries in transcript order with
+ * the timestamps recorded on each line. tool_result blocks don't produce
+ * entries of their own; they fill in `toolOutput` on the matching tool entry.
+ *
+ * @param lines - Parsed transcript lines
+ * @param options - Session metadata overrides and optional raw transcript
+ */
+export function convertClaudeTranscriptToSession(
+  lines: TranscriptLine[],
+  options: ClaudeSessionOptions = {},
+): AgentSession {
+  const entries: SessionEntry[] = [];
+  const toolEntries = new Map<string, SessionEntry>();
+  const modifiedFiles: string[] = [];
+
+  for (const line of lines) {
+    for (const entry of convertClaudeLineToEntries(line, toolEntries)) {
+      entries.push(entry);
+
+      if (entry.filesAffected) {
+        for (const file of entry.filesAffected) {
+          if (!modifiedFiles.includes(file)) {
+            modifiedFiles.push(file);
+          }
+        }
+      }
+    }
+  }
+
+  const sessionId =
+    options.sessionId ?? lines.find((l) => l.sessionId)?.sessionId ?? "";
+  const repoPath = options.repoPath ?? lines.find((l) => l.cwd)?.cwd;
+
+  let startTime: Date | undefined;
+  for (const entry of entries) {
+    if (entry.timestamp && (!startTime || entry.timestamp < startTime)) {
+      startTime = entry.timestamp;
+    }
+  }
+
+  const session: AgentSession = {
+    sessionId,
+    agentName: "claude-code",
+    repoPath,
+    sessionRef: options.sessionRef ?? sessionId,
+    startTime,
+    modifiedFiles,
+    entries,
+  };
+
+  if (options.nativeData !== undefined) {
+    session.nativeData =
+      typeof options.nativeData === "string"
+        ? new TextEncoder().encode(options.nativeData)
+        : options.nativeData;
+  }
+
+  return session;
+}
+
+// ── Single-line converter ────────────────────────────────────────
+
+/**
+ * Convert a single transcript line into zero or more SessionEntries.
+ *
+ * An assistant line yields a thinking entry for its thinking blocks (if any),
+ * an assistant entry for its text (if any) and one tool entry per tool_use
+ * block. A user line yields a user entry for its
+ * prompt text; its tool_result blocks update entries in `toolEntries`
+ * in-place instead.
+ *
+ * @param line - Transcript line
+ * @param toolEntries - Map of tool_use ID → SessionEntry for pairing results with calls
+ */
+export function convertClaudeLineToEntries(
+  line: TranscriptLine,
+  toolEntries: Map<string, SessionEntry> = new Map(),
+): SessionEntry[] {
+  const timestamp = parseTimestamp(line.timestamp);
+
+  switch (line.type) {
+    case MessageType.User: {
+      const msg = line.message as UserMessage;
+      if (Array.isArray(msg?.content)) {
+        for (const block of msg.content) {
+          if (block.type !== ContentType.ToolResult || !block.tool_use_id) continue;
+
+          const existing = toolEntries.get(block.tool_use_id);
+          if (!existing) continue;
+          existing.toolOutput = toolResultText(block.content);
+          existing.toolStatus = block.is_error ? "error" : "success";
+          if (block.is_error) {
+            existing.toolOutput = existing.toolOutput || "Tool call failed";
+          }
+        }
+      }
+
+      const content = extractUserContent(line.message);
+      if (!content) return [];
+      return [{ uuid: line.uuid, type: EntryType.User, timestamp, content }];
+    }
+
+    case MessageType.Assistant: {
+      const msg = line.message as AssistantMessage;
+      if (!Array.isArray(msg?.content)) return [];
+
+      const entries: SessionEntry[] = [];
+      const texts: string[] = [];
+      const thoughts: string[] = [];
+
+      for (const block of msg.content) {
+        if (block.type === ContentType.Text && block.text) {
+          texts.push(block.text);
+        } else if (block.type === ContentType.Thinking && block.thinking) {
+          thoughts.push(block.thinking);
+        } else if (block.type === ContentType.ToolUse && block.name) {
+          const toolUseId = block.id ?? `${line.uuid}_${entries.length}`;
+          const entry: SessionEntry = {
+            uuid: toolUseId,
+            type: EntryType.Tool,
+            timestamp,
+            content: `Tool call: ${block.name}`,
+            toolName: block.name,
+            toolInput: block.input,
+            filesAffected: extractFilesFromToolInput(block.name, block.input),
+          };
+          toolEntries.set(toolUseId, entry);
+          entries.push(entry);
+        }
+      }
+
+      if (texts.length > 0) {
+        entries.unshift({
+          uuid: line.uuid,
+          type: EntryType.Assistant,
+          timestamp,
+          content: texts.join("\n\n"),
+        });
+      }
+      if (thoughts.length > 0) {
+        entries.unshift({
+          uuid: `${line.uuid}_thinking`,
+          type: EntryType.Assistant,
+          timestamp,
+          content: thoughts.join("\n\n"),
+          isThinking: true,
+        });
+      }
+
+      return entries;
+    }
+
+    case MessageType.System: {
+      if (!line.content) return [];
+      return [{ uuid: line.uuid, type: EntryType.System, timestamp, content: line.content }];
+    }
+
+    case MessageType.Summary: {
+      if (!line.summary) return [];
+      return [
+        {
+          uuid: line.uuid ?? "",
+          type: EntryType.System,
+          timestamp,
+          content: `${SUMMARY_PREFIX}${line.summary}`,
+        },
+      ];
+    }
+
+    default:
+      return [];
+  }
+}
+
+// ── Writer ───────────────────────────────────────────────────────
+
+/** Options for convertSessionToClaudeTranscript. */
+export interface ClaudeTranscriptWriteOptions {
+  /** Generates line UUIDs for lines that have no entry UUID to reuse */
+  generateId?: () => string;
+  /** Model recorded on assistant messages */
+  model?: string;
+}
+
+function toolOutputText(output: unknown): string {
+  if (output === undefined || output === null) return "";
+  if (typeof output === "string") return output;
+  return JSON.stringify(output);
+}
+
+/**
+ * Convert an AgentSession into Claude Code transcript lines.
+ *
+ * Each run of assistant thinking and text followed by tool calls becomes one
+ * assistant line with its own message id; the tool results follow in a
+ * single user line with matching tool_result blocks. Lines are chained
+ * through parentUuid. Other entry types become system lines. Serialize the
+ * result with `serializeTranscript`.
+ *
+ * @param session - Session to convert
+ * @param options - ID generator and model overrides
+ */
+export function convertSessionToClaudeTranscript(
+  session: AgentSession,
+  options: ClaudeTranscriptWriteOptions = {},
+): TranscriptLine[] {
+  let counter = 0;
+  const generateId =
+    options.generateId ?? (() => `${session.sessionId || "session"}_${(counter++).toString(36)}`);
+
+  const lines: TranscriptLine[] = [];
+  const usedIds = new Set<string>();
+  let parentUuid: string | null = null;
+  let messageCount = 0;
+
+  const lineId = (preferred: string | undefined): string => {
+    const id = preferred && !usedIds.has(preferred) ? preferred : generateId();
+    usedIds.add(id);
+    return id;
+  };
+
+  const push = (
+    type: string,
+    uuid: string,
+    timestamp: Date | undefined,
+    fields: Partial<TranscriptLine>,
+  ): void => {
+    lines.push({
+      type,
+      uuid,
+      parentUuid,
+      timestamp: timestamp?.toISOString(),
+      sessionId: session.sessionId || undefined,
+      cwd: session.repoPath,
+      message: undefined,
+      ...fields,
+    });
+    parentUuid = uuid;
+  };
+
+  const entries = session.entries ?? [];
+  let i = 0;
+
+  while (i < entries.length) {
+    const entry = entries[i];
+
+    if (entry.type === EntryType.User) {
+      push(MessageType.User, lineId(entry.uuid), entry.timestamp, {
+        message: { role: "user", content: entry.content },
+      });
+      i++;
+      continue;
+    }
+
+    // System entries, and entries of unknown types from untyped callers
+    if (entry.type !== EntryType.Assistant && entry.type !== EntryType.Tool && !entry.isThinking) {
+      const uuid = lineId(entry.uuid);
+      if (entry.content.startsWith(SUMMARY_PREFIX)) {
+        // Summary lines sit outside the parentUuid chain
+        lines.push({
+          type: MessageType.Summary,
+          uuid,
+          message: undefined,
+          summary: entry.content.slice(SUMMARY_PREFIX.length),
+        });
+      } else {
+        push(MessageType.System, uuid, entry.timestamp, { content: entry.content });
+      }
+      i++;
+      continue;
+    }
+
+    // Thinking and text (both optional) followed by the tool calls made
+    const thinking: SessionEntry[] = [];
+    while (i < entries.length && entries[i].isThinking) {
+      thinking.push(entries[i]);
+      i++;
+    }
+
+    const textEntry =
+      i < entries.length && entries[i].type === EntryType.Assistant ? entries[i] : undefined;
+    if (textEntry) i++;
+
+    const tools: SessionEntry[] = [];
+    while (i < entries.length && entries[i].type === EntryType.Tool) {
+      tools.push(entries[i]);
+      i++;
+    }
+
+    const content: ContentBlock[] = thinking.map((t) => ({
+      type: ContentType.Thinking,
+      thinking: t.content,
+    }));
+    if (textEntry) {
+      content.push({ type: ContentType.Text, text: textEntry.content });
+    }
+
+    const toolUseIds = tools.map((tool) => lineId(tool.uuid));
+    tools.forEach((tool, t) => {
+      content.push({
+        type: ContentType.ToolUse,
+        id: toolUseIds[t],
+        name: tool.toolName ?? "unknown",
+        input: tool.toolInput ?? {},
+      });
+    });
+
+    const first = thinking[0] ?? textEntry ?? tools[0];
+    messageCount++;
+    push(MessageType.Assistant, lineId(textEntry?.uuid), first.timestamp, {
+      message: {
+        id: `msg_${session.sessionId || "session"}_${messageCount}`,
+        type: "message",
+        role: "assistant",
+        ...(options.model ? { model: options.model } : {}),
+        content,
+      },
+    });
+
+    if (tools.length > 0) {
+      const results: ContentBlock[] = tools.map((tool, t) => {
+        const block: ContentBlock = {
+          type: ContentType.ToolResult,
+          tool_use_id: toolUseIds[t],
+          content: toolOutputText(tool.toolOutput),
+        };
+        if (tool.toolStatus === "error") block.is_error = true;
+        return block;
+      });
+
+      push(MessageType.User, lineId(undefined), tools[tools.length - 1].timestamp, {
+        message: { role: "user", content: results },
+      });
+    }
+  }
+
+  return lines;
+}
@@ -0,0 +1,352 @@
+// ============================================================================
+// Gemini CLI transcript ↔ AgentSession converter.
+//
+// Converts a parsed Gemini CLI session file into the agent-session-parser's
+// AgentSession / SessionEntry format, and writes sessions back out as Gemini
+// session files. Gemini records each tool call together with its result, so
+// no pairing across messages is needed.
+// ============================================================================
+
+import {
+  EntryType,
+  type AgentSession,
+  type SessionEntry,
+} from "../types.js";
+import {
+  type GeminiTranscript,
+  type GeminiMessage,
+  type GeminiToolCall,
+  type GeminiThought,
+  FileModificationTools,
+  MessageType,
+  ToolCallStatus,
+} from "../parsers/gemini/types.js";
+
+/** Options for convertGeminiTranscriptToSession. */
+export interface GeminiSessionOptions {
+  /** Session ID (defaults to the transcript's `sessionId`) */
+  sessionId?: string;
+  /** Session reference, e.g. the transcript path (defaults to the session ID) */
+  sessionRef?: string;
+  /** Repository path (Gemini session files don't record one) */
+  repoPath?: string;
+  /** Raw transcript to keep in `nativeData` */
+  nativeData?: string | Uint8Array;
+}
+
+// ── Helpers ──────────────────────────────────────────────────────
+
+function parseTimestamp(value: string | undefined): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+function toolResultText(toolCall: GeminiToolCall): unknown {
+  if (Array.isArray(toolCall.result)) {
+    const outputs: unknown[] = [];
+    for (const part of toolCall.result) {
+      const response = part.functionResponse?.response;
+      if (!response) continue;
+      const output = response.output ?? response.error;
+      if (output !== undefined) outputs.push(output);
+    }
+    if (outputs.length === 1) return outputs[0];
+    if (outputs.length > 1) return outputs;
+  }
+
+  if (typeof toolCall.resultDisplay === "string") return toolCall.resultDisplay;
+  return undefined;
+}
+
+function extractFilesFromToolCall(toolCall: GeminiToolCall): string[] | undefined {
+  if (
+    !FileModificationTools.includes(
+      toolCall.name as (typeof FileModificationTools)[number]
+    )
+  ) {
+    return undefined;
+  }
+
+  const args = toolCall.args ?? {};
+  const file =
+    (args.file_path as string) ||
+    (args.path as string) ||
+    (args.filename as string) ||
+    "";
+  return file ? [file] : undefined;
+}
+
+// ── Batch converter ──────────────────────────────────────────────
+
+/**
+ * Convert a parsed Gemini CLI transcript into an AgentSession.
+ *
+ * Emits a user entry per user message, an assistant entry per gemini message
+ * with text, and one tool entry per tool call carrying its args, status and
+ * result. Session ID and start time come from the file's top-level fields.
+ *
+ * @param transcript - Parsed Gemini transcript
+ * @param options - Session metadata overrides and optional raw transcript
+ */
+export function convertGeminiTranscriptToSession(
+  transcript: GeminiTranscript,
+  options: GeminiSessionOptions = {},
+): AgentSession {
+  const entries: SessionEntry[] = [];
+  const modifiedFiles: string[] = [];
+
+  transcript.messages.forEach((msg, index) => {
+    for (const entry of convertGeminiMessageToEntries(msg, index)) {
+      entries.push(entry);
+
+      if (entry.filesAffected) {
+        for (const file of entry.filesAffected) {
+          if (!modifiedFiles.includes(file)) {
+            modifiedFiles.push(file);
+          }
+        }
+      }
+    }
+  });
+
+  const sessionId = options.sessionId ?? transcript.sessionId ?? "";
+
+  let startTime = parseTimestamp(transcript.startTime);
+  if (!startTime) {
+    for (const entry of entries) {
+      if (entry.timestamp && (!startTime || entry.timestamp < startTime)) {
+        startTime = entry.timestamp;
+      }
+    }
+  }
+
+  const session: AgentSession = {
+    sessionId,
+    agentName: "gemini",
+    repoPath: options.repoPath,
+    sessionRef: options.sessionRef ?? sessionId,
+    startTime,
+    modifiedFiles,
+    entries,
+  };
+
+  if (options.nativeData !== undefined) {
+    session.nativeData =
+      typeof options.nativeData === "string"
+        ? new TextEncoder().encode(options.nativeData)
+        : options.nativeData;
+  }
+
+  return session;
+}
+
+// ── Single-message converter ─────────────────────────────────────
+
+/**
+ * Convert a single Gemini message into zero or more SessionEntries.
+ *
+ * A gemini message yields a thinking entry per recorded thought, an assistant
+ * entry for its text (if any) and one tool entry per tool call. Messages of
+ * other types (info, error, warning) become system entries.
+ *
+ * @param msg - Gemini message
+ * @param index - Message index, used for the entry UUID when the message has no ID
+ */
+export function convertGeminiMessageToEntries(
+  msg: GeminiMessage,
+  index: number = 0,
+): SessionEntry[] {
+  const uuid = msg.id ?? `message_${index}`;
+  const timestamp = parseTimestamp(msg.timestamp);
+
+  switch (msg.type) {
+    case MessageType.User: {
+      if (!msg.content) return [];
+      return [{ uuid, type: EntryType.User, timestamp, content: msg.content }];
+    }
+
+    case MessageType.Gemini: {
+      const entries: SessionEntry[] = [];
+
+      for (const [i, thought] of (msg.thoughts ?? []).entries()) {
+        const content = [thought.subject, thought.description].filter(Boolean).join("\n\n");
+        if (!content) continue;
+        entries.push({
+          uuid: `${uuid}_thought_${i}`,
+          type: EntryType.Assistant,
+          timestamp: parseTimestamp(thought.timestamp) ?? timestamp,
+          content,
+          isThinking: true,
+        });
+      }
+
+      if (msg.content) {
+        entries.push({
+          uuid,
+          type: EntryType.Assistant,
+          timestamp,
+          content: msg.content,
+        });
+      }
+
+      for (const [i, toolCall] of (msg.toolCalls ?? []).entries()) {
+        let toolOutput = toolResultText(toolCall);
+        if (toolCall.status === ToolCallStatus.Error) {
+          toolOutput = toolOutput ?? "Tool call failed";
+        }
+
+        entries.push({
+          uuid: toolCall.id || `${uuid}_${i}`,
+          type: EntryType.Tool,
+          timestamp: parseTimestamp(toolCall.timestamp) ?? timestamp,
+          content: `Tool call: ${toolCall.name}`,
+          toolName: toolCall.name,
+          toolInput: toolCall.args,
+          toolOutput,
+          toolStatus: toolCall.status,
+          filesAffected: extractFilesFromToolCall(toolCall),
+        });
+      }
+
+      return entries;
+    }
+
+    default: {
+      if (!msg.content) return [];
+      return [{ uuid, type: EntryType.System, timestamp, content: msg.content }];
+    }
+  }
+}
+
+// ── Writer ───────────────────────────────────────────────────────
+
+/**
+ * Convert an AgentSession into a Gemini CLI transcript.
+ *
+ * Each run of assistant thinking and text followed by tool calls becomes one
+ * gemini message; tool results are recorded on the tool calls as
+ * functionResponse parts. Other entry types become info messages. Tool
+ * calls that changed files under another agent's tool names are written as
+ * write_file or replace calls. Serialize the result with `serializeTranscript`.
+ *
+ * @param session - Session to convert
+ */
+export function convertSessionToGeminiTranscript(
+  session: AgentSession,
+): GeminiTranscript {
+  const messages: GeminiMessage[] = [];
+  const entries = session.entries ?? [];
+  let lastTimestamp: Date | undefined;
+  let i = 0;
+
+  const messageId = (preferred: string | undefined): string =>
+    preferred || `${session.sessionId || "session"}_${messages.length}`;
+
+  while (i < entries.length) {
+    const entry = entries[i];
+    lastTimestamp = latest(lastTimestamp, entry.timestamp);
+
+    // User and system entries, and entries of unknown types from untyped callers
+    if (entry.type !== EntryType.Assistant && entry.type !== EntryType.Tool && !entry.isThinking) {
+      messages.push({
+        id: messageId(entry.uuid),
+        timestamp: entry.timestamp?.toISOString(),
+        type: entry.type === EntryType.User ? MessageType.User : "info",
+        content: entry.content,
+      });
+      i++;
+      continue;
+    }
+
+    // Thinking and text (both optional) followed by the tool calls made
+    const thoughts: GeminiThought[] = [];
+    while (i < entries.length && entries[i].isThinking) {
+      const thought = entries[i];
+      lastTimestamp = latest(lastTimestamp, thought.timestamp);
+      thoughts.push({ description: thought.content, timestamp: thought.timestamp?.toISOString() });
+      i++;
+    }
+
+    const textEntry =
+      i < entries.length && entries[i].type === EntryType.Assistant ? entries[i] : undefined;
+    if (textEntry) {
+      lastTimestamp = latest(lastTimestamp, textEntry.timestamp);
+      i++;
+    }
+
+    const toolCalls: GeminiToolCall[] = [];
+    while (i < entries.length && entries[i].type === EntryType.Tool) {
+      const tool = entries[i];
+      lastTimestamp = latest(lastTimestamp, tool.timestamp);
+      toolCalls.push(convertToolEntryToToolCall(tool));
+      i++;
+    }
+
+    const first = textEntry ?? entry;
+    const msg: GeminiMessage = {
+      id: messageId(textEntry?.uuid),
+      timestamp: first.timestamp?.toISOString(),
+      type: MessageType.Gemini,
+      content: textEntry?.content ?? "",
+    };
+    if (thoughts.length > 0) msg.thoughts = thoughts;
+    if (toolCalls.length > 0) msg.toolCalls = toolCalls;
+    messages.push(msg);
+  }
+
+  const transcript: GeminiTranscript = { messages };
+  if (session.sessionId) transcript.sessionId = session.sessionId;
+  const startTime = session.startTime ?? entries.find((e) => e.timestamp)?.timestamp;
+  if (startTime) transcript.startTime = startTime.toISOString();
+  if (lastTimestamp) transcript.lastUpdated = lastTimestamp.toISOString();
+
+  return transcript;
+}
+
+function latest(a: Date | undefined, b: Date | undefined): Date | undefined {
+  if (!a) return b;
+  if (!b) return a;
+  return b > a ? b : a;
+}
+
+/** Tools of other agents that write whole files (the rest edit in place). */
+const WRITE_FILE_TOOLS = new Set(["Write", "mcp__acp__Write", "save_file"]);
+
+/**
+ * Maps file-changing tools of other agents (Claude's Edit and Write, Aider's
+ * edit blocks, ...) to Gemini's write_file and replace, so that
+ * extractModifiedFiles sees the files they changed.
+ */
+function geminiToolCallName(entry: SessionEntry): string {
+  const name = entry.toolName ?? "unknown";
+  if (!entry.filesAffected?.length) return name;
+  if (FileModificationTools.includes(name as (typeof FileModificationTools)[number])) return name;
+  return WRITE_FILE_TOOLS.has(name) ? "write_file" : "replace";
+}
+
+function convertToolEntryToToolCall(entry: SessionEntry): GeminiToolCall {
+  const name = geminiToolCallName(entry);
+  const args = (entry.toolInput as Record<string, unknown> | undefined) ?? {};
+  const file = name !== entry.toolName ? entry.filesAffected?.[0] : undefined;
+  const toolCall: GeminiToolCall = {
+    id: entry.uuid,
+    name,
+    args: file ? { ...args, file_path: file } : args,
+  };
+
+  const status =
+    entry.toolStatus ?? (entry.toolOutput !== undefined ? ToolCallStatus.Success : undefined);
+  if (status) toolCall.status = status;
+  if (entry.timestamp) toolCall.timestamp = entry.timestamp.toISOString();
+
+  if (entry.toolOutput !== undefined) {
+    const response =
+      status === ToolCallStatus.Error
+        ? { error: entry.toolOutput }
+        : { output: entry.toolOutput };
+    toolCall.result = [{ functionResponse: { id: entry.uuid, name, response } }];
+  }
+
+  return toolCall;
+}
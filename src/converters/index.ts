@@ -4,3 +4,29 @@ export {
   convertACPEventsToSession,
   convertACPEventToEntry,
 } from "./acp.js";
+
+export type {
+  ClaudeSessionOptions,
+  ClaudeTranscriptWriteOptions,
+} from "./claude.js";
+
+export {
+  convertClaudeTranscriptToSession,
+  convertClaudeLineToEntries,
+  convertSessionToClaudeTranscript,
+} from "./claude.js";
+
+export type { GeminiSessionOptions } from "./gemini.js";
+
+export {
+  convertGeminiTranscriptToSession,
+  convertGeminiMessageToEntries,
+  convertSessionToGeminiTranscript,
+} from "./gemini.js";
+
+export type { AiderSessionOptions } from "./aider.js";
+
+export {
+  convertAiderHistoryToSession,
+  convertAiderMessageToEntries,
+} from "./aider.js";
@@ -0,0 +1,130 @@
+// ============================================================================
+// Claude Code cost estimation.
+// Prices each API call by the model recorded in its message.
+// ============================================================================
+
+import type { TokenUsage } from "../types.js";
+import { extractSpawnedAgentIds, extractTokenTimeline } from "../parsers/claude/extract.js";
+import { extractUserContent, parseFromString } from "../parsers/claude/parse.js";
+import {
+  ContentType,
+  MessageType,
+  type ContentBlock,
+  type TranscriptLine,
+} from "../parsers/claude/types.js";
+import { DEFAULT_PRICING } from "./pricing.js";
+import { addModelUsage, mergeModelUsage, toSessionCost, type UsageTree } from "./shared.js";
+import type { CostOptions, SessionCost } from "./types.js";
+
+/** Options for estimateClaudeCost. */
+export interface ClaudeCostOptions extends CostOptions {
+  /**
+   * Loads a subagent's transcript content by agent ID; returns null if
+   * unavailable. Without it, subagents are not included.
+   */
+  loadSubagentTranscript?: (agentId: string) => string | null;
+}
+
+// ── Helpers ──────────────────────────────────────────────────────
+
+/** Usage with token counts the transcript left out treated as zero. */
+function billedUsage(usage: TokenUsage): TokenUsage {
+  return {
+    inputTokens: usage.inputTokens || 0,
+    cacheCreationTokens: usage.cacheCreationTokens || 0,
+    cacheReadTokens: usage.cacheReadTokens || 0,
+    outputTokens: usage.outputTokens || 0,
+    apiCallCount: usage.apiCallCount,
+  };
+}
+
+/** IDs of the tool results in a user line. */
+function toolResultIds(line: TranscriptLine): string[] {
+  const content = (line.message as { content?: unknown })?.content;
+  if (!Array.isArray(content)) return [];
+
+  const ids: string[] = [];
+  for (const block of content as ContentBlock[]) {
+    if (block?.type === ContentType.ToolResult && block.tool_use_id) ids.push(block.tool_use_id);
+  }
+  return ids;
+}
+
+/**
+ * Collects the usage of a transcript and, through the loader, of the
+ * subagents it spawned. `seen` guards against loading an agent twice.
+ */
+function collectUsage(
+  lines: TranscriptLine[],
+  loadSubagentTranscript: ClaudeCostOptions["loadSubagentTranscript"],
+  seen: Set<string>
+): UsageTree {
+  const tree: UsageTree = { usage: new Map(), turns: [], subagents: [] };
+
+  const resultTurns = new Map<string, number>();
+  let turn = -1;
+
+  for (const line of lines) {
+    if (line.type !== MessageType.User) continue;
+    const prompt = extractUserContent(line.message);
+    if (prompt) {
+      turn++;
+      tree.turns.push({ prompt, usage: new Map() });
+    }
+    for (const id of toolResultIds(line)) resultTurns.set(id, turn);
+  }
+
+  for (const call of extractTokenTimeline(lines)) {
+    const usage = billedUsage(call.usage);
+    addModelUsage(tree.usage, call.model, usage);
+    if (call.turnIndex >= 0) addModelUsage(tree.turns[call.turnIndex].usage, call.model, usage);
+  }
+
+  if (!loadSubagentTranscript) return tree;
+
+  for (const [agentId, toolUseId] of extractSpawnedAgentIds(lines)) {
+    if (seen.has(agentId)) continue;
+    seen.add(agentId);
+
+    const content = loadSubagentTranscript(agentId);
+    if (!content) continue;
+
+    const subtree = collectUsage(parseFromString(content), loadSubagentTranscript, seen);
+    const turnIndex = resultTurns.get(toolUseId);
+    mergeModelUsage(tree.usage, subtree.usage);
+    if (turnIndex !== undefined && turnIndex >= 0) {
+      mergeModelUsage(tree.turns[turnIndex].usage, subtree.usage);
+    }
+
+    tree.subagents.push({
+      agentId,
+      toolUseId,
+      turnIndex: turnIndex !== undefined && turnIndex >= 0 ? turnIndex : undefined,
+      tree: subtree,
+    });
+  }
+
+  return tree;
+}
+
+// ── Estimation ───────────────────────────────────────────────────
+
+/**
+ * Estimates the cost of a Claude Code session.
+ *
+ * Each API call from extractTokenTimeline is priced by its `message.model`
+ * (streaming rows deduplicated by `message.id`). Turns match
+ * extractAllPromptResponses. Subagents (found through
+ * extractSpawnedAgentIds) are included recursively when a loader is given,
+ * and count toward the turn whose tool result reported them.
+ *
+ * @param lines - Parsed transcript lines
+ * @param options - Pricing table and subagent loader
+ */
+export function estimateClaudeCost(
+  lines: TranscriptLine[],
+  options: ClaudeCostOptions = {}
+): SessionCost {
+  const tree = collectUsage(lines, options.loadSubagentTranscript, new Set());
+  return toSessionCost(tree, options.pricing ?? DEFAULT_PRICING);
+}
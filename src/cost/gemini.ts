@@ -0,0 +1,62 @@
+// ============================================================================
+// Gemini CLI cost estimation.
+// Prices each gemini message by the model recorded on it.
+// ============================================================================
+
+import { UNKNOWN_MODEL, emptyTokenUsage, type TokenUsage } from "../types.js";
+import {
+  MessageType,
+  type GeminiMessageTokens,
+  type GeminiTranscript,
+} from "../parsers/gemini/types.js";
+import { DEFAULT_PRICING } from "./pricing.js";
+import { addModelUsage, toSessionCost, type UsageTree } from "./shared.js";
+import type { CostOptions, SessionCost } from "./types.js";
+
+/**
+ * Converts Gemini token counts to billed usage. `input` includes the
+ * `cached` tokens, which are billed at the cache read rate instead;
+ * tool-use prompt tokens are billed as input and thoughts as output.
+ */
+function toTokenUsage(tokens: GeminiMessageTokens): TokenUsage {
+  const usage = emptyTokenUsage();
+  usage.inputTokens = Math.max(0, (tokens.input ?? 0) - (tokens.cached ?? 0)) + (tokens.tool ?? 0);
+  usage.cacheReadTokens = tokens.cached ?? 0;
+  usage.outputTokens = (tokens.output ?? 0) + (tokens.thoughts ?? 0);
+  usage.apiCallCount = 1;
+  return usage;
+}
+
+/**
+ * Estimates the cost of a Gemini CLI session.
+ *
+ * Each gemini message with token counts is priced by its `model`. Turns
+ * match extractAllPromptResponses. Gemini transcripts don't record
+ * subagents, so `bySubagent` is empty.
+ *
+ * @param transcript - Parsed transcript
+ * @param options - Pricing table
+ */
+export function estimateGeminiCost(
+  transcript: GeminiTranscript,
+  options: CostOptions = {}
+): SessionCost {
+  const tree: UsageTree = { usage: new Map(), turns: [], subagents: [] };
+  let turn = -1;
+
+  for (const msg of transcript.messages) {
+    if (msg.type === MessageType.User && msg.content) {
+      turn++;
+      tree.turns.push({ prompt: msg.content, usage: new Map() });
+      continue;
+    }
+    if (msg.type !== MessageType.Gemini || !msg.tokens) continue;
+
+    const model = msg.model || UNKNOWN_MODEL;
+    const usage = toTokenUsage(msg.tokens);
+    addModelUsage(tree.usage, model, usage);
+    if (turn >= 0) addModelUsage(tree.turns[turn].usage, model, usage);
+  }
+
+  return toSessionCost(tree, options.pricing ?? DEFAULT_PRICING);
+}
@@ -0,0 +1,23 @@
+export type {
+  ModelPricing,
+  PricingTable,
+  CostBreakdown,
+  ModelCost,
+  TurnCost,
+  SubagentCost,
+  SessionCost,
+  CostOptions,
+} from "./types.js";
+
+export {
+  DEFAULT_PRICING,
+  withPricingOverrides,
+  findModelPricing,
+  emptyCost,
+  costOfUsage,
+  estimateUsageCost,
+} from "./pricing.js";
+
+export type { ClaudeCostOptions } from "./claude.js";
+export { estimateClaudeCost } from "./claude.js";
+export { estimateGeminiCost } from "./gemini.js";
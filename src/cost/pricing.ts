@@ -0,0 +1,112 @@
+// ============================================================================
+// Model pricing tables.
+// ============================================================================
+
+import type { TokenUsage } from "../types.js";
+import { findModelEntry } from "../utils.js";
+import type { CostBreakdown, CostOptions, ModelPricing, PricingTable } from "./types.js";
+
+/**
+ * List prices of Claude and Gemini models, in USD per million tokens.
+ *
+ * Claude cache writes are priced at the 5-minute TTL rate. Gemini prices are
+ * those for prompts up to 200k tokens; Gemini bills no separate cache write,
+ * so cacheWrite equals input. Override entries with withPricingOverrides
+ * when negotiated or newer prices apply.
+ */
+export const DEFAULT_PRICING: PricingTable = {
+  version: "2025-11-24",
+  models: {
+    "claude-opus-4-5": { input: 5, output: 25, cacheWrite: 6.25, cacheRead: 0.5 },
+    "claude-opus-4-1": { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+    "claude-opus-4": { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+    "claude-sonnet-4-5": { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+    "claude-sonnet-4": { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+    "claude-haiku-4-5": { input: 1, output: 5, cacheWrite: 1.25, cacheRead: 0.1 },
+    "claude-3-7-sonnet": { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+    "claude-3-5-sonnet": { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+    "claude-3-5-haiku": { input: 0.8, output: 4, cacheWrite: 1, cacheRead: 0.08 },
+    "claude-3-opus": { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+    "claude-3-haiku": { input: 0.25, output: 1.25, cacheWrite: 0.3, cacheRead: 0.03 },
+    "gemini-3-pro": { input: 2, output: 12, cacheWrite: 2, cacheRead: 0.2 },
+    "gemini-2.5-pro": { input: 1.25, output: 10, cacheWrite: 1.25, cacheRead: 0.125 },
+    "gemini-2.5-flash": { input: 0.3, output: 2.5, cacheWrite: 0.3, cacheRead: 0.03 },
+    "gemini-2.5-flash-lite": { input: 0.1, output: 0.4, cacheWrite: 0.1, cacheRead: 0.01 },
+    "gemini-2.0-flash": { input: 0.1, output: 0.4, cacheWrite: 0.1, cacheRead: 0.025 },
+  },
+};
+
+/**
+ * Returns a pricing table with some models added or replaced.
+ *
+ * @param table - Table to start from
+ * @param overrides - Prices by model name
+ * @param version - Version of the new table (default: the base version + "+custom")
+ */
+export function withPricingOverrides(
+  table: PricingTable,
+  overrides: Record<string, ModelPricing>,
+  version: string = `${table.version}+custom`
+): PricingTable {
+  return { version, models: { ...table.models, ...overrides } };
+}
+
+/**
+ * Returns the prices of a model: the entry with its exact name, else the
+ * longest entry its name starts with. Names are compared case-insensitively.
+ */
+export function findModelPricing(table: PricingTable, model: string): ModelPricing | undefined {
+  return findModelEntry(table.models, model);
+}
+
+/** Returns an all-zero cost breakdown. */
+export function emptyCost(): CostBreakdown {
+  return { input: 0, output: 0, cacheWrite: 0, cacheRead: 0, total: 0 };
+}
+
+/**
+ * Prices token usage. Nested `subagentTokens` are not included; see
+ * estimateUsageCost.
+ */
+export function costOfUsage(usage: TokenUsage, pricing: ModelPricing): CostBreakdown {
+  const input = (usage.inputTokens * pricing.input) / 1_000_000;
+  const output = (usage.outputTokens * pricing.output) / 1_000_000;
+  const cacheWrite = (usage.cacheCreationTokens * pricing.cacheWrite) / 1_000_000;
+  const cacheRead = (usage.cacheReadTokens * pricing.cacheRead) / 1_000_000;
+  return { input, output, cacheWrite, cacheRead, total: input + output + cacheWrite + cacheRead };
+}
+
+/** Adds `b` to `a` in place. */
+export function addCost(a: CostBreakdown, b: CostBreakdown): CostBreakdown {
+  a.input += b.input;
+  a.output += b.output;
+  a.cacheWrite += b.cacheWrite;
+  a.cacheRead += b.cacheRead;
+  a.total += b.total;
+  return a;
+}
+
+/**
+ * Prices aggregated token usage of one model, including nested
+ * `subagentTokens` (priced as the same model, since TokenUsage doesn't
+ * record which model a subagent used).
+ *
+ * @param usage - Usage, e.g. from calculateTotalTokenUsage
+ * @param model - Model name to look up
+ * @param options - Pricing table
+ * @returns The cost, or undefined if the model has no price
+ */
+export function estimateUsageCost(
+  usage: TokenUsage,
+  model: string,
+  options: CostOptions = {}
+): CostBreakdown | undefined {
+  const pricing = findModelPricing(options.pricing ?? DEFAULT_PRICING, model);
+  if (!pricing) return undefined;
+
+  const cost = costOfUsage(usage, pricing);
+  for (let sub = usage.subagentTokens; sub; sub = sub.subagentTokens) {
+    addCost(cost, costOfUsage(sub, pricing));
+  }
+  return cost;
+}
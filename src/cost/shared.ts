@@ -0,0 +1,110 @@
+// ============================================================================
+// Helpers shared by the per-agent cost estimators.
+// ============================================================================
+
+import { emptyTokenUsage, type TokenUsage } from "../types.js";
+import { addCost, costOfUsage, emptyCost, findModelPricing } from "./pricing.js";
+import type {
+  CostBreakdown,
+  ModelCost,
+  PricingTable,
+  SessionCost,
+  SubagentCost,
+  TurnCost,
+} from "./types.js";
+
+/** Billed usage by model name. */
+export type UsageByModel = Map<string, TokenUsage>;
+
+/** Usage of a transcript, split by turn, with the subagents it spawned. */
+export interface UsageTree {
+  /** All usage, including subagents */
+  usage: UsageByModel;
+  /** Usage per turn, including subagents spawned in the turn */
+  turns: { prompt: string; usage: UsageByModel }[];
+  subagents: SubagentUsage[];
+}
+
+/** Usage of a subagent transcript. */
+export interface SubagentUsage {
+  agentId: string;
+  toolUseId: string;
+  turnIndex?: number;
+  tree: UsageTree;
+}
+
+export function addModelUsage(usageByModel: UsageByModel, model: string, usage: TokenUsage): void {
+  let total = usageByModel.get(model);
+  if (!total) {
+    total = emptyTokenUsage();
+    usageByModel.set(model, total);
+  }
+  total.inputTokens += usage.inputTokens;
+  total.cacheCreationTokens += usage.cacheCreationTokens;
+  total.cacheReadTokens += usage.cacheReadTokens;
+  total.outputTokens += usage.outputTokens;
+  total.apiCallCount += usage.apiCallCount;
+}
+
+export function mergeModelUsage(target: UsageByModel, source: UsageByModel): void {
+  for (const [model, usage] of source) addModelUsage(target, model, usage);
+}
+
+/**
+ * Prices usage by model. Models without a price cost nothing; those that
+ * used tokens are added to `unpriced`.
+ */
+export function priceModels(
+  usageByModel: UsageByModel,
+  table: PricingTable,
+  unpriced: Set<string>
+): { cost: CostBreakdown; byModel: ModelCost[] } {
+  const cost = emptyCost();
+  const byModel: ModelCost[] = [];
+
+  for (const [model, usage] of usageByModel) {
+    const pricing = findModelPricing(table, model);
+    const tokens = usage.inputTokens + usage.cacheCreationTokens + usage.cacheReadTokens + usage.outputTokens;
+    if (!pricing && tokens > 0) unpriced.add(model);
+
+    const modelCost = pricing ? costOfUsage(usage, pricing) : emptyCost();
+    addCost(cost, modelCost);
+    byModel.push({ model, usage: { ...usage }, cost: modelCost, priced: pricing !== undefined });
+  }
+
+  return { cost, byModel };
+}
+
+function subagentCost(subagent: SubagentUsage, table: PricingTable, unpriced: Set<string>): SubagentCost {
+  const { cost, byModel } = priceModels(subagent.tree.usage, table, unpriced);
+  const result: SubagentCost = {
+    agentId: subagent.agentId,
+    toolUseId: subagent.toolUseId,
+    cost,
+    byModel,
+    subagents: subagent.tree.subagents.map((s) => subagentCost(s, table, unpriced)),
+  };
+  if (subagent.turnIndex !== undefined) result.turnIndex = subagent.turnIndex;
+  return result;
+}
+
+/** Prices a usage tree. */
+export function toSessionCost(tree: UsageTree, table: PricingTable): SessionCost {
+  const unpriced = new Set<string>();
+  const { cost, byModel } = priceModels(tree.usage, table, unpriced);
+
+  const byTurn: TurnCost[] = tree.turns.map((turn, index) => {
+    const priced = priceModels(turn.usage, table, unpriced);
+    return { index, prompt: turn.prompt, cost: priced.cost, byModel: priced.byModel };
+  });
+
+  return {
+    pricingVersion: table.version,
+    currency: "USD",
+    total: cost,
+    byModel,
+    byTurn,
+    bySubagent: tree.subagents.map((s) => subagentCost(s, table, unpriced)),
+    unpricedModels: [...unpriced],
+  };
+}
@@ -0,0 +1,94 @@
+// ============================================================================
+// Cost estimation types.
+// Prices are in USD per million tokens; costs are in USD.
+// ============================================================================
+
+import type { TokenUsage } from "../types.js";
+
+/** Prices of one model, in USD per million tokens. */
+export interface ModelPricing {
+  /** Fresh (uncached) input tokens */
+  input: number;
+  /** Output tokens, including reasoning */
+  output: number;
+  /** Tokens written to the prompt cache */
+  cacheWrite: number;
+  /** Tokens read from the prompt cache */
+  cacheRead: number;
+}
+
+/** A versioned set of model prices. */
+export interface PricingTable {
+  /** Identifies the prices used, so reports can state what they were based on */
+  version: string;
+  /**
+   * Prices by model name. A model matches its exact name or, failing that,
+   * the longest name it starts with ("claude-sonnet-4-5" prices
+   * "claude-sonnet-4-5-20250929").
+   */
+  models: Record<string, ModelPricing>;
+}
+
+/** Cost split by token kind, in USD. */
+export interface CostBreakdown {
+  input: number;
+  output: number;
+  cacheWrite: number;
+  cacheRead: number;
+  total: number;
+}
+
+/** Usage and cost of one model. */
+export interface ModelCost {
+  model: string;
+  /** Tokens as billed */
+  usage: TokenUsage;
+  cost: CostBreakdown;
+  /** False when the pricing table has no entry for the model (cost is zero) */
+  priced: boolean;
+}
+
+/** Cost of one turn (a user prompt and everything up to the next one). */
+export interface TurnCost {
+  /** Position of the turn, matching extractAllPromptResponses */
+  index: number;
+  prompt: string;
+  /** Including subagents spawned during the turn */
+  cost: CostBreakdown;
+  byModel: ModelCost[];
+}
+
+/** Cost of one subagent, including the subagents it spawned. */
+export interface SubagentCost {
+  agentId: string;
+  /** Tool call that spawned the subagent */
+  toolUseId: string;
+  /** Turn of the parent transcript that spawned it */
+  turnIndex?: number;
+  cost: CostBreakdown;
+  byModel: ModelCost[];
+  subagents: SubagentCost[];
+}
+
+/** Cost estimate of a session. */
+export interface SessionCost {
+  /** Version of the pricing table used */
+  pricingVersion: string;
+  currency: "USD";
+  /** Including subagents */
+  total: CostBreakdown;
+  /** Including subagents */
+  byModel: ModelCost[];
+  /** Turns in order; API calls before the first prompt count only toward the totals */
+  byTurn: TurnCost[];
+  /** Subagents spawned by the session */
+  bySubagent: SubagentCost[];
+  /** Models used that the pricing table has no entry for */
+  unpricedModels: string[];
+}
+
+/** Options for cost estimation. */
+export interface CostOptions {
+  /** Prices to use (default: DEFAULT_PRICING) */
+  pricing?: PricingTable;
+}
@@ -0,0 +1,360 @@
+// ============================================================================
+// Session → fine-tuning / evaluation dataset export.
+//
+// Turns AgentSessions (from Claude, Gemini or ACP events) into training
+// samples that keep the tool-call structure: OpenAI chat fine-tuning records
+// with `tool_calls`, ShareGPT conversations, and Anthropic message arrays.
+// ============================================================================
+
+import { EntryType, type AgentSession, type SessionEntry } from "../types.js";
+import type {
+  GenericMessage,
+  OpenAIMessage,
+  AnthropicMessage,
+  AnthropicContentBlock,
+} from "../parsers/generic/types.js";
+import { MessageRole } from "../parsers/generic/types.js";
+import { groupTurns } from "../renderers/shared.js";
+
+/** Whether each sample covers one prompt and its response, or a whole session. */
+export type DatasetGranularity = "turn" | "session";
+
+/** Options for the dataset exporters. */
+export interface DatasetExportOptions {
+  /** One sample per user prompt ("turn", default) or per session ("session") */
+  granularity?: DatasetGranularity;
+  /** Keep assistant thinking (default false) */
+  includeThinking?: boolean;
+  /** Drop tool calls that failed, along with their results (default false) */
+  dropFailedToolCalls?: boolean;
+  /** Drop samples whose serialized size exceeds this many tokens */
+  maxTokens?: number;
+  /** Token counter for `maxTokens` (defaults to an estimate of 4 characters per token) */
+  countTokens?: (text: string) => number;
+  /** System prompt prepended to every sample */
+  systemPrompt?: string;
+}
+
+/** A normalized message in a dataset sample. */
+export interface DatasetMessage extends GenericMessage {
+  /** Assistant reasoning (only with `includeThinking`) */
+  thinking?: string;
+}
+
+/** An OpenAI chat fine-tuning record. */
+export interface OpenAIChatSample {
+  messages: OpenAIMessage[];
+}
+
+/** A turn in a ShareGPT conversation. */
+export interface ShareGPTTurn {
+  from: "human" | "gpt" | "function_call" | "observation";
+  value: string;
+}
+
+/** A ShareGPT conversation. */
+export interface ShareGPTSample {
+  system?: string;
+  conversations: ShareGPTTurn[];
+}
+
+/** An Anthropic Messages API conversation. */
+export interface AnthropicSample {
+  system?: string;
+  messages: AnthropicMessage[];
+}
+
+// ── Conversation building ────────────────────────────────────────
+
+function toolOutputText(output: unknown): string {
+  if (output === undefined || output === null) return "";
+  if (typeof output === "string") return output;
+  return JSON.stringify(output);
+}
+
+function joinParagraphs(text: string, more: string): string {
+  return text ? `${text}\n\n${more}` : more;
+}
+
+/**
+ * Builds messages from session entries. Assistant thinking, text and the
+ * tool calls that follow form one assistant message; tool results follow as
+ * `tool` messages, and only they end the assistant message, so assistant
+ * messages never follow each other. Text (and thinking) entries within one
+ * message are joined as paragraphs.
+ */
+function buildMessages(
+  entries: SessionEntry[],
+  options: DatasetExportOptions,
+): DatasetMessage[] {
+  const messages: DatasetMessage[] = [];
+  let assistant: DatasetMessage | undefined;
+  let results: DatasetMessage[] = [];
+  let thinking = "";
+
+  const flush = (): void => {
+    messages.push(...results);
+    results = [];
+    assistant = undefined;
+  };
+
+  const openAssistant = (): DatasetMessage => {
+    if (!assistant) {
+      assistant = { role: MessageRole.Assistant, content: "" };
+      if (thinking) assistant.thinking = thinking;
+      thinking = "";
+      messages.push(assistant);
+    }
+    return assistant;
+  };
+
+  for (const entry of entries) {
+    switch (entry.type) {
+      case EntryType.User:
+        flush();
+        thinking = "";
+        messages.push({ role: MessageRole.User, content: entry.content });
+        break;
+
+      case EntryType.Assistant:
+        if (entry.isThinking && !options.includeThinking) break;
+        if (results.length > 0) flush();
+        if (entry.isThinking) {
+          if (assistant) assistant.thinking = joinParagraphs(assistant.thinking ?? "", entry.content);
+          else thinking = joinParagraphs(thinking, entry.content);
+        } else {
+          const message = openAssistant();
+          message.content = joinParagraphs(message.content, entry.content);
+        }
+        break;
+
+      case EntryType.Tool: {
+        const failed = entry.toolStatus === "error";
+        if (failed && options.dropFailedToolCalls) break;
+
+        const id = entry.uuid;
+        const message = openAssistant();
+        (message.toolCalls ??= []).push({
+          id,
+          name: entry.toolName ?? "unknown",
+          input: entry.toolInput ?? {},
+        });
+
+        const result: DatasetMessage = {
+          role: MessageRole.Tool,
+          content: toolOutputText(entry.toolOutput),
+          toolCallId: id,
+        };
+        if (failed) result.isError = true;
+        results.push(result);
+        break;
+      }
+    }
+  }
+  flush();
+
+  return messages;
+}
+
+function hasAssistantMessage(messages: DatasetMessage[]): boolean {
+  return messages.some((m) => m.role === MessageRole.Assistant);
+}
+
+/**
+ * Splits a session into dataset conversations with tool-call structure.
+ * Per-turn conversations start at each user prompt; entries before the first
+ * prompt and system entries are left out. Conversations without an assistant
+ * reply are skipped.
+ *
+ * @param session - Session to split
+ * @param options - Granularity, thinking and failed-tool filters
+ */
+export function extractDatasetConversations(
+  session: AgentSession,
+  options: DatasetExportOptions = {},
+): DatasetMessage[][] {
+  const turns = groupTurns(session).filter((turn) => turn.prompt);
+
+  const conversations =
+    options.granularity === "session"
+      ? [buildMessages(turns.flatMap((turn) => [turn.prompt!, ...turn.entries]), options)]
+      : turns.map((turn) => buildMessages([turn.prompt!, ...turn.entries], options));
+
+  return conversations.filter(hasAssistantMessage);
+}
+
+// ── Formats ──────────────────────────────────────────────────────
+
+function withThinking(message: DatasetMessage): string {
+  if (!message.thinking) return message.content;
+  const thinking = `<thinking>\n${message.thinking}\n</thinking>`;
+  return message.content ? `${thinking}\n\n${message.content}` : thinking;
+}
+
+function toOpenAIMessages(messages: DatasetMessage[], systemPrompt?: string): OpenAIMessage[] {
+  const out: OpenAIMessage[] = [];
+  if (systemPrompt) out.push({ role: MessageRole.System, content: systemPrompt });
+
+  for (const message of messages) {
+    if (message.role === MessageRole.Tool) {
+      out.push({ role: MessageRole.Tool, tool_call_id: message.toolCallId, content: message.content });
+    } else if (message.role === MessageRole.Assistant) {
+      const content = withThinking(message);
+      const msg: OpenAIMessage = { role: MessageRole.Assistant, content: content || null };
+      if (message.toolCalls) {
+        msg.tool_calls = message.toolCalls.map((call) => ({
+          id: call.id,
+          type: "function",
+          function: { name: call.name, arguments: JSON.stringify(call.input) },
+        }));
+      }
+      out.push(msg);
+    } else {
+      out.push({ role: message.role, content: message.content });
+    }
+  }
+
+  return out;
+}
+
+function toShareGPTTurns(messages: DatasetMessage[]): ShareGPTTurn[] {
+  const turns: ShareGPTTurn[] = [];
+
+  for (let i = 0; i < messages.length; i++) {
+    const message = messages[i];
+
+    if (message.role === MessageRole.User) {
+      turns.push({ from: "human", value: message.content });
+    } else if (message.role === MessageRole.Assistant) {
+      const text = withThinking(message);
+      if (text) turns.push({ from: "gpt", value: text });
+
+      if (message.toolCalls) {
+        const calls = message.toolCalls.map((call) => ({ name: call.name, arguments: call.input }));
+        turns.push({ from: "function_call", value: JSON.stringify(calls.length === 1 ? calls[0] : calls) });
+
+        // The results of one function_call turn form one observation turn
+        const outputs: string[] = [];
+        while (i + 1 < messages.length && messages[i + 1].role === MessageRole.Tool) {
+          outputs.push(messages[++i].content);
+        }
+        turns.push({ from: "observation", value: outputs.length === 1 ? outputs[0] : JSON.stringify(outputs) });
+      }
+    }
+  }
+
+  return turns;
+}
+
+function toAnthropicMessages(messages: DatasetMessage[]): AnthropicMessage[] {
+  const out: AnthropicMessage[] = [];
+
+  const append = (role: string, block: AnthropicContentBlock): void => {
+    const last = out[out.length - 1];
+    if (last && last.role === role && Array.isArray(last.content)) {
+      last.content.push(block);
+    } else {
+      out.push({ role, content: [block] });
+    }
+  };
+
+  for (const message of messages) {
+    if (message.role === MessageRole.User) {
+      append(MessageRole.User, { type: "text", text: message.content });
+    } else if (message.role === MessageRole.Tool) {
+      const block: AnthropicContentBlock = {
+        type: "tool_result",
+        tool_use_id: message.toolCallId,
+        content: message.content,
+      };
+      if (message.isError) block.is_error = true;
+      append(MessageRole.User, block);
+    } else if (message.role === MessageRole.Assistant) {
+      // Each assistant message starts a new Anthropic message
+      out.push({ role: MessageRole.Assistant, content: [] });
+      if (message.thinking) append(MessageRole.Assistant, { type: "thinking", thinking: message.thinking });
+      if (message.content) append(MessageRole.Assistant, { type: "text", text: message.content });
+      for (const call of message.toolCalls ?? []) {
+        append(MessageRole.Assistant, { type: "tool_use", id: call.id, name: call.name, input: call.input });
+      }
+    }
+  }
+
+  return out;
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function exportSamples<T>(
+  sessions: AgentSession | AgentSession[],
+  options: DatasetExportOptions,
+  format: (messages: DatasetMessage[]) => T,
+): T[] {
+  const countTokens = options.countTokens ?? estimateTokens;
+  const samples: T[] = [];
+
+  for (const session of Array.isArray(sessions) ? sessions : [sessions]) {
+    for (const conversation of extractDatasetConversations(session, options)) {
+      const sample = format(conversation);
+      if (options.maxTokens && countTokens(JSON.stringify(sample)) > options.maxTokens) continue;
+      samples.push(sample);
+    }
+  }
+
+  return samples;
+}
+
+// ── Exporters ────────────────────────────────────────────────────
+
+/**
+ * Export sessions as OpenAI chat fine-tuning records. Tool calls become
+ * `tool_calls` on assistant messages, answered by `tool` messages; thinking
+ * (when included) is prepended to the assistant content in `<thinking>` tags.
+ */
+export function exportOpenAIDataset(
+  sessions: AgentSession | AgentSession[],
+  options: DatasetExportOptions = {},
+): OpenAIChatSample[] {
+  return exportSamples(sessions, options, (messages) => ({
+    messages: toOpenAIMessages(messages, options.systemPrompt),
+  }));
+}
+
+/**
+ * Export sessions as ShareGPT conversations. Tool calls become
+ * `function_call` turns answered by `observation` turns.
+ */
+export function exportShareGPTDataset(
+  sessions: AgentSession | AgentSession[],
+  options: DatasetExportOptions = {},
+): ShareGPTSample[] {
+  return exportSamples(sessions, options, (messages) => {
+    const sample: ShareGPTSample = { conversations: toShareGPTTurns(messages) };
+    if (options.systemPrompt) sample.system = options.systemPrompt;
+    return sample;
+  });
+}
+
+/**
+ * Export sessions as Anthropic Messages API conversations with `thinking`,
+ * `tool_use` and `tool_result` content blocks.
+ */
+export function exportAnthropicDataset(
+  sessions: AgentSession | AgentSession[],
+  options: DatasetExportOptions = {},
+): AnthropicSample[] {
+  return exportSamples(sessions, options, (messages) => {
+    const sample: AnthropicSample = { messages: toAnthropicMessages(messages) };
+    if (options.systemPrompt) sample.system = options.systemPrompt;
+    return sample;
+  });
+}
+
+/**
+ * Serializes samples as JSONL, one sample per line.
+ */
+export function serializeDatasetJSONL(samples: unknown[]): string {
+  return samples.map((sample) => JSON.stringify(sample)).join("\n");
+}
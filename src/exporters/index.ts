@@ -0,0 +1,42 @@
+export type {
+  OtlpAnyValue,
+  OtlpKeyValue,
+  OtlpSpan,
+  OtlpScopeSpans,
+  OtlpResourceSpans,
+  OtlpTraceData,
+} from "./types.js";
+
+export { SpanKind, StatusCode } from "./types.js";
+
+export type {
+  AttributeValue,
+  OtlpExportOptions,
+  ClaudeOtlpExportOptions,
+  SessionOtlpExportOptions,
+} from "./otlp.js";
+
+export {
+  OTLP_SCOPE_NAME,
+  exportClaudeTranscriptSpans,
+  exportGeminiTranscriptSpans,
+  exportSessionSpans,
+} from "./otlp.js";
+
+export type {
+  DatasetGranularity,
+  DatasetExportOptions,
+  DatasetMessage,
+  OpenAIChatSample,
+  ShareGPTTurn,
+  ShareGPTSample,
+  AnthropicSample,
+} from "./dataset.js";
+
+export {
+  extractDatasetConversations,
+  exportOpenAIDataset,
+  exportShareGPTDataset,
+  exportAnthropicDataset,
+  serializeDatasetJSONL,
+} from "./dataset.js";
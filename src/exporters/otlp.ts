@@ -0,0 +1,610 @@
+// ============================================================================
+// Session → OpenTelemetry trace export (OTLP/JSON).
+//
+// Builds spans following the OpenTelemetry GenAI semantic conventions:
+//   invoke_agent <agent>          one root span per session
+//     turn                        one span per user prompt
+//       chat <model>              one span per API call, with gen_ai.usage.*
+//       execute_tool <tool>       one span per tool call
+//         invoke_agent <subagent> subagent runs, nested under the spawning tool
+//
+// The result is the JSON body of an OTLP/HTTP POST to /v1/traces; write it to
+// a file or send it to a collector.
+// ============================================================================
+
+import { emptyTokenUsage, type AgentSession, type TokenUsage } from "../types.js";
+import { extractUserContent, parseFromString } from "../parsers/claude/parse.js";
+import {
+  calculateTokenUsage as calculateClaudeTokenUsage,
+  extractSpawnedAgentIds,
+} from "../parsers/claude/extract.js";
+import {
+  ContentType,
+  MessageType as ClaudeMessageType,
+  type TranscriptLine,
+  type ContentBlock,
+  type MessageUsage,
+} from "../parsers/claude/types.js";
+import {
+  MessageType as GeminiMessageType,
+  ToolCallStatus,
+  type GeminiTranscript,
+  type GeminiToolCall,
+} from "../parsers/gemini/types.js";
+import { groupTurns } from "../renderers/shared.js";
+import {
+  SpanKind,
+  StatusCode,
+  type OtlpAnyValue,
+  type OtlpKeyValue,
+  type OtlpSpan,
+  type OtlpTraceData,
+} from "./types.js";
+
+/** Attribute values accepted on spans and resources. */
+export type AttributeValue = string | number | boolean;
+
+/** Options shared by the OTLP exporters. */
+export interface OtlpExportOptions {
+  /** Conversation ID (defaults to the session ID found in the transcript) */
+  sessionId?: string;
+  /** `service.name` resource attribute (defaults to the agent name) */
+  serviceName?: string;
+  /** Additional resource attributes */
+  resourceAttributes?: Record<string, AttributeValue>;
+  /** 32-hex-digit trace ID (defaults to one derived from the session ID) */
+  traceId?: string;
+  /** Record prompts and tool arguments as span attributes (default false) */
+  includeContent?: boolean;
+}
+
+/** Options for exportClaudeTranscriptSpans. */
+export interface ClaudeOtlpExportOptions extends OtlpExportOptions {
+  /**
+   * Loads a subagent's transcript by agent ID, as for `calculateTotalTokenUsage`.
+   * When given, subagent runs are exported as nested spans.
+   */
+  loadSubagentTranscript?: (agentId: string) => string | null;
+}
+
+/** Options for exportSessionSpans. */
+export interface SessionOtlpExportOptions extends OtlpExportOptions {
+  /** Session token usage; `subagentTokens` is exported as a nested span */
+  tokenUsage?: TokenUsage;
+  /** `gen_ai.provider.name` of the session (e.g. "anthropic") */
+  providerName?: string;
+}
+
+/** Scope name recorded on exported spans. */
+export const OTLP_SCOPE_NAME = "agent-session-parser";
+
+// ── Span tree ────────────────────────────────────────────────────
+
+interface SpanNode {
+  name: string;
+  kind: number;
+  /** Unix milliseconds */
+  start?: number;
+  end?: number;
+  attributes: Record<string, AttributeValue | undefined>;
+  error?: string;
+  children: SpanNode[];
+}
+
+function spanNode(
+  name: string,
+  kind: number,
+  attributes: Record<string, AttributeValue | undefined>,
+  start?: number,
+): SpanNode {
+  return { name, kind, start, end: start, attributes, children: [] };
+}
+
+function toMillis(value: string | Date | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const ms = value instanceof Date ? value.getTime() : Date.parse(value);
+  return isNaN(ms) ? undefined : ms;
+}
+
+function extendEnd(node: SpanNode, ms: number | undefined): void {
+  if (ms === undefined) return;
+  if (node.end === undefined || ms > node.end) node.end = ms;
+}
+
+/**
+ * `gen_ai.usage.input_tokens` counts fresh (uncached) input only, as Claude
+ * reports it; cache reads and writes are in their own attributes, so the
+ * three sum to the prompt size for every provider.
+ */
+function usageAttributes(usage: TokenUsage): Record<string, number> {
+  return {
+    "gen_ai.usage.input_tokens": usage.inputTokens,
+    "gen_ai.usage.output_tokens": usage.outputTokens,
+    "gen_ai.usage.cache_read.input_tokens": usage.cacheReadTokens,
+    "gen_ai.usage.cache_creation.input_tokens": usage.cacheCreationTokens,
+  };
+}
+
+function addUsage(target: TokenUsage, usage: TokenUsage): void {
+  target.inputTokens += usage.inputTokens;
+  target.cacheCreationTokens += usage.cacheCreationTokens;
+  target.cacheReadTokens += usage.cacheReadTokens;
+  target.outputTokens += usage.outputTokens;
+  target.apiCallCount += usage.apiCallCount;
+}
+
+function agentNode(
+  agentName: string,
+  attributes: Record<string, AttributeValue | undefined>,
+): SpanNode {
+  return spanNode(`invoke_agent ${agentName}`, SpanKind.Internal, {
+    "gen_ai.operation.name": "invoke_agent",
+    "gen_ai.agent.name": agentName,
+    ...attributes,
+  });
+}
+
+function turnNode(index: number, start: number | undefined, prompt: string | undefined): SpanNode {
+  return spanNode(
+    "turn",
+    SpanKind.Internal,
+    { "agent_session.turn.index": index, "agent_session.turn.prompt": prompt },
+    start,
+  );
+}
+
+function chatNode(
+  model: string | undefined,
+  providerName: string,
+  responseId: string | undefined,
+  start: number | undefined,
+): SpanNode {
+  return spanNode(
+    model ? `chat ${model}` : "chat",
+    SpanKind.Client,
+    {
+      "gen_ai.operation.name": "chat",
+      "gen_ai.provider.name": providerName,
+      "gen_ai.request.model": model,
+      "gen_ai.response.model": model,
+      "gen_ai.response.id": responseId,
+    },
+    start,
+  );
+}
+
+function toolNode(
+  name: string,
+  callId: string | undefined,
+  args: unknown,
+  options: OtlpExportOptions,
+  start: number | undefined,
+): SpanNode {
+  return spanNode(
+    `execute_tool ${name}`,
+    SpanKind.Internal,
+    {
+      "gen_ai.operation.name": "execute_tool",
+      "gen_ai.tool.name": name,
+      "gen_ai.tool.call.id": callId,
+      "gen_ai.tool.type": "function",
+      "gen_ai.tool.call.arguments":
+        options.includeContent && args !== undefined ? JSON.stringify(args) : undefined,
+    },
+    start,
+  );
+}
+
+/** Fills in missing times from children and the parent, so every span has a range. */
+function fillTimes(node: SpanNode, fallback: number): void {
+  const base = node.start ?? fallback;
+  for (const child of node.children) fillTimes(child, base);
+
+  for (const child of node.children) {
+    if (node.start === undefined || child.start! < node.start) node.start = child.start;
+    extendEnd(node, child.end);
+  }
+  node.start ??= base;
+  extendEnd(node, node.start);
+}
+
+// ── OTLP encoding ────────────────────────────────────────────────
+
+function fnv1a(text: string, seed: number): number {
+  let hash = (0x811c9dc5 ^ seed) >>> 0;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+function deriveTraceId(sessionId: string): string {
+  if (!sessionId) {
+    let id = "";
+    while (id.length < 32) id += Math.floor(Math.random() * 16).toString(16);
+    return id;
+  }
+
+  let id = "";
+  for (let seed = 0; id.length < 32; seed++) {
+    id += fnv1a(sessionId, seed).toString(16).padStart(8, "0");
+  }
+  return id;
+}
+
+function toAnyValue(value: AttributeValue): OtlpAnyValue {
+  if (typeof value === "string") return { stringValue: value };
+  if (typeof value === "boolean") return { boolValue: value };
+  return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+}
+
+function toKeyValues(attributes: Record<string, AttributeValue | undefined>): OtlpKeyValue[] {
+  const kvs: OtlpKeyValue[] = [];
+  for (const [key, value] of Object.entries(attributes)) {
+    if (value === undefined || value === "") continue;
+    kvs.push({ key, value: toAnyValue(value) });
+  }
+  return kvs;
+}
+
+function toUnixNano(ms: number): string {
+  return String(BigInt(Math.round(ms)) * 1_000_000n);
+}
+
+function encodeTrace(
+  root: SpanNode,
+  agentName: string,
+  sessionId: string,
+  options: OtlpExportOptions,
+): OtlpTraceData {
+  fillTimes(root, 0);
+
+  const traceId = options.traceId ?? deriveTraceId(sessionId);
+  const spans: OtlpSpan[] = [];
+  let counter = 0;
+
+  const visit = (node: SpanNode, parentSpanId: string | undefined): void => {
+    const spanId = (++counter).toString(16).padStart(16, "0");
+    const span: OtlpSpan = {
+      traceId,
+      spanId,
+      name: node.name,
+      kind: node.kind,
+      startTimeUnixNano: toUnixNano(node.start!),
+      endTimeUnixNano: toUnixNano(node.end!),
+      attributes: toKeyValues(node.attributes),
+    };
+    if (parentSpanId) span.parentSpanId = parentSpanId;
+    if (node.error !== undefined) {
+      span.status = { code: StatusCode.Error, message: node.error };
+    }
+    spans.push(span);
+
+    for (const child of node.children) visit(child, spanId);
+  };
+  visit(root, undefined);
+
+  return {
+    resourceSpans: [
+      {
+        resource: {
+          attributes: toKeyValues({
+            "service.name": options.serviceName ?? agentName,
+            ...options.resourceAttributes,
+          }),
+        },
+        scopeSpans: [{ scope: { name: OTLP_SCOPE_NAME }, spans }],
+      },
+    ],
+  };
+}
+
+// ── Claude Code ──────────────────────────────────────────────────
+
+function messageUsageToTokenUsage(u: MessageUsage): TokenUsage {
+  return {
+    ...emptyTokenUsage(),
+    inputTokens: u.input_tokens ?? 0,
+    cacheCreationTokens: u.cache_creation_input_tokens ?? 0,
+    cacheReadTokens: u.cache_read_input_tokens ?? 0,
+    outputTokens: u.output_tokens ?? 0,
+    apiCallCount: 1,
+  };
+}
+
+function toolResultText(content: ContentBlock["content"]): string {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content
+    .filter((b) => b.type === ContentType.Text && b.text)
+    .map((b) => b.text)
+    .join("\n");
+}
+
+function buildClaudeAgentSpan(
+  lines: TranscriptLine[],
+  root: SpanNode,
+  options: ClaudeOtlpExportOptions,
+  visitedAgents: Set<string>,
+): void {
+  const turnUsage = new Map<SpanNode, TokenUsage>();
+  const apiCalls = new Map<string, { node: SpanNode; usage: TokenUsage; turn: SpanNode }>();
+  const tools = new Map<string, { node: SpanNode; input: unknown }>();
+
+  let turn: SpanNode | undefined;
+  let turnIndex = 0;
+  let prevTimestamp: number | undefined;
+
+  const currentTurn = (ts: number | undefined): SpanNode => {
+    if (!turn) {
+      turn = turnNode(0, ts, undefined);
+      root.children.push(turn);
+    }
+    return turn;
+  };
+
+  for (const line of lines) {
+    const ts = toMillis(line.timestamp);
+
+    if (line.type === ClaudeMessageType.User) {
+      const content = (line.message as { content?: unknown })?.content;
+      if (Array.isArray(content)) {
+        for (const block of content as ContentBlock[]) {
+          if (block.type !== ContentType.ToolResult || !block.tool_use_id) continue;
+          const tool = tools.get(block.tool_use_id);
+          if (!tool) continue;
+          extendEnd(tool.node, ts);
+          if (block.is_error) tool.node.error = toolResultText(block.content) || "Tool call failed";
+        }
+      }
+
+      const prompt = extractUserContent(line.message);
+      if (prompt) {
+        turn = turnNode(++turnIndex, ts, options.includeContent ? prompt : undefined);
+        root.children.push(turn);
+      }
+    } else if (line.type === ClaudeMessageType.Assistant) {
+      const msg = line.message as {
+        id?: string;
+        model?: string;
+        usage?: MessageUsage;
+        content?: ContentBlock[];
+      };
+      const owner = currentTurn(ts);
+
+      if (msg?.id && msg.usage) {
+        const usage = messageUsageToTokenUsage(msg.usage);
+        const existing = apiCalls.get(msg.id);
+        if (!existing) {
+          const node = chatNode(msg.model, "anthropic", msg.id, prevTimestamp ?? ts);
+          owner.children.push(node);
+          apiCalls.set(msg.id, { node, usage, turn: owner });
+        } else if (usage.outputTokens > existing.usage.outputTokens) {
+          existing.usage = usage;
+        }
+        extendEnd(apiCalls.get(msg.id)!.node, ts);
+      }
+
+      if (Array.isArray(msg?.content)) {
+        for (const block of msg.content) {
+          if (block.type !== ContentType.ToolUse || !block.name) continue;
+          const node = toolNode(block.name, block.id, block.input, options, ts);
+          owner.children.push(node);
+          if (block.id) tools.set(block.id, { node, input: block.input });
+        }
+      }
+    }
+
+    if (turn) extendEnd(turn, ts);
+    if (ts !== undefined) prevTimestamp = ts;
+  }
+
+  for (const { node, usage, turn: owner } of apiCalls.values()) {
+    Object.assign(node.attributes, usageAttributes(usage));
+    const total = turnUsage.get(owner) ?? emptyTokenUsage();
+    addUsage(total, usage);
+    turnUsage.set(owner, total);
+  }
+  for (const [owner, usage] of turnUsage) {
+    Object.assign(owner.attributes, usageAttributes(usage));
+  }
+  Object.assign(root.attributes, usageAttributes(calculateClaudeTokenUsage(lines)));
+
+  if (!options.loadSubagentTranscript) return;
+
+  for (const [agentId, toolUseId] of extractSpawnedAgentIds(lines)) {
+    if (visitedAgents.has(agentId)) continue;
+    visitedAgents.add(agentId);
+
+    const content = options.loadSubagentTranscript(agentId);
+    if (!content) continue;
+
+    const tool = tools.get(toolUseId);
+    const subagentType = (tool?.input as { subagent_type?: unknown } | undefined)?.subagent_type;
+    const subagent = agentNode(typeof subagentType === "string" ? subagentType : "subagent", {
+      "gen_ai.agent.id": agentId,
+      "gen_ai.provider.name": "anthropic",
+    });
+
+    buildClaudeAgentSpan(parseFromString(content), subagent, options, visitedAgents);
+    (tool?.node ?? root).children.push(subagent);
+  }
+}
+
+/**
+ * Export a Claude Code transcript as OTLP/JSON spans.
+ *
+ * API calls are deduplicated by `message.id` as in `calculateTokenUsage`.
+ * With `loadSubagentTranscript`, each subagent spawned by a Task tool call is
+ * exported as an `invoke_agent` span nested under that tool call.
+ *
+ * @param lines - Parsed transcript lines
+ * @param options - Export options
+ */
+export function exportClaudeTranscriptSpans(
+  lines: TranscriptLine[],
+  options: ClaudeOtlpExportOptions = {},
+): OtlpTraceData {
+  const sessionId = options.sessionId ?? lines.find((l) => l.sessionId)?.sessionId ?? "";
+  const root = agentNode("claude-code", {
+    "gen_ai.provider.name": "anthropic",
+    "gen_ai.conversation.id": sessionId,
+  });
+
+  buildClaudeAgentSpan(lines, root, options, new Set());
+  return encodeTrace(root, "claude-code", sessionId, options);
+}
+
+// ── Gemini CLI ───────────────────────────────────────────────────
+
+function geminiToolError(toolCall: GeminiToolCall): string | undefined {
+  if (toolCall.status !== ToolCallStatus.Error) return undefined;
+  for (const part of toolCall.result ?? []) {
+    const error = part.functionResponse?.response?.error;
+    if (typeof error === "string" && error) return error;
+  }
+  return "Tool call failed";
+}
+
+/**
+ * Export a Gemini CLI transcript as OTLP/JSON spans.
+ * Each gemini message with token counts is one API call; its `cached`
+ * tokens are reported as cache reads rather than input.
+ *
+ * @param transcript - Parsed Gemini transcript
+ * @param options - Export options
+ */
+export function exportGeminiTranscriptSpans(
+  transcript: GeminiTranscript,
+  options: OtlpExportOptions = {},
+): OtlpTraceData {
+  const sessionId = options.sessionId ?? transcript.sessionId ?? "";
+  const root = agentNode("gemini", {
+    "gen_ai.provider.name": "gcp.gemini",
+    "gen_ai.conversation.id": sessionId,
+  });
+  root.start = toMillis(transcript.startTime);
+
+  let turn: SpanNode | undefined;
+  let turnIndex = 0;
+  let turnUsage = emptyTokenUsage();
+  const sessionUsage = emptyTokenUsage();
+  let prevTimestamp = root.start;
+
+  const closeTurn = (): void => {
+    if (turn && turnUsage.apiCallCount > 0) Object.assign(turn.attributes, usageAttributes(turnUsage));
+    turnUsage = emptyTokenUsage();
+  };
+
+  for (const msg of transcript.messages) {
+    const ts = toMillis(msg.timestamp);
+
+    if (msg.type === GeminiMessageType.User) {
+      if (msg.content) {
+        closeTurn();
+        turn = turnNode(++turnIndex, ts, options.includeContent ? msg.content : undefined);
+        root.children.push(turn);
+      }
+    } else if (msg.type === GeminiMessageType.Gemini) {
+      if (!turn) {
+        turn = turnNode(0, ts, undefined);
+        root.children.push(turn);
+      }
+
+      if (msg.tokens) {
+        const usage: TokenUsage = {
+          ...emptyTokenUsage(),
+          // Gemini counts cached tokens in `input`
+          inputTokens: Math.max(0, msg.tokens.input - msg.tokens.cached),
+          outputTokens: msg.tokens.output,
+          cacheReadTokens: msg.tokens.cached,
+          apiCallCount: 1,
+        };
+        const node = chatNode(msg.model, "gcp.gemini", msg.id, prevTimestamp ?? ts);
+        extendEnd(node, ts);
+        Object.assign(node.attributes, usageAttributes(usage));
+        turn.children.push(node);
+        addUsage(turnUsage, usage);
+        addUsage(sessionUsage, usage);
+      }
+
+      for (const toolCall of msg.toolCalls ?? []) {
+        const node = toolNode(toolCall.name, toolCall.id, toolCall.args, options, ts);
+        extendEnd(node, toMillis(toolCall.timestamp));
+        node.error = geminiToolError(toolCall);
+        turn.children.push(node);
+      }
+    }
+
+    if (turn) extendEnd(turn, ts);
+    if (ts !== undefined) prevTimestamp = ts;
+  }
+  closeTurn();
+
+  Object.assign(root.attributes, usageAttributes(sessionUsage));
+  extendEnd(root, toMillis(transcript.lastUpdated));
+
+  return encodeTrace(root, "gemini", sessionId, options);
+}
+
+// ── AgentSession ─────────────────────────────────────────────────
+
+/**
+ * Export an AgentSession as OTLP/JSON spans: a span per turn and per tool call.
+ * Sessions carry no per-call usage, so API call spans are not emitted; pass
+ * `tokenUsage` to record session totals, with `subagentTokens` exported as a
+ * nested `invoke_agent` span.
+ *
+ * @param session - Session to export
+ * @param options - Export options
+ */
+export function exportSessionSpans(
+  session: AgentSession,
+  options: SessionOtlpExportOptions = {},
+): OtlpTraceData {
+  const sessionId = options.sessionId ?? session.sessionId;
+  const root = agentNode(session.agentName, {
+    "gen_ai.provider.name": options.providerName,
+    "gen_ai.conversation.id": sessionId,
+  });
+  root.start = toMillis(session.startTime);
+
+  let turnIndex = 0;
+  for (const sessionTurn of groupTurns(session)) {
+    const prompt = sessionTurn.prompt;
+    const turn = turnNode(
+      prompt ? ++turnIndex : 0,
+      toMillis(prompt?.timestamp),
+      options.includeContent ? prompt?.content : undefined,
+    );
+    root.children.push(turn);
+
+    for (const entry of sessionTurn.entries) {
+      const ts = toMillis(entry.timestamp);
+      if (entry.toolName === undefined) {
+        extendEnd(turn, ts);
+        continue;
+      }
+      const node = toolNode(entry.toolName, entry.uuid, entry.toolInput, options, ts);
+      if (entry.toolStatus === "error") {
+        node.error = typeof entry.toolOutput === "string" && entry.toolOutput ? entry.toolOutput : "Tool call failed";
+      }
+      turn.children.push(node);
+    }
+  }
+
+  if (options.tokenUsage) {
+    Object.assign(root.attributes, usageAttributes(options.tokenUsage));
+
+    if (options.tokenUsage.subagentTokens) {
+      const subagents = agentNode("subagents", {
+        "gen_ai.provider.name": options.providerName,
+        ...usageAttributes(options.tokenUsage.subagentTokens),
+      });
+      root.children.push(subagents);
+    }
+  }
+
+  return encodeTrace(root, session.agentName, sessionId, options);
+}
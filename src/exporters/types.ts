@@ -0,0 +1,63 @@
+// ============================================================================
+// OTLP/JSON trace types.
+// Defined locally (no dependency on @opentelemetry packages) — structurally
+// compatible with the OTLP/HTTP JSON encoding of ExportTraceServiceRequest.
+// ============================================================================
+
+/** OTLP span kind values. */
+export const SpanKind = {
+  Internal: 1,
+  Server: 2,
+  Client: 3,
+} as const;
+
+/** OTLP status code values. */
+export const StatusCode = {
+  Unset: 0,
+  Ok: 1,
+  Error: 2,
+} as const;
+
+/** An attribute value. 64-bit integers are encoded as strings. */
+export interface OtlpAnyValue {
+  stringValue?: string;
+  intValue?: string;
+  doubleValue?: number;
+  boolValue?: boolean;
+}
+
+/** A key/value attribute. */
+export interface OtlpKeyValue {
+  key: string;
+  value: OtlpAnyValue;
+}
+
+/** A single span. IDs are lowercase hex; times are Unix nanoseconds as strings. */
+export interface OtlpSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: number;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  attributes: OtlpKeyValue[];
+  status?: { code: number; message?: string };
+}
+
+/** Spans from one instrumentation scope. */
+export interface OtlpScopeSpans {
+  scope: { name: string; version?: string };
+  spans: OtlpSpan[];
+}
+
+/** Spans from one resource. */
+export interface OtlpResourceSpans {
+  resource: { attributes: OtlpKeyValue[] };
+  scopeSpans: OtlpScopeSpans[];
+}
+
+/** Top-level OTLP/JSON trace payload (body of POST /v1/traces). */
+export interface OtlpTraceData {
+  resourceSpans: OtlpResourceSpans[];
+}
@@ -2,7 +2,10 @@
 // agent-session-parser
 //
 // Standalone utilities for parsing agent session transcripts.
-// Supports Claude Code (JSONL) and Gemini CLI (JSON) formats.
+// Supports Claude Code (JSONL), Gemini CLI (JSON), Codex CLI (JSONL),
+// Aider (markdown), Cline / Roo Code (JSON task history) and OpenCode
+// (per-message JSON storage) formats, plus raw OpenAI / Anthropic messages
+// arrays.
 //
 // Ported from github.com/entireio/cli session parsing internals.
 // ============================================================================
@@ -15,22 +18,64 @@ export type {
   AgentSession,
   AgentName,
   AgentType,
+  KnownAgentName,
+  KnownAgentType,
   PromptResponsePair,
+  ApiCallUsage,
+  TurnTokenUsage,
   TranscriptPosition,
+  ChunkSource,
+  ReadableStreamLike,
 } from "./types.js";
 
-export { EventType, EntryType, emptyTokenUsage } from "./types.js";
+export { EventType, EntryType, emptyTokenUsage, UNKNOWN_MODEL } from "./types.js";
 
 // Utilities
-export { stripIDEContextTags, deduplicateStrings } from "./utils.js";
+export { stripIDEContextTags, deduplicateStrings, decodeChunks } from "./utils.js";
 
 // Parsers (namespaced)
 export * as claude from "./parsers/claude/index.js";
 export * as gemini from "./parsers/gemini/index.js";
+export * as codex from "./parsers/codex/index.js";
+export * as aider from "./parsers/aider/index.js";
+export * as cline from "./parsers/cline/index.js";
+export * as opencode from "./parsers/opencode/index.js";
+export * as generic from "./parsers/generic/index.js";
 
-// Converters (streaming event → AgentSession)
+// Agent registry
+export type { AgentAdapter } from "./registry.js";
+export {
+  DEFAULT_AGENT_NAME,
+  registerAgent,
+  unregisterAgent,
+  getAgent,
+  getAgentByType,
+  listAgents,
+  detectAgent,
+  resolveAgent,
+} from "./registry.js";
+
+// Converters (ACP events / native transcripts ↔ AgentSession)
 export * as converters from "./converters/index.js";
 
+// Renderers (AgentSession → Markdown / HTML)
+export * as renderers from "./renderers/index.js";
+
+// Exporters (sessions → OpenTelemetry spans / training datasets)
+export * as exporters from "./exporters/index.js";
+
+// Live watching of transcripts that are still being written
+export * as watch from "./watch/index.js";
+
+// Session lifecycle state folded from hook events
+export * as lifecycle from "./lifecycle/index.js";
+
+// Cost estimation from token usage and model pricing
+export * as cost from "./cost/index.js";
+
+// Token usage analyses (context window pressure, prompt-cache efficiency)
+export * as analysis from "./analysis/index.js";
+
 // Chunking utilities
 export {
   MAX_CHUNK_SIZE,
@@ -38,6 +83,7 @@ export {
   chunkJSONL,
   reassembleJSONL,
   chunkGeminiJSON,
+  chunkGeminiJSONStream,
   reassembleGeminiJSON,
   chunkTranscript,
   reassembleTranscript,
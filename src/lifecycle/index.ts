@@ -0,0 +1,18 @@
+export type {
+  LifecycleIssue,
+  SessionRecord,
+  OpenSubagent,
+  SubagentSummary,
+  TurnSummary,
+  CompactionRecord,
+  LifecycleState,
+} from "./types.js";
+export { LifecycleIssueCode, TurnStatus } from "./types.js";
+
+export {
+  emptyLifecycleState,
+  reduceLifecycle,
+  reduceLifecycleEvents,
+  turnSummaries,
+  sessionChain,
+} from "./reducer.js";
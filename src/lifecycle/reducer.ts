@@ -0,0 +1,344 @@
+// ============================================================================
+// Session lifecycle reducer.
+//
+// Folds normalized Events (from any agent's hook parser) into session
+// state: the active session, the turn in progress, running subagents,
+// compactions and resume chains. Events that don't fit the state are
+// recorded as issues and applied as well as they can be, so one missed
+// hook doesn't wedge the state.
+// ============================================================================
+
+import { EventType, type Event } from "../types.js";
+import {
+  LifecycleIssueCode,
+  TurnStatus,
+  type CompactionRecord,
+  type LifecycleIssue,
+  type LifecycleState,
+  type OpenSubagent,
+  type SessionRecord,
+  type SubagentSummary,
+  type TurnSummary,
+} from "./types.js";
+
+type Flag = (code: LifecycleIssue["code"], message: string) => void;
+
+/** Returns the state before any event. */
+export function emptyLifecycleState(): LifecycleState {
+  return {
+    sessions: {},
+    turns: [],
+    openSubagents: {},
+    subagentCount: 0,
+    compactions: [],
+    issues: [],
+  };
+}
+
+// ── Helpers ──────────────────────────────────────────────────────
+// Each helper updates a shallow copy of the state (`next`), replacing the
+// objects and arrays it changes rather than mutating them.
+
+function updateSession(next: LifecycleState, sessionId: string, update: Partial<SessionRecord>): void {
+  next.sessions = { ...next.sessions, [sessionId]: { ...next.sessions[sessionId], ...update } };
+}
+
+function openSession(next: LifecycleState, event: Event): void {
+  const existing = next.sessions[event.sessionId];
+  const session: SessionRecord = existing
+    ? { ...existing, sessionRef: event.sessionRef }
+    : {
+        sessionId: event.sessionId,
+        sessionRef: event.sessionRef,
+        startedAt: event.timestamp,
+        turnCount: 0,
+        compactionCount: 0,
+      };
+  if (event.previousSessionId) session.previousSessionId = event.previousSessionId;
+  delete session.endedAt;
+
+  next.sessions = { ...next.sessions, [event.sessionId]: session };
+  next.activeSessionId = event.sessionId;
+}
+
+function finishTurn(
+  next: LifecycleState,
+  status: TurnSummary["status"],
+  at: Date,
+  responseMessage?: string
+): void {
+  if (!next.currentTurn) return;
+  const turn: TurnSummary = { ...next.currentTurn, status, endedAt: at };
+  if (responseMessage !== undefined) turn.responseMessage = responseMessage;
+  next.turns = [...next.turns, turn];
+  next.currentTurn = undefined;
+}
+
+function addSubagentSummary(next: LifecycleState, open: OpenSubagent, summary: SubagentSummary): void {
+  if (open.turnIndex === undefined) return;
+
+  if (next.currentTurn?.index === open.turnIndex) {
+    next.currentTurn = { ...next.currentTurn, subagents: [...next.currentTurn.subagents, summary] };
+    return;
+  }
+
+  const turn = next.turns[open.turnIndex];
+  if (!turn) return;
+  next.turns = [...next.turns];
+  next.turns[open.turnIndex] = { ...turn, subagents: [...turn.subagents, summary] };
+}
+
+function subagentSummary(open: OpenSubagent): SubagentSummary {
+  const summary: SubagentSummary = { startedAt: open.startedAt };
+  if (open.toolUseId !== undefined) summary.toolUseId = open.toolUseId;
+  if (open.toolInput !== undefined) summary.toolInput = open.toolInput;
+  return summary;
+}
+
+function endSession(next: LifecycleState, sessionId: string, at: Date): void {
+  if (next.currentTurn?.sessionId === sessionId) {
+    finishTurn(next, TurnStatus.Interrupted, at);
+  }
+
+  // Subagents still running are reported without an end time
+  const openSubagents: Record<string, OpenSubagent> = {};
+  for (const [key, open] of Object.entries(next.openSubagents)) {
+    if (open.sessionId === sessionId) {
+      addSubagentSummary(next, open, subagentSummary(open));
+    } else {
+      openSubagents[key] = open;
+    }
+  }
+  next.openSubagents = openSubagents;
+
+  updateSession(next, sessionId, { endedAt: at });
+  if (next.activeSessionId === sessionId) next.activeSessionId = undefined;
+}
+
+/**
+ * Makes the event's session the active one, flagging events that arrive
+ * for a session that isn't active.
+ */
+function requireSession(next: LifecycleState, event: Event, flag: Flag): void {
+  const active = next.activeSessionId;
+  if (active === event.sessionId) return;
+
+  flag(
+    LifecycleIssueCode.SessionNotActive,
+    active
+      ? `${event.type} for session ${event.sessionId} while session ${active} is active`
+      : `${event.type} for session ${event.sessionId}, which is not active`
+  );
+  if (active) endSession(next, active, event.timestamp);
+  openSession(next, event);
+}
+
+/** Key of the open subagent a SubagentEnd refers to. */
+function findSubagentKey(next: LifecycleState, event: Event): string | undefined {
+  if (event.toolUseId !== undefined) {
+    return event.toolUseId in next.openSubagents ? event.toolUseId : undefined;
+  }
+  // Without a toolUseId, the most recent subagent started without one
+  let key: string | undefined;
+  for (const [k, open] of Object.entries(next.openSubagents)) {
+    if (open.toolUseId === undefined && open.sessionId === event.sessionId) key = k;
+  }
+  return key;
+}
+
+// ── Reducer ──────────────────────────────────────────────────────
+
+/**
+ * Applies one event to the lifecycle state and returns the new state.
+ *
+ * Invalid transitions are appended to `issues` (see LifecycleIssueCode)
+ * and resolved as follows:
+ * - an event for a session that isn't active makes it active, ending the
+ *   previously active one;
+ * - TurnStart while a turn is open ends that turn as interrupted;
+ * - TurnEnd without a turn and SubagentEnd for an unknown subagent are
+ *   otherwise ignored.
+ *
+ * Subagents are keyed by `toolUseId`. For events that carry none,
+ * SubagentEnd closes the most recently started subagent. ToolStart and
+ * ToolEnd don't change the state.
+ *
+ * @param state - Current state (not modified)
+ * @param event - Next event
+ */
+export function reduceLifecycle(state: LifecycleState, event: Event): LifecycleState {
+  const next: LifecycleState = { ...state };
+  const flag: Flag = (code, message) => {
+    next.issues = [...next.issues, { code, message, event }];
+  };
+
+  switch (event.type) {
+    case EventType.SessionStart: {
+      const active = next.activeSessionId;
+      if (active !== undefined && active !== event.sessionId) {
+        flag(
+          LifecycleIssueCode.SessionNotEnded,
+          `Session ${event.sessionId} started while session ${active} was still active`
+        );
+        endSession(next, active, event.timestamp);
+      }
+      openSession(next, event);
+      break;
+    }
+
+    case EventType.TurnStart: {
+      requireSession(next, event, flag);
+      if (next.currentTurn) {
+        flag(
+          LifecycleIssueCode.TurnNotEnded,
+          `TurnStart while turn ${next.currentTurn.index} was still active`
+        );
+        finishTurn(next, TurnStatus.Interrupted, event.timestamp);
+      }
+      next.currentTurn = {
+        index: next.turns.length,
+        sessionId: event.sessionId,
+        prompt: event.prompt ?? "",
+        status: TurnStatus.Active,
+        startedAt: event.timestamp,
+        subagents: [],
+        compactionCount: 0,
+      };
+      updateSession(next, event.sessionId, {
+        turnCount: next.sessions[event.sessionId].turnCount + 1,
+      });
+      break;
+    }
+
+    case EventType.TurnEnd:
+      requireSession(next, event, flag);
+      if (!next.currentTurn) {
+        flag(LifecycleIssueCode.TurnNotStarted, "TurnEnd without a TurnStart");
+        break;
+      }
+      finishTurn(next, TurnStatus.Completed, event.timestamp, event.responseMessage);
+      break;
+
+    case EventType.SubagentStart: {
+      requireSession(next, event, flag);
+      const key = event.toolUseId ?? `#${next.subagentCount}`;
+      if (key in next.openSubagents) {
+        flag(LifecycleIssueCode.DuplicateSubagent, `Subagent ${key} was already started`);
+      }
+      const open: OpenSubagent = {
+        sessionId: event.sessionId,
+        startedAt: event.timestamp,
+      };
+      if (event.toolUseId !== undefined) open.toolUseId = event.toolUseId;
+      if (event.toolInput !== undefined) open.toolInput = event.toolInput;
+      if (next.currentTurn) open.turnIndex = next.currentTurn.index;
+
+      next.openSubagents = { ...next.openSubagents, [key]: open };
+      next.subagentCount++;
+      break;
+    }
+
+    case EventType.SubagentEnd: {
+      requireSession(next, event, flag);
+      const key = findSubagentKey(next, event);
+      if (key === undefined) {
+        flag(
+          LifecycleIssueCode.UnknownSubagent,
+          event.toolUseId !== undefined
+            ? `SubagentEnd for unknown subagent ${event.toolUseId}`
+            : "SubagentEnd without a running subagent"
+        );
+        break;
+      }
+
+      const open = next.openSubagents[key];
+      const openSubagents = { ...next.openSubagents };
+      delete openSubagents[key];
+      next.openSubagents = openSubagents;
+
+      const summary = subagentSummary(open);
+      summary.endedAt = event.timestamp;
+      if (event.subagentId !== undefined) summary.subagentId = event.subagentId;
+      addSubagentSummary(next, open, summary);
+      break;
+    }
+
+    case EventType.Compaction: {
+      requireSession(next, event, flag);
+      const compaction: CompactionRecord = {
+        sessionId: event.sessionId,
+        timestamp: event.timestamp,
+      };
+      if (next.currentTurn) {
+        compaction.turnIndex = next.currentTurn.index;
+        next.currentTurn = {
+          ...next.currentTurn,
+          compactionCount: next.currentTurn.compactionCount + 1,
+        };
+      }
+      if (event.metadata?.trigger) compaction.trigger = event.metadata.trigger;
+
+      next.compactions = [...next.compactions, compaction];
+      updateSession(next, event.sessionId, {
+        compactionCount: next.sessions[event.sessionId].compactionCount + 1,
+      });
+      break;
+    }
+
+    case EventType.SessionEnd:
+      requireSession(next, event, flag);
+      endSession(next, event.sessionId, event.timestamp);
+      break;
+
+    case EventType.ToolStart:
+    case EventType.ToolEnd:
+      // Plain tool calls don't change the lifecycle
+      return state;
+  }
+
+  return next;
+}
+
+/**
+ * Applies a sequence of events in order.
+ *
+ * @param events - Events to apply
+ * @param state - State to start from (default: empty)
+ */
+export function reduceLifecycleEvents(
+  events: Iterable<Event>,
+  state: LifecycleState = emptyLifecycleState()
+): LifecycleState {
+  let current = state;
+  for (const event of events) current = reduceLifecycle(current, event);
+  return current;
+}
+
+// ── Queries ──────────────────────────────────────────────────────
+
+/**
+ * Returns the summaries of all turns, finished ones first followed by the
+ * turn in progress (if any).
+ */
+export function turnSummaries(state: LifecycleState): TurnSummary[] {
+  return state.currentTurn ? [...state.turns, state.currentTurn] : state.turns;
+}
+
+/**
+ * Returns the resume chain ending at a session: the IDs linked through
+ * `previousSessionId`, oldest first. A session that was never resumed
+ * yields just its own ID.
+ */
+export function sessionChain(state: LifecycleState, sessionId: string): string[] {
+  const chain: string[] = [];
+  const seen = new Set<string>();
+  let id: string | undefined = sessionId;
+
+  while (id !== undefined && !seen.has(id)) {
+    seen.add(id);
+    chain.unshift(id);
+    id = state.sessions[id]?.previousSessionId;
+  }
+
+  return chain;
+}
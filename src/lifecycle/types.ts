@@ -0,0 +1,120 @@
+// ============================================================================
+// Session lifecycle state types.
+// What reduceLifecycle builds from a sequence of normalized Events.
+// ============================================================================
+
+import type { Event } from "../types.js";
+
+/** Issue codes for events that don't fit the current state. */
+export const LifecycleIssueCode = {
+  /** An event arrived for a session other than the active one (or with none active) */
+  SessionNotActive: "session_not_active",
+  /** SessionStart for a new session while another one was still active */
+  SessionNotEnded: "session_not_ended",
+  /** TurnStart while a turn was still open */
+  TurnNotEnded: "turn_not_ended",
+  /** TurnEnd without a TurnStart */
+  TurnNotStarted: "turn_not_started",
+  /** SubagentStart for a toolUseId that is already open */
+  DuplicateSubagent: "duplicate_subagent",
+  /** SubagentEnd for a subagent that was never started (or already ended) */
+  UnknownSubagent: "unknown_subagent",
+} as const;
+
+/** An event that doesn't fit the current state. The reducer still applies it. */
+export interface LifecycleIssue {
+  code: (typeof LifecycleIssueCode)[keyof typeof LifecycleIssueCode];
+  message: string;
+  event: Event;
+}
+
+/** A session seen by the reducer. */
+export interface SessionRecord {
+  sessionId: string;
+  sessionRef: string;
+  /** Session this one was resumed from */
+  previousSessionId?: string;
+  startedAt: Date;
+  /** Set once the session ended */
+  endedAt?: Date;
+  turnCount: number;
+  compactionCount: number;
+}
+
+/** A subagent that was spawned and hasn't finished. */
+export interface OpenSubagent {
+  toolUseId?: string;
+  sessionId: string;
+  toolInput?: unknown;
+  startedAt: Date;
+  /** Index of the turn it was spawned in */
+  turnIndex?: number;
+}
+
+/** A subagent run within a turn. */
+export interface SubagentSummary {
+  toolUseId?: string;
+  /** Agent ID reported when the subagent finished */
+  subagentId?: string;
+  toolInput?: unknown;
+  startedAt: Date;
+  /** Unset if the subagent never finished (e.g. the session ended first) */
+  endedAt?: Date;
+}
+
+/** Turn status constants. */
+export const TurnStatus = {
+  /** Still running */
+  Active: "active",
+  /** Ended with TurnEnd */
+  Completed: "completed",
+  /** Superseded by the next TurnStart or ended with the session */
+  Interrupted: "interrupted",
+} as const;
+
+/** Summary of one turn (prompt to response). */
+export interface TurnSummary {
+  /** Position among all turns seen by the reducer */
+  index: number;
+  sessionId: string;
+  prompt: string;
+  status: (typeof TurnStatus)[keyof typeof TurnStatus];
+  startedAt: Date;
+  endedAt?: Date;
+  /** Final response, when the hook reported one */
+  responseMessage?: string;
+  /** Subagents spawned during the turn, in start order */
+  subagents: SubagentSummary[];
+  compactionCount: number;
+}
+
+/** A context compaction. */
+export interface CompactionRecord {
+  sessionId: string;
+  timestamp: Date;
+  /** Turn during which it happened */
+  turnIndex?: number;
+  /** "manual" or "auto", when the hook reported it */
+  trigger?: string;
+}
+
+/**
+ * Session state folded from Events. Treat as immutable: reduceLifecycle
+ * returns a new state and leaves its input untouched.
+ */
+export interface LifecycleState {
+  /** Session currently receiving events */
+  activeSessionId?: string;
+  /** Every session seen, by session ID */
+  sessions: Record<string, SessionRecord>;
+  /** Turn in progress */
+  currentTurn?: TurnSummary;
+  /** Finished turns, in order */
+  turns: TurnSummary[];
+  /** Running subagents, keyed by toolUseId (or "#n" for agents that report none) */
+  openSubagents: Record<string, OpenSubagent>;
+  /** Number of SubagentStart events seen */
+  subagentCount: number;
+  compactions: CompactionRecord[];
+  issues: LifecycleIssue[];
+}
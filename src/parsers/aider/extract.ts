@@ -0,0 +1,198 @@
+// ============================================================================
+// Aider chat history extraction utilities.
+// Extracts files, prompts, tokens, and other data from parsed transcripts.
+// ============================================================================
+
+import type { TokenUsage } from "../../types.js";
+import { emptyTokenUsage } from "../../types.js";
+import type { PromptResponsePair } from "../../types.js";
+import type { AiderTranscript, AiderMessage } from "./types.js";
+import { MessageType, PromptCommands } from "./types.js";
+
+const APPLIED_EDIT_PREFIX = "Applied edit to ";
+const TOKENS_LINE_RE = /^Tokens:\s*(.+?)\.(?:\s+Cost:|\s*$)/;
+
+/**
+ * Returns the prompt text of a user message, or "" if it isn't a prompt.
+ * Slash commands are skipped, except /ask, /code and /architect whose
+ * argument is sent to the model.
+ */
+function promptFromMessage(msg: AiderMessage): string {
+  if (msg.type !== MessageType.User) return "";
+
+  const content = msg.content.trim();
+  if (!content.startsWith("/")) return content;
+
+  for (const command of PromptCommands) {
+    if (content === command || content.startsWith(command + " ")) {
+      return content.slice(command.length).trim();
+    }
+  }
+  return "";
+}
+
+/**
+ * Extracts files modified in an Aider transcript.
+ * Collects files from SEARCH/REPLACE edit blocks and from "Applied edit to"
+ * tool lines (which also cover whole-file edits).
+ */
+export function extractModifiedFiles(transcript: AiderTranscript): string[] {
+  const fileSet = new Set<string>();
+  const files: string[] = [];
+
+  const add = (file: string) => {
+    if (file && !fileSet.has(file)) {
+      fileSet.add(file);
+      files.push(file);
+    }
+  };
+
+  for (const msg of transcript.messages) {
+    if (msg.type === MessageType.Assistant && msg.editBlocks) {
+      for (const block of msg.editBlocks) add(block.file);
+    } else if (msg.type === MessageType.Tool) {
+      for (const line of msg.content.split("\n")) {
+        if (line.startsWith(APPLIED_EDIT_PREFIX)) {
+          add(line.slice(APPLIED_EDIT_PREFIX.length).trim());
+        }
+      }
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Extracts the last user prompt from an Aider transcript.
+ */
+export function extractLastUserPrompt(transcript: AiderTranscript): string {
+  for (let i = transcript.messages.length - 1; i >= 0; i--) {
+    const prompt = promptFromMessage(transcript.messages[i]);
+    if (prompt) return prompt;
+  }
+  return "";
+}
+
+/**
+ * Extracts all user prompts from an Aider transcript in order.
+ */
+export function extractAllUserPrompts(transcript: AiderTranscript): string[] {
+  const prompts: string[] = [];
+  for (const msg of transcript.messages) {
+    const prompt = promptFromMessage(msg);
+    if (prompt) prompts.push(prompt);
+  }
+  return prompts;
+}
+
+/**
+ * Extracts all assistant text responses from an Aider transcript.
+ */
+export function extractAssistantResponses(transcript: AiderTranscript): string[] {
+  const texts: string[] = [];
+  for (const msg of transcript.messages) {
+    if (msg.type === MessageType.Assistant && msg.content) {
+      texts.push(msg.content);
+    }
+  }
+  return texts;
+}
+
+/**
+ * Extracts all prompt-response pairs from a transcript.
+ * Each pair contains the user's prompt, assistant's text responses,
+ * and files modified in that turn.
+ */
+export function extractAllPromptResponses(
+  transcript: AiderTranscript
+): PromptResponsePair[] {
+  const pairs: PromptResponsePair[] = [];
+  const messages = transcript.messages;
+
+  const promptIndices: number[] = [];
+  for (let i = 0; i < messages.length; i++) {
+    if (promptFromMessage(messages[i])) promptIndices.push(i);
+  }
+
+  for (let idx = 0; idx < promptIndices.length; idx++) {
+    const startIdx = promptIndices[idx];
+    const endIdx = idx < promptIndices.length - 1 ? promptIndices[idx + 1] : messages.length;
+    const slice: AiderTranscript = { messages: messages.slice(startIdx, endIdx) };
+
+    pairs.push({
+      prompt: promptFromMessage(messages[startIdx]),
+      responses: extractAssistantResponses(slice),
+      files: extractModifiedFiles(slice),
+    });
+  }
+
+  return pairs;
+}
+
+/**
+ * Calculates token usage from the "Tokens: ..." report lines Aider prints
+ * after each model response.
+ *
+ * Aider rounds large counts (e.g. "4.3k"), so totals are approximate.
+ * The "sent" figure includes cache writes and hits; those are split out so
+ * `inputTokens` only counts fresh input.
+ */
+export function calculateTokenUsage(transcript: AiderTranscript): TokenUsage {
+  const usage = emptyTokenUsage();
+
+  for (const msg of transcript.messages) {
+    if (msg.type !== MessageType.Tool) continue;
+
+    for (const line of msg.content.split("\n")) {
+      const match = TOKENS_LINE_RE.exec(line.trim());
+      if (!match) continue;
+
+      let sent = 0;
+      let cacheWrite = 0;
+      let cacheHit = 0;
+      let received = 0;
+      for (const part of match[1].split(/,\s+/)) {
+        const [amount, ...label] = part.trim().split(/\s+/);
+        const value = parseTokenCount(amount);
+        switch (label.join(" ")) {
+          case "sent":
+            sent = value;
+            break;
+          case "cache write":
+            cacheWrite = value;
+            break;
+          case "cache hit":
+            cacheHit = value;
+            break;
+          case "received":
+            received = value;
+            break;
+        }
+      }
+
+      usage.apiCallCount++;
+      usage.inputTokens += Math.max(0, sent - cacheWrite - cacheHit);
+      usage.cacheCreationTokens += cacheWrite;
+      usage.cacheReadTokens += cacheHit;
+      usage.outputTokens += received;
+    }
+  }
+
+  return usage;
+}
+
+/**
+ * Parses a token count as printed by Aider ("136", "4.3k", "12k", "1.1M").
+ */
+function parseTokenCount(text: string): number {
+  const match = /^([\d.,]+)([kKmM]?)$/.exec(text);
+  if (!match) return 0;
+
+  const value = parseFloat(match[1].replace(/,/g, ""));
+  if (isNaN(value)) return 0;
+
+  const suffix = match[2].toLowerCase();
+  if (suffix === "k") return Math.round(value * 1_000);
+  if (suffix === "m") return Math.round(value * 1_000_000);
+  return value;
+}
@@ -0,0 +1,4 @@
+// Aider chat history markdown parser - public API
+export * from "./types.js";
+export * from "./parse.js";
+export * from "./extract.js";
@@ -0,0 +1,178 @@
+// ============================================================================
+// Aider chat history markdown parser.
+// Handles parsing of .aider.chat.history.md into typed messages.
+// ============================================================================
+
+import {
+  type AiderTranscript,
+  type AiderMessage,
+  type AiderEditBlock,
+  LinePrefix,
+  MessageType,
+} from "./types.js";
+
+const FENCE_RE = /^\s*(`{3,}|~{3,})/;
+const SEARCH_RE = /^<{5,9} SEARCH>?\s*$/;
+const DIVIDER_RE = /^={5,9}\s*$/;
+const REPLACE_RE = /^>{5,9} REPLACE\s*$/;
+
+/**
+ * Parses Aider chat history markdown into a transcript structure.
+ *
+ * Consecutive `####` lines form one user message and consecutive `>` lines
+ * one tool message; all other text is assistant output. Lines inside code
+ * fences are always treated as assistant text.
+ */
+export function parseTranscript(data: string): AiderTranscript {
+  const messages: AiderMessage[] = [];
+  let sessionStartedAt: string | undefined;
+  let currentType: string | null = null;
+  let buffer: string[] = [];
+  let inFence = false;
+
+  const flush = () => {
+    if (currentType) {
+      const content = buffer.join("\n").trim();
+      if (content) {
+        const msg: AiderMessage = { type: currentType, content, sessionStartedAt };
+        if (currentType === MessageType.Assistant) {
+          const blocks = parseEditBlocks(content);
+          if (blocks.length > 0) msg.editBlocks = blocks;
+        }
+        messages.push(msg);
+      }
+    }
+    currentType = null;
+    buffer = [];
+  };
+
+  const append = (type: string, text: string) => {
+    if (currentType !== type) flush();
+    currentType = type;
+    buffer.push(text);
+  };
+
+  for (const rawLine of data.split("\n")) {
+    const line = rawLine.replace(/\s+$/, "");
+
+    if (inFence) {
+      append(MessageType.Assistant, line);
+      if (FENCE_RE.test(line)) inFence = false;
+      continue;
+    }
+
+    if (line.startsWith(LinePrefix.SessionHeader)) {
+      flush();
+      sessionStartedAt = line.slice(LinePrefix.SessionHeader.length).trim();
+      continue;
+    }
+
+    if (line.startsWith(LinePrefix.User)) {
+      append(MessageType.User, line.slice(LinePrefix.User.length).replace(/^ /, ""));
+      continue;
+    }
+
+    if (line === LinePrefix.Tool || line.startsWith(LinePrefix.Tool + " ")) {
+      append(MessageType.Tool, line.slice(LinePrefix.Tool.length + 1));
+      continue;
+    }
+
+    if (!line) {
+      // Blank lines end user/tool runs but belong to assistant text
+      if (currentType === MessageType.Assistant) {
+        buffer.push(line);
+      } else {
+        flush();
+      }
+      continue;
+    }
+
+    append(MessageType.Assistant, line);
+    if (FENCE_RE.test(line)) inFence = true;
+  }
+
+  flush();
+  return { messages };
+}
+
+/**
+ * Reports whether content looks like an Aider chat history file
+ * (starts with a `# aider chat started at` header).
+ */
+export function isChatHistory(content: string): boolean {
+  return content.trimStart().startsWith(LinePrefix.SessionHeader);
+}
+
+/**
+ * Parses from a Buffer or Uint8Array.
+ */
+export function parseTranscriptFromBytes(
+  data: Uint8Array | Buffer
+): AiderTranscript {
+  const text = new TextDecoder().decode(data);
+  return parseTranscript(text);
+}
+
+/**
+ * Extracts SEARCH/REPLACE edit blocks from assistant text.
+ *
+ * The file name is the nearest non-empty line above the block, skipping an
+ * opening code fence. Consecutive blocks without a new file name reuse the
+ * previous block's file.
+ */
+export function parseEditBlocks(content: string): AiderEditBlock[] {
+  const blocks: AiderEditBlock[] = [];
+  const lines = content.split("\n");
+  let lastFile = "";
+
+  for (let i = 0; i < lines.length; i++) {
+    if (!SEARCH_RE.test(lines[i].trim())) continue;
+
+    const file = findBlockFileName(lines, i) || lastFile;
+
+    const search: string[] = [];
+    const replace: string[] = [];
+    let j = i + 1;
+    while (j < lines.length && !DIVIDER_RE.test(lines[j].trim())) {
+      search.push(lines[j++]);
+    }
+    j++;
+    while (j < lines.length && !REPLACE_RE.test(lines[j].trim())) {
+      replace.push(lines[j++]);
+    }
+    if (j >= lines.length) break; // Unterminated block
+
+    if (file) {
+      blocks.push({ file, search: search.join("\n"), replace: replace.join("\n") });
+      lastFile = file;
+    }
+    i = j;
+  }
+
+  return blocks;
+}
+
+/**
+ * Looks upwards from a SEARCH marker for the file name line.
+ * Returns "" when the block continues a previous one.
+ */
+function findBlockFileName(lines: string[], searchIdx: number): string {
+  for (let k = searchIdx - 1; k >= 0; k--) {
+    const candidate = lines[k].trim();
+    if (!candidate) continue;
+    if (FENCE_RE.test(candidate) && candidate.replace(/^[`~]+/, "").length <= 12) {
+      // Opening fence (optionally with a language tag); keep looking above it
+      continue;
+    }
+    if (REPLACE_RE.test(candidate)) return "";
+    return stripFileName(candidate);
+  }
+  return "";
+}
+
+/**
+ * Cleans up decoration around a file name line (`**foo.py**`, `# foo.py:`).
+ */
+function stripFileName(line: string): string {
+  return line.replace(/^[#*`\s]+|[*`:\s]+$/g, "");
+}
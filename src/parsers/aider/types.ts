@@ -0,0 +1,45 @@
+// ============================================================================
+// Aider chat history types.
+// Aider appends every chat to a markdown file (.aider.chat.history.md):
+// `####` lines are user input, `>` lines are tool output, and everything
+// else is assistant text (including SEARCH/REPLACE edit blocks).
+// ============================================================================
+
+/** Message type constants for Aider transcripts. */
+export const MessageType = {
+  User: "user",
+  Assistant: "assistant",
+  Tool: "tool",
+} as const;
+
+/** Line prefixes used in the chat history markdown. */
+export const LinePrefix = {
+  SessionHeader: "# aider chat started at ",
+  User: "####",
+  Tool: ">",
+} as const;
+
+/** Slash commands whose argument is a prompt sent to the model. */
+export const PromptCommands = ["/ask", "/code", "/architect"] as const;
+
+/** Top-level structure of a parsed Aider chat history. */
+export interface AiderTranscript {
+  messages: AiderMessage[];
+}
+
+/** A single message in the Aider transcript. */
+export interface AiderMessage {
+  type: string;
+  content: string;
+  /** Start time from the `# aider chat started at` header of the enclosing chat */
+  sessionStartedAt?: string;
+  /** SEARCH/REPLACE edit blocks (assistant messages only) */
+  editBlocks?: AiderEditBlock[];
+}
+
+/** A SEARCH/REPLACE edit block proposed by the assistant. */
+export interface AiderEditBlock {
+  file: string;
+  search: string;
+  replace: string;
+}
@@ -4,9 +4,9 @@
 // ============================================================================
 
 import type { TokenUsage } from "../../types.js";
-import { emptyTokenUsage } from "../../types.js";
+import { emptyTokenUsage, UNKNOWN_MODEL } from "../../types.js";
 import { deduplicateStrings } from "../../utils.js";
-import type { PromptResponsePair } from "../../types.js";
+import type { ApiCallUsage, PromptResponsePair, TurnTokenUsage } from "../../types.js";
 import { extractUserContent, parseFromString } from "./parse.js";
 import {
   type TranscriptLine,
@@ -15,6 +15,7 @@ import {
   type ContentBlock,
   type ToolInput,
   type MessageWithUsage,
+  type MessageUsage,
   FileModificationTools,
   MessageType,
   ContentType,
@@ -29,20 +30,30 @@ export function extractModifiedFiles(lines: TranscriptLine[]): string[] {
   const files: string[] = [];
 
   for (const line of lines) {
-    if (line.type !== MessageType.Assistant) continue;
-
-    const msg = line.message as AssistantMessage;
-    if (!msg?.content || !Array.isArray(msg.content)) continue;
+    for (const file of lineModifiedFiles(line)) {
+      if (!fileSet.has(file)) {
+        fileSet.add(file);
+        files.push(file);
+      }
+    }
+  }
 
-    for (const block of msg.content) {
-      if (block.type !== ContentType.ToolUse) continue;
-      if (!block.name || !FileModificationTools.includes(block.name as typeof FileModificationTools[number])) continue;
+  return files;
+}
 
-      const input = block.input as ToolInput | undefined;
-      if (!input) continue;
+/**
+ * Streaming version of extractModifiedFiles.
+ * Consumes the lines in one pass (e.g. from parseStream).
+ */
+export async function extractModifiedFilesStream(
+  lines: AsyncIterable<TranscriptLine>
+): Promise<string[]> {
+  const fileSet = new Set<string>();
+  const files: string[] = [];
 
-      const file = input.file_path || input.notebook_path;
-      if (file && !fileSet.has(file)) {
+  for await (const line of lines) {
+    for (const file of lineModifiedFiles(line)) {
+      if (!fileSet.has(file)) {
         fileSet.add(file);
         files.push(file);
       }
@@ -52,6 +63,30 @@ export function extractModifiedFiles(lines: TranscriptLine[]): string[] {
   return files;
 }
 
+/**
+ * Returns the files modified by tool calls in one transcript line.
+ */
+function lineModifiedFiles(line: TranscriptLine): string[] {
+  if (line.type !== MessageType.Assistant) return [];
+
+  const msg = line.message as AssistantMessage;
+  if (!msg?.content || !Array.isArray(msg.content)) return [];
+
+  const files: string[] = [];
+  for (const block of msg.content) {
+    if (block.type !== ContentType.ToolUse) continue;
+    if (!block.name || !FileModificationTools.includes(block.name as typeof FileModificationTools[number])) continue;
+
+    const input = block.input as ToolInput | undefined;
+    if (!input) continue;
+
+    const file = input.file_path || input.notebook_path;
+    if (file) files.push(file);
+  }
+
+  return files;
+}
+
 /**
  * Extracts the last user prompt from a Claude Code transcript.
  * Iterates backwards to find the most recent user message.
@@ -211,24 +246,83 @@ export function findCheckpointUUID(
  * Deduplicates by keeping the row with the highest output_tokens for each message.id.
  */
 export function calculateTokenUsage(lines: TranscriptLine[]): TokenUsage {
-  const usageByMessageId = new Map<string, { input_tokens: number; cache_creation_input_tokens: number; cache_read_input_tokens: number; output_tokens: number }>();
+  const messagesById = new Map<string, MessageWithUsage>();
 
   for (const line of lines) {
-    if (line.type !== MessageType.Assistant) continue;
+    recordMessageUsage(line, messagesById);
+  }
 
-    const msg = line.message as MessageWithUsage;
-    if (!msg?.id || !msg?.usage) continue;
+  return sumMessageUsage(messagesById.values());
+}
 
-    const existing = usageByMessageId.get(msg.id);
-    if (!existing || msg.usage.output_tokens > existing.output_tokens) {
-      usageByMessageId.set(msg.id, msg.usage);
-    }
+/**
+ * Streaming version of calculateTokenUsage.
+ * Consumes the lines in one pass (e.g. from parseStream); only the usage of
+ * each distinct message.id is kept in memory.
+ */
+export async function calculateTokenUsageStream(
+  lines: AsyncIterable<TranscriptLine>
+): Promise<TokenUsage> {
+  const messagesById = new Map<string, MessageWithUsage>();
+
+  for await (const line of lines) {
+    recordMessageUsage(line, messagesById);
   }
 
+  return sumMessageUsage(messagesById.values());
+}
+
+/**
+ * Calculates token usage per model from a Claude Code transcript, keyed by
+ * each API call's `message.model`. Streaming rows are deduplicated as in
+ * calculateTokenUsage; calls without a model count under UNKNOWN_MODEL.
+ */
+export function calculateTokenUsageByModel(lines: TranscriptLine[]): Record<string, TokenUsage> {
+  const messagesById = new Map<string, MessageWithUsage>();
+
+  for (const line of lines) {
+    recordMessageUsage(line, messagesById);
+  }
+
+  const messagesByModel = new Map<string, MessageWithUsage[]>();
+  for (const msg of messagesById.values()) {
+    const model = msg.model || UNKNOWN_MODEL;
+    const messages = messagesByModel.get(model);
+    if (messages) messages.push(msg);
+    else messagesByModel.set(model, [msg]);
+  }
+
+  const usageByModel: Record<string, TokenUsage> = {};
+  for (const [model, messages] of messagesByModel) {
+    usageByModel[model] = sumMessageUsage(messages);
+  }
+  return usageByModel;
+}
+
+/**
+ * Records a line's usage, keeping the row with the highest output_tokens
+ * for each message.id.
+ */
+function recordMessageUsage(
+  line: TranscriptLine,
+  messagesById: Map<string, MessageWithUsage>
+): void {
+  if (line.type !== MessageType.Assistant) return;
+
+  const msg = line.message as MessageWithUsage;
+  if (!msg?.id || !msg?.usage) return;
+
+  const existing = messagesById.get(msg.id);
+  if (!existing || msg.usage.output_tokens > existing.usage.output_tokens) {
+    messagesById.set(msg.id, msg);
+  }
+}
+
+function sumMessageUsage(messages: Iterable<MessageWithUsage>): TokenUsage {
   const usage = emptyTokenUsage();
-  usage.apiCallCount = usageByMessageId.size;
 
-  for (const u of usageByMessageId.values()) {
+  for (const { usage: u } of messages) {
+    usage.apiCallCount++;
     usage.inputTokens += u.input_tokens;
     usage.cacheCreationTokens += u.cache_creation_input_tokens;
     usage.cacheReadTokens += u.cache_read_input_tokens;
@@ -238,6 +332,88 @@ export function calculateTokenUsage(lines: TranscriptLine[]): TokenUsage {
   return usage;
 }
 
+/**
+ * Returns the token usage of each API call, in transcript order.
+ *
+ * Streaming rows are deduplicated by message.id as in calculateTokenUsage:
+ * a call's usage comes from its row with the highest output_tokens, its
+ * timestamp and turn from its first row. Turns match
+ * extractAllPromptResponses.
+ */
+export function extractTokenTimeline(lines: TranscriptLine[]): ApiCallUsage[] {
+  const callsById = new Map<string, ApiCallUsage>();
+  let turnIndex = -1;
+
+  for (const line of lines) {
+    if (line.type === MessageType.User) {
+      if (extractUserContent(line.message)) turnIndex++;
+      continue;
+    }
+    if (line.type !== MessageType.Assistant) continue;
+
+    const msg = line.message as MessageWithUsage;
+    if (!msg?.id || !msg?.usage) continue;
+
+    const existing = callsById.get(msg.id);
+    if (!existing) {
+      callsById.set(msg.id, {
+        messageId: msg.id,
+        timestamp: parseTimestamp(line.timestamp),
+        model: msg.model || UNKNOWN_MODEL,
+        usage: callUsage(msg.usage),
+        turnIndex,
+      });
+    } else if (msg.usage.output_tokens > existing.usage.outputTokens) {
+      existing.usage = callUsage(msg.usage);
+    }
+  }
+
+  return [...callsById.values()];
+}
+
+/**
+ * Returns the token usage of each user turn, aligned with
+ * extractAllPromptResponses. API calls before the first prompt are not
+ * part of any turn.
+ */
+export function extractTurnTokenUsage(lines: TranscriptLine[]): TurnTokenUsage[] {
+  const turns: TurnTokenUsage[] = extractAllUserPrompts(lines).map((prompt, index) => ({
+    index,
+    prompt,
+    usage: emptyTokenUsage(),
+    calls: [],
+  }));
+
+  for (const call of extractTokenTimeline(lines)) {
+    const turn = turns[call.turnIndex];
+    if (!turn) continue;
+    turn.calls.push(call);
+    turn.usage.inputTokens += call.usage.inputTokens;
+    turn.usage.cacheCreationTokens += call.usage.cacheCreationTokens;
+    turn.usage.cacheReadTokens += call.usage.cacheReadTokens;
+    turn.usage.outputTokens += call.usage.outputTokens;
+    turn.usage.apiCallCount++;
+  }
+
+  return turns;
+}
+
+function callUsage(u: MessageUsage): TokenUsage {
+  return {
+    inputTokens: u.input_tokens,
+    cacheCreationTokens: u.cache_creation_input_tokens,
+    cacheReadTokens: u.cache_read_input_tokens,
+    outputTokens: u.output_tokens,
+    apiCallCount: 1,
+  };
+}
+
+function parseTimestamp(value: string | undefined): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
 /**
  * Extracts spawned agent IDs from Task tool results in a transcript.
  * When a Task tool completes, the tool_result content contains "agentId: <id>".
@@ -339,6 +515,69 @@ export function calculateTotalTokenUsage(
   return mainUsage;
 }
 
+/**
+ * Calculates token usage per model including the subagent tree.
+ *
+ * Each model's entry holds the session's own usage of the model, with
+ * `subagentTokens` set to the usage of the same model by subagents at any
+ * depth. Models used only by subagents have zero top-level usage.
+ *
+ * @param lines - Parsed transcript lines
+ * @param loadSubagentTranscript - Callback to load a subagent's transcript content by agent ID.
+ *   Returns the raw transcript string, or null if unavailable.
+ */
+export function calculateTotalTokenUsageByModel(
+  lines: TranscriptLine[],
+  loadSubagentTranscript: (agentId: string) => string | null
+): Record<string, TokenUsage> {
+  const usageByModel = calculateTokenUsageByModel(lines);
+  const subagentUsage = subagentTokenUsageByModel(lines, loadSubagentTranscript, new Set());
+
+  for (const [model, usage] of Object.entries(subagentUsage)) {
+    usageByModel[model] ??= emptyTokenUsage();
+    usageByModel[model].subagentTokens = usage;
+  }
+
+  return usageByModel;
+}
+
+/**
+ * Sums per-model usage of the subagents spawned by a transcript and,
+ * recursively, of the subagents they spawned. `seen` guards against
+ * loading an agent twice.
+ */
+function subagentTokenUsageByModel(
+  lines: TranscriptLine[],
+  loadSubagentTranscript: (agentId: string) => string | null,
+  seen: Set<string>
+): Record<string, TokenUsage> {
+  const total: Record<string, TokenUsage> = {};
+  const add = (usageByModel: Record<string, TokenUsage>): void => {
+    for (const [model, usage] of Object.entries(usageByModel)) {
+      const sum = (total[model] ??= emptyTokenUsage());
+      sum.inputTokens += usage.inputTokens;
+      sum.cacheCreationTokens += usage.cacheCreationTokens;
+      sum.cacheReadTokens += usage.cacheReadTokens;
+      sum.outputTokens += usage.outputTokens;
+      sum.apiCallCount += usage.apiCallCount;
+    }
+  };
+
+  for (const agentId of extractSpawnedAgentIds(lines).keys()) {
+    if (seen.has(agentId)) continue;
+    seen.add(agentId);
+
+    const content = loadSubagentTranscript(agentId);
+    if (!content) continue;
+
+    const subLines = parseFromString(content);
+    add(calculateTokenUsageByModel(subLines));
+    add(subagentTokenUsageByModel(subLines, loadSubagentTranscript, seen));
+  }
+
+  return total;
+}
+
 /**
  * Extracts all modified files including those from subagent transcripts.
  *
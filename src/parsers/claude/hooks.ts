@@ -0,0 +1,118 @@
+// ============================================================================
+// Claude Code hook parsing.
+// Turns the JSON a Claude Code hook receives on stdin into a normalized
+// lifecycle Event.
+// ============================================================================
+
+import { EventType, type Event } from "../../types.js";
+import { createHookPayloadHelpers, hookMetadata } from "../hooks.js";
+import type {
+  PostToolHookInput,
+  TaskHookInput,
+  UserPromptSubmitHookInput,
+} from "./types.js";
+
+/** Claude Code hook names understood by parseHookEvent. */
+export const HookName = {
+  SessionStart: "SessionStart",
+  UserPromptSubmit: "UserPromptSubmit",
+  /** Registered with the "Task" matcher: a subagent is spawned */
+  PreToolUse: "PreToolUse",
+  /** Registered with the "Task" matcher: a subagent finished */
+  PostToolUse: "PostToolUse",
+  PreCompact: "PreCompact",
+  Stop: "Stop",
+  SessionEnd: "SessionEnd",
+} as const;
+
+/** Optional payload fields copied into the event's metadata. */
+const METADATA_FIELDS = ["cwd", "source", "reason", "trigger"] as const;
+
+const { invalid, parsePayload, requireString } = createHookPayloadHelpers("Claude Code");
+
+// ── Parsing ──────────────────────────────────────────────────────
+
+/**
+ * Parses the stdin payload of a Claude Code hook into a normalized Event.
+ *
+ * | Hook | Event |
+ * |---|---|
+ * | SessionStart | SessionStart |
+ * | UserPromptSubmit | TurnStart (with `prompt`) |
+ * | PreToolUse (Task) | SubagentStart (with `toolUseId`) |
+ * | PostToolUse (Task) | SubagentEnd (with `toolUseId`, `subagentId` from `tool_response.agentId`) |
+ * | PreCompact | Compaction |
+ * | Stop | TurnEnd |
+ * | SessionEnd | SessionEnd |
+ *
+ * `cwd`, `source`, `reason` and `trigger` are copied into `metadata` when present.
+ *
+ * @param hookName - Name of the hook that was invoked (see HookName)
+ * @param raw - JSON read from the hook's stdin
+ * @param timestamp - Time of the event (default: now; hook payloads carry none)
+ * @throws If the hook name is unknown or the payload is malformed.
+ */
+export function parseHookEvent(hookName: string, raw: string, timestamp: Date = new Date()): Event {
+  if (!Object.values(HookName).includes(hookName as (typeof HookName)[keyof typeof HookName])) {
+    throw new Error(
+      `Unknown Claude Code hook "${hookName}" (expected one of ${Object.values(HookName).join(", ")})`
+    );
+  }
+
+  const payload = parsePayload(hookName, raw);
+  const base = {
+    sessionId: requireString(hookName, payload, "session_id"),
+    sessionRef: requireString(hookName, payload, "transcript_path"),
+    timestamp,
+    metadata: hookMetadata(payload, METADATA_FIELDS),
+  };
+
+  switch (hookName) {
+    case HookName.SessionStart:
+      return { ...base, type: EventType.SessionStart };
+
+    case HookName.UserPromptSubmit: {
+      const input = payload as unknown as UserPromptSubmitHookInput;
+      if (typeof input.prompt !== "string") throw invalid(hookName, '"prompt" must be a string');
+      return { ...base, type: EventType.TurnStart, prompt: input.prompt };
+    }
+
+    case HookName.PreToolUse: {
+      const input = payload as unknown as TaskHookInput;
+      return {
+        ...base,
+        type: EventType.SubagentStart,
+        toolUseId: requireString(hookName, payload, "tool_use_id"),
+        toolInput: input.tool_input,
+      };
+    }
+
+    case HookName.PostToolUse: {
+      const input = payload as unknown as PostToolHookInput;
+      const response = input.tool_response;
+      if (response !== undefined && (typeof response !== "object" || response === null)) {
+        throw invalid(hookName, '"tool_response" must be an object');
+      }
+      const agentId = response?.agentId;
+      if (agentId !== undefined && typeof agentId !== "string") {
+        throw invalid(hookName, '"tool_response.agentId" must be a string');
+      }
+      return {
+        ...base,
+        type: EventType.SubagentEnd,
+        toolUseId: requireString(hookName, payload, "tool_use_id"),
+        subagentId: agentId || undefined,
+        toolInput: input.tool_input,
+      };
+    }
+
+    case HookName.PreCompact:
+      return { ...base, type: EventType.Compaction };
+
+    case HookName.Stop:
+      return { ...base, type: EventType.TurnEnd };
+
+    default:
+      return { ...base, type: EventType.SessionEnd };
+  }
+}
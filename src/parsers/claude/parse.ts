@@ -3,7 +3,8 @@
 // Handles parsing of JSONL-format transcripts where each line is a JSON object.
 // ============================================================================
 
-import { stripIDEContextTags } from "../../utils.js";
+import type { ChunkSource } from "../../types.js";
+import { createLineSplitter, decodeChunks, stripIDEContextTags } from "../../utils.js";
 import {
   type TranscriptLine,
   type UserMessage,
@@ -20,18 +21,44 @@ export function parseFromString(content: string): TranscriptLine[] {
   const lines: TranscriptLine[] = [];
 
   for (const rawLine of content.split("\n")) {
-    const trimmed = rawLine.trim();
-    if (!trimmed) continue;
+    const line = parseLine(rawLine);
+    if (line) lines.push(line);
+  }
 
-    try {
-      const parsed = JSON.parse(trimmed) as TranscriptLine;
-      lines.push(parsed);
-    } catch {
-      // Skip malformed lines
+  return lines;
+}
+
+/**
+ * Parses transcript content from a stream, yielding lines one at a time.
+ * Only the current partial line is buffered, so memory stays bounded
+ * regardless of transcript size. Malformed lines are silently skipped.
+ *
+ * @param source - Node Readable, WHATWG ReadableStream or async iterable of chunks
+ */
+export async function* parseStream(source: ChunkSource): AsyncGenerator<TranscriptLine> {
+  const splitter = createLineSplitter();
+
+  for await (const text of decodeChunks(source)) {
+    for (const rawLine of splitter.push(text)) {
+      const line = parseLine(rawLine);
+      if (line) yield line;
     }
   }
 
-  return lines;
+  const last = parseLine(splitter.end());
+  if (last) yield last;
+}
+
+/** Parses one JSONL line; returns undefined for blank or malformed lines. */
+function parseLine(rawLine: string): TranscriptLine | undefined {
+  const trimmed = rawLine.trim();
+  if (!trimmed) return undefined;
+
+  try {
+    return JSON.parse(trimmed) as TranscriptLine;
+  } catch {
+    return undefined;
+  }
 }
 
 /**
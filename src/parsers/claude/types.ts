@@ -7,6 +7,8 @@
 export const MessageType = {
   User: "user",
   Assistant: "assistant",
+  System: "system",
+  Summary: "summary",
 } as const;
 
 /** Content type constants for content blocks within messages. */
@@ -14,6 +16,7 @@ export const ContentType = {
   Text: "text",
   ToolUse: "tool_use",
   ToolResult: "tool_result",
+  Thinking: "thinking",
 } as const;
 
 /** A single line in a Claude Code JSONL transcript. */
@@ -21,6 +24,21 @@ export interface TranscriptLine {
   type: string;
   uuid: string;
   message: unknown;
+  /** UUID of the previous line in the conversation chain */
+  parentUuid?: string | null;
+  /** ISO 8601 timestamp */
+  timestamp?: string;
+  sessionId?: string;
+  /** Working directory of the session */
+  cwd?: string;
+  gitBranch?: string;
+  version?: string;
+  /** True for lines belonging to a subagent (sidechain) conversation */
+  isSidechain?: boolean;
+  /** Text of system lines */
+  content?: string;
+  /** Summary text of summary lines */
+  summary?: string;
 }
 
 /** A user message in the transcript. Content can be a string or array of content blocks. */
@@ -37,9 +55,16 @@ export interface AssistantMessage {
 export interface ContentBlock {
   type: string;
   text?: string;
+  /** Tool use ID (tool_use blocks) */
+  id?: string;
   name?: string;
   input?: unknown;
   tool_use_id?: string;
+  /** Tool result content (tool_result blocks) */
+  content?: string | ContentBlock[];
+  is_error?: boolean;
+  /** Reasoning text (thinking blocks) */
+  thinking?: string;
 }
 
 /** Tool input structure for extracting file paths and descriptions. */
@@ -74,6 +99,8 @@ export interface MessageUsage {
 /** An assistant message with usage data, used for token counting. */
 export interface MessageWithUsage {
   id: string;
+  /** Model that produced the message (e.g. "claude-sonnet-4-5-20250929") */
+  model?: string;
   usage: MessageUsage;
 }
 
@@ -0,0 +1,287 @@
+// ============================================================================
+// Cline / Roo Code task extraction utilities.
+// The API conversation history is the source of truth for prompts, responses
+// and tool calls; UI messages supply request timing and token usage.
+// ============================================================================
+
+import type { TokenUsage } from "../../types.js";
+import { emptyTokenUsage } from "../../types.js";
+import type { PromptResponsePair } from "../../types.js";
+import { ContentType } from "../claude/types.js";
+import {
+  contentBlocks,
+  extractAssistantText,
+  extractUserContent,
+  parseXmlToolCalls,
+  splitXmlToolResults,
+  toolResultText,
+} from "./parse.js";
+import {
+  type ClineTask,
+  type ClineToolCall,
+  type ClineApiRequest,
+  type ApiRequestInfo,
+  type UIToolInfo,
+  FileModificationTools,
+  FileModificationUITools,
+  MessageRole,
+  SayType,
+  AskType,
+  UIMessageType,
+} from "./types.js";
+
+/**
+ * Correlates `api_req_started` UI messages with assistant messages.
+ * The nth request is matched to the nth assistant message in the API
+ * history; requests without a matching message (e.g. cancelled ones)
+ * get messageIndex -1.
+ */
+export function correlateApiRequests(task: ClineTask): ClineApiRequest[] {
+  const assistantIndices: number[] = [];
+  task.apiMessages.forEach((msg, i) => {
+    if (msg.role === MessageRole.Assistant) assistantIndices.push(i);
+  });
+
+  const requests: ClineApiRequest[] = [];
+  for (const msg of task.uiMessages) {
+    if (msg.type !== UIMessageType.Say || msg.say !== SayType.ApiReqStarted) continue;
+
+    const info = parseJSON<ApiRequestInfo>(msg.text) ?? {};
+    requests.push({
+      timestamp: msg.ts,
+      messageIndex: assistantIndices[requests.length] ?? -1,
+      tokensIn: info.tokensIn ?? 0,
+      tokensOut: info.tokensOut ?? 0,
+      cacheWrites: info.cacheWrites ?? 0,
+      cacheReads: info.cacheReads ?? 0,
+      cost: info.cost,
+    });
+  }
+
+  return requests;
+}
+
+/**
+ * Extracts tool calls from the API history, paired with their results.
+ * Handles both native tool_use/tool_result blocks and XML-style calls whose
+ * results come back as `[tool] Result:` text in the next user message.
+ * Timestamps are taken from the correlated API request, if any.
+ */
+export function extractToolCalls(task: ClineTask): ClineToolCall[] {
+  const timestamps = new Map<number, number>();
+  for (const req of correlateApiRequests(task)) {
+    if (req.messageIndex >= 0) timestamps.set(req.messageIndex, req.timestamp);
+  }
+
+  const calls: ClineToolCall[] = [];
+  const byId = new Map<string, ClineToolCall>();
+  const messages = task.apiMessages;
+
+  for (let i = 0; i < messages.length; i++) {
+    const msg = messages[i];
+
+    if (msg.role === MessageRole.User) {
+      for (const block of contentBlocks(msg)) {
+        if (block.type !== ContentType.ToolResult || !block.tool_use_id) continue;
+        const call = byId.get(block.tool_use_id);
+        if (call) call.result = toolResultText(block);
+      }
+      continue;
+    }
+
+    if (msg.role !== MessageRole.Assistant) continue;
+
+    const timestamp = timestamps.get(i) ?? msg.ts;
+    const xmlCalls: ClineToolCall[] = [];
+
+    for (const block of contentBlocks(msg)) {
+      if (block.type === ContentType.ToolUse && block.name) {
+        const call: ClineToolCall = {
+          id: block.id || `tool_${i}_${calls.length}`,
+          name: block.name,
+          input: (block.input as Record<string, unknown>) ?? {},
+          messageIndex: i,
+          timestamp,
+        };
+        calls.push(call);
+        byId.set(call.id, call);
+      } else if (block.type === ContentType.Text && block.text) {
+        for (const xml of parseXmlToolCalls(block.text)) {
+          const call: ClineToolCall = {
+            id: `xml_${i}_${xmlCalls.length}`,
+            name: xml.name,
+            input: xml.input,
+            messageIndex: i,
+            timestamp,
+          };
+          calls.push(call);
+          xmlCalls.push(call);
+        }
+      }
+    }
+
+    // XML tool results arrive in order in the following user message
+    const next = messages[i + 1];
+    if (xmlCalls.length > 0 && next?.role === MessageRole.User) {
+      const results = splitXmlToolResults(next);
+      for (const call of xmlCalls) {
+        const idx = results.findIndex((r) => r.name === call.name);
+        if (idx === -1) continue;
+        call.result = results[idx].text;
+        results.splice(idx, 1);
+      }
+    }
+  }
+
+  return calls;
+}
+
+/**
+ * Extracts files modified in a task.
+ * Collects paths from file-modifying tool calls in the API history and
+ * from file edit notices in the UI messages.
+ */
+export function extractModifiedFiles(task: ClineTask): string[] {
+  const fileSet = new Set<string>();
+  const files: string[] = [];
+
+  const add = (file: unknown) => {
+    if (typeof file === "string" && file && !fileSet.has(file)) {
+      fileSet.add(file);
+      files.push(file);
+    }
+  };
+
+  for (const call of extractToolCalls(task)) {
+    if (!FileModificationTools.includes(call.name as (typeof FileModificationTools)[number])) continue;
+    add(call.input.path ?? call.input.file_path);
+  }
+
+  for (const msg of task.uiMessages) {
+    const isTool =
+      (msg.type === UIMessageType.Ask && msg.ask === AskType.Tool) ||
+      (msg.type === UIMessageType.Say && msg.say === SayType.Tool);
+    if (!isTool) continue;
+
+    const info = parseJSON<UIToolInfo>(msg.text);
+    if (info && FileModificationUITools.includes(info.tool as (typeof FileModificationUITools)[number])) {
+      add(info.path);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Extracts the last user prompt from a task.
+ */
+export function extractLastUserPrompt(task: ClineTask): string {
+  for (let i = task.apiMessages.length - 1; i >= 0; i--) {
+    const msg = task.apiMessages[i];
+    if (msg.role !== MessageRole.User) continue;
+
+    const content = extractUserContent(msg);
+    if (content) return content;
+  }
+  return "";
+}
+
+/**
+ * Extracts all user prompts from a task in order: the initial task text
+ * followed by feedback and follow-up answers.
+ */
+export function extractAllUserPrompts(task: ClineTask): string[] {
+  const prompts: string[] = [];
+  for (const msg of task.apiMessages) {
+    if (msg.role !== MessageRole.User) continue;
+
+    const content = extractUserContent(msg);
+    if (content) prompts.push(content);
+  }
+  return prompts;
+}
+
+/**
+ * Extracts all assistant text responses from a task.
+ * XML tool calls and `<thinking>` blocks are removed.
+ */
+export function extractAssistantResponses(task: ClineTask): string[] {
+  const texts: string[] = [];
+  for (const msg of task.apiMessages) {
+    if (msg.role !== MessageRole.Assistant) continue;
+
+    const text = extractAssistantText(msg);
+    if (text) texts.push(text);
+  }
+  return texts;
+}
+
+/**
+ * Extracts all prompt-response pairs from a task.
+ * Each pair contains the user's prompt, assistant's text responses,
+ * and files modified in that turn.
+ */
+export function extractAllPromptResponses(task: ClineTask): PromptResponsePair[] {
+  const pairs: PromptResponsePair[] = [];
+  const messages = task.apiMessages;
+
+  const userIndices: number[] = [];
+  for (let i = 0; i < messages.length; i++) {
+    if (messages[i].role === MessageRole.User && extractUserContent(messages[i])) {
+      userIndices.push(i);
+    }
+  }
+
+  for (let idx = 0; idx < userIndices.length; idx++) {
+    const startIdx = userIndices[idx];
+    const endIdx = idx < userIndices.length - 1 ? userIndices[idx + 1] : messages.length;
+    const slice: ClineTask = { apiMessages: messages.slice(startIdx, endIdx), uiMessages: [] };
+
+    pairs.push({
+      prompt: extractUserContent(messages[startIdx]),
+      responses: extractAssistantResponses(slice),
+      files: extractModifiedFiles(slice),
+    });
+  }
+
+  return pairs;
+}
+
+/**
+ * Calculates token usage from the `api_req_started` UI messages.
+ * Each request counts as one API call; requests that never reported
+ * usage contribute zero tokens.
+ */
+export function calculateTokenUsage(task: ClineTask): TokenUsage {
+  const usage = emptyTokenUsage();
+
+  for (const req of correlateApiRequests(task)) {
+    usage.apiCallCount++;
+    usage.inputTokens += req.tokensIn;
+    usage.outputTokens += req.tokensOut;
+    usage.cacheCreationTokens += req.cacheWrites;
+    usage.cacheReadTokens += req.cacheReads;
+  }
+
+  return usage;
+}
+
+/**
+ * Calculates the total cost reported by the extension across all requests.
+ */
+export function calculateTotalCost(task: ClineTask): number {
+  let total = 0;
+  for (const req of correlateApiRequests(task)) {
+    total += req.cost ?? 0;
+  }
+  return total;
+}
+
+function parseJSON<T>(raw: string | undefined): T | null {
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,4 @@
+// Cline / Roo Code task history parser - public API
+export * from "./types.js";
+export * from "./parse.js";
+export * from "./extract.js";
@@ -0,0 +1,207 @@
+// ============================================================================
+// Cline / Roo Code task history parser.
+// Handles parsing of api_conversation_history.json and ui_messages.json.
+// ============================================================================
+
+import { stripIDEContextTags } from "../../utils.js";
+import { ContentType } from "../claude/types.js";
+import {
+  type ApiMessage,
+  type UIMessage,
+  type ClineTask,
+  type ContentBlock,
+  KnownTools,
+} from "./types.js";
+
+/** Matches any known tool invocation written as XML in assistant text. */
+const XML_TOOL_RE = new RegExp(`<(${KnownTools.join("|")})>([\\s\\S]*?)</\\1>`, "g");
+
+/** Matches a single `<param>value</param>` inside an XML tool invocation. */
+const XML_PARAM_RE = /<([a-z_]+)>([\s\S]*?)<\/\1>/g;
+
+/** Header Cline prefixes to text blocks carrying an XML tool's result. */
+const TOOL_RESULT_HEADER_RE = /^\[([a-z_]+)(?: for [^\]]*)?\] Result:/;
+
+/** Wrapper tags around user-authored text in API user messages. */
+const USER_TEXT_TAG_RE = /<(task|feedback|answer|user_message)>([\s\S]*?)<\/\1>/g;
+
+/** Context blocks the extension appends to user messages. */
+const INJECTED_CONTEXT_RE = /<environment_details>[\s\S]*?<\/environment_details>/g;
+
+/**
+ * Parses api_conversation_history.json into API messages.
+ */
+export function parseApiConversationHistory(data: string): ApiMessage[] {
+  const raw = JSON.parse(data) as unknown;
+  return Array.isArray(raw) ? (raw as ApiMessage[]) : [];
+}
+
+/**
+ * Parses ui_messages.json into UI messages.
+ * Partial (still streaming) messages are dropped.
+ */
+export function parseUIMessages(data: string): UIMessage[] {
+  const raw = JSON.parse(data) as unknown;
+  if (!Array.isArray(raw)) return [];
+  return (raw as UIMessage[]).filter((msg) => !msg.partial);
+}
+
+/**
+ * Parses both history files of a task.
+ * ui_messages.json is optional; without it prompts fall back to the API
+ * history and token usage is unavailable.
+ */
+export function parseTask(
+  apiHistoryData: string,
+  uiMessagesData?: string
+): ClineTask {
+  return {
+    apiMessages: parseApiConversationHistory(apiHistoryData),
+    uiMessages: uiMessagesData ? parseUIMessages(uiMessagesData) : [],
+  };
+}
+
+/**
+ * Returns the content of a message as content blocks.
+ */
+export function contentBlocks(message: ApiMessage): ContentBlock[] {
+  if (typeof message.content === "string") {
+    return [{ type: ContentType.Text, text: message.content }];
+  }
+  return Array.isArray(message.content) ? message.content : [];
+}
+
+/**
+ * Parses XML-style tool calls (`<write_to_file><path>..</path>..</write_to_file>`)
+ * from assistant text. Used by Cline versions without native tool calling.
+ */
+export function parseXmlToolCalls(
+  text: string
+): Array<{ name: string; input: Record<string, string> }> {
+  const calls: Array<{ name: string; input: Record<string, string> }> = [];
+
+  for (const match of text.matchAll(XML_TOOL_RE)) {
+    const input: Record<string, string> = {};
+    for (const param of match[2].matchAll(XML_PARAM_RE)) {
+      input[param[1]] = param[2].replace(/^\n/, "").replace(/\n$/, "");
+    }
+    calls.push({ name: match[1], input });
+  }
+
+  return calls;
+}
+
+/**
+ * Returns the tool name of a text block carrying an XML tool's result
+ * (`[write_to_file for 'a.ts'] Result:`), or null if it isn't one.
+ */
+export function parseToolResultHeader(text: string): string | null {
+  const match = TOOL_RESULT_HEADER_RE.exec(text.trimStart());
+  return match ? match[1] : null;
+}
+
+/**
+ * Splits the XML tool results in an API user message.
+ * Cline writes each result as a `[tool] Result:` header block followed by
+ * one or more content blocks; results are returned in order.
+ */
+export function splitXmlToolResults(
+  message: ApiMessage
+): Array<{ name: string; text: string }> {
+  const results: Array<{ name: string; text: string }> = [];
+  let current: { name: string; parts: string[] } | null = null;
+
+  const flush = () => {
+    if (current) results.push({ name: current.name, text: current.parts.join("\n").trim() });
+    current = null;
+  };
+
+  for (const block of contentBlocks(message)) {
+    if (block.type !== ContentType.Text || !block.text) continue;
+
+    const name = parseToolResultHeader(block.text);
+    if (name !== null) {
+      flush();
+      const rest = block.text.trimStart().replace(TOOL_RESULT_HEADER_RE, "").trim();
+      current = { name, parts: rest ? [rest] : [] };
+    } else if (current && !block.text.trimStart().startsWith("<environment_details>")) {
+      current.parts.push(block.text);
+    } else {
+      flush();
+    }
+  }
+
+  flush();
+  return results;
+}
+
+/**
+ * Extracts user-authored text from an API user message.
+ *
+ * Text wrapped in `<task>`, `<feedback>`, `<answer>` or `<user_message>` is
+ * unwrapped, including feedback embedded in tool results. Messages that carry
+ * tool results contribute nothing else; otherwise plain text blocks count,
+ * minus `<environment_details>`. IDE-injected context tags are stripped.
+ */
+export function extractUserContent(message: ApiMessage): string {
+  const blocks = contentBlocks(message);
+  const wrapped: string[] = [];
+  const plain: string[] = [];
+  let hasToolResults = false;
+
+  for (const block of blocks) {
+    let text = "";
+    if (block.type === ContentType.Text && block.text) {
+      text = block.text;
+      if (parseToolResultHeader(text) !== null) hasToolResults = true;
+    } else if (block.type === ContentType.ToolResult) {
+      text = toolResultText(block);
+      hasToolResults = true;
+    }
+    if (!text) continue;
+
+    const tagged = [...text.matchAll(USER_TEXT_TAG_RE)].map((m) => m[2].trim());
+    if (tagged.length > 0) {
+      wrapped.push(...tagged);
+    } else if (block.type === ContentType.Text) {
+      const stripped = text.replace(INJECTED_CONTEXT_RE, "").trim();
+      if (stripped) plain.push(stripped);
+    }
+  }
+
+  const texts = hasToolResults ? wrapped : [...wrapped, ...plain];
+  return stripIDEContextTags(texts.join("\n\n"));
+}
+
+/**
+ * Returns assistant text with XML tool calls and `<thinking>` blocks removed.
+ */
+export function extractAssistantText(message: ApiMessage): string {
+  const texts: string[] = [];
+
+  for (const block of contentBlocks(message)) {
+    if (block.type !== ContentType.Text || !block.text) continue;
+
+    const text = block.text
+      .replace(XML_TOOL_RE, "")
+      .replace(/<thinking>[\s\S]*?<\/thinking>/g, "")
+      .trim();
+    if (text) texts.push(text);
+  }
+
+  return texts.join("\n\n");
+}
+
+/**
+ * Flattens tool_result content (string or text blocks) into a string.
+ */
+export function toolResultText(block: ContentBlock): string {
+  if (typeof block.content === "string") return block.content;
+  if (!Array.isArray(block.content)) return "";
+
+  const texts: string[] = [];
+  for (const part of block.content) {
+    if (part.type === ContentType.Text && part.text) texts.push(part.text);
+  }
+  return texts.join("\n");
+}
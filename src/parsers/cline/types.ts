@@ -0,0 +1,154 @@
+// ============================================================================
+// Cline / Roo Code task history types.
+// Each task is stored as api_conversation_history.json (Anthropic-style
+// messages sent to the model) plus ui_messages.json (what the extension
+// displayed, including per-request token and cost reports).
+// ============================================================================
+
+import type { ContentBlock as ClaudeContentBlock } from "../claude/types.js";
+
+/** Role constants for API conversation messages. */
+export const MessageRole = {
+  User: "user",
+  Assistant: "assistant",
+} as const;
+
+/** UI message kinds: `ask` waits for the user, `say` is informational. */
+export const UIMessageType = {
+  Ask: "ask",
+  Say: "say",
+} as const;
+
+/** `say` values used when extracting data from UI messages. */
+export const SayType = {
+  Task: "task",
+  Text: "text",
+  UserFeedback: "user_feedback",
+  ApiReqStarted: "api_req_started",
+  CompletionResult: "completion_result",
+  Tool: "tool",
+  Command: "command",
+} as const;
+
+/** `ask` values used when extracting data from UI messages. */
+export const AskType = {
+  Tool: "tool",
+  Command: "command",
+  Followup: "followup",
+} as const;
+
+/** A content block in an API conversation message (Anthropic Messages format). */
+export interface ContentBlock extends ClaudeContentBlock {
+  /** Tool use ID (tool_use blocks) */
+  id?: string;
+  /** Tool result content (tool_result blocks) */
+  content?: string | ContentBlock[];
+  is_error?: boolean;
+}
+
+/** A message in api_conversation_history.json. */
+export interface ApiMessage {
+  role: string;
+  content: string | ContentBlock[];
+  /** Timestamp in milliseconds (Roo Code) */
+  ts?: number;
+}
+
+/** A message in ui_messages.json. */
+export interface UIMessage {
+  ts: number;
+  type: string;
+  ask?: string;
+  say?: string;
+  text?: string;
+  partial?: boolean;
+}
+
+/** JSON payload of an `api_req_started` UI message. */
+export interface ApiRequestInfo {
+  request?: string;
+  tokensIn?: number;
+  tokensOut?: number;
+  cacheWrites?: number;
+  cacheReads?: number;
+  cost?: number;
+}
+
+/** JSON payload of a `tool` UI message. */
+export interface UIToolInfo {
+  tool: string;
+  path?: string;
+  diff?: string;
+  content?: string;
+}
+
+/** A parsed task: both history files of one Cline / Roo Code task. */
+export interface ClineTask {
+  apiMessages: ApiMessage[];
+  uiMessages: UIMessage[];
+}
+
+/** A tool call made by the assistant, paired with its result. */
+export interface ClineToolCall {
+  /** tool_use ID, or a positional ID for XML-style tool calls */
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+  result?: string;
+  /** Index of the assistant message in the API history */
+  messageIndex: number;
+  /** Request start time (ms) correlated from ui_messages.json */
+  timestamp?: number;
+}
+
+/** An API request correlated with the assistant message it produced. */
+export interface ClineApiRequest {
+  timestamp: number;
+  /** Index of the assistant message in the API history, or -1 if none followed */
+  messageIndex: number;
+  tokensIn: number;
+  tokensOut: number;
+  cacheWrites: number;
+  cacheReads: number;
+  cost?: number;
+}
+
+/** Tool names known to Cline and Roo Code (used to find XML-style tool calls). */
+export const KnownTools = [
+  "execute_command",
+  "read_file",
+  "write_to_file",
+  "replace_in_file",
+  "apply_diff",
+  "insert_content",
+  "search_and_replace",
+  "search_files",
+  "list_files",
+  "list_code_definition_names",
+  "browser_action",
+  "use_mcp_tool",
+  "access_mcp_resource",
+  "ask_followup_question",
+  "attempt_completion",
+  "plan_mode_respond",
+  "new_task",
+  "switch_mode",
+] as const;
+
+/** Tool names used in Cline / Roo Code that modify files. */
+export const FileModificationTools = [
+  "write_to_file",
+  "replace_in_file",
+  "apply_diff",
+  "insert_content",
+  "search_and_replace",
+] as const;
+
+/** UI `tool` values that report a file modification. */
+export const FileModificationUITools = [
+  "editedExistingFile",
+  "newFileCreated",
+  "appliedDiff",
+  "insertContent",
+  "searchAndReplace",
+] as const;
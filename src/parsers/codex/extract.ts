@@ -0,0 +1,281 @@
+// ============================================================================
+// Codex CLI rollout extraction utilities.
+// Extracts files, prompts, tokens, and other data from parsed rollouts.
+// ============================================================================
+
+import type { TokenUsage } from "../../types.js";
+import { emptyTokenUsage } from "../../types.js";
+import type { PromptResponsePair } from "../../types.js";
+import { stripIDEContextTags } from "../../utils.js";
+import { extractMessageText, isInjectedContext } from "./parse.js";
+import {
+  type RolloutLine,
+  type ResponseItem,
+  type EventMsg,
+  type ShellToolInput,
+  FileModificationTools,
+  ShellTools,
+  LineType,
+  ResponseItemType,
+  EventMsgType,
+} from "./types.js";
+
+/** Patch headers that name the file an apply_patch hunk touches. */
+const PATCH_FILE_HEADERS = [
+  "*** Add File: ",
+  "*** Update File: ",
+  "*** Delete File: ",
+  "*** Move to: ",
+];
+
+/**
+ * Extracts file paths from an apply_patch patch body.
+ */
+export function extractFilesFromPatch(patch: string): string[] {
+  const files: string[] = [];
+
+  for (const rawLine of patch.split("\n")) {
+    const line = rawLine.trim();
+    for (const header of PATCH_FILE_HEADERS) {
+      if (line.startsWith(header)) {
+        const file = line.slice(header.length).trim();
+        if (file && !files.includes(file)) files.push(file);
+      }
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Returns the apply_patch body embedded in a shell command, if any.
+ * Handles both `["apply_patch", "<patch>"]` and `["bash", "-lc", "apply_patch <<'EOF' ..."]`.
+ */
+function patchFromShellCommand(command: string[] | undefined): string | null {
+  if (!Array.isArray(command) || command.length === 0) return null;
+
+  if (FileModificationTools.includes(command[0] as (typeof FileModificationTools)[number])) {
+    return typeof command[1] === "string" ? command[1] : null;
+  }
+
+  const script = command[command.length - 1];
+  if (typeof script === "string" && script.includes("*** Begin Patch")) {
+    return script;
+  }
+
+  return null;
+}
+
+/**
+ * Returns the patch applied by a tool-call response item, or null if the
+ * item does not modify files.
+ */
+function patchFromResponseItem(item: ResponseItem): string | null {
+  switch (item.type) {
+    case ResponseItemType.CustomToolCall:
+    case ResponseItemType.FunctionCall: {
+      if (!item.name) return null;
+
+      if (FileModificationTools.includes(item.name as (typeof FileModificationTools)[number])) {
+        if (typeof item.input === "string") return item.input;
+        return parseArguments<{ input?: string }>(item.arguments)?.input ?? null;
+      }
+
+      if (ShellTools.includes(item.name as (typeof ShellTools)[number])) {
+        const args = parseArguments<ShellToolInput>(item.arguments);
+        return patchFromShellCommand(args?.command);
+      }
+
+      return null;
+    }
+
+    case ResponseItemType.LocalShellCall:
+      return patchFromShellCommand(item.action?.command);
+
+    default:
+      return null;
+  }
+}
+
+function parseArguments<T>(raw: string | undefined): T | null {
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Extracts files modified by apply_patch calls from a Codex rollout.
+ * Covers the apply_patch tool as well as apply_patch invoked through shell calls.
+ */
+export function extractModifiedFiles(lines: RolloutLine[]): string[] {
+  const fileSet = new Set<string>();
+  const files: string[] = [];
+
+  for (const line of lines) {
+    if (line.type !== LineType.ResponseItem || !line.payload) continue;
+
+    const patch = patchFromResponseItem(line.payload as ResponseItem);
+    if (!patch) continue;
+
+    for (const file of extractFilesFromPatch(patch)) {
+      if (!fileSet.has(file)) {
+        fileSet.add(file);
+        files.push(file);
+      }
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Reports whether the rollout records prompts as user_message events.
+ * Newer rollouts log each prompt both as an event and as a response item;
+ * in that case only the events are used so prompts aren't counted twice.
+ */
+function hasUserMessageEvents(lines: RolloutLine[]): boolean {
+  return lines.some(
+    (line) =>
+      line.type === LineType.EventMsg &&
+      (line.payload as EventMsg | undefined)?.type === EventMsgType.UserMessage
+  );
+}
+
+/**
+ * Returns the user prompt carried by a line, or "" if the line is not a prompt.
+ */
+function promptFromLine(line: RolloutLine, fromEvents: boolean): string {
+  if (!line.payload) return "";
+
+  if (fromEvents) {
+    if (line.type !== LineType.EventMsg) return "";
+    const msg = line.payload as EventMsg;
+    if (msg.type !== EventMsgType.UserMessage || !msg.message) return "";
+    return stripIDEContextTags(msg.message);
+  }
+
+  if (line.type !== LineType.ResponseItem) return "";
+  const item = line.payload as ResponseItem;
+  if (item.type !== ResponseItemType.Message || item.role !== "user") return "";
+
+  const text = extractMessageText(item);
+  return isInjectedContext(text) ? "" : text;
+}
+
+/**
+ * Extracts the last user prompt from a Codex rollout.
+ */
+export function extractLastUserPrompt(lines: RolloutLine[]): string {
+  const fromEvents = hasUserMessageEvents(lines);
+  for (let i = lines.length - 1; i >= 0; i--) {
+    const prompt = promptFromLine(lines[i], fromEvents);
+    if (prompt) return prompt;
+  }
+  return "";
+}
+
+/**
+ * Extracts all user prompts from a Codex rollout in order.
+ * Environment context and AGENTS.md instructions injected by Codex are skipped.
+ */
+export function extractAllUserPrompts(lines: RolloutLine[]): string[] {
+  const fromEvents = hasUserMessageEvents(lines);
+  const prompts: string[] = [];
+
+  for (const line of lines) {
+    const prompt = promptFromLine(line, fromEvents);
+    if (prompt) prompts.push(prompt);
+  }
+
+  return prompts;
+}
+
+/**
+ * Extracts all assistant text responses from a Codex rollout.
+ */
+export function extractAssistantResponses(lines: RolloutLine[]): string[] {
+  const texts: string[] = [];
+
+  for (const line of lines) {
+    if (line.type !== LineType.ResponseItem || !line.payload) continue;
+
+    const item = line.payload as ResponseItem;
+    if (item.type !== ResponseItemType.Message || item.role !== "assistant") continue;
+
+    const text = extractMessageText(item);
+    if (text) texts.push(text);
+  }
+
+  return texts;
+}
+
+/**
+ * Extracts all prompt-response pairs from a rollout.
+ * Each pair contains the user's prompt, assistant's text responses,
+ * and files modified in that turn.
+ */
+export function extractAllPromptResponses(
+  lines: RolloutLine[]
+): PromptResponsePair[] {
+  const fromEvents = hasUserMessageEvents(lines);
+  const pairs: PromptResponsePair[] = [];
+
+  const promptIndices: number[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    if (promptFromLine(lines[i], fromEvents)) promptIndices.push(i);
+  }
+
+  for (let idx = 0; idx < promptIndices.length; idx++) {
+    const startIdx = promptIndices[idx];
+    const endIdx = idx < promptIndices.length - 1 ? promptIndices[idx + 1] : lines.length;
+    const slice = lines.slice(startIdx, endIdx);
+
+    const prompt = promptFromLine(lines[startIdx], fromEvents);
+    const responses = extractAssistantResponses(slice);
+    const files = extractModifiedFiles(slice);
+
+    pairs.push({ prompt, responses, files });
+  }
+
+  return pairs;
+}
+
+/**
+ * Calculates token usage from a Codex rollout.
+ *
+ * Each API call is followed by a token_count event whose `last_token_usage`
+ * holds that call's usage. Codex re-emits the same event when only rate-limit
+ * data changes, so events whose cumulative total hasn't moved are skipped;
+ * events without a total are always counted.
+ * OpenAI reports cached input as part of `input_tokens`; it is split out into
+ * `cacheReadTokens` here.
+ */
+export function calculateTokenUsage(lines: RolloutLine[]): TokenUsage {
+  const usage = emptyTokenUsage();
+  let lastTotal: number | undefined;
+
+  for (const line of lines) {
+    if (line.type !== LineType.EventMsg || !line.payload) continue;
+
+    const msg = line.payload as EventMsg;
+    if (msg.type !== EventMsgType.TokenCount || !msg.info) continue;
+
+    const total = msg.info.total_token_usage?.total_tokens;
+    if (total !== undefined && total === lastTotal) continue;
+    lastTotal = total;
+
+    const last = msg.info.last_token_usage;
+    if (!last) continue;
+
+    const cached = last.cached_input_tokens || 0;
+    usage.apiCallCount++;
+    usage.inputTokens += (last.input_tokens || 0) - cached;
+    usage.cacheReadTokens += cached;
+    usage.outputTokens += last.output_tokens || 0;
+  }
+
+  return usage;
+}
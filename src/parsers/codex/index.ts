@@ -0,0 +1,4 @@
+// Codex CLI rollout JSONL parser - public API
+export * from "./types.js";
+export * from "./parse.js";
+export * from "./extract.js";
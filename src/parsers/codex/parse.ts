@@ -0,0 +1,194 @@
+// ============================================================================
+// Codex CLI rollout JSONL parser.
+// Handles parsing of rollout files where each line wraps a typed payload.
+// ============================================================================
+
+import { stripIDEContextTags } from "../../utils.js";
+import {
+  type RolloutLine,
+  type ResponseItem,
+  type SessionMeta,
+  ContentType,
+  LineType,
+} from "./types.js";
+
+/**
+ * Context blocks Codex injects as user messages at the start of a session.
+ * These are not typed by the user and shouldn't be treated as prompts.
+ */
+const INJECTED_CONTEXT_PREFIXES = [
+  "<environment_context>",
+  "<user_instructions>",
+  "# AGENTS.md instructions",
+];
+
+/** Line types that only appear in Codex rollout files. */
+const ROLLOUT_LINE_TYPES: ReadonlySet<string> = new Set([
+  LineType.SessionMeta,
+  LineType.ResponseItem,
+  LineType.EventMsg,
+  LineType.TurnContext,
+]);
+
+/**
+ * Reports whether content looks like a Codex rollout: the first JSONL line
+ * is a rollout line type with a payload.
+ */
+export function isRolloutContent(content: string): boolean {
+  const trimmed = content.trimStart();
+  if (!trimmed.startsWith("{")) return false;
+
+  const newlineIdx = trimmed.indexOf("\n");
+  const firstLine = newlineIdx === -1 ? trimmed : trimmed.slice(0, newlineIdx);
+  try {
+    const parsed = JSON.parse(firstLine) as { type?: unknown; payload?: unknown };
+    return (
+      typeof parsed.type === "string" &&
+      ROLLOUT_LINE_TYPES.has(parsed.type) &&
+      parsed.payload !== undefined
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parses rollout content from a string.
+ * Each line is a separate JSON object. Malformed lines are silently skipped.
+ */
+export function parseFromString(content: string): RolloutLine[] {
+  const lines: RolloutLine[] = [];
+
+  for (const rawLine of content.split("\n")) {
+    const trimmed = rawLine.trim();
+    if (!trimmed) continue;
+
+    try {
+      const parsed = JSON.parse(trimmed) as RolloutLine;
+      lines.push(parsed);
+    } catch {
+      // Skip malformed lines
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Parses rollout content from a Buffer or Uint8Array.
+ */
+export function parseFromBytes(content: Uint8Array | Buffer): RolloutLine[] {
+  const text = new TextDecoder().decode(content);
+  return parseFromString(text);
+}
+
+/**
+ * Parses rollout content starting from a specific line (0-indexed).
+ * Returns both the parsed lines and the total line count.
+ */
+export function parseFromStringAtLine(
+  content: string,
+  startLine: number
+): { lines: RolloutLine[]; totalLines: number } {
+  const lines: RolloutLine[] = [];
+  let totalLines = 0;
+
+  for (const rawLine of content.split("\n")) {
+    const trimmed = rawLine.trim();
+    if (!trimmed) continue;
+
+    if (totalLines >= startLine) {
+      try {
+        const parsed = JSON.parse(trimmed) as RolloutLine;
+        lines.push(parsed);
+      } catch {
+        // Skip malformed lines
+      }
+    }
+    totalLines++;
+  }
+
+  return { lines, totalLines };
+}
+
+/**
+ * Returns the session_meta payload of a rollout, or null if absent.
+ */
+export function extractSessionMeta(lines: RolloutLine[]): SessionMeta | null {
+  for (const line of lines) {
+    if (line.type === LineType.SessionMeta && line.payload) {
+      return line.payload as SessionMeta;
+    }
+  }
+  return null;
+}
+
+/**
+ * Extracts text from a message response_item.
+ * Joins input_text/output_text items; IDE-injected context tags are stripped.
+ */
+export function extractMessageText(item: ResponseItem): string {
+  if (!Array.isArray(item.content)) return "";
+
+  const texts: string[] = [];
+  for (const part of item.content) {
+    if (
+      (part.type === ContentType.InputText ||
+        part.type === ContentType.OutputText) &&
+      part.text
+    ) {
+      texts.push(part.text);
+    }
+  }
+
+  return stripIDEContextTags(texts.join("\n\n"));
+}
+
+/**
+ * Reports whether user message text is context injected by Codex itself
+ * (environment context, AGENTS.md instructions) rather than a typed prompt.
+ */
+export function isInjectedContext(text: string): boolean {
+  const trimmed = text.trimStart();
+  return INJECTED_CONTEXT_PREFIXES.some((prefix) => trimmed.startsWith(prefix));
+}
+
+/**
+ * Serializes rollout lines back to JSONL format.
+ */
+export function serializeTranscript(lines: RolloutLine[]): string {
+  return lines.map((line) => JSON.stringify(line)).join("\n") + "\n";
+}
+
+/**
+ * Gets the transcript position (last item ID and line count).
+ * Rollout lines carry no UUIDs, so the last response item `id` or tool
+ * `call_id` is used as the position marker.
+ */
+export function getTranscriptPosition(
+  content: string
+): { lastUUID: string; lineCount: number } {
+  let lastUUID = "";
+  let lineCount = 0;
+
+  for (const rawLine of content.split("\n")) {
+    const trimmed = rawLine.trim();
+    if (!trimmed) continue;
+
+    lineCount++;
+    try {
+      const line = JSON.parse(trimmed) as RolloutLine;
+      if (line.type !== LineType.ResponseItem || !line.payload) continue;
+
+      const item = line.payload as ResponseItem;
+      const id = item.id || item.call_id;
+      if (id) {
+        lastUUID = id;
+      }
+    } catch {
+      // Skip malformed lines
+    }
+  }
+
+  return { lastUUID, lineCount };
+}
@@ -0,0 +1,121 @@
+// ============================================================================
+// Codex CLI rollout transcript types.
+// Codex CLI uses JSONL format where each line wraps a typed payload
+// (session_meta, response_item, event_msg, turn_context).
+// ============================================================================
+
+/** Line type constants for Codex rollout lines. */
+export const LineType = {
+  SessionMeta: "session_meta",
+  ResponseItem: "response_item",
+  EventMsg: "event_msg",
+  TurnContext: "turn_context",
+  Compacted: "compacted",
+} as const;
+
+/** Payload type constants for response_item lines. */
+export const ResponseItemType = {
+  Message: "message",
+  Reasoning: "reasoning",
+  FunctionCall: "function_call",
+  FunctionCallOutput: "function_call_output",
+  CustomToolCall: "custom_tool_call",
+  CustomToolCallOutput: "custom_tool_call_output",
+  LocalShellCall: "local_shell_call",
+} as const;
+
+/** Payload type constants for event_msg lines. */
+export const EventMsgType = {
+  UserMessage: "user_message",
+  AgentMessage: "agent_message",
+  AgentReasoning: "agent_reasoning",
+  TokenCount: "token_count",
+} as const;
+
+/** Content type constants for message content items. */
+export const ContentType = {
+  InputText: "input_text",
+  OutputText: "output_text",
+} as const;
+
+/** A single line in a Codex rollout JSONL file. */
+export interface RolloutLine {
+  timestamp?: string;
+  type: string;
+  payload: unknown;
+}
+
+/** Payload of the session_meta line at the top of a rollout. */
+export interface SessionMeta {
+  id: string;
+  timestamp?: string;
+  cwd?: string;
+  originator?: string;
+  cli_version?: string;
+  instructions?: string | null;
+  git?: {
+    commit_hash?: string;
+    branch?: string;
+    repository_url?: string;
+  };
+}
+
+/** Payload of a response_item line (messages, reasoning, tool calls and outputs). */
+export interface ResponseItem {
+  type: string;
+  id?: string;
+  role?: string;
+  content?: ContentItem[];
+  name?: string;
+  /** JSON-encoded arguments (function_call) */
+  arguments?: string;
+  /** Raw tool input (custom_tool_call, e.g. apply_patch) */
+  input?: string;
+  call_id?: string;
+  output?: unknown;
+  status?: string;
+  /** Shell action (local_shell_call) */
+  action?: { type: string; command?: string[] };
+}
+
+/** A content item within a message response_item. */
+export interface ContentItem {
+  type: string;
+  text?: string;
+}
+
+/** Payload of an event_msg line. */
+export interface EventMsg {
+  type: string;
+  message?: string;
+  info?: TokenCountInfo | null;
+}
+
+/** Token accounting attached to token_count events. */
+export interface TokenCountInfo {
+  total_token_usage?: CodexTokenUsage;
+  last_token_usage?: CodexTokenUsage;
+  model_context_window?: number | null;
+}
+
+/** Token usage from an OpenAI Responses API call. `input_tokens` includes cached input. */
+export interface CodexTokenUsage {
+  input_tokens: number;
+  cached_input_tokens: number;
+  output_tokens: number;
+  reasoning_output_tokens: number;
+  total_tokens: number;
+}
+
+/** Arguments of the shell tool. */
+export interface ShellToolInput {
+  command: string[];
+  workdir?: string;
+  timeout_ms?: number;
+}
+
+/** Tool names used in Codex CLI that modify files. */
+export const FileModificationTools = ["apply_patch"] as const;
+
+/** Tool names used in Codex CLI that run shell commands. */
+export const ShellTools = ["shell", "container.exec", "local_shell"] as const;
@@ -0,0 +1,130 @@
+// ============================================================================
+// Gemini CLI session file chunking.
+// Splits a session file's messages array across several JSON documents and
+// merges them back. Used by the registry's Gemini adapter and re-exported
+// from the chunking module.
+// ============================================================================
+
+import { MAX_CHUNK_SIZE, type ChunkSource } from "../../types.js";
+import { decodeChunks } from "../../utils.js";
+import { createMessageScanner } from "./scanner.js";
+
+/**
+ * Splits a Gemini JSON transcript at message boundaries.
+ *
+ * Since Gemini uses a single JSON object with a messages array,
+ * chunking splits the messages array across multiple JSON objects.
+ */
+export function chunkGeminiJSON(
+  content: string,
+  maxSize: number = MAX_CHUNK_SIZE
+): string[] {
+  if (content.length <= maxSize) return [content];
+
+  const parsed = JSON.parse(content) as { messages: unknown[] };
+  const messages = parsed.messages;
+
+  const chunks: string[] = [];
+  let currentMessages: unknown[] = [];
+  let currentSize = '{"messages":[]}'.length;
+
+  for (const msg of messages) {
+    const msgStr = JSON.stringify(msg);
+    const addedSize = msgStr.length + (currentMessages.length > 0 ? 1 : 0); // +1 for comma
+
+    if (currentSize + addedSize > maxSize && currentMessages.length > 0) {
+      chunks.push(JSON.stringify({ messages: currentMessages }));
+      currentMessages = [];
+      currentSize = '{"messages":[]}'.length;
+    }
+
+    currentMessages.push(msg);
+    currentSize += addedSize;
+  }
+
+  if (currentMessages.length > 0) {
+    chunks.push(JSON.stringify({ messages: currentMessages }));
+  }
+
+  return chunks;
+}
+
+/**
+ * Streaming version of chunkGeminiJSON for session files too large to
+ * hold in memory. Messages are read one at a time and packed into chunks
+ * exactly as chunkGeminiJSON does; input that fits in maxSize is yielded
+ * unchanged as a single chunk.
+ *
+ * @param source - Node Readable, WHATWG ReadableStream or async iterable of chunks
+ * @throws If a message is not valid JSON or the document is truncated.
+ */
+export async function* chunkGeminiJSONStream(
+  source: ChunkSource,
+  maxSize: number = MAX_CHUNK_SIZE
+): AsyncGenerator<string> {
+  const scanner = createMessageScanner();
+  const emptySize = '{"messages":[]}'.length;
+
+  // The original text is kept until it outgrows maxSize, along with the
+  // chunks completed so far
+  let head: string[] | undefined = [];
+  let headSize = 0;
+  let pending: string[] = [];
+
+  let currentMessages: string[] = [];
+  let currentSize = emptySize;
+  const flush = (): void => {
+    pending.push(`{"messages":[${currentMessages.join(",")}]}`);
+    currentMessages = [];
+    currentSize = emptySize;
+  };
+
+  for await (const text of decodeChunks(source)) {
+    if (head) {
+      head.push(text);
+      headSize += text.length;
+      if (headSize > maxSize) head = undefined;
+    }
+
+    for (const raw of scanner.push(text)) {
+      const msgStr = JSON.stringify(JSON.parse(raw));
+      const addedSize = msgStr.length + (currentMessages.length > 0 ? 1 : 0); // +1 for comma
+
+      if (currentSize + addedSize > maxSize && currentMessages.length > 0) flush();
+
+      currentMessages.push(msgStr);
+      currentSize += addedSize;
+    }
+
+    if (!head) {
+      yield* pending;
+      pending = [];
+    }
+  }
+
+  if (head) {
+    yield head.join("");
+    return;
+  }
+
+  scanner.end();
+  if (currentMessages.length > 0) flush();
+  yield* pending;
+}
+
+/**
+ * Reassembles Gemini JSON chunks back into a single transcript.
+ * Merges all messages arrays into one.
+ */
+export function reassembleGeminiJSON(chunks: string[]): string {
+  if (chunks.length === 0) return JSON.stringify({ messages: [] });
+  if (chunks.length === 1) return chunks[0];
+
+  const allMessages: unknown[] = [];
+  for (const chunk of chunks) {
+    const parsed = JSON.parse(chunk) as { messages: unknown[] };
+    allMessages.push(...parsed.messages);
+  }
+
+  return JSON.stringify({ messages: allMessages });
+}
@@ -4,7 +4,8 @@
 // ============================================================================
 
 import type { TokenUsage } from "../../types.js";
-import { emptyTokenUsage } from "../../types.js";
+import { emptyTokenUsage, UNKNOWN_MODEL } from "../../types.js";
+import type { ApiCallUsage, PromptResponsePair, TurnTokenUsage } from "../../types.js";
 import type {
   GeminiTranscript,
   GeminiMessage,
@@ -19,25 +20,30 @@ export function extractModifiedFiles(transcript: GeminiTranscript): string[] {
   const files: string[] = [];
 
   for (const msg of transcript.messages) {
-    if (msg.type !== MessageType.Gemini) continue;
-    if (!msg.toolCalls) continue;
-
-    for (const toolCall of msg.toolCalls) {
-      if (
-        !FileModificationTools.includes(
-          toolCall.name as (typeof FileModificationTools)[number]
-        )
-      ) {
-        continue;
+    for (const file of messageModifiedFiles(msg)) {
+      if (!fileSet.has(file)) {
+        fileSet.add(file);
+        files.push(file);
       }
+    }
+  }
+
+  return files;
+}
 
-      const file =
-        (toolCall.args.file_path as string) ||
-        (toolCall.args.path as string) ||
-        (toolCall.args.filename as string) ||
-        "";
+/**
+ * Streaming version of extractModifiedFiles.
+ * Consumes the messages in one pass (e.g. from parseMessageStream).
+ */
+export async function extractModifiedFilesStream(
+  messages: AsyncIterable<GeminiMessage>
+): Promise<string[]> {
+  const fileSet = new Set<string>();
+  const files: string[] = [];
 
-      if (file && !fileSet.has(file)) {
+  for await (const msg of messages) {
+    for (const file of messageModifiedFiles(msg)) {
+      if (!fileSet.has(file)) {
         fileSet.add(file);
         files.push(file);
       }
@@ -47,6 +53,35 @@ export function extractModifiedFiles(transcript: GeminiTranscript): string[] {
   return files;
 }
 
+/**
+ * Returns the files modified by tool calls in one message.
+ */
+function messageModifiedFiles(msg: GeminiMessage): string[] {
+  if (msg.type !== MessageType.Gemini) return [];
+  if (!msg.toolCalls) return [];
+
+  const files: string[] = [];
+  for (const toolCall of msg.toolCalls) {
+    if (
+      !FileModificationTools.includes(
+        toolCall.name as (typeof FileModificationTools)[number]
+      )
+    ) {
+      continue;
+    }
+
+    const file =
+      (toolCall.args.file_path as string) ||
+      (toolCall.args.path as string) ||
+      (toolCall.args.filename as string) ||
+      "";
+
+    if (file) files.push(file);
+  }
+
+  return files;
+}
+
 /**
  * Extracts the last user prompt from a Gemini transcript.
  */
@@ -88,6 +123,44 @@ export function extractLastAssistantMessage(
   return "";
 }
 
+/**
+ * Extracts all prompt-response pairs from a transcript.
+ * Each pair contains the user's prompt, the gemini messages' text
+ * responses, and files modified in that turn.
+ */
+export function extractAllPromptResponses(
+  transcript: GeminiTranscript
+): PromptResponsePair[] {
+  const pairs: PromptResponsePair[] = [];
+  const messages = transcript.messages;
+
+  const userIndices: number[] = [];
+  for (let i = 0; i < messages.length; i++) {
+    if (messages[i].type === MessageType.User && messages[i].content) {
+      userIndices.push(i);
+    }
+  }
+
+  for (let idx = 0; idx < userIndices.length; idx++) {
+    const startIdx = userIndices[idx];
+    const endIdx = idx < userIndices.length - 1 ? userIndices[idx + 1] : messages.length;
+    const slice: GeminiTranscript = { messages: messages.slice(startIdx, endIdx) };
+
+    const responses: string[] = [];
+    for (const msg of slice.messages) {
+      if (msg.type === MessageType.Gemini && msg.content) responses.push(msg.content);
+    }
+
+    pairs.push({
+      prompt: messages[startIdx].content,
+      responses,
+      files: extractModifiedFiles(slice),
+    });
+  }
+
+  return pairs;
+}
+
 /**
  * Returns the ID of the last message in the transcript.
  */
@@ -107,16 +180,123 @@ export function calculateTokenUsage(
 ): TokenUsage {
   const usage = emptyTokenUsage();
 
+  for (let i = startMessageIndex; i < transcript.messages.length; i++) {
+    addMessageTokens(usage, transcript.messages[i]);
+  }
+
+  return usage;
+}
+
+/**
+ * Calculates token usage per model from a Gemini transcript, keyed by each
+ * gemini message's `model`. Counts tokens as calculateTokenUsage does;
+ * messages without a model count under UNKNOWN_MODEL.
+ *
+ * @param transcript - Parsed transcript
+ * @param startMessageIndex - Index of the first message to include
+ */
+export function calculateTokenUsageByModel(
+  transcript: GeminiTranscript,
+  startMessageIndex: number = 0
+): Record<string, TokenUsage> {
+  const usageByModel: Record<string, TokenUsage> = {};
+
   for (let i = startMessageIndex; i < transcript.messages.length; i++) {
     const msg = transcript.messages[i];
-    if (msg.type !== MessageType.Gemini) continue;
-    if (!msg.tokens) continue;
+    if (msg.type !== MessageType.Gemini || !msg.tokens) continue;
+    addMessageTokens((usageByModel[msg.model || UNKNOWN_MODEL] ??= emptyTokenUsage()), msg);
+  }
+
+  return usageByModel;
+}
+
+/**
+ * Returns the token usage of each API call (each gemini message with
+ * `tokens`), counted as in calculateTokenUsage. Turns match
+ * extractAllPromptResponses. Messages without an ID are identified as
+ * `message_<index>`.
+ */
+export function extractTokenTimeline(transcript: GeminiTranscript): ApiCallUsage[] {
+  const calls: ApiCallUsage[] = [];
+  let turnIndex = -1;
+
+  transcript.messages.forEach((msg, index) => {
+    if (msg.type === MessageType.User && msg.content) {
+      turnIndex++;
+      return;
+    }
+    if (msg.type !== MessageType.Gemini || !msg.tokens) return;
+
+    const usage = emptyTokenUsage();
+    addMessageTokens(usage, msg);
+    calls.push({
+      messageId: msg.id || `message_${index}`,
+      timestamp: parseTimestamp(msg.timestamp),
+      model: msg.model || UNKNOWN_MODEL,
+      usage,
+      turnIndex,
+    });
+  });
 
-    usage.apiCallCount++;
-    usage.inputTokens += msg.tokens.input;
-    usage.outputTokens += msg.tokens.output;
-    usage.cacheReadTokens += msg.tokens.cached;
+  return calls;
+}
+
+/**
+ * Returns the token usage of each user turn, aligned with
+ * extractAllPromptResponses. API calls before the first prompt are not
+ * part of any turn.
+ */
+export function extractTurnTokenUsage(transcript: GeminiTranscript): TurnTokenUsage[] {
+  const turns: TurnTokenUsage[] = extractAllUserPrompts(transcript).map((prompt, index) => ({
+    index,
+    prompt,
+    usage: emptyTokenUsage(),
+    calls: [],
+  }));
+
+  for (const call of extractTokenTimeline(transcript)) {
+    const turn = turns[call.turnIndex];
+    if (!turn) continue;
+    turn.calls.push(call);
+    turn.usage.inputTokens += call.usage.inputTokens;
+    turn.usage.cacheReadTokens += call.usage.cacheReadTokens;
+    turn.usage.outputTokens += call.usage.outputTokens;
+    turn.usage.apiCallCount++;
+  }
+
+  return turns;
+}
+
+function parseTimestamp(value: string | undefined): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Streaming version of calculateTokenUsage.
+ * Consumes the messages in one pass (e.g. from parseMessageStream).
+ */
+export async function calculateTokenUsageStream(
+  messages: AsyncIterable<GeminiMessage>,
+  startMessageIndex: number = 0
+): Promise<TokenUsage> {
+  const usage = emptyTokenUsage();
+  let index = 0;
+
+  for await (const msg of messages) {
+    if (index++ >= startMessageIndex) addMessageTokens(usage, msg);
   }
 
   return usage;
 }
+
+function addMessageTokens(usage: TokenUsage, msg: GeminiMessage): void {
+  if (msg.type !== MessageType.Gemini) return;
+  if (!msg.tokens) return;
+
+  usage.apiCallCount++;
+  usage.inputTokens += msg.tokens.input;
+  usage.outputTokens += msg.tokens.output;
+  usage.cacheReadTokens += msg.tokens.cached;
+}
@@ -0,0 +1,138 @@
+// ============================================================================
+// Gemini CLI hook parsing.
+// Turns the JSON a Gemini CLI hook receives on stdin into a normalized
+// lifecycle Event, matching the events produced for Claude Code hooks.
+// ============================================================================
+
+import { EventType, type Event } from "../../types.js";
+import { createHookPayloadHelpers, hookMetadata } from "../hooks.js";
+import { SubagentTools, type AgentHookInput, type ToolHookInput } from "./types.js";
+
+/** Gemini CLI hook names understood by parseHookEvent. */
+export const HookName = {
+  SessionStart: "SessionStart",
+  BeforeAgent: "BeforeAgent",
+  AfterAgent: "AfterAgent",
+  /** A tool is called (a subagent is spawned for SubagentTools) */
+  BeforeTool: "BeforeTool",
+  /** A tool call finished (a subagent finished for SubagentTools) */
+  AfterTool: "AfterTool",
+  PreCompress: "PreCompress",
+  SessionEnd: "SessionEnd",
+} as const;
+
+/** Optional payload fields copied into the event's metadata. */
+const METADATA_FIELDS = ["timestamp", "cwd", "source", "reason", "trigger", "tool_name"] as const;
+
+// ── Helpers ──────────────────────────────────────────────────────
+
+const { invalid, parsePayload, requireString, optionalString } = createHookPayloadHelpers("Gemini CLI");
+
+function parseTimestamp(hookName: string, payload: Record<string, unknown>, fallback: Date): Date {
+  const value = optionalString(hookName, payload, "timestamp");
+  if (!value) return fallback;
+  const date = new Date(value);
+  if (isNaN(date.getTime())) throw invalid(hookName, `"timestamp" is not a valid date: ${value}`);
+  return date;
+}
+
+/** FNV-1a hash of a string, as 8 hex digits. */
+function hash(text: string): string {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, "0");
+}
+
+/**
+ * Identifies a tool call for pairing its BeforeTool and AfterTool events.
+ * Gemini CLI tool hooks carry no call ID, so it is derived from the tool
+ * name and input; identical calls running at once share an ID.
+ */
+function toolCallId(toolName: string, toolInput: unknown): string {
+  return `${toolName}-${hash(JSON.stringify(toolInput ?? null))}`;
+}
+
+// ── Parsing ──────────────────────────────────────────────────────
+
+/**
+ * Parses the stdin payload of a Gemini CLI hook into a normalized Event.
+ *
+ * | Hook | Event |
+ * |---|---|
+ * | SessionStart | SessionStart |
+ * | BeforeAgent | TurnStart (with `prompt`) |
+ * | AfterAgent | TurnEnd (with `responseMessage` from `prompt_response`) |
+ * | BeforeTool | ToolStart, or SubagentStart for SubagentTools (with `toolUseId`, `toolName`, `toolInput`) |
+ * | AfterTool | ToolEnd, or SubagentEnd for SubagentTools (with `toolUseId`, `toolName`, `toolInput`) |
+ * | PreCompress | Compaction |
+ * | SessionEnd | SessionEnd |
+ *
+ * The event time is taken from the payload's `timestamp`. `timestamp`,
+ * `cwd`, `source`, `reason`, `trigger` and `tool_name` are copied into
+ * `metadata` when present. Tool hooks carry no call ID, so `toolUseId` is
+ * derived from the tool name and input to pair each start with its end.
+ *
+ * @param hookName - Name of the hook that was invoked (see HookName)
+ * @param raw - JSON read from the hook's stdin
+ * @param timestamp - Time of the event when the payload has none (default: now)
+ * @throws If the hook name is unknown or the payload is malformed.
+ */
+export function parseHookEvent(hookName: string, raw: string, timestamp: Date = new Date()): Event {
+  if (!Object.values(HookName).includes(hookName as (typeof HookName)[keyof typeof HookName])) {
+    throw new Error(
+      `Unknown Gemini CLI hook "${hookName}" (expected one of ${Object.values(HookName).join(", ")})`
+    );
+  }
+
+  const payload = parsePayload(hookName, raw);
+  const base = {
+    sessionId: requireString(hookName, payload, "session_id"),
+    sessionRef: requireString(hookName, payload, "transcript_path"),
+    timestamp: parseTimestamp(hookName, payload, timestamp),
+    metadata: hookMetadata(payload, METADATA_FIELDS),
+  };
+
+  switch (hookName) {
+    case HookName.SessionStart:
+      return { ...base, type: EventType.SessionStart };
+
+    case HookName.BeforeAgent: {
+      const input = payload as unknown as AgentHookInput;
+      if (typeof input.prompt !== "string") throw invalid(hookName, '"prompt" must be a string');
+      return { ...base, type: EventType.TurnStart, prompt: input.prompt };
+    }
+
+    case HookName.AfterAgent:
+      return {
+        ...base,
+        type: EventType.TurnEnd,
+        responseMessage: optionalString(hookName, payload, "prompt_response"),
+      };
+
+    case HookName.BeforeTool:
+    case HookName.AfterTool: {
+      const input = payload as unknown as ToolHookInput;
+      const toolName = requireString(hookName, payload, "tool_name");
+      const start = hookName === HookName.BeforeTool;
+      const type = SubagentTools.includes(toolName as (typeof SubagentTools)[number])
+        ? start ? EventType.SubagentStart : EventType.SubagentEnd
+        : start ? EventType.ToolStart : EventType.ToolEnd;
+      return {
+        ...base,
+        type,
+        toolUseId: toolCallId(toolName, input.tool_input),
+        toolName,
+        toolInput: input.tool_input,
+      };
+    }
+
+    case HookName.PreCompress:
+      return { ...base, type: EventType.Compaction };
+
+    default:
+      return { ...base, type: EventType.SessionEnd };
+  }
+}
@@ -2,3 +2,4 @@
 export * from "./types.js";
 export * from "./parse.js";
 export * from "./extract.js";
+export * from "./hooks.js";
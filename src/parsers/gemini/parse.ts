@@ -3,7 +3,10 @@
 // Handles parsing of JSON-format transcripts with a messages array.
 // ============================================================================
 
+import type { ChunkSource } from "../../types.js";
+import { decodeChunks } from "../../utils.js";
 import type { GeminiTranscript, GeminiMessage } from "./types.js";
+import { createMessageScanner } from "./scanner.js";
 
 /**
  * Parses raw JSON content into a Gemini transcript structure.
@@ -13,36 +16,54 @@ import type { GeminiTranscript, GeminiMessage } from "./types.js";
  * - Gemini messages: content is typically a plain string
  */
 export function parseTranscript(data: string): GeminiTranscript {
-  const raw = JSON.parse(data) as { messages: RawGeminiMessage[] };
-
-  const messages: GeminiMessage[] = (raw.messages || []).map((rawMsg) => {
-    const msg: GeminiMessage = {
-      id: rawMsg.id,
-      type: rawMsg.type,
-      content: "",
-      toolCalls: rawMsg.toolCalls,
-      tokens: rawMsg.tokens,
-    };
-
-    // Handle content format
-    if (typeof rawMsg.content === "string") {
-      msg.content = rawMsg.content;
-    } else if (Array.isArray(rawMsg.content)) {
-      // Array of objects with "text" fields (user messages)
-      const texts: string[] = [];
-      for (const part of rawMsg.content) {
-        if (typeof part === "object" && part !== null && "text" in part) {
-          const text = (part as { text: string }).text;
-          if (text) texts.push(text);
-        }
-      }
-      msg.content = texts.join("\n");
+  const raw = JSON.parse(data) as RawGeminiTranscript;
+
+  const messages: GeminiMessage[] = (raw.messages || []).map(normalizeMessage);
+
+  const transcript: GeminiTranscript = { messages };
+  if (raw.sessionId) transcript.sessionId = raw.sessionId;
+  if (raw.projectHash) transcript.projectHash = raw.projectHash;
+  if (raw.startTime) transcript.startTime = raw.startTime;
+  if (raw.lastUpdated) transcript.lastUpdated = raw.lastUpdated;
+
+  return transcript;
+}
+
+/**
+ * Parses a Gemini session file from a stream, yielding the messages of its
+ * `messages` array one at a time. Only the message being read is buffered,
+ * so memory stays bounded regardless of file size. Top-level fields
+ * (sessionId, startTime, ...) are not reported.
+ *
+ * @param source - Node Readable, WHATWG ReadableStream or async iterable of chunks
+ * @throws If a message is not valid JSON or the document is truncated.
+ */
+export async function* parseMessageStream(source: ChunkSource): AsyncGenerator<GeminiMessage> {
+  const scanner = createMessageScanner();
+
+  for await (const text of decodeChunks(source)) {
+    for (const raw of scanner.push(text)) {
+      yield normalizeMessage(JSON.parse(raw) as RawGeminiMessage);
     }
+  }
 
-    return msg;
-  });
+  scanner.end();
+}
+
+/**
+ * Reports whether content looks like a Gemini session file:
+ * a single JSON object with a non-empty messages array.
+ */
+export function isGeminiTranscript(content: string): boolean {
+  const trimmed = content.trimStart();
+  if (!trimmed.startsWith("{")) return false;
 
-  return { messages };
+  try {
+    const parsed = JSON.parse(trimmed) as { messages?: unknown[] };
+    return Array.isArray(parsed.messages) && parsed.messages.length > 0;
+  } catch {
+    return false;
+  }
 }
 
 /**
@@ -85,10 +106,54 @@ export function serializeTranscript(transcript: GeminiTranscript): string {
   return JSON.stringify(transcript);
 }
 
-// Internal type for parsing raw JSON where content can be string or array
+/**
+ * Converts a raw message to a GeminiMessage, flattening array content.
+ */
+function normalizeMessage(rawMsg: RawGeminiMessage): GeminiMessage {
+  const msg: GeminiMessage = {
+    id: rawMsg.id,
+    type: rawMsg.type,
+    content: "",
+    toolCalls: rawMsg.toolCalls,
+    tokens: rawMsg.tokens,
+  };
+  if (rawMsg.timestamp) msg.timestamp = rawMsg.timestamp;
+  if (rawMsg.model) msg.model = rawMsg.model;
+  if (rawMsg.thoughts) msg.thoughts = rawMsg.thoughts;
+
+  // Handle content format
+  if (typeof rawMsg.content === "string") {
+    msg.content = rawMsg.content;
+  } else if (Array.isArray(rawMsg.content)) {
+    // Array of objects with "text" fields (user messages)
+    const texts: string[] = [];
+    for (const part of rawMsg.content) {
+      if (typeof part === "object" && part !== null && "text" in part) {
+        const text = (part as { text: string }).text;
+        if (text) texts.push(text);
+      }
+    }
+    msg.content = texts.join("\n");
+  }
+
+  return msg;
+}
+
+// Internal types for parsing raw JSON where content can be string or array
+interface RawGeminiTranscript {
+  sessionId?: string;
+  projectHash?: string;
+  startTime?: string;
+  lastUpdated?: string;
+  messages: RawGeminiMessage[];
+}
+
 interface RawGeminiMessage {
   id?: string;
+  timestamp?: string;
   type: string;
+  model?: string;
+  thoughts?: GeminiMessage["thoughts"];
   content?: string | Array<{ text?: string }>;
   toolCalls?: GeminiMessage["toolCalls"];
   tokens?: GeminiMessage["tokens"];
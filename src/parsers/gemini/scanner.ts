@@ -0,0 +1,112 @@
+// ============================================================================
+// Incremental scanner for Gemini session files.
+// Finds the elements of the top-level `messages` array in JSON text fed in
+// arbitrary pieces, so messages can be parsed one at a time without holding
+// the whole document in memory.
+// ============================================================================
+
+/** Scans a Gemini session file for the raw JSON of each message. */
+export interface MessageScanner {
+  /** Feeds the next piece of text; returns the raw JSON of messages it completed. */
+  push(text: string): string[];
+  /**
+   * Signals the end of the input.
+   * @throws If the document ended inside a value.
+   */
+  end(): void;
+}
+
+const MESSAGES_KEY = "messages";
+
+/**
+ * Creates a scanner that tracks string, escape and nesting state across
+ * pieces. Only the message currently being read is buffered.
+ */
+export function createMessageScanner(): MessageScanner {
+  let buffer = "";
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  // Strings directly inside the top-level object (keys and primitive values);
+  // only long enough to recognize the messages key.
+  let text = "";
+  let lastString = "";
+  let currentKey = "";
+  let inMessages = false;
+  let messageStart = -1;
+
+  return {
+    push(piece) {
+      const messages: string[] = [];
+      let i = buffer.length;
+      buffer += piece;
+
+      for (; i < buffer.length; i++) {
+        const c = buffer[i];
+
+        if (inString) {
+          if (escaped) {
+            escaped = false;
+          } else if (c === "\\") {
+            escaped = true;
+          } else if (c === '"') {
+            inString = false;
+            if (depth === 1) lastString = text;
+          } else if (depth === 1 && text.length <= MESSAGES_KEY.length) {
+            text += c;
+          }
+          continue;
+        }
+
+        switch (c) {
+          case '"':
+            inString = true;
+            text = "";
+            break;
+          case ":":
+            if (depth === 1) currentKey = lastString;
+            break;
+          case ",":
+            if (depth === 1) currentKey = "";
+            break;
+          case "{":
+          case "[":
+            if (depth === 1 && c === "[" && currentKey === MESSAGES_KEY) {
+              inMessages = true;
+            } else if (depth === 2 && inMessages && c === "{") {
+              messageStart = i;
+            }
+            depth++;
+            break;
+          case "}":
+          case "]":
+            depth--;
+            if (depth < 0) throw new Error("Unexpected closing bracket in Gemini transcript");
+            if (depth === 2 && inMessages && messageStart >= 0) {
+              messages.push(buffer.slice(messageStart, i + 1));
+              messageStart = -1;
+            } else if (depth === 1 && inMessages) {
+              inMessages = false;
+            }
+            break;
+        }
+      }
+
+      // Keep only the message being read
+      if (messageStart >= 0) {
+        buffer = buffer.slice(messageStart);
+        messageStart = 0;
+      } else {
+        buffer = "";
+      }
+
+      return messages;
+    },
+
+    end() {
+      if (depth !== 0 || inString) {
+        throw new Error("Gemini transcript ended unexpectedly");
+      }
+    },
+  };
+}
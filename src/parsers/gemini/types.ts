@@ -11,26 +11,62 @@ export const MessageType = {
 
 /** Top-level structure of a Gemini session file. */
 export interface GeminiTranscript {
+  sessionId?: string;
+  projectHash?: string;
+  startTime?: string;
+  lastUpdated?: string;
   messages: GeminiMessage[];
 }
 
 /** A single message in the Gemini transcript. */
 export interface GeminiMessage {
   id?: string;
+  timestamp?: string;
   type: string;
   content: string;
+  model?: string;
+  /** Reasoning summaries recorded for gemini messages */
+  thoughts?: GeminiThought[];
   toolCalls?: GeminiToolCall[];
   tokens?: GeminiMessageTokens;
 }
 
+/** A reasoning summary on a gemini message. */
+export interface GeminiThought {
+  subject?: string;
+  description?: string;
+  timestamp?: string;
+}
+
 /** A tool call in a Gemini message. */
 export interface GeminiToolCall {
   id: string;
   name: string;
   args: Record<string, unknown>;
   status?: string;
+  timestamp?: string;
+  /** Function response parts sent back to the model */
+  result?: GeminiFunctionResponsePart[];
+  /** Result as shown in the CLI (text or a file diff) */
+  resultDisplay?: unknown;
+}
+
+/** A functionResponse part recorded as a tool call's result. */
+export interface GeminiFunctionResponsePart {
+  functionResponse?: {
+    id?: string;
+    name?: string;
+    response?: { output?: unknown; error?: unknown };
+  };
 }
 
+/** Tool call status constants. */
+export const ToolCallStatus = {
+  Success: "success",
+  Error: "error",
+  Cancelled: "cancelled",
+} as const;
+
 /** Token usage from a Gemini API response. */
 export interface GeminiMessageTokens {
   input: number;
@@ -49,6 +85,12 @@ export const FileModificationTools = [
   "replace",
 ] as const;
 
+/** Tools that run a subagent; their tool hooks are reported as subagent events. */
+export const SubagentTools = [
+  "codebase_investigator",
+  "delegate_to_agent",
+] as const;
+
 /** Hook input from SessionStart/SessionEnd hooks. */
 export interface SessionInfoHookInput {
   session_id: string;
@@ -68,6 +110,8 @@ export interface AgentHookInput {
   hook_event_name: string;
   timestamp: string;
   prompt?: string;
+  /** Final response text (AfterAgent) */
+  prompt_response?: string;
 }
 
 /** Hook input from BeforeTool/AfterTool hooks. */
@@ -0,0 +1,199 @@
+// ============================================================================
+// Generic chat-messages extraction utilities.
+// Extracts tool calls, files, prompts, tokens, and other data from
+// normalized transcripts.
+// ============================================================================
+
+import type { TokenUsage } from "../../types.js";
+import { emptyTokenUsage } from "../../types.js";
+import type { PromptResponsePair } from "../../types.js";
+import { stripIDEContextTags } from "../../utils.js";
+import {
+  type GenericTranscript,
+  type GenericToolInvocation,
+  type GenericMessageUsage,
+  DefaultFileModificationTools,
+  FilePathKeys,
+  MessageRole,
+} from "./types.js";
+
+/**
+ * Extracts all tool calls in order, each paired with the tool message that
+ * answers it (matched by call ID).
+ */
+export function extractToolCalls(
+  transcript: GenericTranscript
+): GenericToolInvocation[] {
+  const calls: GenericToolInvocation[] = [];
+  const byId = new Map<string, GenericToolInvocation>();
+
+  for (const msg of transcript.messages) {
+    if (msg.role === MessageRole.Assistant && msg.toolCalls) {
+      for (const call of msg.toolCalls) {
+        const invocation: GenericToolInvocation = { ...call };
+        calls.push(invocation);
+        if (call.id) byId.set(call.id, invocation);
+      }
+    } else if (msg.role === MessageRole.Tool && msg.toolCallId) {
+      const invocation = byId.get(msg.toolCallId);
+      if (!invocation) continue;
+      invocation.result = msg.content;
+      if (msg.isError) invocation.isError = true;
+    }
+  }
+
+  return calls;
+}
+
+/**
+ * Extracts files modified by tool calls.
+ *
+ * @param transcript - Normalized transcript
+ * @param fileTools - Names of tools that write files. The path is read from
+ *   the first of `file_path`, `path`, `filePath`, `filename`, `notebook_path`.
+ */
+export function extractModifiedFiles(
+  transcript: GenericTranscript,
+  fileTools: readonly string[] = DefaultFileModificationTools
+): string[] {
+  const fileSet = new Set<string>();
+  const files: string[] = [];
+
+  for (const msg of transcript.messages) {
+    if (msg.role !== MessageRole.Assistant || !msg.toolCalls) continue;
+
+    for (const call of msg.toolCalls) {
+      if (!fileTools.includes(call.name)) continue;
+      if (!call.input || typeof call.input !== "object") continue;
+
+      const input = call.input as Record<string, unknown>;
+      for (const key of FilePathKeys) {
+        const file = input[key];
+        if (typeof file === "string" && file) {
+          if (!fileSet.has(file)) {
+            fileSet.add(file);
+            files.push(file);
+          }
+          break;
+        }
+      }
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Extracts the last user prompt.
+ */
+export function extractLastUserPrompt(transcript: GenericTranscript): string {
+  for (let i = transcript.messages.length - 1; i >= 0; i--) {
+    const msg = transcript.messages[i];
+    if (msg.role !== MessageRole.User) continue;
+
+    const content = stripIDEContextTags(msg.content);
+    if (content) return content;
+  }
+  return "";
+}
+
+/**
+ * Extracts all user prompts in order.
+ */
+export function extractAllUserPrompts(transcript: GenericTranscript): string[] {
+  const prompts: string[] = [];
+  for (const msg of transcript.messages) {
+    if (msg.role !== MessageRole.User) continue;
+
+    const content = stripIDEContextTags(msg.content);
+    if (content) prompts.push(content);
+  }
+  return prompts;
+}
+
+/**
+ * Extracts all assistant text responses.
+ */
+export function extractAssistantResponses(transcript: GenericTranscript): string[] {
+  const texts: string[] = [];
+  for (const msg of transcript.messages) {
+    if (msg.role === MessageRole.Assistant && msg.content) {
+      texts.push(msg.content);
+    }
+  }
+  return texts;
+}
+
+/**
+ * Extracts all prompt-response pairs.
+ * Each pair contains the user's prompt, assistant's text responses,
+ * and files modified in that turn.
+ */
+export function extractAllPromptResponses(
+  transcript: GenericTranscript,
+  fileTools: readonly string[] = DefaultFileModificationTools
+): PromptResponsePair[] {
+  const pairs: PromptResponsePair[] = [];
+  const messages = transcript.messages;
+
+  const userIndices: number[] = [];
+  for (let i = 0; i < messages.length; i++) {
+    if (messages[i].role === MessageRole.User && stripIDEContextTags(messages[i].content)) {
+      userIndices.push(i);
+    }
+  }
+
+  for (let idx = 0; idx < userIndices.length; idx++) {
+    const startIdx = userIndices[idx];
+    const endIdx = idx < userIndices.length - 1 ? userIndices[idx + 1] : messages.length;
+    const slice: GenericTranscript = {
+      format: transcript.format,
+      messages: messages.slice(startIdx, endIdx),
+    };
+
+    pairs.push({
+      prompt: stripIDEContextTags(messages[startIdx].content),
+      responses: extractAssistantResponses(slice),
+      files: extractModifiedFiles(slice, fileTools),
+    });
+  }
+
+  return pairs;
+}
+
+/**
+ * Calculates token usage from `usage` objects on assistant messages.
+ *
+ * Messages sharing an ID (e.g. logged once per streamed chunk) are
+ * deduplicated, keeping the entry with the highest output tokens. Messages
+ * without an ID each count as one API call.
+ */
+export function calculateTokenUsage(transcript: GenericTranscript): TokenUsage {
+  const usageById = new Map<string, GenericMessageUsage>();
+  const anonymous: GenericMessageUsage[] = [];
+
+  for (const msg of transcript.messages) {
+    if (msg.role !== MessageRole.Assistant || !msg.usage) continue;
+
+    if (!msg.id) {
+      anonymous.push(msg.usage);
+      continue;
+    }
+
+    const existing = usageById.get(msg.id);
+    if (!existing || msg.usage.outputTokens > existing.outputTokens) {
+      usageById.set(msg.id, msg.usage);
+    }
+  }
+
+  const usage = emptyTokenUsage();
+  for (const u of [...usageById.values(), ...anonymous]) {
+    usage.apiCallCount++;
+    usage.inputTokens += u.inputTokens;
+    usage.cacheCreationTokens += u.cacheCreationTokens;
+    usage.cacheReadTokens += u.cacheReadTokens;
+    usage.outputTokens += u.outputTokens;
+  }
+
+  return usage;
+}
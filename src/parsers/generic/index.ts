@@ -0,0 +1,4 @@
+// Generic OpenAI / Anthropic messages-array parser - public API
+export * from "./types.js";
+export * from "./parse.js";
+export * from "./extract.js";
@@ -0,0 +1,257 @@
+// ============================================================================
+// Generic chat-messages parser.
+// Detects OpenAI Chat Completions vs Anthropic Messages format and
+// normalizes either into GenericMessage[].
+// ============================================================================
+
+import { ContentType } from "../claude/types.js";
+import {
+  type MessageFormat,
+  type GenericTranscript,
+  type GenericMessage,
+  type GenericMessageUsage,
+  type OpenAIMessage,
+  type OpenAIContentPart,
+  type AnthropicMessage,
+  type AnthropicContentBlock,
+  MessageRole,
+} from "./types.js";
+
+/**
+ * Detects whether a messages array is in OpenAI or Anthropic format.
+ *
+ * OpenAI-only signals: `tool_calls`, `tool`/`system`/`developer` roles, null
+ * content, `prompt_tokens` usage. Anthropic-only signals: `tool_use` /
+ * `tool_result` content blocks, `input_tokens` usage. Arrays with neither
+ * (plain text chat) are reported as OpenAI; both normalize identically.
+ */
+export function detectMessageFormat(messages: unknown[]): MessageFormat {
+  for (const raw of messages) {
+    if (!raw || typeof raw !== "object") continue;
+    const msg = raw as Record<string, unknown>;
+
+    if (
+      msg.tool_calls !== undefined ||
+      msg.tool_call_id !== undefined ||
+      msg.content === null ||
+      msg.role === "tool" ||
+      msg.role === "system" ||
+      msg.role === "developer"
+    ) {
+      return "openai";
+    }
+
+    const usage = msg.usage as Record<string, unknown> | undefined;
+    if (usage && "prompt_tokens" in usage) return "openai";
+    if (usage && "input_tokens" in usage) return "anthropic";
+
+    if (Array.isArray(msg.content)) {
+      for (const block of msg.content as Array<{ type?: string }>) {
+        if (block?.type === ContentType.ToolUse || block?.type === ContentType.ToolResult) {
+          return "anthropic";
+        }
+      }
+    }
+  }
+
+  return "openai";
+}
+
+/**
+ * Normalizes a raw messages log.
+ *
+ * Accepts a messages array, an object with a `messages` array (e.g. a
+ * logged request body; an Anthropic top-level `system` string becomes a
+ * system message), and auto-detects the format unless one is given.
+ */
+export function parseMessages(
+  raw: unknown,
+  format?: MessageFormat
+): GenericTranscript {
+  let rawMessages: unknown[] = [];
+  let system: string | undefined;
+
+  if (Array.isArray(raw)) {
+    rawMessages = raw;
+  } else if (raw && typeof raw === "object") {
+    const obj = raw as { messages?: unknown; system?: unknown };
+    if (Array.isArray(obj.messages)) rawMessages = obj.messages;
+    if (typeof obj.system === "string") system = obj.system;
+  }
+
+  const detected = format ?? (system !== undefined ? "anthropic" : detectMessageFormat(rawMessages));
+  const messages: GenericMessage[] = [];
+  if (system) messages.push({ role: MessageRole.System, content: system });
+
+  for (const msg of rawMessages) {
+    if (!msg || typeof msg !== "object") continue;
+    if (detected === "anthropic") {
+      messages.push(...normalizeAnthropicMessage(msg as AnthropicMessage));
+    } else {
+      messages.push(normalizeOpenAIMessage(msg as OpenAIMessage));
+    }
+  }
+
+  return { format: detected, messages };
+}
+
+/**
+ * Parses a messages log from a string.
+ * Accepts a JSON document (array or object with `messages`) or JSONL with
+ * one message per line; malformed JSONL lines are skipped.
+ */
+export function parseTranscript(
+  data: string,
+  format?: MessageFormat
+): GenericTranscript {
+  try {
+    return parseMessages(JSON.parse(data), format);
+  } catch {
+    // Not a single JSON document - try JSONL
+  }
+
+  const messages: unknown[] = [];
+  for (const rawLine of data.split("\n")) {
+    const trimmed = rawLine.trim();
+    if (!trimmed) continue;
+    try {
+      messages.push(JSON.parse(trimmed));
+    } catch {
+      // Skip malformed lines
+    }
+  }
+
+  return parseMessages(messages, format);
+}
+
+/**
+ * Parses from a Buffer or Uint8Array.
+ */
+export function parseTranscriptFromBytes(
+  data: Uint8Array | Buffer,
+  format?: MessageFormat
+): GenericTranscript {
+  const text = new TextDecoder().decode(data);
+  return parseTranscript(text, format);
+}
+
+/**
+ * Normalizes an OpenAI Chat Completions message.
+ * `developer` messages are treated as system messages.
+ */
+export function normalizeOpenAIMessage(msg: OpenAIMessage): GenericMessage {
+  const normalized: GenericMessage = {
+    role: msg.role === "developer" ? MessageRole.System : msg.role,
+    content: openAIText(msg.content),
+  };
+
+  if (msg.id) normalized.id = msg.id;
+  if (msg.model) normalized.model = msg.model;
+  if (msg.tool_call_id) normalized.toolCallId = msg.tool_call_id;
+
+  if (Array.isArray(msg.tool_calls) && msg.tool_calls.length > 0) {
+    normalized.toolCalls = msg.tool_calls.map((call) => ({
+      id: call.id,
+      name: call.function?.name ?? "",
+      input: parseArguments(call.function?.arguments),
+    }));
+  }
+
+  if (msg.usage) {
+    const cached = msg.usage.prompt_tokens_details?.cached_tokens ?? 0;
+    normalized.usage = {
+      inputTokens: (msg.usage.prompt_tokens ?? 0) - cached,
+      cacheCreationTokens: 0,
+      cacheReadTokens: cached,
+      outputTokens: msg.usage.completion_tokens ?? 0,
+    };
+  }
+
+  return normalized;
+}
+
+/**
+ * Normalizes an Anthropic Messages API message.
+ * tool_result blocks in user messages become separate `tool` messages
+ * (emitted before any remaining user text, matching API ordering rules).
+ */
+export function normalizeAnthropicMessage(msg: AnthropicMessage): GenericMessage[] {
+  const blocks: AnthropicContentBlock[] =
+    typeof msg.content === "string"
+      ? [{ type: ContentType.Text, text: msg.content }]
+      : Array.isArray(msg.content)
+        ? msg.content
+        : [];
+
+  const results: GenericMessage[] = [];
+  const texts: string[] = [];
+  const toolCalls: GenericMessage["toolCalls"] = [];
+
+  for (const block of blocks) {
+    if (block.type === ContentType.Text && block.text) {
+      texts.push(block.text);
+    } else if (block.type === ContentType.ToolUse && block.name) {
+      toolCalls.push({ id: block.id ?? "", name: block.name, input: block.input });
+    } else if (block.type === ContentType.ToolResult) {
+      const result: GenericMessage = {
+        role: MessageRole.Tool,
+        content: anthropicResultText(block.content),
+        toolCallId: block.tool_use_id,
+      };
+      if (block.is_error) result.isError = true;
+      results.push(result);
+    }
+  }
+
+  const normalized: GenericMessage = { role: msg.role, content: texts.join("\n") };
+  if (msg.id) normalized.id = msg.id;
+  if (msg.model) normalized.model = msg.model;
+  if (toolCalls.length > 0) normalized.toolCalls = toolCalls;
+  if (msg.usage) normalized.usage = anthropicUsage(msg.usage);
+
+  if (normalized.content || normalized.toolCalls || results.length === 0) {
+    results.push(normalized);
+  }
+
+  return results;
+}
+
+function openAIText(content: OpenAIMessage["content"]): string {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+
+  const texts: string[] = [];
+  for (const part of content as OpenAIContentPart[]) {
+    if (part.type === "text" && part.text) texts.push(part.text);
+  }
+  return texts.join("\n");
+}
+
+function anthropicResultText(content: AnthropicContentBlock["content"]): string {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+
+  const texts: string[] = [];
+  for (const part of content) {
+    if (part.type === ContentType.Text && part.text) texts.push(part.text);
+  }
+  return texts.join("\n");
+}
+
+function anthropicUsage(usage: NonNullable<AnthropicMessage["usage"]>): GenericMessageUsage {
+  return {
+    inputTokens: usage.input_tokens ?? 0,
+    cacheCreationTokens: usage.cache_creation_input_tokens ?? 0,
+    cacheReadTokens: usage.cache_read_input_tokens ?? 0,
+    outputTokens: usage.output_tokens ?? 0,
+  };
+}
+
+function parseArguments(raw: string | undefined): unknown {
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+}
@@ -0,0 +1,147 @@
+// ============================================================================
+// Generic chat-messages types.
+// Covers raw `messages` arrays logged in OpenAI Chat Completions format or
+// Anthropic Messages API format. Both are normalized into one message shape
+// where tool calls live on assistant messages and tool results are separate
+// `tool` messages.
+// ============================================================================
+
+import type { ContentBlock as ClaudeContentBlock } from "../claude/types.js";
+
+/** Supported source formats. */
+export type MessageFormat = "openai" | "anthropic";
+
+/** Role constants for normalized messages. */
+export const MessageRole = {
+  System: "system",
+  User: "user",
+  Assistant: "assistant",
+  Tool: "tool",
+} as const;
+
+/** A tool call requested by the assistant. */
+export interface GenericToolCall {
+  id: string;
+  name: string;
+  /** Parsed arguments (raw string if the arguments weren't valid JSON) */
+  input: unknown;
+}
+
+/** Token usage attached to an assistant message, normalized across formats. */
+export interface GenericMessageUsage {
+  inputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  outputTokens: number;
+}
+
+/** A normalized message. */
+export interface GenericMessage {
+  role: string;
+  content: string;
+  /** Provider message ID (used to dedupe usage) */
+  id?: string;
+  model?: string;
+  /** Tool calls (assistant messages) */
+  toolCalls?: GenericToolCall[];
+  /** ID of the call this message answers (tool messages) */
+  toolCallId?: string;
+  /** Whether the tool reported an error (tool messages) */
+  isError?: boolean;
+  usage?: GenericMessageUsage;
+}
+
+/** A parsed messages array. */
+export interface GenericTranscript {
+  format: MessageFormat;
+  messages: GenericMessage[];
+}
+
+/** A tool call paired with its result. */
+export interface GenericToolInvocation extends GenericToolCall {
+  result?: string;
+  isError?: boolean;
+}
+
+// --- Raw OpenAI Chat Completions shapes ---
+
+/** A content part in an OpenAI message. */
+export interface OpenAIContentPart {
+  type: string;
+  text?: string;
+}
+
+/** A tool call in an OpenAI assistant message. */
+export interface OpenAIToolCall {
+  id: string;
+  type: string;
+  function: {
+    name: string;
+    arguments: string;
+  };
+}
+
+/** Usage object from an OpenAI Chat Completions response. */
+export interface OpenAIUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens?: number;
+  prompt_tokens_details?: {
+    cached_tokens?: number;
+  };
+}
+
+/** A message in OpenAI Chat Completions format. */
+export interface OpenAIMessage {
+  role: string;
+  content: string | OpenAIContentPart[] | null;
+  name?: string;
+  tool_calls?: OpenAIToolCall[];
+  tool_call_id?: string;
+  id?: string;
+  model?: string;
+  usage?: OpenAIUsage;
+}
+
+// --- Raw Anthropic Messages API shapes ---
+
+/** A content block in an Anthropic message. */
+export interface AnthropicContentBlock extends ClaudeContentBlock {
+  id?: string;
+  content?: string | AnthropicContentBlock[];
+  is_error?: boolean;
+}
+
+/** A message in Anthropic Messages API format. */
+export interface AnthropicMessage {
+  role: string;
+  content: string | AnthropicContentBlock[];
+  id?: string;
+  model?: string;
+  usage?: {
+    input_tokens: number;
+    output_tokens: number;
+    cache_creation_input_tokens?: number;
+    cache_read_input_tokens?: number;
+  };
+}
+
+/** Default tool names treated as file-writing when extracting modified files. */
+export const DefaultFileModificationTools = [
+  "Write",
+  "Edit",
+  "MultiEdit",
+  "NotebookEdit",
+  "write_file",
+  "edit_file",
+  "create_file",
+] as const;
+
+/** Input keys checked (in order) for the path a file-writing tool touches. */
+export const FilePathKeys = [
+  "file_path",
+  "path",
+  "filePath",
+  "filename",
+  "notebook_path",
+] as const;
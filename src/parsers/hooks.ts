@@ -0,0 +1,77 @@
+// ============================================================================
+// Shared hook payload helpers.
+// Validation used by the agents' hook parsers; errors name the agent and
+// hook so a misconfigured hook script is easy to find.
+// ============================================================================
+
+/** Payload validation helpers bound to one agent's error messages. */
+export interface HookPayloadHelpers {
+  /** Error for a malformed payload of a hook. */
+  invalid(hookName: string, problem: string): Error;
+  /** Parses the raw stdin payload, which must be a JSON object. */
+  parsePayload(hookName: string, raw: string): Record<string, unknown>;
+  /** Returns a field that must be a non-empty string. */
+  requireString(hookName: string, payload: Record<string, unknown>, field: string): string;
+  /** Returns a field that must be a string when present. */
+  optionalString(hookName: string, payload: Record<string, unknown>, field: string): string | undefined;
+}
+
+/**
+ * Creates payload helpers whose errors read
+ * `Invalid <agentType> <hook> hook input: ...`.
+ *
+ * @param agentType - Agent display name (e.g. "Claude Code")
+ */
+export function createHookPayloadHelpers(agentType: string): HookPayloadHelpers {
+  const invalid = (hookName: string, problem: string): Error =>
+    new Error(`Invalid ${agentType} ${hookName} hook input: ${problem}`);
+
+  return {
+    invalid,
+
+    parsePayload(hookName, raw) {
+      let payload: unknown;
+      try {
+        payload = JSON.parse(raw);
+      } catch {
+        throw invalid(hookName, "not valid JSON");
+      }
+      if (typeof payload !== "object" || payload === null || Array.isArray(payload)) {
+        throw invalid(hookName, "expected a JSON object");
+      }
+      return payload as Record<string, unknown>;
+    },
+
+    requireString(hookName, payload, field) {
+      const value = payload[field];
+      if (typeof value !== "string" || value === "") {
+        throw invalid(hookName, `"${field}" must be a non-empty string`);
+      }
+      return value;
+    },
+
+    optionalString(hookName, payload, field) {
+      const value = payload[field];
+      if (value !== undefined && typeof value !== "string") {
+        throw invalid(hookName, `"${field}" must be a string`);
+      }
+      return value;
+    },
+  };
+}
+
+/**
+ * Copies the non-empty string fields of a payload into event metadata.
+ * Returns undefined when none are present.
+ */
+export function hookMetadata(
+  payload: Record<string, unknown>,
+  fields: readonly string[]
+): Record<string, string> | undefined {
+  const metadata: Record<string, string> = {};
+  for (const field of fields) {
+    const value = payload[field];
+    if (typeof value === "string" && value) metadata[field] = value;
+  }
+  return Object.keys(metadata).length > 0 ? metadata : undefined;
+}
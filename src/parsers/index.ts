@@ -1,3 +1,8 @@
 // Re-export all parsers under namespaces
 export * as claude from "./claude/index.js";
 export * as gemini from "./gemini/index.js";
+export * as codex from "./codex/index.js";
+export * as aider from "./aider/index.js";
+export * as cline from "./cline/index.js";
+export * as opencode from "./opencode/index.js";
+export * as generic from "./generic/index.js";
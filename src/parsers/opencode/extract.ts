@@ -0,0 +1,191 @@
+// ============================================================================
+// OpenCode session extraction utilities.
+// Extracts files, prompts, tokens, and other data from assembled sessions.
+// ============================================================================
+
+import type { TokenUsage } from "../../types.js";
+import { emptyTokenUsage } from "../../types.js";
+import type { PromptResponsePair } from "../../types.js";
+import { stripIDEContextTags } from "../../utils.js";
+import {
+  type OpenCodeSession,
+  type OpenCodeMessage,
+  type OpenCodeTokens,
+  type Part,
+  FileModificationTools,
+  MessageRole,
+  PartType,
+} from "./types.js";
+
+/**
+ * Returns the user-typed text of a message (synthetic parts excluded).
+ */
+function userText(msg: OpenCodeMessage): string {
+  if (msg.role !== MessageRole.User) return "";
+
+  const texts: string[] = [];
+  for (const part of msg.parts) {
+    if (part.type === PartType.Text && part.text && !part.synthetic) {
+      texts.push(part.text);
+    }
+  }
+  return stripIDEContextTags(texts.join("\n\n"));
+}
+
+/**
+ * Extracts all tool parts from a session in order.
+ */
+export function extractToolParts(session: OpenCodeSession): Part[] {
+  const parts: Part[] = [];
+  for (const msg of session.messages) {
+    for (const part of msg.parts) {
+      if (part.type === PartType.Tool) parts.push(part);
+    }
+  }
+  return parts;
+}
+
+/**
+ * Extracts files modified in an OpenCode session.
+ * Collects `filePath` from write/edit/multiedit/patch tool calls and the
+ * file lists of patch parts.
+ */
+export function extractModifiedFiles(session: OpenCodeSession): string[] {
+  const fileSet = new Set<string>();
+  const files: string[] = [];
+
+  const add = (file: unknown) => {
+    if (typeof file === "string" && file && !fileSet.has(file)) {
+      fileSet.add(file);
+      files.push(file);
+    }
+  };
+
+  for (const msg of session.messages) {
+    for (const part of msg.parts) {
+      if (
+        part.type === PartType.Tool &&
+        part.tool &&
+        FileModificationTools.includes(part.tool as (typeof FileModificationTools)[number])
+      ) {
+        add(part.state?.input?.filePath);
+      } else if (part.type === PartType.Patch && part.files) {
+        for (const file of part.files) add(file);
+      }
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Extracts the last user prompt from an OpenCode session.
+ */
+export function extractLastUserPrompt(session: OpenCodeSession): string {
+  for (let i = session.messages.length - 1; i >= 0; i--) {
+    const text = userText(session.messages[i]);
+    if (text) return text;
+  }
+  return "";
+}
+
+/**
+ * Extracts all user prompts from an OpenCode session in order.
+ */
+export function extractAllUserPrompts(session: OpenCodeSession): string[] {
+  const prompts: string[] = [];
+  for (const msg of session.messages) {
+    const text = userText(msg);
+    if (text) prompts.push(text);
+  }
+  return prompts;
+}
+
+/**
+ * Extracts all assistant text responses from an OpenCode session.
+ */
+export function extractAssistantResponses(session: OpenCodeSession): string[] {
+  const texts: string[] = [];
+  for (const msg of session.messages) {
+    if (msg.role !== MessageRole.Assistant) continue;
+
+    for (const part of msg.parts) {
+      if (part.type === PartType.Text && part.text) texts.push(part.text);
+    }
+  }
+  return texts;
+}
+
+/**
+ * Extracts all prompt-response pairs from a session.
+ * Each pair contains the user's prompt, assistant's text responses,
+ * and files modified in that turn.
+ */
+export function extractAllPromptResponses(
+  session: OpenCodeSession
+): PromptResponsePair[] {
+  const pairs: PromptResponsePair[] = [];
+  const messages = session.messages;
+
+  const userIndices: number[] = [];
+  for (let i = 0; i < messages.length; i++) {
+    if (userText(messages[i])) userIndices.push(i);
+  }
+
+  for (let idx = 0; idx < userIndices.length; idx++) {
+    const startIdx = userIndices[idx];
+    const endIdx = idx < userIndices.length - 1 ? userIndices[idx + 1] : messages.length;
+    const slice: OpenCodeSession = { messages: messages.slice(startIdx, endIdx) };
+
+    pairs.push({
+      prompt: userText(messages[startIdx]),
+      responses: extractAssistantResponses(slice),
+      files: extractModifiedFiles(slice),
+    });
+  }
+
+  return pairs;
+}
+
+/**
+ * Calculates token usage from an OpenCode session.
+ *
+ * Each step-finish part is one API call. Assistant messages without step
+ * parts (older sessions) count as a single call using the message totals.
+ * Reasoning tokens are billed as output and included in `outputTokens`.
+ */
+export function calculateTokenUsage(session: OpenCodeSession): TokenUsage {
+  const usage = emptyTokenUsage();
+
+  const add = (tokens: OpenCodeTokens) => {
+    usage.apiCallCount++;
+    usage.inputTokens += tokens.input || 0;
+    usage.outputTokens += (tokens.output || 0) + (tokens.reasoning || 0);
+    usage.cacheReadTokens += tokens.cache?.read || 0;
+    usage.cacheCreationTokens += tokens.cache?.write || 0;
+  };
+
+  for (const msg of session.messages) {
+    if (msg.role !== MessageRole.Assistant) continue;
+
+    const steps = msg.parts.filter((p) => p.type === PartType.StepFinish && p.tokens);
+    if (steps.length > 0) {
+      for (const step of steps) add(step.tokens!);
+    } else if (msg.tokens) {
+      add(msg.tokens);
+    }
+  }
+
+  return usage;
+}
+
+/**
+ * Calculates the total cost OpenCode recorded on assistant messages.
+ */
+export function calculateTotalCost(session: OpenCodeSession): number {
+  let total = 0;
+  for (const msg of session.messages) {
+    if (msg.role === MessageRole.Assistant) total += msg.cost ?? 0;
+  }
+  return total;
+}
@@ -0,0 +1,4 @@
+// OpenCode session storage parser - public API
+export * from "./types.js";
+export * from "./parse.js";
+export * from "./extract.js";
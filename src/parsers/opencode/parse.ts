@@ -0,0 +1,111 @@
+// ============================================================================
+// OpenCode session storage parser.
+// Assembles a session from its per-message and per-part JSON files.
+// ============================================================================
+
+import type {
+  ListStorageDir,
+  ReadStorageFile,
+  SessionInfo,
+  MessageInfo,
+  Part,
+  OpenCodeSession,
+} from "./types.js";
+
+/**
+ * Loads and assembles a session from OpenCode storage.
+ *
+ * Storage access goes through the injected callbacks, so sessions can be read
+ * from disk, an archive or an in-memory fixture. Messages are ordered by
+ * creation time and parts by ID (OpenCode IDs sort chronologically).
+ * Unreadable or malformed files are skipped.
+ *
+ * @param sessionId - Session ID (e.g. "ses_...")
+ * @param listDir - Callback listing entry names in a storage directory
+ * @param readFile - Callback reading a storage file by relative path
+ */
+export function parseSession(
+  sessionId: string,
+  listDir: ListStorageDir,
+  readFile: ReadStorageFile
+): OpenCodeSession {
+  const messages: MessageInfo[] = [];
+  const parts: Part[] = [];
+
+  for (const name of jsonFiles(listDir(`message/${sessionId}`))) {
+    const info = readJSON<MessageInfo>(readFile, `message/${sessionId}/${name}`);
+    if (!info?.id) continue;
+    messages.push(info);
+
+    for (const partName of jsonFiles(listDir(`part/${info.id}`))) {
+      const part = readJSON<Part>(readFile, `part/${info.id}/${partName}`);
+      if (part?.id) parts.push({ ...part, messageID: info.id });
+    }
+  }
+
+  return assembleSession(
+    messages,
+    parts,
+    findSessionInfo(sessionId, listDir, readFile)
+  );
+}
+
+/**
+ * Looks up session info across project directories under `session/`.
+ */
+export function findSessionInfo(
+  sessionId: string,
+  listDir: ListStorageDir,
+  readFile: ReadStorageFile
+): SessionInfo | undefined {
+  for (const projectId of listDir("session")) {
+    const info = readJSON<SessionInfo>(readFile, `session/${projectId}/${sessionId}.json`);
+    if (info) return info;
+  }
+  return undefined;
+}
+
+/**
+ * Assembles a session from already-loaded message and part objects.
+ * Useful when storage has been read by other means (e.g. a database export).
+ */
+export function assembleSession(
+  messages: MessageInfo[],
+  parts: Part[],
+  info?: SessionInfo
+): OpenCodeSession {
+  const partsByMessage = new Map<string, Part[]>();
+  for (const part of parts) {
+    const list = partsByMessage.get(part.messageID) ?? [];
+    list.push(part);
+    partsByMessage.set(part.messageID, list);
+  }
+
+  const assembled = messages.map((msg) => ({
+    ...msg,
+    parts: (partsByMessage.get(msg.id) ?? []).sort(compareById),
+  }));
+  assembled.sort(
+    (a, b) => (a.time?.created ?? 0) - (b.time?.created ?? 0) || compareById(a, b)
+  );
+
+  return { info, messages: assembled };
+}
+
+function jsonFiles(names: string[]): string[] {
+  return names.filter((name) => name.endsWith(".json"));
+}
+
+function readJSON<T>(readFile: ReadStorageFile, path: string): T | null {
+  const content = readFile(path);
+  if (!content) return null;
+  try {
+    return JSON.parse(content) as T;
+  } catch {
+    return null;
+  }
+}
+
+function compareById(a: { id: string }, b: { id: string }): number {
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
@@ -0,0 +1,137 @@
+// ============================================================================
+// OpenCode session storage types.
+// OpenCode stores each session as a tree of JSON files under its storage root:
+//   session/<projectID>/<sessionID>.json   session info
+//   message/<sessionID>/<messageID>.json   one file per message
+//   part/<messageID>/<partID>.json         one file per message part
+// ============================================================================
+
+/** Role constants for OpenCode messages. */
+export const MessageRole = {
+  User: "user",
+  Assistant: "assistant",
+} as const;
+
+/** Part type constants for OpenCode message parts. */
+export const PartType = {
+  Text: "text",
+  Reasoning: "reasoning",
+  Tool: "tool",
+  File: "file",
+  StepStart: "step-start",
+  StepFinish: "step-finish",
+  Patch: "patch",
+  Snapshot: "snapshot",
+} as const;
+
+/** Tool state status constants. */
+export const ToolStatus = {
+  Pending: "pending",
+  Running: "running",
+  Completed: "completed",
+  Error: "error",
+} as const;
+
+/** Lists entry names (files or directories) in a storage directory, relative to the storage root. */
+export type ListStorageDir = (dir: string) => string[];
+
+/** Reads a file relative to the storage root. Returns null if unavailable. */
+export type ReadStorageFile = (path: string) => string | null;
+
+/** Session info (session/<projectID>/<sessionID>.json). */
+export interface SessionInfo {
+  id: string;
+  projectID?: string;
+  directory?: string;
+  parentID?: string;
+  title?: string;
+  version?: string;
+  time?: {
+    created: number;
+    updated?: number;
+  };
+}
+
+/** Token usage reported on assistant messages and step-finish parts. */
+export interface OpenCodeTokens {
+  input: number;
+  output: number;
+  reasoning: number;
+  cache: {
+    read: number;
+    write: number;
+  };
+}
+
+/** Message info (message/<sessionID>/<messageID>.json). */
+export interface MessageInfo {
+  id: string;
+  sessionID: string;
+  role: string;
+  time: {
+    created: number;
+    completed?: number;
+  };
+  modelID?: string;
+  providerID?: string;
+  cost?: number;
+  tokens?: OpenCodeTokens;
+  path?: {
+    cwd: string;
+    root: string;
+  };
+}
+
+/** State of a tool part. */
+export interface ToolState {
+  status: string;
+  input?: Record<string, unknown>;
+  output?: string;
+  error?: string;
+  title?: string;
+  time?: {
+    start: number;
+    end?: number;
+  };
+}
+
+/** A message part (part/<messageID>/<partID>.json). */
+export interface Part {
+  id: string;
+  sessionID: string;
+  messageID: string;
+  type: string;
+  /** Text and reasoning parts */
+  text?: string;
+  /** Text injected by OpenCode rather than typed by the user */
+  synthetic?: boolean;
+  /** Tool parts */
+  tool?: string;
+  callID?: string;
+  state?: ToolState;
+  /** Step-finish parts */
+  tokens?: OpenCodeTokens;
+  cost?: number;
+  /** Patch parts */
+  hash?: string;
+  files?: string[];
+}
+
+/** A message with its parts, in order. */
+export interface OpenCodeMessage extends MessageInfo {
+  parts: Part[];
+}
+
+/** An assembled OpenCode session. */
+export interface OpenCodeSession {
+  info?: SessionInfo;
+  messages: OpenCodeMessage[];
+}
+
+/** Tool names used in OpenCode that modify files. */
+export const FileModificationTools = [
+  "write",
+  "edit",
+  "multiedit",
+  "patch",
+] as const;
@@ -0,0 +1,222 @@
+// ============================================================================
+// Agent registry.
+// Each supported agent is described by an adapter that bundles its format
+// detection, parsing, chunking and extraction. Built-in agents are registered
+// at load time; other packages can register their own adapters.
+// ============================================================================
+
+import type {
+  AgentName,
+  AgentType,
+  Event,
+  PromptResponsePair,
+  TokenUsage,
+} from "./types.js";
+import { chunkGeminiJSON, reassembleGeminiJSON } from "./parsers/gemini/chunk.js";
+import * as claude from "./parsers/claude/index.js";
+import * as gemini from "./parsers/gemini/index.js";
+import * as codex from "./parsers/codex/index.js";
+import * as aider from "./parsers/aider/index.js";
+import * as cline from "./parsers/cline/index.js";
+
+/**
+ * Describes how to handle one agent's transcripts.
+ *
+ * @typeParam T - The parsed transcript type returned by `parse`
+ */
+export interface AgentAdapter<T = unknown> {
+  /** Registry key (e.g. "claude-code") */
+  name: AgentName;
+  /** Display name (e.g. "Claude Code") */
+  type: AgentType;
+
+  /**
+   * Reports whether raw transcript content is in this agent's format.
+   * Adapters without a detector are only used when selected explicitly.
+   */
+  detect?(content: string): boolean;
+
+  /** Parses raw transcript content. */
+  parse(content: string): T;
+
+  /**
+   * Splits content into chunks of at most maxSize.
+   * Defaults to line-based JSONL chunking.
+   */
+  chunk?(content: string, maxSize: number): string[];
+
+  /**
+   * Reassembles chunks produced by `chunk`.
+   * Defaults to joining lines (JSONL).
+   */
+  reassemble?(chunks: string[]): string;
+
+  extractModifiedFiles(transcript: T): string[];
+  extractLastUserPrompt(transcript: T): string;
+  extractAllUserPrompts(transcript: T): string[];
+  extractAllPromptResponses(transcript: T): PromptResponsePair[];
+
+  /**
+   * Sums the token usage of the transcript. Absent when the parsed content
+   * doesn't record usage.
+   */
+  calculateTokenUsage?(transcript: T): TokenUsage;
+
+  /**
+   * Parses the stdin payload of one of the agent's hooks into a normalized
+   * Event. Absent for agents without hooks.
+   */
+  parseHookEvent?(hookName: string, raw: string, timestamp?: Date): Event;
+}
+
+/** Name of the adapter used when content matches no detector. */
+export const DEFAULT_AGENT_NAME: AgentName = "claude-code";
+
+const adapters = new Map<AgentName, AgentAdapter>();
+
+/**
+ * Registers an agent adapter.
+ * Detection tries adapters in registration order, so built-ins are checked
+ * before adapters registered later.
+ *
+ * @throws If an adapter with the same name or display name is registered.
+ */
+export function registerAgent<T>(adapter: AgentAdapter<T>): void {
+  if (adapters.has(adapter.name)) {
+    throw new Error(`Agent "${adapter.name}" is already registered`);
+  }
+  if (getAgentByType(adapter.type)) {
+    throw new Error(`Agent type "${adapter.type}" is already registered`);
+  }
+  adapters.set(adapter.name, adapter as AgentAdapter);
+}
+
+/**
+ * Removes an adapter from the registry. Returns false if it wasn't registered.
+ */
+export function unregisterAgent(name: AgentName): boolean {
+  return adapters.delete(name);
+}
+
+/**
+ * Returns the adapter registered under a name.
+ */
+export function getAgent(name: AgentName): AgentAdapter | undefined {
+  return adapters.get(name);
+}
+
+/**
+ * Returns the adapter registered under a display name.
+ */
+export function getAgentByType(type: AgentType): AgentAdapter | undefined {
+  for (const adapter of adapters.values()) {
+    if (adapter.type === type) return adapter;
+  }
+  return undefined;
+}
+
+/**
+ * Returns all registered adapters in registration order.
+ */
+export function listAgents(): AgentAdapter[] {
+  return [...adapters.values()];
+}
+
+/**
+ * Returns the first adapter whose detector accepts the content,
+ * or undefined if none does.
+ */
+export function detectAgent(content: string): AgentAdapter | undefined {
+  for (const adapter of adapters.values()) {
+    if (adapter.detect?.(content)) return adapter;
+  }
+  return undefined;
+}
+
+/**
+ * Resolves the adapter for content: by display name when given, otherwise
+ * by detection, falling back to the default (Claude Code JSONL) adapter.
+ */
+export function resolveAgent(
+  content: string,
+  agentType?: AgentType
+): AgentAdapter | undefined {
+  if (agentType) return getAgentByType(agentType);
+  return detectAgent(content) ?? getAgent(DEFAULT_AGENT_NAME);
+}
+
+// ── Built-in adapters ────────────────────────────────────────────
+
+const claudeAdapter: AgentAdapter<claude.TranscriptLine[]> = {
+  name: "claude-code",
+  type: "Claude Code",
+  parse: claude.parseFromString,
+  extractModifiedFiles: claude.extractModifiedFiles,
+  extractLastUserPrompt: claude.extractLastUserPrompt,
+  extractAllUserPrompts: claude.extractAllUserPrompts,
+  extractAllPromptResponses: claude.extractAllPromptResponses,
+  calculateTokenUsage: claude.calculateTokenUsage,
+  parseHookEvent: claude.parseHookEvent,
+};
+
+const geminiAdapter: AgentAdapter<gemini.GeminiTranscript> = {
+  name: "gemini",
+  type: "Gemini CLI",
+  detect: gemini.isGeminiTranscript,
+  parse: gemini.parseTranscript,
+  chunk: (content, maxSize) => chunkGeminiJSON(content, maxSize),
+  reassemble: (chunks) => reassembleGeminiJSON(chunks),
+  extractModifiedFiles: gemini.extractModifiedFiles,
+  extractLastUserPrompt: gemini.extractLastUserPrompt,
+  extractAllUserPrompts: gemini.extractAllUserPrompts,
+  extractAllPromptResponses: gemini.extractAllPromptResponses,
+  calculateTokenUsage: (transcript) => gemini.calculateTokenUsage(transcript),
+  parseHookEvent: gemini.parseHookEvent,
+};
+
+const codexAdapter: AgentAdapter<codex.RolloutLine[]> = {
+  name: "codex",
+  type: "Codex CLI",
+  detect: codex.isRolloutContent,
+  parse: codex.parseFromString,
+  extractModifiedFiles: codex.extractModifiedFiles,
+  extractLastUserPrompt: codex.extractLastUserPrompt,
+  extractAllUserPrompts: codex.extractAllUserPrompts,
+  extractAllPromptResponses: codex.extractAllPromptResponses,
+  calculateTokenUsage: codex.calculateTokenUsage,
+};
+
+const aiderAdapter: AgentAdapter<aider.AiderTranscript> = {
+  name: "aider",
+  type: "Aider",
+  detect: aider.isChatHistory,
+  parse: aider.parseTranscript,
+  extractModifiedFiles: aider.extractModifiedFiles,
+  extractLastUserPrompt: aider.extractLastUserPrompt,
+  extractAllUserPrompts: aider.extractAllUserPrompts,
+  extractAllPromptResponses: aider.extractAllPromptResponses,
+  calculateTokenUsage: aider.calculateTokenUsage,
+};
+
+// Cline is parsed from api_conversation_history.json alone; its JSON array
+// is indistinguishable from other message logs, so it has no detector.
+// Token usage is recorded in ui_messages.json, which a single content string
+// doesn't include, so the adapter has no calculateTokenUsage.
+const clineAdapter: AgentAdapter<cline.ClineTask> = {
+  name: "cline",
+  type: "Cline",
+  parse: (content) => cline.parseTask(content),
+  extractModifiedFiles: cline.extractModifiedFiles,
+  extractLastUserPrompt: cline.extractLastUserPrompt,
+  extractAllUserPrompts: cline.extractAllUserPrompts,
+  extractAllPromptResponses: cline.extractAllPromptResponses,
+};
+
+// OpenCode is not registered: a session is a tree of files under its storage
+// root (see opencode.parseSession), not a single content string to parse.
+
+registerAgent(claudeAdapter);
+registerAgent(geminiAdapter);
+registerAgent(codexAdapter);
+registerAgent(aiderAdapter);
+registerAgent(clineAdapter);
@@ -0,0 +1,323 @@
+// ============================================================================
+// AgentSession → self-contained HTML viewer.
+//
+// Produces a single HTML file with inline styles and script and no external
+// assets: a turn-by-turn timeline with collapsible tool calls and highlighted
+// diffs, a side panel with token usage, modified files and turn navigation,
+// and client-side search.
+// ============================================================================
+
+import {
+  EntryType,
+  type AgentSession,
+  type SessionEntry,
+  type TokenUsage,
+} from "../types.js";
+import { stripIDEContextTags } from "../utils.js";
+import type { TranscriptLine } from "../parsers/claude/types.js";
+import type { GeminiTranscript } from "../parsers/gemini/types.js";
+import { calculateTokenUsage as calculateClaudeTokenUsage } from "../parsers/claude/extract.js";
+import { calculateTokenUsage as calculateGeminiTokenUsage } from "../parsers/gemini/extract.js";
+import { convertClaudeTranscriptToSession } from "../converters/claude.js";
+import { convertGeminiTranscriptToSession } from "../converters/gemini.js";
+import {
+  groupTurns,
+  extractEditHunks,
+  toolFilePath,
+  diffLines,
+  toolOutputText,
+  elide,
+  toolCallSummary,
+  type SessionTurn,
+} from "./shared.js";
+
+/** Options for the HTML renderers. */
+export interface HTMLRenderOptions {
+  /** Page title (defaults to "Session <sessionId>") */
+  title?: string;
+  /** Token usage shown in the side panel (omitted when not given) */
+  tokenUsage?: TokenUsage;
+  /** Truncate tool output longer than this many characters (default: no limit) */
+  maxToolOutputLength?: number;
+  /** Remove IDE and system context tags from prompts and system text (default true) */
+  stripTags?: boolean;
+}
+
+// ── Helpers ──────────────────────────────────────────────────────
+
+function escapeHTML(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function clean(text: string, options: HTMLRenderOptions): string {
+  return options.stripTags === false ? text.trim() : stripIDEContextTags(text);
+}
+
+function elideLine(text: string): string {
+  return text.length > 60 ? `${text.slice(0, 57)}…` : text;
+}
+
+function renderDiff(lines: string[]): string {
+  const rendered = lines.map((line) => {
+    let cls = "ctx";
+    if (line.startsWith("+++") || line.startsWith("---")) cls = "file";
+    else if (line.startsWith("@@")) cls = "hunk";
+    else if (line.startsWith("+")) cls = "add";
+    else if (line.startsWith("-")) cls = "del";
+    return `<span class="diff-${cls}">${escapeHTML(line)}</span>`;
+  });
+  return `<pre class="diff">${rendered.join("\n")}</pre>`;
+}
+
+function renderToolCall(entry: SessionEntry, options: HTMLRenderOptions): string {
+  const name = entry.toolName ?? "unknown";
+  const summary = toolCallSummary(entry.toolInput);
+  const failed = entry.toolStatus === "error";
+
+  const parts = [
+    `<details class="tool${failed ? " failed" : ""}">`,
+    `<summary><code>${escapeHTML(name)}</code>${summary ? ` <span class="tool-summary">${escapeHTML(summary)}</span>` : ""}${failed ? ` <span class="badge">failed</span>` : ""}</summary>`,
+  ];
+
+  const hunks = extractEditHunks(entry.toolInput);
+  if (hunks) {
+    parts.push(renderDiff(diffLines(hunks, toolFilePath(entry.toolInput))));
+  } else if (entry.toolInput !== undefined) {
+    parts.push(`<pre class="input">${escapeHTML(JSON.stringify(entry.toolInput, null, 2))}</pre>`);
+  }
+
+  const output = toolOutputText(entry.toolOutput);
+  if (output) {
+    parts.push(
+      `<div class="label">Output</div>`,
+      `<pre class="output">${escapeHTML(elide(output, options.maxToolOutputLength))}</pre>`,
+    );
+  }
+
+  parts.push(`</details>`);
+  return parts.join("\n");
+}
+
+function renderTurn(turn: SessionTurn, id: string, heading: string, options: HTMLRenderOptions): string {
+  const parts = [`<section class="turn" id="${id}">`, `<h2>${escapeHTML(heading)}</h2>`];
+
+  if (turn.prompt) {
+    parts.push(`<div class="prompt">${escapeHTML(clean(turn.prompt.content, options))}</div>`);
+  }
+
+  for (const entry of turn.entries) {
+    switch (entry.type) {
+      case EntryType.Assistant:
+        if (entry.isThinking) break;
+        parts.push(`<div class="assistant">${escapeHTML(entry.content.trim())}</div>`);
+        break;
+      case EntryType.Tool:
+        parts.push(renderToolCall(entry, options));
+        break;
+      case EntryType.System:
+        parts.push(`<div class="system">${escapeHTML(clean(entry.content, options))}</div>`);
+        break;
+    }
+  }
+
+  if (turn.files.length > 0) {
+    parts.push(
+      `<div class="turn-files"><span class="label">Files modified</span><ul>${turn.files
+        .map((file) => `<li><code>${escapeHTML(file)}</code></li>`)
+        .join("")}</ul></div>`,
+    );
+  }
+
+  parts.push(`</section>`);
+  return parts.join("\n");
+}
+
+function renderTokenUsage(usage: TokenUsage): string {
+  const rows: Array<[string, number]> = [
+    ["Input", usage.inputTokens],
+    ["Cache write", usage.cacheCreationTokens],
+    ["Cache read", usage.cacheReadTokens],
+    ["Output", usage.outputTokens],
+    ["API calls", usage.apiCallCount],
+  ];
+  if (usage.subagentTokens) {
+    const sub = usage.subagentTokens;
+    rows.push([
+      "Subagent tokens",
+      sub.inputTokens + sub.cacheCreationTokens + sub.cacheReadTokens + sub.outputTokens,
+    ]);
+  }
+
+  const body = rows
+    .map(([label, value]) => `<tr><th>${label}</th><td>${value.toLocaleString("en-US")}</td></tr>`)
+    .join("");
+  return `<section class="panel tokens"><h3>Token usage</h3><table>${body}</table></section>`;
+}
+
+const STYLE = `
+*{box-sizing:border-box}
+body{margin:0;font:14px/1.5 -apple-system,BlinkMacSystemFont,"Segoe UI",Helvetica,Arial,sans-serif;color:#1f2328;background:#f6f8fa}
+header{position:sticky;top:0;z-index:1;display:flex;flex-wrap:wrap;gap:8px 16px;align-items:center;padding:12px 20px;background:#fff;border-bottom:1px solid #d0d7de}
+header h1{margin:0;font-size:18px}
+.meta{color:#59636e;font-size:12px}
+#search{margin-left:auto;padding:4px 8px;width:260px;border:1px solid #d0d7de;border-radius:6px}
+#search-count{color:#59636e;font-size:12px;min-width:70px}
+.layout{display:flex;gap:20px;padding:20px;align-items:flex-start}
+aside{position:sticky;top:70px;flex:0 0 280px;max-height:calc(100vh - 90px);overflow:auto}
+main{flex:1;min-width:0}
+.panel{background:#fff;border:1px solid #d0d7de;border-radius:6px;padding:10px 12px;margin-bottom:12px}
+.panel h3{margin:0 0 6px;font-size:13px}
+.panel ul{margin:0;padding-left:18px;font-size:12px;word-break:break-all}
+.tokens table{width:100%;font-size:12px}
+.tokens th{text-align:left;font-weight:normal;color:#59636e}
+.tokens td{text-align:right;font-variant-numeric:tabular-nums}
+nav a{color:#0969da;text-decoration:none}
+.turn{background:#fff;border:1px solid #d0d7de;border-radius:6px;padding:12px 16px;margin-bottom:16px}
+.turn h2{margin:0 0 8px;font-size:15px}
+.prompt{white-space:pre-wrap;background:#ddf4ff;border-left:3px solid #0969da;padding:8px 10px;border-radius:4px}
+.assistant{white-space:pre-wrap;margin:10px 0}
+.system{white-space:pre-wrap;color:#59636e;font-style:italic;margin:10px 0}
+.tool{border:1px solid #d0d7de;border-radius:6px;margin:8px 0;background:#f6f8fa}
+.tool summary{cursor:pointer;padding:4px 10px}
+.tool.failed{border-color:#cf222e}
+.tool-summary{color:#59636e}
+.badge{color:#fff;background:#cf222e;border-radius:10px;padding:0 6px;font-size:11px}
+.label{font-size:12px;color:#59636e;margin:6px 10px 0}
+pre{margin:6px 10px 10px;padding:8px;background:#fff;border:1px solid #d8dee4;border-radius:4px;overflow:auto;font:12px/1.45 ui-monospace,SFMono-Regular,Menlo,monospace;white-space:pre}
+.diff span{display:block}
+.diff-add{background:#dafbe1;color:#116329}
+.diff-del{background:#ffebe9;color:#82071e}
+.diff-hunk{color:#8250df}
+.diff-file{color:#59636e;font-weight:bold}
+.turn-files{margin-top:10px}
+.turn-files ul{margin:2px 0 0;padding-left:18px;font-size:12px}
+.hidden{display:none}
+`;
+
+const SCRIPT = `
+(function () {
+  var input = document.getElementById("search");
+  var count = document.getElementById("search-count");
+  var turns = Array.prototype.slice.call(document.querySelectorAll(".turn"));
+  input.addEventListener("input", function () {
+    var query = input.value.trim().toLowerCase();
+    var shown = 0;
+    turns.forEach(function (turn) {
+      var match = !query || turn.textContent.toLowerCase().indexOf(query) !== -1;
+      turn.classList.toggle("hidden", !match);
+      if (match) shown++;
+      turn.querySelectorAll("details.tool").forEach(function (details) {
+        details.open = !!query && details.textContent.toLowerCase().indexOf(query) !== -1;
+      });
+    });
+    count.textContent = query ? shown + " / " + turns.length + " turns" : "";
+  });
+})();
+`;
+
+// ── Renderers ────────────────────────────────────────────────────
+
+/**
+ * Render an AgentSession as a self-contained HTML page.
+ *
+ * @param session - Session to render
+ * @param options - Title, token usage and rendering options
+ */
+export function renderSessionHTML(
+  session: AgentSession,
+  options: HTMLRenderOptions = {},
+): string {
+  const title = options.title ?? `Session ${session.sessionId}`.trim();
+
+  const meta = [escapeHTML(session.agentName)];
+  if (session.startTime) meta.push(escapeHTML(session.startTime.toISOString()));
+  if (session.repoPath) meta.push(`<code>${escapeHTML(session.repoPath)}</code>`);
+
+  const turnSections: string[] = [];
+  const navItems: string[] = [];
+  let promptNumber = 0;
+
+  groupTurns(session).forEach((turn, index) => {
+    const id = `turn-${index + 1}`;
+    let heading = "Session start";
+    if (turn.prompt) {
+      promptNumber++;
+      heading = `Prompt ${promptNumber}`;
+    }
+
+    turnSections.push(renderTurn(turn, id, heading, options));
+
+    const snippet = turn.prompt ? clean(turn.prompt.content, options).split("\n")[0] : "";
+    navItems.push(
+      `<li><a href="#${id}">${escapeHTML(heading)}</a>${snippet ? ` ${escapeHTML(elideLine(snippet))}` : ""}</li>`,
+    );
+  });
+
+  const aside = [
+    options.tokenUsage ? renderTokenUsage(options.tokenUsage) : "",
+    `<section class="panel files"><h3>Modified files (${session.modifiedFiles.length})</h3><ul>${session.modifiedFiles
+      .map((file) => `<li><code>${escapeHTML(file)}</code></li>`)
+      .join("")}</ul></section>`,
+    `<section class="panel"><h3>Timeline</h3><nav><ul>${navItems.join("")}</ul></nav></section>`,
+  ].join("\n");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHTML(title)}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<header>
+<h1>${escapeHTML(title)}</h1>
+<span class="meta">${meta.join(" · ")}</span>
+<input id="search" type="search" placeholder="Search session…" aria-label="Search session">
+<span id="search-count"></span>
+</header>
+<div class="layout">
+<aside>
+${aside}
+</aside>
+<main id="timeline">
+${turnSections.join("\n")}
+</main>
+</div>
+<script>${SCRIPT}</script>
+</body>
+</html>
+`;
+}
+
+/**
+ * Render a parsed Claude Code transcript as a self-contained HTML page,
+ * with token usage from `calculateTokenUsage` unless given in options.
+ */
+export function renderClaudeTranscriptHTML(
+  lines: TranscriptLine[],
+  options: HTMLRenderOptions = {},
+): string {
+  return renderSessionHTML(convertClaudeTranscriptToSession(lines), {
+    ...options,
+    tokenUsage: options.tokenUsage ?? calculateClaudeTokenUsage(lines),
+  });
+}
+
+/**
+ * Render a parsed Gemini CLI transcript as a self-contained HTML page,
+ * with token usage from `calculateTokenUsage` unless given in options.
+ */
+export function renderGeminiTranscriptHTML(
+  transcript: GeminiTranscript,
+  options: HTMLRenderOptions = {},
+): string {
+  return renderSessionHTML(convertGeminiTranscriptToSession(transcript), {
+    ...options,
+    tokenUsage: options.tokenUsage ?? calculateGeminiTokenUsage(transcript),
+  });
+}
@@ -0,0 +1,15 @@
+export type { MarkdownRenderOptions } from "./markdown.js";
+
+export {
+  renderSessionMarkdown,
+  renderClaudeTranscriptMarkdown,
+  renderGeminiTranscriptMarkdown,
+} from "./markdown.js";
+
+export type { HTMLRenderOptions } from "./html.js";
+
+export {
+  renderSessionHTML,
+  renderClaudeTranscriptHTML,
+  renderGeminiTranscriptHTML,
+} from "./html.js";
@@ -0,0 +1,176 @@
+// ============================================================================
+// AgentSession → Markdown renderer.
+//
+// Renders a session as readable Markdown for PR descriptions and write-ups:
+// one section per user prompt, assistant text, collapsible tool calls with
+// diffs for edit tools, and the files each turn touched.
+// ============================================================================
+
+import { EntryType, type AgentSession, type SessionEntry } from "../types.js";
+import { stripIDEContextTags } from "../utils.js";
+import type { TranscriptLine } from "../parsers/claude/types.js";
+import type { GeminiTranscript } from "../parsers/gemini/types.js";
+import { convertClaudeTranscriptToSession } from "../converters/claude.js";
+import { convertGeminiTranscriptToSession } from "../converters/gemini.js";
+import {
+  groupTurns,
+  extractEditHunks,
+  toolFilePath,
+  diffLines,
+  toolOutputText,
+  elide,
+  toolCallSummary,
+} from "./shared.js";
+
+/** Options for the Markdown renderers. */
+export interface MarkdownRenderOptions {
+  /** Document title (defaults to "Session <sessionId>") */
+  title?: string;
+  /** Include the agent / start time / repository list under the title (default true) */
+  includeMetadata?: boolean;
+  /** Include tool call blocks (default true) */
+  includeToolCalls?: boolean;
+  /** Truncate tool output longer than this many characters (default: no limit) */
+  maxToolOutputLength?: number;
+  /** Remove IDE and system context tags from prompts and system text (default true) */
+  stripTags?: boolean;
+}
+
+// ── Helpers ──────────────────────────────────────────────────────
+
+/** Wraps text in a code fence longer than any backtick run inside it. */
+function fence(text: string, lang = ""): string {
+  const longest = Math.max(2, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  const marker = "`".repeat(longest + 1);
+  return `${marker}${lang}\n${text}\n${marker}`;
+}
+
+function escapeHTML(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function renderToolInput(entry: SessionEntry): string {
+  const hunks = extractEditHunks(entry.toolInput);
+  if (hunks) {
+    return fence(diffLines(hunks, toolFilePath(entry.toolInput)).join("\n"), "diff");
+  }
+  if (entry.toolInput === undefined) return "";
+  return fence(JSON.stringify(entry.toolInput, null, 2), "json");
+}
+
+function renderToolCall(entry: SessionEntry, options: MarkdownRenderOptions): string {
+  const name = entry.toolName ?? "unknown";
+  const summary = toolCallSummary(entry.toolInput);
+  const failed = entry.toolStatus === "error" ? " ❌" : "";
+
+  let heading = `<code>${escapeHTML(name)}</code>`;
+  if (summary) heading += ` ${escapeHTML(summary)}`;
+
+  const parts = [`<details>`, `<summary>${heading}${failed}</summary>`, ""];
+
+  const input = renderToolInput(entry);
+  if (input) parts.push(input, "");
+
+  const output = toolOutputText(entry.toolOutput);
+  if (output) {
+    parts.push("**Output**", "", fence(elide(output, options.maxToolOutputLength)), "");
+  }
+
+  parts.push(`</details>`);
+  return parts.join("\n");
+}
+
+function clean(text: string, options: MarkdownRenderOptions): string {
+  return options.stripTags === false ? text.trim() : stripIDEContextTags(text);
+}
+
+// ── Renderers ────────────────────────────────────────────────────
+
+/**
+ * Render an AgentSession as Markdown.
+ *
+ * Each user prompt starts a "Prompt N" section followed by the assistant's
+ * text, tool calls as `<details>` blocks (edit tools shown as diffs) and the
+ * list of files modified in that turn.
+ *
+ * @param session - Session to render
+ * @param options - Rendering options
+ */
+export function renderSessionMarkdown(
+  session: AgentSession,
+  options: MarkdownRenderOptions = {},
+): string {
+  const blocks: string[] = [];
+
+  blocks.push(`# ${options.title ?? `Session ${session.sessionId}`.trim()}`);
+
+  if (options.includeMetadata !== false) {
+    const meta = [`- **Agent:** ${session.agentName}`];
+    if (session.startTime) meta.push(`- **Started:** ${session.startTime.toISOString()}`);
+    if (session.repoPath) meta.push(`- **Repository:** \`${session.repoPath}\``);
+    if (session.modifiedFiles.length > 0) {
+      meta.push(`- **Files modified:** ${session.modifiedFiles.length}`);
+    }
+    blocks.push(meta.join("\n"));
+  }
+
+  let promptNumber = 0;
+  for (const turn of groupTurns(session)) {
+    if (turn.prompt) {
+      promptNumber++;
+      blocks.push(`## Prompt ${promptNumber}`);
+      const prompt = clean(turn.prompt.content, options);
+      if (prompt) blocks.push(prompt);
+    }
+
+    for (const entry of turn.entries) {
+      switch (entry.type) {
+        case EntryType.Assistant: {
+          if (entry.isThinking) break;
+          const text = entry.content.trim();
+          if (text) blocks.push(text);
+          break;
+        }
+        case EntryType.Tool: {
+          if (options.includeToolCalls !== false) {
+            blocks.push(renderToolCall(entry, options));
+          }
+          break;
+        }
+        case EntryType.System: {
+          const text = clean(entry.content, options);
+          if (text) blocks.push(`> **System:** ${text.replace(/\n/g, "\n> ")}`);
+          break;
+        }
+      }
+    }
+
+    if (turn.files.length > 0) {
+      blocks.push(
+        ["**Files modified:**", "", ...turn.files.map((file) => `- \`${file}\``)].join("\n"),
+      );
+    }
+  }
+
+  return blocks.join("\n\n") + "\n";
+}
+
+/**
+ * Render a parsed Claude Code transcript as Markdown.
+ */
+export function renderClaudeTranscriptMarkdown(
+  lines: TranscriptLine[],
+  options: MarkdownRenderOptions = {},
+): string {
+  return renderSessionMarkdown(convertClaudeTranscriptToSession(lines), options);
+}
+
+/**
+ * Render a parsed Gemini CLI transcript as Markdown.
+ */
+export function renderGeminiTranscriptMarkdown(
+  transcript: GeminiTranscript,
+  options: MarkdownRenderOptions = {},
+): string {
+  return renderSessionMarkdown(convertGeminiTranscriptToSession(transcript), options);
+}
@@ -0,0 +1,135 @@
+// ============================================================================
+// Helpers shared by the session renderers.
+// ============================================================================
+
+import { EntryType, type AgentSession, type SessionEntry } from "../types.js";
+
+/** A user prompt and everything the agent did in response. */
+export interface SessionTurn {
+  /** The prompt entry; undefined for entries recorded before the first prompt */
+  prompt?: SessionEntry;
+  /** Assistant, tool and system entries in order */
+  entries: SessionEntry[];
+  /** Files affected by tool calls in this turn */
+  files: string[];
+}
+
+/** One side-by-side replacement made by an edit tool call. */
+export interface EditHunk {
+  oldText: string;
+  newText: string;
+}
+
+/**
+ * Splits session entries into turns, one per user entry.
+ */
+export function groupTurns(session: AgentSession): SessionTurn[] {
+  const turns: SessionTurn[] = [];
+  let current: SessionTurn | undefined;
+
+  for (const entry of session.entries ?? []) {
+    if (entry.type === EntryType.User) {
+      current = { prompt: entry, entries: [], files: [] };
+      turns.push(current);
+      continue;
+    }
+
+    if (!current) {
+      current = { entries: [], files: [] };
+      turns.push(current);
+    }
+
+    current.entries.push(entry);
+    for (const file of entry.filesAffected ?? []) {
+      if (!current.files.includes(file)) current.files.push(file);
+    }
+  }
+
+  return turns;
+}
+
+/**
+ * Extracts the replacements made by an edit-style tool call
+ * (`old_string`/`new_string`, or an `edits` array of them as in MultiEdit).
+ * Returns undefined for other tool inputs.
+ */
+export function extractEditHunks(toolInput: unknown): EditHunk[] | undefined {
+  if (!toolInput || typeof toolInput !== "object") return undefined;
+
+  const input = toolInput as Record<string, unknown>;
+  const edits = Array.isArray(input.edits) ? input.edits : [input];
+
+  const hunks: EditHunk[] = [];
+  for (const edit of edits) {
+    if (!edit || typeof edit !== "object") continue;
+    const { old_string, new_string } = edit as Record<string, unknown>;
+    if (typeof old_string !== "string" || typeof new_string !== "string") continue;
+    hunks.push({ oldText: old_string, newText: new_string });
+  }
+
+  return hunks.length > 0 ? hunks : undefined;
+}
+
+/**
+ * Returns the file path an edit-style tool input targets, if any.
+ */
+export function toolFilePath(toolInput: unknown): string | undefined {
+  if (!toolInput || typeof toolInput !== "object") return undefined;
+  const input = toolInput as Record<string, unknown>;
+  const file = input.file_path ?? input.notebook_path ?? input.path ?? input.filePath;
+  return typeof file === "string" ? file : undefined;
+}
+
+/**
+ * Renders edit hunks as unified-diff lines (without hunk headers).
+ */
+export function diffLines(hunks: EditHunk[], file?: string): string[] {
+  const lines: string[] = [];
+  if (file) lines.push(`--- a/${file.replace(/^\//, "")}`, `+++ b/${file.replace(/^\//, "")}`);
+
+  for (const hunk of hunks) {
+    lines.push("@@");
+    if (hunk.oldText) {
+      for (const line of hunk.oldText.split("\n")) lines.push(`-${line}`);
+    }
+    if (hunk.newText) {
+      for (const line of hunk.newText.split("\n")) lines.push(`+${line}`);
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Formats a tool's output as text.
+ */
+export function toolOutputText(output: unknown): string {
+  if (output === undefined || output === null) return "";
+  if (typeof output === "string") return output;
+  return JSON.stringify(output, null, 2);
+}
+
+/**
+ * Shortens text to maxLength characters, noting how much was elided.
+ * A maxLength of undefined or 0 leaves the text unchanged.
+ */
+export function elide(text: string, maxLength: number | undefined): string {
+  if (!maxLength || text.length <= maxLength) return text;
+  const omitted = text.length - maxLength;
+  return `${text.slice(0, maxLength)}\n… (${omitted} more characters)`;
+}
+
+/**
+ * Returns a one-line description of a tool call's main argument
+ * (file path, command, pattern or URL), if it has one.
+ */
+export function toolCallSummary(toolInput: unknown): string | undefined {
+  if (!toolInput || typeof toolInput !== "object") return undefined;
+  const input = toolInput as Record<string, unknown>;
+
+  for (const key of ["file_path", "notebook_path", "path", "filePath", "command", "pattern", "url", "description"]) {
+    const value = input[key];
+    if (typeof value === "string" && value) return value.split("\n")[0];
+  }
+  return undefined;
+}
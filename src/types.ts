@@ -31,6 +31,30 @@ export function emptyTokenUsage(): TokenUsage {
   };
 }
 
+/** Maximum size for a single transcript chunk (50MB). */
+export const MAX_CHUNK_SIZE = 50 * 1024 * 1024;
+
+/** Model name used for API calls whose transcript entry records no model. */
+export const UNKNOWN_MODEL = "unknown";
+
+// --- Streaming Input ---
+
+/** Structural subset of a WHATWG ReadableStream (no DOM lib dependency). */
+export interface ReadableStreamLike<T> {
+  getReader(): {
+    read(): Promise<{ done: boolean; value?: T }>;
+    releaseLock(): void;
+  };
+}
+
+/**
+ * Raw transcript content delivered in chunks: a Node `Readable`, a WHATWG
+ * `ReadableStream`, or any async iterable of strings or bytes.
+ */
+export type ChunkSource =
+  | AsyncIterable<string | Uint8Array>
+  | ReadableStreamLike<string | Uint8Array>;
+
 // --- Normalized Lifecycle Events ---
 
 /** Normalized lifecycle event types from any agent. */
@@ -49,6 +73,10 @@ export enum EventType {
   SubagentStart = "SubagentStart",
   /** Subagent completed */
   SubagentEnd = "SubagentEnd",
+  /** Tool call (other than a subagent) started */
+  ToolStart = "ToolStart",
+  /** Tool call (other than a subagent) completed */
+  ToolEnd = "ToolEnd",
 }
 
 /** A normalized lifecycle event produced by an agent's hook parser. */
@@ -59,7 +87,9 @@ export interface Event {
   sessionRef: string;
   prompt?: string;
   timestamp: Date;
+  /** Correlates a tool or subagent start with its end */
   toolUseId?: string;
+  toolName?: string;
   subagentId?: string;
   toolInput?: unknown;
   responseMessage?: string;
@@ -85,14 +115,42 @@ export interface SessionEntry {
   toolName?: string;
   toolInput?: unknown;
   toolOutput?: unknown;
+  /** Tool call outcome as reported by the agent (e.g. "success", "error") */
+  toolStatus?: string;
+  /** True for assistant entries holding the model's reasoning (thinking) */
+  isThinking?: boolean;
   filesAffected?: string[];
 }
 
-/** Agent name constants (registry keys) */
-export type AgentName = "claude-code" | "gemini";
-
-/** Agent type constants (display names) */
-export type AgentType = "Claude Code" | "Gemini CLI";
+/** Names of the agents this package ships parsers for. */
+export type KnownAgentName =
+  | "claude-code"
+  | "gemini"
+  | "codex"
+  | "aider"
+  | "cline"
+  | "opencode";
+
+/** Display names of the agents this package ships parsers for. */
+export type KnownAgentType =
+  | "Claude Code"
+  | "Gemini CLI"
+  | "Codex CLI"
+  | "Aider"
+  | "Cline"
+  | "OpenCode";
+
+/**
+ * Agent name constants (registry keys). One of the known names, or any
+ * name registered through `registerAgent`.
+ */
+export type AgentName = KnownAgentName | (string & {});
+
+/**
+ * Agent type constants (display names). One of the known display names,
+ * or any display name registered through `registerAgent`.
+ */
+export type AgentType = KnownAgentType | (string & {});
 
 /** Represents a coding session's data */
 export interface AgentSession {
@@ -117,6 +175,31 @@ export interface PromptResponsePair {
   files: string[];
 }
 
+// --- Token Timeline ---
+
+/** Token usage of one API call. */
+export interface ApiCallUsage {
+  /** Message ID of the response (Claude message.id, Gemini message id) */
+  messageId: string;
+  timestamp?: Date;
+  /** Model that served the call (UNKNOWN_MODEL when not recorded) */
+  model: string;
+  /** Usage of this call; apiCallCount is 1 */
+  usage: TokenUsage;
+  /** Turn the call belongs to, matching extractAllPromptResponses (-1 before the first prompt) */
+  turnIndex: number;
+}
+
+/** Token usage of one user turn. */
+export interface TurnTokenUsage {
+  /** Position of the turn, matching extractAllPromptResponses */
+  index: number;
+  prompt: string;
+  /** Sum of the turn's calls */
+  usage: TokenUsage;
+  calls: ApiCallUsage[];
+}
+
 // --- Transcript Position ---
 
 /** Position information for a transcript file */
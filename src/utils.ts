@@ -2,6 +2,8 @@
 // Shared utility functions for transcript parsing.
 // ============================================================================
 
+import type { ChunkSource } from "./types.js";
+
 /**
  * Regex matching IDE-injected context tags like <ide_opened_file>...</ide_opened_file>
  * and <ide_selection>...</ide_selection>. These are injected by IDE extensions (e.g., VSCode).
@@ -53,3 +55,98 @@ export function deduplicateStrings(items: string[]): string[] {
   }
   return result;
 }
+
+/**
+ * Looks a model up in a table keyed by model name: the exact name, else the
+ * longest key the name starts with ("claude-sonnet-4-5" matches
+ * "claude-sonnet-4-5-20250929"). Names are compared case-insensitively.
+ */
+export function findModelEntry<T>(table: Record<string, T>, model: string): T | undefined {
+  const name = model.toLowerCase();
+  let match: T | undefined;
+  let matchLength = 0;
+
+  for (const [key, entry] of Object.entries(table)) {
+    const k = key.toLowerCase();
+    if (k === name) return entry;
+    if (name.startsWith(k) && k.length > matchLength) {
+      match = entry;
+      matchLength = k.length;
+    }
+  }
+
+  return match;
+}
+
+/**
+ * Yields the chunks of a stream as text. Byte chunks are decoded as UTF-8,
+ * keeping multi-byte characters that span chunk boundaries intact.
+ */
+export async function* decodeChunks(source: ChunkSource): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  const decode = (chunk: string | Uint8Array): string =>
+    typeof chunk === "string" ? chunk : decoder.decode(chunk, { stream: true });
+
+  if ("getReader" in source) {
+    const reader = source.getReader();
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        if (value !== undefined) yield decode(value);
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  } else {
+    for await (const chunk of source) yield decode(chunk);
+  }
+
+  const rest = decoder.decode();
+  if (rest) yield rest;
+}
+
+/** Splits text fed in pieces into lines. */
+export interface LineSplitter {
+  /** Feeds the next piece of text; returns the lines it completed, without their "\n". */
+  push(text: string): string[];
+  /** Returns the partial line buffered so far, keeping it buffered. */
+  rest(): string;
+  /** Returns the partial line buffered so far and clears it. */
+  end(): string;
+}
+
+/**
+ * Creates a line splitter. Each piece is scanned once and the pieces of a
+ * partial line are only joined when it completes, so a very long line costs
+ * linear time however finely it is split.
+ */
+export function createLineSplitter(): LineSplitter {
+  let pieces: string[] = [];
+
+  const rest = (): string => {
+    if (pieces.length > 1) pieces = [pieces.join("")];
+    return pieces[0] ?? "";
+  };
+
+  return {
+    push(text) {
+      const lines: string[] = [];
+      let start = 0;
+      for (let newline = text.indexOf("\n"); newline !== -1; newline = text.indexOf("\n", start)) {
+        pieces.push(text.slice(start, newline));
+        lines.push(pieces.join(""));
+        pieces = [];
+        start = newline + 1;
+      }
+      if (start < text.length) pieces.push(text.slice(start));
+      return lines;
+    },
+    rest,
+    end() {
+      const line = rest();
+      pieces = [];
+      return line;
+    },
+  };
+}
@@ -0,0 +1,200 @@
+// ============================================================================
+// Incremental Claude Code transcript tail.
+//
+// Parses only content appended since the last call and turns each new line
+// into watch events. Token usage keeps calculateTokenUsage's rule: rows
+// sharing a message.id count once, with the highest output_tokens.
+// ============================================================================
+
+import { emptyTokenUsage, type TokenUsage, type TranscriptPosition } from "../types.js";
+import { createLineSplitter } from "../utils.js";
+import { extractUserContent } from "../parsers/claude/parse.js";
+import {
+  type TranscriptLine,
+  type AssistantMessage,
+  type UserMessage,
+  type ContentBlock,
+  type ToolInput,
+  type MessageUsage,
+  ContentType,
+  FileModificationTools,
+  MessageType,
+} from "../parsers/claude/types.js";
+import {
+  WatchEventType,
+  type ClaudeTranscriptTail,
+  type TailOptions,
+  type WatchEvent,
+} from "./types.js";
+
+// ── Helpers ──────────────────────────────────────────────────────
+
+function parseTimestamp(value: string | undefined): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+function toolResultText(content: ContentBlock["content"]): string {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+
+  const texts: string[] = [];
+  for (const block of content) {
+    if (block.type === ContentType.Text && block.text) texts.push(block.text);
+  }
+  return texts.join("\n");
+}
+
+function modifiedFile(block: ContentBlock): string | undefined {
+  if (!block.name || !FileModificationTools.includes(block.name as (typeof FileModificationTools)[number])) {
+    return undefined;
+  }
+  const input = block.input as ToolInput | undefined;
+  return input?.file_path || input?.notebook_path || undefined;
+}
+
+function usageDelta(usage: MessageUsage, previous: MessageUsage | undefined): TokenUsage {
+  const delta = emptyTokenUsage();
+  delta.inputTokens = (usage.input_tokens ?? 0) - (previous?.input_tokens ?? 0);
+  delta.cacheCreationTokens =
+    (usage.cache_creation_input_tokens ?? 0) - (previous?.cache_creation_input_tokens ?? 0);
+  delta.cacheReadTokens =
+    (usage.cache_read_input_tokens ?? 0) - (previous?.cache_read_input_tokens ?? 0);
+  delta.outputTokens = (usage.output_tokens ?? 0) - (previous?.output_tokens ?? 0);
+  delta.apiCallCount = previous ? 0 : 1;
+  return delta;
+}
+
+function addUsage(total: TokenUsage, delta: TokenUsage): void {
+  total.inputTokens += delta.inputTokens;
+  total.cacheCreationTokens += delta.cacheCreationTokens;
+  total.cacheReadTokens += delta.cacheReadTokens;
+  total.outputTokens += delta.outputTokens;
+  total.apiCallCount += delta.apiCallCount;
+}
+
+// ── Tail ─────────────────────────────────────────────────────────
+
+/**
+ * Create a tail that follows a Claude Code transcript.
+ *
+ * Feed it content as it is appended to the file with `push`; each complete
+ * line yields prompt, tool call, tool result, file modified and token usage
+ * events in transcript order. Call `flush` once the file stops growing to
+ * process a final line written without its newline.
+ *
+ * @param options - Lines to skip (e.g. a saved position's count)
+ */
+export function createClaudeTail(options: TailOptions = {}): ClaudeTranscriptTail {
+  const startAt = options.startAt ?? 0;
+  const position: TranscriptPosition = { lastUUID: "", count: 0 };
+  const total = emptyTokenUsage();
+  const usageByMessageId = new Map<string, MessageUsage>();
+  const toolNames = new Map<string, string>();
+  const splitter = createLineSplitter();
+
+  const processLine = (raw: string, events: WatchEvent[]): void => {
+    const trimmed = raw.trim();
+    if (!trimmed) return;
+
+    let line: TranscriptLine | undefined;
+    try {
+      line = JSON.parse(trimmed) as TranscriptLine;
+    } catch {
+      // Malformed lines still count towards the position
+    }
+
+    const emit = position.count >= startAt;
+    position.count++;
+    if (!line) return;
+    if (line.uuid) position.lastUUID = line.uuid;
+
+    const out: WatchEvent[] = [];
+    const timestamp = parseTimestamp(line.timestamp);
+
+    if (line.type === MessageType.User) {
+      const prompt = extractUserContent(line.message);
+      if (prompt) {
+        out.push({ type: WatchEventType.Prompt, id: line.uuid, prompt, timestamp });
+      }
+
+      const content = (line.message as UserMessage | undefined)?.content;
+      if (Array.isArray(content)) {
+        for (const block of content as ContentBlock[]) {
+          if (block.type !== ContentType.ToolResult || !block.tool_use_id) continue;
+          out.push({
+            type: WatchEventType.ToolResult,
+            toolUseId: block.tool_use_id,
+            toolName: toolNames.get(block.tool_use_id),
+            output: toolResultText(block.content),
+            isError: block.is_error === true,
+            timestamp,
+          });
+        }
+      }
+    } else if (line.type === MessageType.Assistant) {
+      const msg = line.message as (AssistantMessage & Partial<{ id: string; usage: MessageUsage }>) | undefined;
+
+      for (const block of Array.isArray(msg?.content) ? msg!.content : []) {
+        if (block.type !== ContentType.ToolUse || !block.id) continue;
+        const toolName = block.name ?? "unknown";
+        toolNames.set(block.id, toolName);
+        out.push({
+          type: WatchEventType.ToolCall,
+          toolUseId: block.id,
+          toolName,
+          input: block.input,
+          timestamp,
+        });
+
+        const path = modifiedFile(block);
+        if (path) {
+          out.push({ type: WatchEventType.FileModified, path, toolUseId: block.id, timestamp });
+        }
+      }
+
+      if (msg?.id && msg.usage) {
+        const previous = usageByMessageId.get(msg.id);
+        if (!previous || msg.usage.output_tokens > previous.output_tokens) {
+          usageByMessageId.set(msg.id, msg.usage);
+          const delta = usageDelta(msg.usage, previous);
+          addUsage(total, delta);
+          out.push({ type: WatchEventType.TokenUsage, delta, total: { ...total }, timestamp });
+        }
+      }
+    }
+
+    if (emit) events.push(...out);
+  };
+
+  return {
+    get position() {
+      return { ...position };
+    },
+    get usage() {
+      return { ...total };
+    },
+    push(chunk) {
+      const events: WatchEvent[] = [];
+      for (const line of splitter.push(chunk)) processLine(line, events);
+      return events;
+    },
+    flush() {
+      const events: WatchEvent[] = [];
+
+      // A final line without its newline is complete once it parses
+      const rest = splitter.rest();
+      if (rest.trim()) {
+        try {
+          JSON.parse(rest);
+          processLine(splitter.end(), events);
+        } catch {
+          // Partial line; wait for the rest
+        }
+      }
+
+      return events;
+    },
+  };
+}
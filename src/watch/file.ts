@@ -0,0 +1,152 @@
+// ============================================================================
+// Transcript file follower.
+//
+// Polls a transcript file and feeds changes to the matching tail: appended
+// bytes for Claude Code JSONL, the whole file for Gemini CLI JSON.
+// ============================================================================
+
+import { closeSync, openSync, readFileSync, readSync, statSync, unwatchFile, watchFile } from "node:fs";
+import type { TranscriptPosition } from "../types.js";
+import { isGeminiTranscript } from "../parsers/gemini/parse.js";
+import { createClaudeTail } from "./claude.js";
+import { createGeminiTail } from "./gemini.js";
+import type {
+  ClaudeTranscriptTail,
+  GeminiTranscriptTail,
+  TranscriptTail,
+  WatchEvent,
+} from "./types.js";
+
+/** Options for watchTranscript. */
+export interface WatchTranscriptOptions {
+  /** Called for each event, in transcript order */
+  onEvent(event: WatchEvent): void;
+  /** Called when the file can't be read (default: ignored, retried on the next poll) */
+  onError?(error: Error): void;
+  /** Transcript format (detected from the first content when omitted) */
+  agent?: "claude-code" | "gemini";
+  /** Skip content already in the file when watching starts (default false) */
+  fromEnd?: boolean;
+  /** Polling interval in milliseconds (default 500) */
+  interval?: number;
+}
+
+/** A running transcript watcher. */
+export interface TranscriptWatcher {
+  /** Position after the content processed so far */
+  readonly position: TranscriptPosition;
+  /** Stops watching. */
+  close(): void;
+}
+
+function fileSize(path: string): number {
+  try {
+    return statSync(path).size;
+  } catch {
+    return 0;
+  }
+}
+
+function readFrom(path: string, offset: number, length: number): Uint8Array {
+  const buffer = new Uint8Array(length);
+  const fd = openSync(path, "r");
+  try {
+    const read = readSync(fd, buffer, 0, length, offset);
+    return buffer.subarray(0, read);
+  } finally {
+    closeSync(fd);
+  }
+}
+
+/**
+ * Follow a Claude Code or Gemini CLI transcript while its session runs.
+ *
+ * Content already in the file is reported first (unless `fromEnd`), then
+ * changes as they are written. Claude transcripts are read from the last
+ * byte offset; if the file shrinks, it is read again from the start.
+ * Gemini session files are re-read whole and diffed by message index.
+ *
+ * @param path - Transcript file (may not exist yet)
+ * @param options - Event callback and watch settings
+ */
+export function watchTranscript(path: string, options: WatchTranscriptOptions): TranscriptWatcher {
+  let agent = options.agent;
+  let tail: TranscriptTail | undefined;
+  let offset = 0;
+  let decoder = new TextDecoder();
+  let closed = false;
+  let settleTimer: ReturnType<typeof setTimeout> | undefined;
+  const interval = options.interval ?? 500;
+
+  const emit = (events: WatchEvent[]): void => {
+    for (const event of events) options.onEvent(event);
+  };
+
+  const check = (): void => {
+    if (closed) return;
+    try {
+      if (agent === undefined) {
+        const content = fileSize(path) > 0 ? readFileSync(path, "utf-8") : "";
+        if (!content.trim()) return;
+        agent = isGeminiTranscript(content) ? "gemini" : "claude-code";
+      }
+
+      if (agent === "gemini") {
+        if (fileSize(path) === 0) return;
+        const content = readFileSync(path, "utf-8");
+        if (!tail) {
+          const seed = createGeminiTail();
+          seed.update(content);
+          tail = createGeminiTail({ startAt: options.fromEnd ? seed.position.count : 0 });
+        }
+        emit((tail as GeminiTranscriptTail).update(content));
+        return;
+      }
+
+      const size = fileSize(path);
+      if (!tail || size < offset) {
+        // First read, or the file was truncated: start over
+        let startAt = 0;
+        if (!tail && options.fromEnd && size > 0) {
+          const seed = createClaudeTail();
+          seed.push(new TextDecoder().decode(readFrom(path, 0, size)));
+          seed.flush();
+          startAt = seed.position.count;
+        }
+        tail = createClaudeTail({ startAt });
+        decoder = new TextDecoder();
+        offset = 0;
+      }
+      if (size === offset) {
+        // Unchanged since the last check: a final line without its newline is done
+        emit((tail as ClaudeTranscriptTail).flush());
+        return;
+      }
+
+      const bytes = readFrom(path, offset, size - offset);
+      offset += bytes.length;
+      emit((tail as ClaudeTranscriptTail).push(decoder.decode(bytes, { stream: true })));
+
+      // watchFile only reports changes, so check again once the file has had
+      // time to settle
+      clearTimeout(settleTimer);
+      settleTimer = setTimeout(check, interval);
+    } catch (err) {
+      options.onError?.(err as Error);
+    }
+  };
+
+  check();
+  watchFile(path, { interval, persistent: true }, check);
+
+  return {
+    get position() {
+      return tail?.position ?? { lastUUID: "", count: 0 };
+    },
+    close() {
+      closed = true;
+      clearTimeout(settleTimer);
+      unwatchFile(path, check);
+    },
+  };
+}
@@ -0,0 +1,203 @@
+// ============================================================================
+// Incremental Gemini CLI transcript tail.
+//
+// Gemini CLI rewrites its session file as a whole, and updates the last
+// message in place as tool calls finish and token counts arrive. The tail
+// remembers what it has reported for each message index and emits only the
+// difference.
+// ============================================================================
+
+import { emptyTokenUsage, type TokenUsage } from "../types.js";
+import { parseTranscript } from "../parsers/gemini/parse.js";
+import {
+  type GeminiMessage,
+  type GeminiToolCall,
+  FileModificationTools,
+  MessageType,
+  ToolCallStatus,
+} from "../parsers/gemini/types.js";
+import {
+  WatchEventType,
+  type GeminiTranscriptTail,
+  type TailOptions,
+  type WatchEvent,
+} from "./types.js";
+
+/** What has been reported for one message index. */
+interface SeenMessage {
+  id?: string;
+  toolCalls: Set<string>;
+  toolResults: Set<string>;
+  tokens?: GeminiMessage["tokens"];
+}
+
+const FINAL_STATUSES: string[] = [ToolCallStatus.Success, ToolCallStatus.Error, ToolCallStatus.Cancelled];
+
+// ── Helpers ──────────────────────────────────────────────────────
+
+function parseTimestamp(value: string | undefined): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+function toolResultOutput(toolCall: GeminiToolCall): unknown {
+  if (Array.isArray(toolCall.result)) {
+    const outputs: unknown[] = [];
+    for (const part of toolCall.result) {
+      const response = part.functionResponse?.response;
+      if (!response) continue;
+      const output = response.output ?? response.error;
+      if (output !== undefined) outputs.push(output);
+    }
+    if (outputs.length === 1) return outputs[0];
+    if (outputs.length > 1) return outputs;
+  }
+
+  if (typeof toolCall.resultDisplay === "string") return toolCall.resultDisplay;
+  return undefined;
+}
+
+function modifiedFile(toolCall: GeminiToolCall): string | undefined {
+  if (!FileModificationTools.includes(toolCall.name as (typeof FileModificationTools)[number])) {
+    return undefined;
+  }
+  const args = toolCall.args ?? {};
+  return (args.file_path as string) || (args.path as string) || (args.filename as string) || undefined;
+}
+
+function tokenDelta(
+  tokens: NonNullable<GeminiMessage["tokens"]>,
+  previous: GeminiMessage["tokens"],
+): TokenUsage {
+  const delta = emptyTokenUsage();
+  delta.inputTokens = (tokens.input ?? 0) - (previous?.input ?? 0);
+  delta.outputTokens = (tokens.output ?? 0) - (previous?.output ?? 0);
+  delta.cacheReadTokens = (tokens.cached ?? 0) - (previous?.cached ?? 0);
+  delta.apiCallCount = previous ? 0 : 1;
+  return delta;
+}
+
+function sameTokens(a: GeminiMessage["tokens"], b: GeminiMessage["tokens"]): boolean {
+  return a?.input === b?.input && a?.output === b?.output && a?.cached === b?.cached;
+}
+
+// ── Tail ─────────────────────────────────────────────────────────
+
+/**
+ * Create a tail that follows a Gemini CLI session file.
+ *
+ * Feed it the whole file each time it changes with `update`. New messages
+ * yield all their events; messages already seen yield only tool calls,
+ * tool results and token counts that weren't there before. A message whose
+ * ID changed at the same index is treated as new.
+ *
+ * @param options - Messages to skip on the first update (e.g. a saved position's count)
+ */
+export function createGeminiTail(options: TailOptions = {}): GeminiTranscriptTail {
+  const seen: SeenMessage[] = [];
+  const total = emptyTokenUsage();
+  let startAt = options.startAt ?? 0;
+  let lastUUID = "";
+
+  const diffMessage = (msg: GeminiMessage, index: number): WatchEvent[] => {
+    const events: WatchEvent[] = [];
+    const timestamp = parseTimestamp(msg.timestamp);
+
+    let state = seen[index];
+    const isNew = !state || (msg.id !== undefined && state.id !== msg.id);
+    if (isNew) {
+      state = { id: msg.id, toolCalls: new Set(), toolResults: new Set() };
+      seen[index] = state;
+    }
+
+    if (msg.type === MessageType.User) {
+      if (isNew && msg.content) {
+        events.push({
+          type: WatchEventType.Prompt,
+          id: msg.id ?? `message_${index}`,
+          prompt: msg.content,
+          timestamp,
+        });
+      }
+      return events;
+    }
+
+    if (msg.type !== MessageType.Gemini) return events;
+
+    (msg.toolCalls ?? []).forEach((toolCall, i) => {
+      const id = toolCall.id || `message_${index}_${i}`;
+      const callTime = parseTimestamp(toolCall.timestamp) ?? timestamp;
+
+      if (!state.toolCalls.has(id)) {
+        state.toolCalls.add(id);
+        events.push({
+          type: WatchEventType.ToolCall,
+          toolUseId: id,
+          toolName: toolCall.name,
+          input: toolCall.args,
+          timestamp: callTime,
+        });
+
+        const path = modifiedFile(toolCall);
+        if (path) {
+          events.push({ type: WatchEventType.FileModified, path, toolUseId: id, timestamp: callTime });
+        }
+      }
+
+      if (toolCall.status && FINAL_STATUSES.includes(toolCall.status) && !state.toolResults.has(id)) {
+        state.toolResults.add(id);
+        events.push({
+          type: WatchEventType.ToolResult,
+          toolUseId: id,
+          toolName: toolCall.name,
+          output: toolResultOutput(toolCall),
+          isError: toolCall.status !== ToolCallStatus.Success,
+          timestamp: callTime,
+        });
+      }
+    });
+
+    if (msg.tokens && !sameTokens(msg.tokens, state.tokens)) {
+      const delta = tokenDelta(msg.tokens, state.tokens);
+      state.tokens = { ...msg.tokens };
+      total.inputTokens += delta.inputTokens;
+      total.outputTokens += delta.outputTokens;
+      total.cacheReadTokens += delta.cacheReadTokens;
+      total.apiCallCount += delta.apiCallCount;
+      events.push({ type: WatchEventType.TokenUsage, delta, total: { ...total }, timestamp });
+    }
+
+    return events;
+  };
+
+  return {
+    get position() {
+      return { lastUUID, count: seen.length };
+    },
+    get usage() {
+      return { ...total };
+    },
+    update(content) {
+      let messages: GeminiMessage[];
+      try {
+        messages = parseTranscript(content).messages;
+      } catch {
+        return [];
+      }
+
+      const events: WatchEvent[] = [];
+      messages.forEach((msg, index) => {
+        const out = diffMessage(msg, index);
+        if (index >= startAt) events.push(...out);
+      });
+
+      // The file was replaced by a shorter one; forget the dropped messages
+      seen.length = messages.length;
+      lastUUID = messages.length > 0 ? messages[messages.length - 1].id || "" : "";
+      startAt = 0;
+
+      return events;
+    },
+  };
+}
@@ -0,0 +1,19 @@
+export type {
+  PromptEvent,
+  ToolCallEvent,
+  ToolResultEvent,
+  FileModifiedEvent,
+  TokenUsageEvent,
+  WatchEvent,
+  TailOptions,
+  TranscriptTail,
+  ClaudeTranscriptTail,
+  GeminiTranscriptTail,
+} from "./types.js";
+export { WatchEventType } from "./types.js";
+
+export { createClaudeTail } from "./claude.js";
+export { createGeminiTail } from "./gemini.js";
+
+export type { WatchTranscriptOptions, TranscriptWatcher } from "./file.js";
+export { watchTranscript } from "./file.js";
@@ -0,0 +1,112 @@
+// ============================================================================
+// Live transcript watch types.
+// Events emitted while following a transcript that is still being written.
+// ============================================================================
+
+import type { TokenUsage, TranscriptPosition } from "../types.js";
+
+/** Watch event type constants. */
+export const WatchEventType = {
+  Prompt: "prompt",
+  ToolCall: "tool_call",
+  ToolResult: "tool_result",
+  FileModified: "file_modified",
+  TokenUsage: "token_usage",
+} as const;
+
+/** A user prompt was submitted. */
+export interface PromptEvent {
+  type: typeof WatchEventType.Prompt;
+  /** Line UUID (Claude) or message ID (Gemini) */
+  id: string;
+  prompt: string;
+  timestamp?: Date;
+}
+
+/** The agent called a tool. */
+export interface ToolCallEvent {
+  type: typeof WatchEventType.ToolCall;
+  toolUseId: string;
+  toolName: string;
+  input: unknown;
+  timestamp?: Date;
+}
+
+/** A tool call finished. */
+export interface ToolResultEvent {
+  type: typeof WatchEventType.ToolResult;
+  toolUseId: string;
+  /** Tool name, when the call was seen */
+  toolName?: string;
+  output: unknown;
+  isError: boolean;
+  timestamp?: Date;
+}
+
+/** A tool call modified a file. */
+export interface FileModifiedEvent {
+  type: typeof WatchEventType.FileModified;
+  path: string;
+  toolUseId: string;
+  timestamp?: Date;
+}
+
+/** Token usage grew. */
+export interface TokenUsageEvent {
+  type: typeof WatchEventType.TokenUsage;
+  /** Usage added since the previous token_usage event */
+  delta: TokenUsage;
+  /** Usage of everything processed so far */
+  total: TokenUsage;
+  timestamp?: Date;
+}
+
+/** An event emitted while following a transcript. */
+export type WatchEvent =
+  | PromptEvent
+  | ToolCallEvent
+  | ToolResultEvent
+  | FileModifiedEvent
+  | TokenUsageEvent;
+
+/** Options for the transcript tails. */
+export interface TailOptions {
+  /**
+   * Lines (Claude) or messages (Gemini) already handled, e.g. a saved
+   * `TranscriptPosition.count`. They are read to seed token deduplication
+   * but produce no events.
+   */
+  startAt?: number;
+}
+
+/** Incremental parser state shared by the transcript tails. */
+export interface TranscriptTail {
+  /** Position after the content processed so far */
+  readonly position: TranscriptPosition;
+  /** Token usage of everything processed so far */
+  readonly usage: TokenUsage;
+}
+
+/** Follows a Claude Code JSONL transcript as lines are appended. */
+export interface ClaudeTranscriptTail extends TranscriptTail {
+  /**
+   * Feeds newly appended content. Complete lines are parsed; a trailing
+   * partial line is kept until the rest of it arrives.
+   */
+  push(chunk: string): WatchEvent[];
+  /**
+   * Signals that the file stopped growing: a trailing line without its
+   * newline is processed if it parses, otherwise kept for more content.
+   */
+  flush(): WatchEvent[];
+}
+
+/** Follows a Gemini CLI session file, which is rewritten as a whole. */
+export interface GeminiTranscriptTail extends TranscriptTail {
+  /**
+   * Feeds the current file content. Messages are diffed against the
+   * previous content by index. Content that doesn't parse (a write in
+   * progress) is ignored.
+   */
+  update(content: string): WatchEvent[];
+}
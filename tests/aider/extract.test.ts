@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import {
+  extractModifiedFiles,
+  extractLastUserPrompt,
+  extractAllUserPrompts,
+  extractAssistantResponses,
+  extractAllPromptResponses,
+  calculateTokenUsage,
+} from "../../src/parsers/aider/extract.js";
+import type { AiderTranscript } from "../../src/parsers/aider/types.js";
+
+const transcript: AiderTranscript = {
+  messages: [
+    { type: "tool", content: "Added a.py to the chat." },
+    { type: "user", content: "fix a.py" },
+    {
+      type: "assistant",
+      content: "Fixed.",
+      editBlocks: [{ file: "a.py", search: "x", replace: "y" }],
+    },
+    {
+      type: "tool",
+      content:
+        "Tokens: 4.3k sent, 1.9k cache write, 2.1k cache hit, 136 received. Cost: $0.02 message, $0.02 session.\nApplied edit to a.py",
+    },
+    { type: "user", content: "/add b.py" },
+    { type: "tool", content: "Added b.py to the chat." },
+    { type: "user", content: "/ask what changed?" },
+    { type: "assistant", content: "Only a.py." },
+    { type: "tool", content: "Tokens: 1,200 sent, 50 received." },
+    { type: "user", content: "rewrite b.py" },
+    { type: "assistant", content: "Here is the new file." },
+    { type: "tool", content: "Applied edit to b.py" },
+  ],
+};
+
+describe("extractModifiedFiles", () => {
+  it("collects files from edit blocks and applied edits", () => {
+    expect(extractModifiedFiles(transcript)).toEqual(["a.py", "b.py"]);
+  });
+
+  it("handles empty transcript", () => {
+    expect(extractModifiedFiles({ messages: [] })).toEqual([]);
+  });
+});
+
+describe("extractAllUserPrompts", () => {
+  it("skips slash commands but keeps /ask arguments", () => {
+    expect(extractAllUserPrompts(transcript)).toEqual([
+      "fix a.py",
+      "what changed?",
+      "rewrite b.py",
+    ]);
+  });
+});
+
+describe("extractLastUserPrompt", () => {
+  it("returns the most recent prompt", () => {
+    expect(extractLastUserPrompt(transcript)).toBe("rewrite b.py");
+  });
+
+  it("returns empty for no prompts", () => {
+    expect(extractLastUserPrompt({ messages: [{ type: "user", content: "/help" }] })).toBe("");
+  });
+});
+
+describe("extractAssistantResponses", () => {
+  it("returns assistant messages in order", () => {
+    expect(extractAssistantResponses(transcript)).toEqual([
+      "Fixed.",
+      "Only a.py.",
+      "Here is the new file.",
+    ]);
+  });
+});
+
+describe("extractAllPromptResponses", () => {
+  it("pairs prompts with their responses and files", () => {
+    const pairs = extractAllPromptResponses(transcript);
+    expect(pairs).toHaveLength(3);
+    expect(pairs[0]).toEqual({ prompt: "fix a.py", responses: ["Fixed."], files: ["a.py"] });
+    expect(pairs[1].files).toEqual([]);
+    expect(pairs[2].files).toEqual(["b.py"]);
+  });
+});
+
+describe("calculateTokenUsage", () => {
+  it("sums token report lines and splits out cache tokens", () => {
+    const usage = calculateTokenUsage(transcript);
+    expect(usage.apiCallCount).toBe(2);
+    expect(usage.inputTokens).toBe(300 + 1200);
+    expect(usage.cacheCreationTokens).toBe(1900);
+    expect(usage.cacheReadTokens).toBe(2100);
+    expect(usage.outputTokens).toBe(186);
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseTranscript,
+  parseEditBlocks,
+} from "../../src/parsers/aider/parse.js";
+
+const HISTORY = `
+# aider chat started at 2024-05-01 10:00:00
+
+> /usr/local/bin/aider --model sonnet  
+> Aider v0.50.0  
+> Added src/app.py to the chat.  
+
+#### rename foo to bar
+#### and keep the docstring
+
+I'll rename the function.
+
+src/app.py
+\`\`\`python
+<<<<<<< SEARCH
+def foo():
+    """Does things."""
+=======
+def bar():
+    """Does things."""
+>>>>>>> REPLACE
+\`\`\`
+
+> Tokens: 2.1k sent, 120 received. Cost: $0.01 message, $0.01 session.  
+> Applied edit to src/app.py  
+
+# aider chat started at 2024-05-02 09:00:00
+
+#### /ask what does bar do?
+
+It does things.
+`;
+
+describe("parseTranscript", () => {
+  it("splits user, assistant and tool messages", () => {
+    const transcript = parseTranscript(HISTORY);
+    expect(transcript.messages.map((m) => m.type)).toEqual([
+      "tool",
+      "user",
+      "assistant",
+      "tool",
+      "user",
+      "assistant",
+    ]);
+  });
+
+  it("joins consecutive #### lines into one prompt", () => {
+    const transcript = parseTranscript(HISTORY);
+    expect(transcript.messages[1].content).toBe("rename foo to bar\nand keep the docstring");
+  });
+
+  it("strips the > prefix and trailing spaces from tool output", () => {
+    const transcript = parseTranscript(HISTORY);
+    expect(transcript.messages[0].content).toBe(
+      "/usr/local/bin/aider --model sonnet\nAider v0.50.0\nAdded src/app.py to the chat."
+    );
+  });
+
+  it("records the chat start time from session headers", () => {
+    const transcript = parseTranscript(HISTORY);
+    expect(transcript.messages[1].sessionStartedAt).toBe("2024-05-01 10:00:00");
+    expect(transcript.messages[4].sessionStartedAt).toBe("2024-05-02 09:00:00");
+  });
+
+  it("attaches edit blocks to assistant messages", () => {
+    const transcript = parseTranscript(HISTORY);
+    expect(transcript.messages[2].editBlocks).toHaveLength(1);
+    expect(transcript.messages[2].editBlocks![0].file).toBe("src/app.py");
+    expect(transcript.messages[5].editBlocks).toBeUndefined();
+  });
+
+  it("treats fenced lines as assistant text", () => {
+    const transcript = parseTranscript("#### show a quote\n\n```md\n> quoted\n#### heading\n```\n");
+    expect(transcript.messages).toHaveLength(2);
+    expect(transcript.messages[1].type).toBe("assistant");
+    expect(transcript.messages[1].content).toContain("> quoted");
+  });
+
+  it("handles empty content", () => {
+    expect(parseTranscript("").messages).toEqual([]);
+  });
+});
+
+describe("parseEditBlocks", () => {
+  it("extracts file, search and replace text", () => {
+    const blocks = parseEditBlocks(
+      "a.py\n```\n<<<<<<< SEARCH\nold\n=======\nnew\n>>>>>>> REPLACE\n```"
+    );
+    expect(blocks).toEqual([{ file: "a.py", search: "old", replace: "new" }]);
+  });
+
+  it("reuses the previous file for consecutive blocks", () => {
+    const blocks = parseEditBlocks(
+      [
+        "**a.py**",
+        "```python",
+        "<<<<<<< SEARCH",
+        "one",
+        "=======",
+        "1",
+        ">>>>>>> REPLACE",
+        "",
+        "<<<<<<< SEARCH",
+        "two",
+        "=======",
+        "2",
+        ">>>>>>> REPLACE",
+        "```",
+      ].join("\n")
+    );
+    expect(blocks.map((b) => b.file)).toEqual(["a.py", "a.py"]);
+    expect(blocks[1].replace).toBe("2");
+  });
+
+  it("skips unterminated blocks", () => {
+    expect(parseEditBlocks("a.py\n<<<<<<< SEARCH\nold\n=======\nnew")).toEqual([]);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect } from "vitest";
+import { analyzeClaudeCache, analyzeGeminiCache } from "../../src/analysis/cache.js";
+import { DEFAULT_PRICING } from "../../src/cost/pricing.js";
+import { M, claudeCall, geminiReply, userLine } from "../fixtures.js";
+
+// ── analyzeClaudeCache ───────────────────────────────────────────
+
+describe("analyzeClaudeCache", () => {
+  const lines = [
+    userLine("u1", "hi"),
+    claudeCall("a1", { id: "m1", timestamp: "2025-11-24T10:00:00Z", input: 10, cacheWrite: 1_000 }),
+    claudeCall("a2", { id: "m2", timestamp: "2025-11-24T10:01:00Z", input: 10, cacheWrite: 500, cacheRead: 1_000 }),
+    userLine("u2", "back from lunch"),
+    claudeCall("a3", { id: "m3", timestamp: "2025-11-24T10:20:00Z", input: 10, cacheWrite: 1_500 }),
+  ];
+
+  it("computes the hit ratio and unread cache writes", () => {
+    const report = analyzeClaudeCache(lines);
+
+    expect(report).toMatchObject({
+      promptTokens: 4_030,
+      inputTokens: 30,
+      cacheWriteTokens: 3_000,
+      cacheReadTokens: 1_000,
+      unreadWriteTokens: 2_000,
+    });
+    expect(report.hitRatio).toBeCloseTo(1_000 / 4_030);
+    expect(report.calls.map((c) => [c.messageId, c.unreadWriteTokens])).toEqual([
+      ["m1", 0],
+      ["m2", 500],
+      ["m3", 1_500],
+    ]);
+  });
+
+  it("reports cache misses after idle gaps", () => {
+    expect(analyzeClaudeCache(lines).idleMisses).toEqual([
+      {
+        messageId: "m3",
+        timestamp: new Date("2025-11-24T10:20:00Z"),
+        model: "claude-sonnet-4-5",
+        turnIndex: 1,
+        idleMs: 19 * 60 * 1000,
+        missedTokens: 1_500,
+      },
+    ]);
+    expect(analyzeClaudeCache(lines, { idleThresholdMs: 30 * 60 * 1000 }).idleMisses).toEqual([]);
+  });
+
+  it("compares prompt cost against an uncached baseline", () => {
+    const report = analyzeClaudeCache(lines);
+
+    expect(report.pricingVersion).toBe(DEFAULT_PRICING.version);
+    expect(report.baselineCost).toBeCloseTo((4_030 * 3) / M);
+    expect(report.actualCost).toBeCloseTo((30 * 3 + 3_000 * 3.75 + 1_000 * 0.3) / M);
+    expect(report.savings).toBeCloseTo(report.baselineCost - report.actualCost);
+    expect(report.unreadWriteCost).toBeCloseTo((2_000 * 0.75) / M);
+  });
+
+  it("tracks the cache of each model separately", () => {
+    const report = analyzeClaudeCache([
+      userLine("u1", "hi"),
+      claudeCall("a1", { id: "m1", timestamp: "2025-11-24T10:00:00Z", cacheWrite: 1_000 }),
+      claudeCall("a2", { id: "m2", model: "claude-haiku-4-5", timestamp: "2025-11-24T10:10:00Z" }),
+      claudeCall("a3", { id: "m3", timestamp: "2025-11-24T10:11:00Z", cacheRead: 1_000 }),
+    ]);
+
+    expect(report.unreadWriteTokens).toBe(0);
+    expect(report.idleMisses).toEqual([]);
+  });
+
+  it("lists unpriced models and leaves them out of the costs", () => {
+    const report = analyzeClaudeCache([
+      userLine("u1", "hi"),
+      claudeCall("a1", { id: "m1", model: "local-model", input: M }),
+    ]);
+
+    expect(report.unpricedModels).toEqual(["local-model"]);
+    expect(report.baselineCost).toBe(0);
+    expect(report.promptTokens).toBe(M);
+  });
+
+  it("returns an empty report without API calls", () => {
+    const report = analyzeClaudeCache([userLine("u1", "hi")]);
+
+    expect(report.calls).toEqual([]);
+    expect(report.hitRatio).toBe(0);
+    expect(report.savings).toBe(0);
+  });
+});
+
+// ── analyzeGeminiCache ───────────────────────────────────────────
+
+describe("analyzeGeminiCache", () => {
+  it("treats cached tokens as reads within the input count", () => {
+    const report = analyzeGeminiCache({
+      messages: [
+        { type: "user", content: "hi" },
+        geminiReply({ model: "gemini-2.5-pro", timestamp: "2025-11-24T10:00:00Z", input: M }),
+        geminiReply({ model: "gemini-2.5-pro", timestamp: "2025-11-24T10:01:00Z", input: 2 * M, cacheRead: M }),
+        { type: "user", content: "again" },
+        geminiReply({ model: "gemini-2.5-pro", timestamp: "2025-11-24T11:00:00Z", input: 2 * M }),
+      ],
+    });
+
+    expect(report).toMatchObject({
+      promptTokens: 5 * M,
+      inputTokens: 4 * M,
+      cacheWriteTokens: 0,
+      cacheReadTokens: M,
+      unreadWriteTokens: 0,
+      hitRatio: 0.2,
+    });
+    expect(report.savings).toBeCloseTo(1.25 - 0.125);
+    expect(report.unreadWriteCost).toBe(0);
+    expect(report.idleMisses.map((m) => [m.turnIndex, m.missedTokens])).toEqual([[1, M]]);
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect } from "vitest";
+import { analyzeClaudeContext, analyzeGeminiContext } from "../../src/analysis/context.js";
+import type { TranscriptLine } from "../../src/parsers/claude/types.js";
+import { claudeCall, geminiReply, userLine } from "../fixtures.js";
+
+// ── Fixtures ──────────────────────────────────────────────────────
+
+function compactBoundary(uuid: string, trigger: string, preTokens?: number): TranscriptLine {
+  return {
+    type: "system",
+    uuid,
+    timestamp: "2025-11-24T10:05:00Z",
+    subtype: "compact_boundary",
+    compactMetadata: { trigger, preTokens },
+  } as TranscriptLine;
+}
+
+// ── analyzeClaudeContext ─────────────────────────────────────────
+
+describe("analyzeClaudeContext", () => {
+  it("sums input, cache creation and cache read tokens per call", () => {
+    const analysis = analyzeClaudeContext([
+      userLine("u1", "hi"),
+      claudeCall("a1", { id: "m1", input: 10, cacheWrite: 20_000 }),
+      claudeCall("a2", { id: "m1", input: 10, cacheWrite: 20_000 }),
+      claudeCall("a3", { id: "m2", input: 5, cacheWrite: 1_000, cacheRead: 20_000 }),
+    ]);
+
+    expect(analysis.samples.map((s) => s.contextTokens)).toEqual([20_010, 21_005]);
+    expect(analysis.samples[1]).toMatchObject({
+      messageId: "m2",
+      model: "claude-sonnet-4-5",
+      turnIndex: 0,
+      contextWindow: 200_000,
+    });
+    expect(analysis.samples[1].utilization).toBeCloseTo(21_005 / 200_000);
+    expect(analysis.peak?.messageId).toBe("m2");
+  });
+
+  it("annotates compaction boundaries", () => {
+    const analysis = analyzeClaudeContext([
+      userLine("u1", "refactor"),
+      claudeCall("a1", { id: "m1", cacheRead: 170_000 }),
+      compactBoundary("s1", "auto", 171_000),
+      userLine("u2", "This session is being continued from a previous conversation"),
+      claudeCall("a2", { id: "m2", cacheWrite: 15_000 }),
+      userLine("u3", "tidy up"),
+      compactBoundary("s2", "manual"),
+      claudeCall("a3", { id: "m3", cacheRead: 16_000 }),
+    ]);
+
+    expect(analysis.compactions).toEqual([
+      {
+        sampleIndex: 1,
+        turnIndex: 0,
+        timestamp: new Date("2025-11-24T10:05:00Z"),
+        trigger: "auto",
+        preTokens: 171_000,
+        inferred: false,
+      },
+      {
+        sampleIndex: 2,
+        turnIndex: 2,
+        timestamp: new Date("2025-11-24T10:05:00Z"),
+        trigger: "manual",
+        preTokens: 15_000,
+        inferred: false,
+      },
+    ]);
+    expect(analysis.turns.map((t) => [t.compacted, t.nearCompaction])).toEqual([
+      [true, true],
+      [false, false],
+      [true, false],
+    ]);
+  });
+
+  it("flags turns reaching the threshold of their model's window", () => {
+    const lines = [
+      userLine("u1", "small"),
+      claudeCall("a1", { id: "m1", cacheRead: 100_000 }),
+      userLine("u2", "large"),
+      claudeCall("a2", { id: "m2", cacheRead: 170_000 }),
+      userLine("u3", "no calls"),
+    ];
+
+    const analysis = analyzeClaudeContext(lines);
+    expect(analysis.turns.map((t) => [t.prompt, t.peakTokens])).toEqual([
+      ["small", 100_000],
+      ["large", 170_000],
+      ["no calls", 0],
+    ]);
+    expect(analysis.nearCompactionTurns).toEqual([1]);
+
+    expect(analyzeClaudeContext(lines, { nearCompactionThreshold: 0.5 }).nearCompactionTurns).toEqual([0, 1]);
+    expect(
+      analyzeClaudeContext(lines, { contextWindows: { "claude-sonnet-4-5": 1_000_000 } }).nearCompactionTurns
+    ).toEqual([]);
+  });
+
+  it("uses the default window for unknown models", () => {
+    const analysis = analyzeClaudeContext(
+      [userLine("u1", "hi"), claudeCall("a1", { id: "m1", model: "local-model", input: 50_000 })],
+      { defaultContextWindow: 100_000 }
+    );
+
+    expect(analysis.samples[0]).toMatchObject({ contextWindow: 100_000, utilization: 0.5 });
+  });
+
+  it("returns an empty analysis without API calls", () => {
+    const analysis = analyzeClaudeContext([userLine("u1", "hi")]);
+
+    expect(analysis.samples).toEqual([]);
+    expect(analysis.peak).toBeUndefined();
+    expect(analysis.turns).toHaveLength(1);
+    expect(analysis.nearCompactionTurns).toEqual([]);
+  });
+});
+
+// ── analyzeGeminiContext ─────────────────────────────────────────
+
+describe("analyzeGeminiContext", () => {
+  it("uses input tokens, cached included, against a 1M window", () => {
+    const analysis = analyzeGeminiContext({
+      messages: [
+        { type: "user", content: "hi" },
+        geminiReply({ model: "gemini-2.5-pro", input: 524_288, cacheRead: 500_000 }),
+      ],
+    });
+
+    expect(analysis.samples[0]).toMatchObject({ contextTokens: 524_288, contextWindow: 1_048_576, utilization: 0.5 });
+  });
+
+  it("infers compactions from a drop in context size", () => {
+    const analysis = analyzeGeminiContext({
+      messages: [
+        { type: "user", content: "one" },
+        geminiReply({ model: "gemini-2.5-pro", input: 800_000 }),
+        geminiReply({ model: "gemini-2.5-pro", input: 900_000 }),
+        { type: "user", content: "two" },
+        geminiReply({ model: "gemini-2.5-pro", input: 200_000 }),
+        geminiReply({ model: "gemini-2.5-pro", input: 150_000 }),
+        geminiReply({ model: "gemini-2.5-flash", input: 10_000 }),
+      ],
+    });
+
+    expect(analysis.compactions).toEqual([
+      { sampleIndex: 2, turnIndex: 1, timestamp: undefined, preTokens: 900_000, inferred: true },
+    ]);
+    expect(analysis.turns.map((t) => [t.compacted, t.nearCompaction])).toEqual([
+      [false, true],
+      [true, true],
+    ]);
+    expect(analysis.nearCompactionTurns).toEqual([0, 1]);
+  });
+});
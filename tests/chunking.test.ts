@@ -4,6 +4,7 @@ import {
   chunkJSONL,
   reassembleJSONL,
   chunkGeminiJSON,
+  chunkGeminiJSONStream,
   reassembleGeminiJSON,
   chunkFileName,
   parseChunkIndex,
@@ -18,6 +19,19 @@ describe("detectAgentTypeFromContent", () => {
     expect(detectAgentTypeFromContent(content)).toBe("Gemini CLI");
   });
 
+  it("detects Codex rollout format", () => {
+    const content = [
+      `{"timestamp":"2025-09-01T10:00:00.000Z","type":"session_meta","payload":{"id":"s1"}}`,
+      `{"timestamp":"2025-09-01T10:00:01.000Z","type":"event_msg","payload":{"type":"user_message","message":"hi"}}`,
+    ].join("\n");
+    expect(detectAgentTypeFromContent(content)).toBe("Codex CLI");
+  });
+
+  it("detects Aider chat history format", () => {
+    const content = "\n# aider chat started at 2024-05-01 10:00:00\n\n#### hello\n";
+    expect(detectAgentTypeFromContent(content)).toBe("Aider");
+  });
+
   it("returns undefined for JSONL format", () => {
     const content = `{"type":"user","uuid":"u1","message":{"content":"hello"}}`;
     expect(detectAgentTypeFromContent(content)).toBeUndefined();
@@ -98,6 +112,39 @@ describe("chunkGeminiJSON", () => {
   });
 });
 
+describe("chunkGeminiJSONStream", () => {
+  async function collect(source: AsyncIterable<string>): Promise<string[]> {
+    const items: string[] = [];
+    for await (const item of source) items.push(item);
+    return items;
+  }
+
+  async function* pieces(text: string, size: number): AsyncGenerator<string> {
+    for (let i = 0; i < text.length; i += size) yield text.slice(i, i + size);
+  }
+
+  const messages = Array.from({ length: 10 }, (_, i) => ({
+    id: `m${i}`,
+    type: "user",
+    content: `"quoted" {${i}} ` + "x".repeat(100),
+  }));
+  const content = JSON.stringify({ sessionId: "s1", messages }, null, 2);
+
+  it("produces the same chunks as chunkGeminiJSON", async () => {
+    const chunks = await collect(chunkGeminiJSONStream(pieces(content, 37), 300));
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks).toEqual(chunkGeminiJSON(content, 300));
+  });
+
+  it("returns the content unchanged when it fits", async () => {
+    expect(await collect(chunkGeminiJSONStream(pieces(content, 37), 100000))).toEqual([content]);
+  });
+
+  it("throws on truncated input", async () => {
+    await expect(collect(chunkGeminiJSONStream(pieces(content.slice(0, -50), 37), 300))).rejects.toThrow();
+  });
+});
+
 describe("reassembleGeminiJSON", () => {
   it("merges message arrays", () => {
     const chunk1 = JSON.stringify({
@@ -9,10 +9,17 @@ import {
   filterAfterUUID,
   findCheckpointUUID,
   calculateTokenUsage,
+  calculateTokenUsageStream,
+  extractModifiedFilesStream,
   extractSpawnedAgentIds,
   calculateTotalTokenUsage,
+  calculateTokenUsageByModel,
+  calculateTotalTokenUsageByModel,
+  extractTokenTimeline,
+  extractTurnTokenUsage,
   extractAllModifiedFiles,
 } from "../../src/parsers/claude/extract.js";
+import { parseStream } from "../../src/parsers/claude/parse.js";
 import type { TranscriptLine } from "../../src/parsers/claude/types.js";
 
 // Helper to build transcript lines
@@ -283,6 +290,36 @@ describe("calculateTokenUsage", () => {
   });
 });
 
+describe("streaming extractors", () => {
+  const lines: TranscriptLine[] = [
+    userLine("u1", "edit"),
+    assistantLine("a1", [
+      { type: "tool_use", name: "Write", input: { file_path: "/a.ts" } },
+      { type: "tool_use", name: "Edit", input: { file_path: "/b.ts" } },
+    ]),
+    assistantLine("a2", [{ type: "tool_use", name: "Write", input: { file_path: "/a.ts" } }]),
+    assistantWithUsage("a3", "msg1", { input_tokens: 100, output_tokens: 10, cache_creation_input_tokens: 5, cache_read_input_tokens: 1 }),
+    assistantWithUsage("a4", "msg1", { input_tokens: 100, output_tokens: 40, cache_creation_input_tokens: 5, cache_read_input_tokens: 1 }),
+    assistantWithUsage("a5", "msg2", { input_tokens: 7, output_tokens: 3, cache_creation_input_tokens: 0, cache_read_input_tokens: 0 }),
+  ];
+
+  function stream(): AsyncIterable<TranscriptLine> {
+    const jsonl = lines.map((l) => JSON.stringify(l)).join("\n");
+    return parseStream((async function* () {
+      for (let i = 0; i < jsonl.length; i += 16) yield jsonl.slice(i, i + 16);
+    })());
+  }
+
+  it("calculateTokenUsageStream matches calculateTokenUsage", async () => {
+    expect(await calculateTokenUsageStream(stream())).toEqual(calculateTokenUsage(lines));
+  });
+
+  it("extractModifiedFilesStream matches extractModifiedFiles", async () => {
+    expect(await extractModifiedFilesStream(stream())).toEqual(["/a.ts", "/b.ts"]);
+    expect(await extractModifiedFilesStream(stream())).toEqual(extractModifiedFiles(lines));
+  });
+});
+
 describe("extractSpawnedAgentIds", () => {
   it("extracts agent IDs from tool results", () => {
     const lines: TranscriptLine[] = [
@@ -403,3 +440,135 @@ describe("extractAllModifiedFiles", () => {
     expect(files).toContain("/sub.ts");
   });
 });
+
+describe("calculateTokenUsageByModel", () => {
+  function modelCall(uuid: string, id: string, model: string | undefined, input: number, output: number): TranscriptLine {
+    return {
+      type: "assistant",
+      uuid,
+      message: {
+        id,
+        model,
+        content: [],
+        usage: { input_tokens: input, output_tokens: output, cache_creation_input_tokens: 1, cache_read_input_tokens: 2 },
+      },
+    };
+  }
+
+  it("groups usage by message.model, deduplicating streaming rows", () => {
+    const usage = calculateTokenUsageByModel([
+      userLine("u1", "hi"),
+      modelCall("a1", "m1", "claude-sonnet-4-5", 100, 1),
+      modelCall("a2", "m1", "claude-sonnet-4-5", 100, 50),
+      modelCall("a3", "m2", "claude-haiku-4-5", 10, 5),
+      modelCall("a4", "m3", undefined, 1, 1),
+    ]);
+
+    expect(Object.keys(usage)).toEqual(["claude-sonnet-4-5", "claude-haiku-4-5", "unknown"]);
+    expect(usage["claude-sonnet-4-5"]).toEqual({
+      inputTokens: 100,
+      cacheCreationTokens: 1,
+      cacheReadTokens: 2,
+      outputTokens: 50,
+      apiCallCount: 1,
+    });
+    expect(usage["claude-haiku-4-5"].apiCallCount).toBe(1);
+  });
+
+  it("returns an empty record without API calls", () => {
+    expect(calculateTokenUsageByModel([userLine("u1", "hi")])).toEqual({});
+  });
+
+  it("includes the subagent tree per model", () => {
+    const spawn = (uuid: string, toolUseId: string, agentId: string): TranscriptLine => ({
+      type: "user",
+      uuid,
+      message: { content: [{ type: "tool_result", tool_use_id: toolUseId, content: `agentId: ${agentId}` }] },
+    });
+    const transcripts: Record<string, string> = {
+      sub1: [modelCall("s1", "sm1", "claude-haiku-4-5", 10, 5), spawn("s2", "tu_2", "sub2")]
+        .map((l) => JSON.stringify(l))
+        .join("\n"),
+      sub2: [modelCall("n1", "nm1", "claude-haiku-4-5", 20, 5), modelCall("n2", "nm2", "claude-opus-4-5", 30, 5)]
+        .map((l) => JSON.stringify(l))
+        .join("\n"),
+    };
+
+    const usage = calculateTotalTokenUsageByModel(
+      [modelCall("a1", "m1", "claude-sonnet-4-5", 100, 50), spawn("u1", "tu_1", "sub1")],
+      (agentId) => transcripts[agentId] ?? null
+    );
+
+    expect(usage["claude-sonnet-4-5"].inputTokens).toBe(100);
+    expect(usage["claude-sonnet-4-5"].subagentTokens).toBeUndefined();
+    expect(usage["claude-haiku-4-5"].inputTokens).toBe(0);
+    expect(usage["claude-haiku-4-5"].subagentTokens).toMatchObject({ inputTokens: 30, apiCallCount: 2 });
+    expect(usage["claude-opus-4-5"].subagentTokens).toMatchObject({ inputTokens: 30, apiCallCount: 1 });
+  });
+});
+
+describe("extractTokenTimeline", () => {
+  function row(uuid: string, id: string, output: number, timestamp: string, model = "claude-sonnet-4-5"): TranscriptLine {
+    return {
+      type: "assistant",
+      uuid,
+      timestamp,
+      message: {
+        id,
+        model,
+        content: [],
+        usage: { input_tokens: 10, output_tokens: output, cache_creation_input_tokens: 3, cache_read_input_tokens: 7 },
+      },
+    };
+  }
+
+  const lines: TranscriptLine[] = [
+    row("a0", "m0", 1, "2026-01-01T00:00:00Z"),
+    userLine("u1", "first"),
+    row("a1", "m1", 5, "2026-01-01T00:00:01Z"),
+    row("a2", "m1", 40, "2026-01-01T00:00:02Z"),
+    { type: "user", uuid: "r1", message: { content: [{ type: "tool_result", tool_use_id: "t1", content: "ok" }] } },
+    row("a3", "m2", 20, "2026-01-01T00:00:03Z", "claude-haiku-4-5"),
+    userLine("u2", "second"),
+    row("a4", "m3", 8, "2026-01-01T00:00:04Z"),
+  ];
+
+  it("returns one record per message.id with the final usage", () => {
+    const calls = extractTokenTimeline(lines);
+    expect(calls.map((c) => [c.messageId, c.model, c.turnIndex, c.usage.outputTokens])).toEqual([
+      ["m0", "claude-sonnet-4-5", -1, 1],
+      ["m1", "claude-sonnet-4-5", 0, 40],
+      ["m2", "claude-haiku-4-5", 0, 20],
+      ["m3", "claude-sonnet-4-5", 1, 8],
+    ]);
+    expect(calls[1].timestamp).toEqual(new Date("2026-01-01T00:00:01Z"));
+    expect(calls[1].usage).toEqual({
+      inputTokens: 10,
+      cacheCreationTokens: 3,
+      cacheReadTokens: 7,
+      outputTokens: 40,
+      apiCallCount: 1,
+    });
+  });
+
+  it("sums to calculateTokenUsage", () => {
+    const calls = extractTokenTimeline(lines);
+    const total = calculateTokenUsage(lines);
+    expect(calls.length).toBe(total.apiCallCount);
+    expect(calls.reduce((sum, c) => sum + c.usage.outputTokens, 0)).toBe(total.outputTokens);
+  });
+
+  it("rolls calls up per turn, aligned with extractAllPromptResponses", () => {
+    const turns = extractTurnTokenUsage(lines);
+    expect(turns.map((t) => t.prompt)).toEqual(extractAllPromptResponses(lines).map((p) => p.prompt));
+    expect(turns[0].calls.map((c) => c.messageId)).toEqual(["m1", "m2"]);
+    expect(turns[0].usage).toEqual({
+      inputTokens: 20,
+      cacheCreationTokens: 6,
+      cacheReadTokens: 14,
+      outputTokens: 60,
+      apiCallCount: 2,
+    });
+    expect(turns[1].usage.apiCallCount).toBe(1);
+  });
+});
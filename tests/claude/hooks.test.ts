@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import { parseHookEvent } from "../../src/parsers/claude/hooks.js";
+import { EventType } from "../../src/types.js";
+
+// ── Fixtures ──────────────────────────────────────────────────────
+
+const now = new Date("2026-01-01T00:00:00Z");
+const session = { session_id: "s1", transcript_path: "/tmp/s1.jsonl", cwd: "/repo" };
+
+function payload(fields: Record<string, unknown>): string {
+  return JSON.stringify({ ...session, ...fields });
+}
+
+// ── parseHookEvent ──────────────────────────────────────────────
+
+describe("parseHookEvent", () => {
+  it("maps SessionStart", () => {
+    const event = parseHookEvent("SessionStart", payload({ source: "startup" }), now);
+    expect(event).toEqual({
+      type: EventType.SessionStart,
+      sessionId: "s1",
+      sessionRef: "/tmp/s1.jsonl",
+      timestamp: now,
+      metadata: { cwd: "/repo", source: "startup" },
+    });
+  });
+
+  it("maps UserPromptSubmit to TurnStart with the prompt", () => {
+    const event = parseHookEvent("UserPromptSubmit", payload({ prompt: "fix the bug" }), now);
+    expect(event.type).toBe(EventType.TurnStart);
+    expect(event.prompt).toBe("fix the bug");
+  });
+
+  it("maps PreToolUse to SubagentStart", () => {
+    const input = { description: "search", prompt: "find usages" };
+    const event = parseHookEvent("PreToolUse", payload({ tool_use_id: "toolu_1", tool_input: input }), now);
+    expect(event.type).toBe(EventType.SubagentStart);
+    expect(event.toolUseId).toBe("toolu_1");
+    expect(event.toolInput).toEqual(input);
+    expect(event.subagentId).toBeUndefined();
+  });
+
+  it("maps PostToolUse to SubagentEnd with the agent ID", () => {
+    const event = parseHookEvent(
+      "PostToolUse",
+      payload({ tool_use_id: "toolu_1", tool_input: {}, tool_response: { agentId: "agent-abc" } }),
+      now
+    );
+    expect(event.type).toBe(EventType.SubagentEnd);
+    expect(event.toolUseId).toBe("toolu_1");
+    expect(event.subagentId).toBe("agent-abc");
+  });
+
+  it("maps PostToolUse without an agent ID", () => {
+    const event = parseHookEvent("PostToolUse", payload({ tool_use_id: "toolu_1", tool_response: {} }), now);
+    expect(event.subagentId).toBeUndefined();
+  });
+
+  it("maps Stop, PreCompact and SessionEnd", () => {
+    expect(parseHookEvent("Stop", payload({}), now).type).toBe(EventType.TurnEnd);
+    expect(parseHookEvent("PreCompact", payload({ trigger: "auto" }), now)).toMatchObject({
+      type: EventType.Compaction,
+      metadata: { trigger: "auto" },
+    });
+    expect(parseHookEvent("SessionEnd", payload({ reason: "logout" }), now)).toMatchObject({
+      type: EventType.SessionEnd,
+      metadata: { reason: "logout" },
+    });
+  });
+
+  it("defaults the timestamp to now", () => {
+    const before = Date.now();
+    const event = parseHookEvent("Stop", payload({}));
+    expect(event.timestamp.getTime()).toBeGreaterThanOrEqual(before);
+  });
+
+  it("rejects unknown hook names", () => {
+    expect(() => parseHookEvent("BeforeAgent", payload({}))).toThrow(/Unknown Claude Code hook "BeforeAgent"/);
+  });
+
+  it("rejects malformed payloads", () => {
+    expect(() => parseHookEvent("Stop", "{not json")).toThrow("Invalid Claude Code Stop hook input: not valid JSON");
+    expect(() => parseHookEvent("Stop", "[]")).toThrow("expected a JSON object");
+    expect(() => parseHookEvent("Stop", JSON.stringify({ transcript_path: "/t" }))).toThrow(
+      '"session_id" must be a non-empty string'
+    );
+    expect(() => parseHookEvent("Stop", JSON.stringify({ session_id: "s1" }))).toThrow('"transcript_path"');
+  });
+
+  it("rejects hook-specific fields of the wrong type", () => {
+    expect(() => parseHookEvent("UserPromptSubmit", payload({}))).toThrow('"prompt" must be a string');
+    expect(() => parseHookEvent("PreToolUse", payload({}))).toThrow('"tool_use_id"');
+    expect(() => parseHookEvent("PostToolUse", payload({ tool_use_id: "t", tool_response: "done" }))).toThrow(
+      '"tool_response" must be an object'
+    );
+    expect(() =>
+      parseHookEvent("PostToolUse", payload({ tool_use_id: "t", tool_response: { agentId: 42 } }))
+    ).toThrow('"tool_response.agentId" must be a string');
+  });
+});
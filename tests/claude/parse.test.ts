@@ -1,6 +1,8 @@
 import { describe, it, expect } from "vitest";
+import { Readable } from "node:stream";
 import {
   parseFromString,
+  parseStream,
   parseFromStringAtLine,
   sliceFromLine,
   extractUserContent,
@@ -43,6 +45,67 @@ not valid json
   });
 });
 
+describe("parseStream", () => {
+  const content = `{"type":"user","uuid":"u1","message":{"content":"héllo ✓"}}
+not valid json
+
+{"type":"assistant","uuid":"a1","message":{"content":[{"type":"text","text":"hi"}]}}`;
+
+  async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+    const items: T[] = [];
+    for await (const item of iterable) items.push(item);
+    return items;
+  }
+
+  async function* chunks(text: string, size: number): AsyncGenerator<Uint8Array> {
+    const bytes = new TextEncoder().encode(text);
+    for (let i = 0; i < bytes.length; i += size) yield bytes.subarray(i, i + size);
+  }
+
+  it("yields the same lines as parseFromString", async () => {
+    expect(await collect(parseStream(chunks(content, 7)))).toEqual(parseFromString(content));
+  });
+
+  it("decodes multi-byte characters split across chunks", async () => {
+    const [line] = await collect(parseStream(chunks(content, 1)));
+    expect((line.message as { content: string }).content).toBe("héllo ✓");
+  });
+
+  it("reads Node Readable streams", async () => {
+    const lines = await collect(parseStream(Readable.from([Buffer.from(content)])));
+    expect(lines.map((l) => l.uuid)).toEqual(["u1", "a1"]);
+  });
+
+  it("reads WHATWG ReadableStreams", async () => {
+    const stream = new ReadableStream<string>({
+      start(controller) {
+        controller.enqueue(content.slice(0, 30));
+        controller.enqueue(content.slice(30));
+        controller.close();
+      },
+    });
+    const lines = await collect(parseStream(stream));
+    expect(lines.map((l) => l.uuid)).toEqual(["u1", "a1"]);
+  });
+
+  it("yields nothing for empty input", async () => {
+    expect(await collect(parseStream(chunks("", 4)))).toEqual([]);
+  });
+
+  it("reassembles a long line split into many chunks", async () => {
+    const output = "x".repeat(1024 * 1024);
+    const line = JSON.stringify({ type: "user", uuid: "u1", toolUseResult: output });
+    const source = (async function* () {
+      for (let i = 0; i < line.length; i += 256) yield line.slice(i, i + 256);
+      yield "\n";
+    })();
+
+    const lines = await collect(parseStream(source));
+    expect(lines).toHaveLength(1);
+    expect((lines[0] as { toolUseResult?: string }).toolUseResult).toBe(output);
+  });
+});
+
 describe("parseFromStringAtLine", () => {
   const content = `{"type":"user","uuid":"u1","message":{"content":"Line1"}}
 {"type":"assistant","uuid":"a1","message":{"content":[{"type":"text","text":"Line2"}]}}
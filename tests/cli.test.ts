@@ -0,0 +1,292 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, mkdirSync, readFileSync, readdirSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { runCLI } from "../src/cli.js";
+
+// ── Helpers ──────────────────────────────────────────────────────
+
+function usage(input: number, output: number) {
+  return { input_tokens: input, output_tokens: output, cache_creation_input_tokens: 0, cache_read_input_tokens: 0 };
+}
+
+const CLAUDE = [
+  { type: "user", uuid: "u1", message: { content: "write foo" } },
+  {
+    type: "assistant",
+    uuid: "a1",
+    message: {
+      id: "msg_1",
+      content: [
+        { type: "text", text: "Writing." },
+        { type: "tool_use", id: "tu_1", name: "Write", input: { file_path: "/repo/foo.ts" } },
+        { type: "tool_use", id: "tu_2", name: "Task", input: { prompt: "check" } },
+      ],
+      usage: usage(10, 5),
+    },
+  },
+  {
+    type: "user",
+    uuid: "u2",
+    message: {
+      content: [
+        { type: "tool_result", tool_use_id: "tu_1", content: "ok" },
+        { type: "tool_result", tool_use_id: "tu_2", content: "Checked.\nagentId: sub1" },
+      ],
+    },
+  },
+  { type: "user", uuid: "u3", message: { content: "thanks\nbye" } },
+]
+  .map((l) => JSON.stringify(l))
+  .join("\n");
+
+const SUBAGENT = JSON.stringify({
+  type: "assistant",
+  uuid: "s1",
+  message: { id: "msg_s", content: [{ type: "text", text: "done" }], usage: usage(3, 2) },
+});
+
+const GEMINI = JSON.stringify({
+  messages: [
+    { id: "1", type: "user", content: "hello" },
+    {
+      id: "2",
+      type: "gemini",
+      content: "Hi!",
+      toolCalls: [{ id: "w", name: "write_file", args: { file_path: "/g.py" } }],
+      tokens: { input: 7, output: 4, cached: 0, total: 11 },
+    },
+  ],
+});
+
+const ACP_LOG = [
+  { jsonrpc: "2.0", method: "session/update", params: { sessionId: "acp-1", update: { sessionUpdate: "user_message_chunk", content: { type: "text", text: "edit a.ts" } } } },
+  { jsonrpc: "2.0", method: "session/update", params: { sessionId: "acp-1", update: { sessionUpdate: "agent_message_chunk", content: { type: "text", text: "Done." } } } },
+]
+  .map((l) => JSON.stringify(l))
+  .join("\n");
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "asp-cli-"));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function file(name: string, content: string): string {
+  const path = join(dir, name);
+  writeFileSync(path, content);
+  return path;
+}
+
+async function run(argv: string[], stdin = "") {
+  let stdout = "";
+  let stderr = "";
+  const code = await runCLI(argv, {
+    stdout: (text) => (stdout += text),
+    stderr: (text) => (stderr += text),
+    readStdin: async () => stdin,
+  });
+  return { code, stdout, stderr };
+}
+
+// ── Inspection commands ──────────────────────────────────────────
+
+describe("runCLI inspection commands", () => {
+  it("lists modified files", async () => {
+    const result = await run(["files", file("s.jsonl", CLAUDE)]);
+    expect(result).toEqual({ code: 0, stdout: "/repo/foo.ts\n", stderr: "" });
+  });
+
+  it("reads from stdin and detects Gemini transcripts", async () => {
+    expect((await run(["files"], GEMINI)).stdout).toBe("/g.py\n");
+    expect((await run(["files", "-", "--json"], GEMINI)).stdout).toBe('[\n  "/g.py"\n]\n');
+  });
+
+  it("numbers prompts and indents continuation lines", async () => {
+    const { stdout } = await run(["prompts"], CLAUDE);
+    expect(stdout).toBe("1. write foo\n2. thanks\n   bye\n");
+  });
+
+  it("shows token usage", async () => {
+    const { stdout } = await run(["tokens", "--json"], CLAUDE);
+    expect(JSON.parse(stdout)).toMatchObject({ inputTokens: 10, outputTokens: 5, apiCallCount: 1 });
+
+    const text = (await run(["tokens"], CLAUDE)).stdout;
+    expect(text).toContain("Input tokens           10");
+    expect(text).not.toContain("Subagents");
+  });
+
+  it("includes subagents found next to the transcript", async () => {
+    const path = file("s.jsonl", CLAUDE);
+    mkdirSync(join(dir, "s", "subagents"), { recursive: true });
+    writeFileSync(join(dir, "s", "subagents", "agent-sub1.jsonl"), SUBAGENT);
+
+    const { stdout } = await run(["tokens", path, "--include-subagents", "--json"]);
+    expect(JSON.parse(stdout).subagentTokens).toMatchObject({ inputTokens: 3, outputTokens: 2 });
+  });
+
+  it("includes subagents from --subagents-dir", async () => {
+    file("agent-sub1.jsonl", SUBAGENT);
+    const { stdout } = await run(["tokens", "--include-subagents", "--subagents-dir", dir], CLAUDE);
+    expect(stdout).toContain("Subagents\n  Input tokens           3");
+  });
+
+  it("rejects --include-subagents for other formats", async () => {
+    const result = await run(["tokens", "--include-subagents"], GEMINI);
+    expect(result.code).toBe(2);
+    expect(result.stderr).toContain("only supported for Claude Code");
+  });
+
+  it("reports token usage as unavailable for Cline", async () => {
+    const history = JSON.stringify([{ role: "user", content: "hi" }]);
+    const result = await run(["tokens", "--agent", "cline"], history);
+    expect(result.code).toBe(2);
+    expect(result.stderr).toContain("token usage is not available for Cline transcripts");
+  });
+
+  it("shows prompt/response pairs", async () => {
+    const { stdout } = await run(["pairs"], GEMINI);
+    expect(stdout).toBe("## Prompt 1\n\nhello\n\nHi!\n\nFiles modified:\n- /g.py\n");
+  });
+
+  it("honors --agent", async () => {
+    const result = await run(["files", "--agent", "Gemini CLI"], GEMINI);
+    expect(result.stdout).toBe("/g.py\n");
+
+    const unknown = await run(["files", "--agent", "vim"], GEMINI);
+    expect(unknown.code).toBe(2);
+    expect(unknown.stderr).toContain('unknown agent "vim"');
+  });
+});
+
+// ── Chunking ─────────────────────────────────────────────────────
+
+describe("runCLI chunk / reassemble", () => {
+  it("round-trips a transcript through chunk files", async () => {
+    const path = file("s.jsonl", CLAUDE);
+    const outDir = join(dir, "chunks");
+
+    const chunked = await run(["chunk", path, "--out-dir", outDir, "--max-size", "400", "--json"]);
+    const paths = JSON.parse(chunked.stdout) as string[];
+    expect(paths.length).toBeGreaterThan(1);
+    expect(readdirSync(outDir)).toContain("s.jsonl.001");
+
+    const output = join(dir, "out.jsonl");
+    const reassembled = await run(["reassemble", ...[...paths].reverse(), "-o", output]);
+    expect(reassembled.code).toBe(0);
+    expect(readFileSync(output, "utf-8")).toBe(CLAUDE);
+  });
+
+  it("refuses to chunk into the transcript's own directory", async () => {
+    const result = await run(["chunk", file("s.jsonl", CLAUDE), "--out-dir", dir]);
+    expect(result.code).toBe(2);
+  });
+
+  it("validates chunk arguments", async () => {
+    expect((await run(["chunk"], CLAUDE)).stderr).toContain("needs --out-dir");
+    expect((await run(["chunk", "--out-dir", dir, "--max-size", "lots"], CLAUDE)).code).toBe(2);
+    expect((await run(["reassemble", "a.jsonl", "b.jsonl"])).stderr).toContain("not a chunk of");
+  });
+});
+
+// ── Conversion ───────────────────────────────────────────────────
+
+describe("runCLI convert", () => {
+  it("converts ACP session/update notifications to a session", async () => {
+    const { code, stdout } = await run(["convert"], ACP_LOG);
+    const session = JSON.parse(stdout);
+
+    expect(code).toBe(0);
+    expect(session.sessionId).toBe("acp-1");
+    expect(session.entries.map((e: { content: string }) => e.content)).toEqual(["edit a.ts", "Done."]);
+  });
+
+  it("converts to other formats", async () => {
+    const events = file("run.jsonl", ACP_LOG);
+
+    const claude = await run(["convert", events, "--to", "claude"]);
+    expect(claude.stdout.trim().split("\n")).toHaveLength(2);
+
+    const markdown = await run(["convert", events, "--to", "markdown", "--session-id", "x"]);
+    expect(markdown.stdout).toContain("# Session x");
+
+    expect((await run(["convert", events, "--to", "pdf"])).code).toBe(2);
+  });
+
+  it("reports malformed event logs", async () => {
+    const result = await run(["convert"], "{}\nnot json");
+    expect(result.code).toBe(1);
+    expect(result.stderr).toContain("line 2");
+  });
+});
+
+// ── Watching ─────────────────────────────────────────────────────
+
+describe("runCLI watch", () => {
+  it("prints events until stopped", async () => {
+    const path = file("s.jsonl", CLAUDE + "\n");
+    const controller = new AbortController();
+    let stdout = "";
+
+    const running = runCLI(["watch", path], {
+      stdout: (text) => (stdout += text),
+      stderr: () => {},
+      readStdin: async () => "",
+      signal: controller.signal,
+    });
+
+    expect(stdout).toContain("prompt       write foo\n");
+    expect(stdout).toContain("tool call    Write /repo/foo.ts\n");
+    expect(stdout).toContain("modified     /repo/foo.ts\n");
+    expect(stdout).toContain("tool result  Write ok\n");
+    expect(stdout).toContain("tokens       +10 in, +5 out (total 10 in, 5 out)\n");
+
+    controller.abort();
+    expect(await running).toBe(0);
+  });
+
+  it("prints JSON lines with --json", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const result = await runCLI(["watch", file("s.jsonl", CLAUDE), "--json"], {
+      stdout: (text) => {
+        expect(JSON.parse(text).type).toBeDefined();
+      },
+      stderr: () => {},
+      readStdin: async () => "",
+      signal: controller.signal,
+    });
+    expect(result).toBe(0);
+  });
+
+  it("needs a file", async () => {
+    expect((await run(["watch"])).code).toBe(2);
+    expect((await run(["watch", file("s.jsonl", CLAUDE), "--agent", "codex"])).code).toBe(2);
+  });
+});
+
+// ── Usage ────────────────────────────────────────────────────────
+
+describe("runCLI usage", () => {
+  it("prints help", async () => {
+    const result = await run(["--help"]);
+    expect(result.code).toBe(0);
+    expect(result.stdout).toContain("Usage: agent-session-parser <command>");
+  });
+
+  it("fails on missing or unknown commands and options", async () => {
+    expect((await run([])).code).toBe(2);
+    expect((await run(["frobnicate"])).stderr).toContain('unknown command "frobnicate"');
+    expect((await run(["files", "--bogus"])).code).toBe(2);
+  });
+
+  it("reports unreadable files", async () => {
+    const result = await run(["files", join(dir, "missing.jsonl")]);
+    expect(result.code).toBe(1);
+    expect(result.stderr).toContain("missing.jsonl");
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect } from "vitest";
+import {
+  correlateApiRequests,
+  extractToolCalls,
+  extractModifiedFiles,
+  extractLastUserPrompt,
+  extractAllUserPrompts,
+  extractAssistantResponses,
+  extractAllPromptResponses,
+  calculateTokenUsage,
+  calculateTotalCost,
+} from "../../src/parsers/cline/extract.js";
+import type { ClineTask } from "../../src/parsers/cline/types.js";
+
+// A task mixing XML-style calls (Cline) and native tool_use blocks (Roo Code)
+const task: ClineTask = {
+  apiMessages: [
+    {
+      role: "user",
+      content: [
+        { type: "text", text: "<task>\ncreate a.ts\n</task>" },
+        { type: "text", text: "<environment_details>\n...\n</environment_details>" },
+      ],
+    },
+    {
+      role: "assistant",
+      content: [
+        {
+          type: "text",
+          text: "Creating it.\n<write_to_file>\n<path>a.ts</path>\n<content>x</content>\n</write_to_file>",
+        },
+      ],
+    },
+    {
+      role: "user",
+      content: [
+        { type: "text", text: "[write_to_file for 'a.ts'] Result:" },
+        { type: "text", text: "The content was successfully saved to a.ts." },
+      ],
+    },
+    {
+      role: "assistant",
+      content: [
+        { type: "text", text: "Running tests." },
+        { type: "tool_use", id: "tu_1", name: "execute_command", input: { command: "npm test" } },
+      ],
+    },
+    {
+      role: "user",
+      content: [
+        {
+          type: "tool_result",
+          tool_use_id: "tu_1",
+          content: [{ type: "text", text: "1 passed" }],
+        },
+      ],
+    },
+    {
+      role: "user",
+      content: [{ type: "text", text: "<feedback>\nnow edit b.ts\n</feedback>" }],
+    },
+    {
+      role: "assistant",
+      content: [
+        { type: "tool_use", id: "tu_2", name: "replace_in_file", input: { path: "b.ts", diff: "..." } },
+      ],
+    },
+  ],
+  uiMessages: [
+    { ts: 1000, type: "say", say: "task", text: "create a.ts" },
+    { ts: 1100, type: "say", say: "api_req_started", text: JSON.stringify({ tokensIn: 10, tokensOut: 5, cacheWrites: 100, cacheReads: 0, cost: 0.01 }) },
+    { ts: 1200, type: "ask", ask: "tool", text: JSON.stringify({ tool: "newFileCreated", path: "a.ts" }) },
+    { ts: 1300, type: "say", say: "api_req_started", text: JSON.stringify({ tokensIn: 20, tokensOut: 8, cacheWrites: 0, cacheReads: 100, cost: 0.002 }) },
+    { ts: 1400, type: "say", say: "user_feedback", text: "now edit b.ts" },
+    { ts: 1500, type: "say", say: "api_req_started", text: JSON.stringify({ tokensIn: 5, tokensOut: 3 }) },
+    { ts: 1600, type: "say", say: "tool", text: JSON.stringify({ tool: "editedExistingFile", path: "c.ts" }) },
+  ],
+};
+
+describe("correlateApiRequests", () => {
+  it("matches requests to assistant messages in order", () => {
+    const requests = correlateApiRequests(task);
+    expect(requests.map((r) => r.messageIndex)).toEqual([1, 3, 6]);
+    expect(requests[0].timestamp).toBe(1100);
+    expect(requests[2].cacheWrites).toBe(0);
+  });
+
+  it("marks requests without an assistant message", () => {
+    const requests = correlateApiRequests({
+      apiMessages: [],
+      uiMessages: [{ ts: 1, type: "say", say: "api_req_started", text: "{}" }],
+    });
+    expect(requests[0].messageIndex).toBe(-1);
+  });
+});
+
+describe("extractToolCalls", () => {
+  it("extracts XML and native tool calls with results and timestamps", () => {
+    const calls = extractToolCalls(task);
+    expect(calls.map((c) => c.name)).toEqual(["write_to_file", "execute_command", "replace_in_file"]);
+
+    expect(calls[0].input).toEqual({ path: "a.ts", content: "x" });
+    expect(calls[0].result).toBe("The content was successfully saved to a.ts.");
+    expect(calls[0].timestamp).toBe(1100);
+
+    expect(calls[1].id).toBe("tu_1");
+    expect(calls[1].result).toBe("1 passed");
+    expect(calls[1].timestamp).toBe(1300);
+
+    expect(calls[2].result).toBeUndefined();
+  });
+});
+
+describe("extractModifiedFiles", () => {
+  it("collects files from tool calls and UI edit notices", () => {
+    expect(extractModifiedFiles(task)).toEqual(["a.ts", "b.ts", "c.ts"]);
+  });
+});
+
+describe("prompts", () => {
+  it("extracts the task and feedback as prompts", () => {
+    expect(extractAllUserPrompts(task)).toEqual(["create a.ts", "now edit b.ts"]);
+    expect(extractLastUserPrompt(task)).toBe("now edit b.ts");
+  });
+});
+
+describe("extractAssistantResponses", () => {
+  it("returns assistant text without tool markup", () => {
+    expect(extractAssistantResponses(task)).toEqual(["Creating it.", "Running tests."]);
+  });
+});
+
+describe("extractAllPromptResponses", () => {
+  it("pairs prompts with responses and files", () => {
+    expect(extractAllPromptResponses(task)).toEqual([
+      { prompt: "create a.ts", responses: ["Creating it.", "Running tests."], files: ["a.ts"] },
+      { prompt: "now edit b.ts", responses: [], files: ["b.ts"] },
+    ]);
+  });
+});
+
+describe("calculateTokenUsage", () => {
+  it("sums api_req_started usage", () => {
+    const usage = calculateTokenUsage(task);
+    expect(usage.apiCallCount).toBe(3);
+    expect(usage.inputTokens).toBe(35);
+    expect(usage.outputTokens).toBe(16);
+    expect(usage.cacheCreationTokens).toBe(100);
+    expect(usage.cacheReadTokens).toBe(100);
+  });
+
+  it("sums reported cost", () => {
+    expect(calculateTotalCost(task)).toBeCloseTo(0.012);
+  });
+});
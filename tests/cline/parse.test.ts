@@ -0,0 +1,127 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseTask,
+  parseUIMessages,
+  parseXmlToolCalls,
+  parseToolResultHeader,
+  splitXmlToolResults,
+  extractUserContent,
+  extractAssistantText,
+} from "../../src/parsers/cline/parse.js";
+
+describe("parseTask", () => {
+  it("parses both history files", () => {
+    const task = parseTask(
+      JSON.stringify([{ role: "user", content: [{ type: "text", text: "<task>hi</task>" }] }]),
+      JSON.stringify([{ ts: 1, type: "say", say: "task", text: "hi" }])
+    );
+    expect(task.apiMessages).toHaveLength(1);
+    expect(task.uiMessages).toHaveLength(1);
+  });
+
+  it("allows ui_messages.json to be omitted", () => {
+    const task = parseTask("[]");
+    expect(task.uiMessages).toEqual([]);
+  });
+});
+
+describe("parseUIMessages", () => {
+  it("drops partial messages", () => {
+    const messages = parseUIMessages(
+      JSON.stringify([
+        { ts: 1, type: "say", say: "text", text: "hel", partial: true },
+        { ts: 2, type: "say", say: "text", text: "hello", partial: false },
+      ])
+    );
+    expect(messages).toHaveLength(1);
+    expect(messages[0].text).toBe("hello");
+  });
+});
+
+describe("parseXmlToolCalls", () => {
+  it("parses tool name and parameters", () => {
+    const calls = parseXmlToolCalls(
+      "I'll create it.\n<write_to_file>\n<path>src/a.ts</path>\n<content>\nexport {};\n</content>\n</write_to_file>"
+    );
+    expect(calls).toEqual([
+      { name: "write_to_file", input: { path: "src/a.ts", content: "export {};" } },
+    ]);
+  });
+
+  it("ignores unknown tags", () => {
+    expect(parseXmlToolCalls("<thinking>hmm</thinking>")).toEqual([]);
+  });
+});
+
+describe("parseToolResultHeader", () => {
+  it("returns the tool name", () => {
+    expect(parseToolResultHeader("[write_to_file for 'a.ts'] Result:")).toBe("write_to_file");
+    expect(parseToolResultHeader("[execute_command for 'ls'] Result:\nok")).toBe("execute_command");
+    expect(parseToolResultHeader("plain text")).toBeNull();
+  });
+});
+
+describe("splitXmlToolResults", () => {
+  it("groups header and content blocks", () => {
+    const results = splitXmlToolResults({
+      role: "user",
+      content: [
+        { type: "text", text: "[read_file for 'a.ts'] Result:" },
+        { type: "text", text: "file body" },
+        { type: "text", text: "<environment_details>\n...\n</environment_details>" },
+      ],
+    });
+    expect(results).toEqual([{ name: "read_file", text: "file body" }]);
+  });
+});
+
+describe("extractUserContent", () => {
+  it("unwraps the task and drops environment details", () => {
+    const content = extractUserContent({
+      role: "user",
+      content: [
+        { type: "text", text: "<task>\nfix the bug\n</task>" },
+        { type: "text", text: "<environment_details>\ncwd\n</environment_details>" },
+      ],
+    });
+    expect(content).toBe("fix the bug");
+  });
+
+  it("returns feedback embedded in tool results", () => {
+    const content = extractUserContent({
+      role: "user",
+      content: [
+        { type: "text", text: "[write_to_file for 'a.ts'] Result:" },
+        { type: "text", text: "The user denied this operation.\n<feedback>\nuse tabs\n</feedback>" },
+      ],
+    });
+    expect(content).toBe("use tabs");
+  });
+
+  it("returns empty for plain tool results", () => {
+    const content = extractUserContent({
+      role: "user",
+      content: [{ type: "tool_result", tool_use_id: "t1", content: "ok" }],
+    });
+    expect(content).toBe("");
+  });
+
+  it("accepts plain string content", () => {
+    expect(extractUserContent({ role: "user", content: "hello" })).toBe("hello");
+  });
+});
+
+describe("extractAssistantText", () => {
+  it("removes tool calls and thinking", () => {
+    const text = extractAssistantText({
+      role: "assistant",
+      content: [
+        {
+          type: "text",
+          text: "<thinking>plan</thinking>\nCreating the file.\n<write_to_file><path>a</path></write_to_file>",
+        },
+      ],
+    });
+    expect(text).toBe("Creating the file.");
+  });
+});
@@ -0,0 +1,216 @@
+import { describe, it, expect } from "vitest";
+import {
+  extractFilesFromPatch,
+  extractModifiedFiles,
+  extractLastUserPrompt,
+  extractAllUserPrompts,
+  extractAssistantResponses,
+  extractAllPromptResponses,
+  calculateTokenUsage,
+} from "../../src/parsers/codex/extract.js";
+import type { RolloutLine } from "../../src/parsers/codex/types.js";
+
+// Helpers to build rollout lines
+function userItem(text: string): RolloutLine {
+  return {
+    type: "response_item",
+    payload: { type: "message", role: "user", content: [{ type: "input_text", text }] },
+  };
+}
+
+function userEvent(message: string): RolloutLine {
+  return { type: "event_msg", payload: { type: "user_message", message } };
+}
+
+function assistantItem(text: string): RolloutLine {
+  return {
+    type: "response_item",
+    payload: { type: "message", role: "assistant", content: [{ type: "output_text", text }] },
+  };
+}
+
+function patchCall(patch: string): RolloutLine {
+  return {
+    type: "response_item",
+    payload: { type: "custom_tool_call", name: "apply_patch", call_id: "c1", input: patch },
+  };
+}
+
+function shellCall(command: string[]): RolloutLine {
+  return {
+    type: "response_item",
+    payload: {
+      type: "function_call",
+      name: "shell",
+      call_id: "c2",
+      arguments: JSON.stringify({ command }),
+    },
+  };
+}
+
+function tokenCount(
+  total: number | undefined,
+  last: { input: number; cached: number; output: number }
+): RolloutLine {
+  return {
+    type: "event_msg",
+    payload: {
+      type: "token_count",
+      info: {
+        total_token_usage:
+          total === undefined
+            ? undefined
+            : {
+                input_tokens: 0,
+                cached_input_tokens: 0,
+                output_tokens: 0,
+                reasoning_output_tokens: 0,
+                total_tokens: total,
+              },
+        last_token_usage: {
+          input_tokens: last.input,
+          cached_input_tokens: last.cached,
+          output_tokens: last.output,
+          reasoning_output_tokens: 0,
+          total_tokens: last.input + last.output,
+        },
+      },
+    },
+  };
+}
+
+const PATCH = [
+  "*** Begin Patch",
+  "*** Add File: src/new.ts",
+  "+export {};",
+  "*** Update File: src/old.ts",
+  "*** Move to: src/renamed.ts",
+  "@@",
+  "-a",
+  "+b",
+  "*** Delete File: src/gone.ts",
+  "*** End Patch",
+].join("\n");
+
+describe("extractFilesFromPatch", () => {
+  it("extracts added, updated, moved and deleted files", () => {
+    expect(extractFilesFromPatch(PATCH)).toEqual([
+      "src/new.ts",
+      "src/old.ts",
+      "src/renamed.ts",
+      "src/gone.ts",
+    ]);
+  });
+});
+
+describe("extractModifiedFiles", () => {
+  it("extracts files from apply_patch tool calls", () => {
+    expect(extractModifiedFiles([patchCall(PATCH)])).toHaveLength(4);
+  });
+
+  it("extracts files from apply_patch invoked via shell", () => {
+    const lines = [
+      shellCall(["apply_patch", "*** Begin Patch\n*** Update File: a.ts\n*** End Patch"]),
+      shellCall(["bash", "-lc", "apply_patch <<'EOF'\n*** Begin Patch\n*** Add File: b.ts\n*** End Patch\nEOF"]),
+    ];
+    expect(extractModifiedFiles(lines)).toEqual(["a.ts", "b.ts"]);
+  });
+
+  it("ignores shell calls that don't patch files", () => {
+    expect(extractModifiedFiles([shellCall(["bash", "-lc", "ls -la"])])).toEqual([]);
+  });
+
+  it("deduplicates files", () => {
+    const patch = "*** Begin Patch\n*** Update File: a.ts\n*** End Patch";
+    expect(extractModifiedFiles([patchCall(patch), patchCall(patch)])).toEqual(["a.ts"]);
+  });
+});
+
+describe("extractAllUserPrompts", () => {
+  it("skips injected environment context", () => {
+    const lines = [
+      userItem("<environment_context>\n<cwd>/repo</cwd>\n</environment_context>"),
+      userItem("first"),
+      assistantItem("ok"),
+      userItem("second"),
+    ];
+    expect(extractAllUserPrompts(lines)).toEqual(["first", "second"]);
+  });
+
+  it("prefers user_message events when present", () => {
+    const lines = [userEvent("first"), userItem("first"), userEvent("second"), userItem("second")];
+    expect(extractAllUserPrompts(lines)).toEqual(["first", "second"]);
+  });
+});
+
+describe("extractLastUserPrompt", () => {
+  it("returns the most recent prompt", () => {
+    expect(extractLastUserPrompt([userItem("first"), assistantItem("ok"), userItem("second")])).toBe("second");
+  });
+
+  it("returns empty for no prompts", () => {
+    expect(extractLastUserPrompt([assistantItem("ok")])).toBe("");
+  });
+});
+
+describe("extractAssistantResponses", () => {
+  it("extracts assistant message text", () => {
+    expect(extractAssistantResponses([userItem("hi"), assistantItem("hello")])).toEqual(["hello"]);
+  });
+});
+
+describe("extractAllPromptResponses", () => {
+  it("pairs prompts with their responses and files", () => {
+    const lines = [
+      userItem("add a file"),
+      patchCall("*** Begin Patch\n*** Add File: a.ts\n*** End Patch"),
+      assistantItem("added"),
+      userItem("thanks"),
+      assistantItem("welcome"),
+    ];
+
+    const pairs = extractAllPromptResponses(lines);
+    expect(pairs).toEqual([
+      { prompt: "add a file", responses: ["added"], files: ["a.ts"] },
+      { prompt: "thanks", responses: ["welcome"], files: [] },
+    ]);
+  });
+});
+
+describe("calculateTokenUsage", () => {
+  it("sums per-call usage and splits out cached input", () => {
+    const usage = calculateTokenUsage([
+      tokenCount(150, { input: 100, cached: 40, output: 50 }),
+      tokenCount(400, { input: 200, cached: 150, output: 50 }),
+    ]);
+    expect(usage.apiCallCount).toBe(2);
+    expect(usage.inputTokens).toBe(110);
+    expect(usage.cacheReadTokens).toBe(190);
+    expect(usage.outputTokens).toBe(100);
+  });
+
+  it("skips re-emitted events with an unchanged total", () => {
+    const usage = calculateTokenUsage([
+      tokenCount(150, { input: 100, cached: 0, output: 50 }),
+      tokenCount(150, { input: 100, cached: 0, output: 50 }),
+    ]);
+    expect(usage.apiCallCount).toBe(1);
+    expect(usage.inputTokens).toBe(100);
+  });
+
+  it("counts events that only carry last_token_usage", () => {
+    const usage = calculateTokenUsage([
+      tokenCount(undefined, { input: 100, cached: 0, output: 50 }),
+      tokenCount(undefined, { input: 200, cached: 50, output: 50 }),
+    ]);
+    expect(usage.apiCallCount).toBe(2);
+    expect(usage.inputTokens).toBe(250);
+    expect(usage.cacheReadTokens).toBe(50);
+    expect(usage.outputTokens).toBe(100);
+  });
+
+  it("ignores token_count events without info", () => {
+    const usage = calculateTokenUsage([{ type: "event_msg", payload: { type: "token_count", info: null } }]);
+    expect(usage.apiCallCount).toBe(0);
+  });
+});
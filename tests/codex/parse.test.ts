@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseFromString,
+  parseFromStringAtLine,
+  extractSessionMeta,
+  extractMessageText,
+  isInjectedContext,
+  serializeTranscript,
+  getTranscriptPosition,
+} from "../../src/parsers/codex/parse.js";
+
+const SAMPLE = [
+  `{"timestamp":"2025-09-01T10:00:00.000Z","type":"session_meta","payload":{"id":"sess-1","cwd":"/repo","cli_version":"0.30.0"}}`,
+  `{"timestamp":"2025-09-01T10:00:01.000Z","type":"response_item","payload":{"type":"message","role":"user","content":[{"type":"input_text","text":"fix the bug"}]}}`,
+  `{"timestamp":"2025-09-01T10:00:02.000Z","type":"response_item","payload":{"type":"function_call","name":"shell","arguments":"{\\"command\\":[\\"ls\\"]}","call_id":"call_1"}}`,
+].join("\n");
+
+describe("parseFromString", () => {
+  it("parses rollout lines", () => {
+    const lines = parseFromString(SAMPLE);
+    expect(lines).toHaveLength(3);
+    expect(lines[0].type).toBe("session_meta");
+    expect(lines[2].type).toBe("response_item");
+  });
+
+  it("skips malformed and empty lines", () => {
+    const lines = parseFromString(`${SAMPLE}\n\nnot json\n`);
+    expect(lines).toHaveLength(3);
+  });
+});
+
+describe("parseFromStringAtLine", () => {
+  it("parses from the given line offset", () => {
+    const { lines, totalLines } = parseFromStringAtLine(SAMPLE, 1);
+    expect(totalLines).toBe(3);
+    expect(lines).toHaveLength(2);
+    expect(lines[0].type).toBe("response_item");
+  });
+});
+
+describe("extractSessionMeta", () => {
+  it("returns the session_meta payload", () => {
+    const meta = extractSessionMeta(parseFromString(SAMPLE));
+    expect(meta?.id).toBe("sess-1");
+    expect(meta?.cwd).toBe("/repo");
+  });
+
+  it("returns null when absent", () => {
+    expect(extractSessionMeta([])).toBeNull();
+  });
+});
+
+describe("extractMessageText", () => {
+  it("joins input and output text items", () => {
+    const text = extractMessageText({
+      type: "message",
+      role: "assistant",
+      content: [
+        { type: "output_text", text: "first" },
+        { type: "output_text", text: "second" },
+      ],
+    });
+    expect(text).toBe("first\n\nsecond");
+  });
+
+  it("strips IDE context tags", () => {
+    const text = extractMessageText({
+      type: "message",
+      role: "user",
+      content: [{ type: "input_text", text: "<ide_selection>x</ide_selection>hello" }],
+    });
+    expect(text).toBe("hello");
+  });
+});
+
+describe("isInjectedContext", () => {
+  it("detects environment context and instructions", () => {
+    expect(isInjectedContext("<environment_context>\n<cwd>/repo</cwd>")).toBe(true);
+    expect(isInjectedContext("<user_instructions>be nice</user_instructions>")).toBe(true);
+    expect(isInjectedContext("fix the bug")).toBe(false);
+  });
+});
+
+describe("serializeTranscript", () => {
+  it("round-trips through parseFromString", () => {
+    const lines = parseFromString(SAMPLE);
+    expect(parseFromString(serializeTranscript(lines))).toEqual(lines);
+  });
+});
+
+describe("getTranscriptPosition", () => {
+  it("returns the last call ID and line count", () => {
+    const pos = getTranscriptPosition(SAMPLE);
+    expect(pos.lineCount).toBe(3);
+    expect(pos.lastUUID).toBe("call_1");
+  });
+
+  it("handles empty content", () => {
+    expect(getTranscriptPosition("")).toEqual({ lastUUID: "", lineCount: 0 });
+  });
+});
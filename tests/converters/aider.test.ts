@@ -0,0 +1,106 @@
+import { describe, it, expect } from "vitest";
+import { EntryType } from "../../src/types.js";
+import {
+  convertAiderHistoryToSession,
+  convertAiderMessageToEntries,
+} from "../../src/converters/index.js";
+import { parseTranscript } from "../../src/parsers/aider/parse.js";
+
+// ── Fixtures ─────────────────────────────────────────────────────
+
+const HISTORY = `
+# aider chat started at 2024-05-01 10:00:00
+
+> Added src/app.py to the chat.
+
+#### rename foo to bar
+
+I'll rename the function.
+
+src/app.py
+\`\`\`python
+<<<<<<< SEARCH
+def foo():
+=======
+def bar():
+>>>>>>> REPLACE
+\`\`\`
+
+> Applied edit to src/app.py
+> Applied edit to README.md
+
+# aider chat started at 2024-05-02 09:00:00
+
+#### /ask what does bar do?
+
+It does things.
+`;
+
+// ── convertAiderHistoryToSession ─────────────────────────────────
+
+describe("convertAiderHistoryToSession", () => {
+  it("converts messages and edit blocks to entries", () => {
+    const session = convertAiderHistoryToSession(parseTranscript(HISTORY), {
+      sessionId: "aider-1",
+      repoPath: "/repo",
+    });
+
+    expect(session).toMatchObject({
+      sessionId: "aider-1",
+      agentName: "aider",
+      repoPath: "/repo",
+      sessionRef: "aider-1",
+      startTime: new Date("2024-05-01T10:00:00"),
+    });
+    expect(session.entries?.map((e) => [e.type, e.content.split("\n")[0]])).toEqual([
+      [EntryType.System, "Added src/app.py to the chat."],
+      [EntryType.User, "rename foo to bar"],
+      [EntryType.Assistant, "I'll rename the function."],
+      [EntryType.Tool, "Edit: src/app.py"],
+      [EntryType.System, "Applied edit to src/app.py"],
+      [EntryType.User, "/ask what does bar do?"],
+      [EntryType.Assistant, "It does things."],
+    ]);
+  });
+
+  it("records edit blocks as tool input", () => {
+    const session = convertAiderHistoryToSession(parseTranscript(HISTORY));
+    const edit = session.entries?.find((e) => e.type === EntryType.Tool);
+
+    expect(edit).toEqual({
+      uuid: "message_2_edit_0",
+      type: EntryType.Tool,
+      timestamp: new Date("2024-05-01T10:00:00"),
+      content: "Edit: src/app.py",
+      toolName: "search_replace",
+      toolInput: { file: "src/app.py", search: "def foo():", replace: "def bar():" },
+      filesAffected: ["src/app.py"],
+    });
+  });
+
+  it("lists files from edit blocks and applied edits", () => {
+    const session = convertAiderHistoryToSession(parseTranscript(HISTORY));
+    expect(session.modifiedFiles).toEqual(["src/app.py", "README.md"]);
+  });
+
+  it("keeps the raw history as nativeData", () => {
+    const session = convertAiderHistoryToSession(parseTranscript(HISTORY), { nativeData: HISTORY });
+    expect(new TextDecoder().decode(session.nativeData)).toBe(HISTORY);
+  });
+
+  it("converts an empty history", () => {
+    const session = convertAiderHistoryToSession(parseTranscript(""));
+    expect(session.entries).toEqual([]);
+    expect(session.startTime).toBeUndefined();
+    expect(session.modifiedFiles).toEqual([]);
+  });
+});
+
+// ── convertAiderMessageToEntries ─────────────────────────────────
+
+describe("convertAiderMessageToEntries", () => {
+  it("uses the message index for UUIDs", () => {
+    const entries = convertAiderMessageToEntries({ type: "user", content: "hi" }, 4);
+    expect(entries).toEqual([{ uuid: "message_4", type: EntryType.User, timestamp: undefined, content: "hi" }]);
+  });
+});
@@ -0,0 +1,332 @@
+import { describe, it, expect } from "vitest";
+import { EntryType, type SessionEntry } from "../../src/types.js";
+import {
+  convertClaudeTranscriptToSession,
+  convertClaudeLineToEntries,
+  convertSessionToClaudeTranscript,
+  convertACPEventsToSession,
+} from "../../src/converters/index.js";
+import { parseFromString, serializeTranscript } from "../../src/parsers/claude/parse.js";
+import {
+  extractAllPromptResponses,
+  extractModifiedFiles,
+  calculateTokenUsage,
+  findCheckpointUUID,
+} from "../../src/parsers/claude/extract.js";
+
+// ── Fixtures ─────────────────────────────────────────────────────
+
+const TRANSCRIPT = [
+  {
+    type: "user",
+    uuid: "u1",
+    parentUuid: null,
+    sessionId: "sess-1",
+    cwd: "/repo",
+    timestamp: "2025-01-01T10:00:00.000Z",
+    message: { role: "user", content: "<ide_selection>x</ide_selection>write foo.ts" },
+  },
+  {
+    type: "assistant",
+    uuid: "a1",
+    parentUuid: "u1",
+    sessionId: "sess-1",
+    timestamp: "2025-01-01T10:00:05.000Z",
+    message: {
+      id: "msg_1",
+      role: "assistant",
+      content: [
+        { type: "text", text: "Writing it." },
+        { type: "tool_use", id: "tu_1", name: "Write", input: { file_path: "/repo/foo.ts", content: "x" } },
+        { type: "tool_use", id: "tu_2", name: "Bash", input: { command: "false" } },
+      ],
+    },
+  },
+  {
+    type: "user",
+    uuid: "u2",
+    parentUuid: "a1",
+    timestamp: "2025-01-01T10:00:06.000Z",
+    message: {
+      role: "user",
+      content: [
+        { type: "tool_result", tool_use_id: "tu_1", content: "File written" },
+        { type: "tool_result", tool_use_id: "tu_2", content: "", is_error: true },
+      ],
+    },
+  },
+  {
+    type: "system",
+    uuid: "s1",
+    timestamp: "2025-01-01T10:00:07.000Z",
+    content: "Conversation compacted",
+  },
+  {
+    type: "assistant",
+    uuid: "a2",
+    timestamp: "2025-01-01T10:00:08.000Z",
+    message: { id: "msg_2", content: [{ type: "text", text: "Done." }] },
+  },
+]
+  .map((line) => JSON.stringify(line))
+  .join("\n");
+
+// ── convertClaudeTranscriptToSession ─────────────────────────────
+
+describe("convertClaudeTranscriptToSession", () => {
+  it("fills session metadata from the transcript", () => {
+    const session = convertClaudeTranscriptToSession(parseFromString(TRANSCRIPT));
+
+    expect(session.sessionId).toBe("sess-1");
+    expect(session.sessionRef).toBe("sess-1");
+    expect(session.agentName).toBe("claude-code");
+    expect(session.repoPath).toBe("/repo");
+    expect(session.startTime).toEqual(new Date("2025-01-01T10:00:00.000Z"));
+    expect(session.modifiedFiles).toEqual(["/repo/foo.ts"]);
+    expect(session.nativeData).toBeUndefined();
+  });
+
+  it("emits entries in order with real timestamps", () => {
+    const session = convertClaudeTranscriptToSession(parseFromString(TRANSCRIPT));
+    const entries = session.entries!;
+
+    expect(entries.map((e) => e.type)).toEqual([
+      EntryType.User,
+      EntryType.Assistant,
+      EntryType.Tool,
+      EntryType.Tool,
+      EntryType.System,
+      EntryType.Assistant,
+    ]);
+    expect(entries[0].content).toBe("write foo.ts");
+    expect(entries[1].timestamp).toEqual(new Date("2025-01-01T10:00:05.000Z"));
+    expect(entries[4].content).toBe("Conversation compacted");
+  });
+
+  it("pairs tool calls with their results", () => {
+    const session = convertClaudeTranscriptToSession(parseFromString(TRANSCRIPT));
+    const [write, bash] = session.entries!.filter((e) => e.type === EntryType.Tool);
+
+    expect(write.uuid).toBe("tu_1");
+    expect(write.toolName).toBe("Write");
+    expect(write.toolInput).toEqual({ file_path: "/repo/foo.ts", content: "x" });
+    expect(write.toolOutput).toBe("File written");
+    expect(write.toolStatus).toBe("success");
+    expect(write.filesAffected).toEqual(["/repo/foo.ts"]);
+
+    expect(bash.toolOutput).toBe("Tool call failed");
+    expect(bash.toolStatus).toBe("error");
+    expect(bash.filesAffected).toBeUndefined();
+  });
+
+  it("applies option overrides and keeps native data", () => {
+    const session = convertClaudeTranscriptToSession(parseFromString(TRANSCRIPT), {
+      sessionId: "override",
+      sessionRef: "/path/to/sess.jsonl",
+      repoPath: "/elsewhere",
+      nativeData: TRANSCRIPT,
+    });
+
+    expect(session.sessionId).toBe("override");
+    expect(session.sessionRef).toBe("/path/to/sess.jsonl");
+    expect(session.repoPath).toBe("/elsewhere");
+    expect(new TextDecoder().decode(session.nativeData)).toBe(TRANSCRIPT);
+  });
+
+  it("handles an empty transcript", () => {
+    const session = convertClaudeTranscriptToSession([]);
+    expect(session.sessionId).toBe("");
+    expect(session.entries).toEqual([]);
+    expect(session.startTime).toBeUndefined();
+  });
+});
+
+// ── convertClaudeLineToEntries ───────────────────────────────────
+
+describe("convertClaudeLineToEntries", () => {
+  it("returns no entries for tool-result-only user lines", () => {
+    const toolEntries = new Map<string, SessionEntry>();
+    const entries = convertClaudeLineToEntries(
+      { type: "user", uuid: "u", message: { content: [{ type: "tool_result", tool_use_id: "x", content: "r" }] } },
+      toolEntries,
+    );
+    expect(entries).toEqual([]);
+  });
+
+  it("summarizes summary lines as system entries", () => {
+    const entries = convertClaudeLineToEntries({
+      type: "summary",
+      uuid: "",
+      message: undefined,
+      summary: "Refactored parser",
+    });
+    expect(entries).toEqual([
+      { uuid: "", type: EntryType.System, timestamp: undefined, content: "[Summary] Refactored parser" },
+    ]);
+  });
+
+  it("emits thinking blocks as thinking assistant entries", () => {
+    const entries = convertClaudeLineToEntries({
+      type: "assistant",
+      uuid: "a",
+      message: {
+        content: [
+          { type: "thinking", thinking: "Check the tests first." },
+          { type: "text", text: "Running tests." },
+        ],
+      },
+    });
+
+    expect(entries).toEqual([
+      { uuid: "a_thinking", type: EntryType.Assistant, timestamp: undefined, content: "Check the tests first.", isThinking: true },
+      { uuid: "a", type: EntryType.Assistant, timestamp: undefined, content: "Running tests." },
+    ]);
+  });
+
+  it("ignores unknown line types", () => {
+    expect(convertClaudeLineToEntries({ type: "file-history-snapshot", uuid: "f", message: {} })).toEqual([]);
+  });
+});
+
+// ── convertSessionToClaudeTranscript ─────────────────────────────
+
+describe("convertSessionToClaudeTranscript", () => {
+  it("round-trips a transcript through AgentSession", () => {
+    const original = parseFromString(TRANSCRIPT);
+    const session = convertClaudeTranscriptToSession(original);
+    const written = parseFromString(
+      serializeTranscript(convertSessionToClaudeTranscript(session)),
+    );
+
+    expect(extractAllPromptResponses(written)).toEqual(extractAllPromptResponses(original));
+    expect(extractModifiedFiles(written)).toEqual(extractModifiedFiles(original));
+
+    const reread = convertClaudeTranscriptToSession(written);
+    expect(reread.entries).toEqual(session.entries);
+    expect(reread.sessionId).toBe(session.sessionId);
+    expect(reread.repoPath).toBe(session.repoPath);
+    expect(reread.startTime).toEqual(session.startTime);
+  });
+
+  it("chains lines through parentUuid", () => {
+    const session = convertClaudeTranscriptToSession(parseFromString(TRANSCRIPT));
+    const lines = convertSessionToClaudeTranscript(session);
+
+    expect(lines[0].parentUuid).toBeNull();
+    for (let i = 1; i < lines.length; i++) {
+      expect(lines[i].parentUuid).toBe(lines[i - 1].uuid);
+    }
+    expect(new Set(lines.map((l) => l.uuid)).size).toBe(lines.length);
+  });
+
+  it("pairs tool_use blocks with tool_result blocks", () => {
+    const session = convertClaudeTranscriptToSession(parseFromString(TRANSCRIPT));
+    const lines = convertSessionToClaudeTranscript(session, { model: "claude-sonnet-4-5" });
+
+    const assistant = lines[1].message as { id: string; model: string; content: Array<Record<string, unknown>> };
+    expect(assistant.id).toMatch(/^msg_/);
+    expect(assistant.model).toBe("claude-sonnet-4-5");
+    expect(assistant.content.map((b) => b.type)).toEqual(["text", "tool_use", "tool_use"]);
+
+    const results = (lines[2].message as { content: Array<Record<string, unknown>> }).content;
+    expect(results).toEqual([
+      { type: "tool_result", tool_use_id: "tu_1", content: "File written" },
+      { type: "tool_result", tool_use_id: "tu_2", content: "Tool call failed", is_error: true },
+    ]);
+    expect(findCheckpointUUID(lines, "tu_1")).toBe(lines[2].uuid);
+  });
+
+  it("gives each assistant message a distinct id", () => {
+    const session = convertClaudeTranscriptToSession(parseFromString(TRANSCRIPT));
+    const lines = convertSessionToClaudeTranscript(session);
+    const ids = lines
+      .filter((l) => l.type === "assistant")
+      .map((l) => (l.message as { id: string }).id);
+
+    expect(ids).toHaveLength(2);
+    expect(new Set(ids).size).toBe(2);
+  });
+
+  it("writes thinking entries as thinking blocks", () => {
+    const lines = convertSessionToClaudeTranscript({
+      sessionId: "s",
+      agentName: "claude-code",
+      sessionRef: "s",
+      modifiedFiles: [],
+      entries: [
+        { uuid: "u1", type: EntryType.User, content: "why?" },
+        { uuid: "a1_thinking", type: EntryType.Assistant, content: "Hmm.", isThinking: true },
+        { uuid: "a1", type: EntryType.Assistant, content: "Because." },
+      ],
+    });
+
+    const content = (lines[1].message as { content: unknown[] }).content;
+    expect(content).toEqual([
+      { type: "thinking", thinking: "Hmm." },
+      { type: "text", text: "Because." },
+    ]);
+    expect(extractAllPromptResponses(lines)).toEqual([
+      { prompt: "why?", responses: ["Because."], files: [] },
+    ]);
+  });
+
+  it("writes summary entries as unchained summary lines", () => {
+    const lines = convertSessionToClaudeTranscript({
+      sessionId: "s",
+      agentName: "claude-code",
+      sessionRef: "s",
+      modifiedFiles: [],
+      entries: [
+        { uuid: "", type: EntryType.System, content: "[Summary] Earlier work" },
+        { uuid: "u1", type: EntryType.User, content: "continue" },
+      ],
+    });
+
+    expect(lines[0]).toMatchObject({ type: "summary", summary: "Earlier work" });
+    expect(lines[1].parentUuid).toBeNull();
+  });
+
+  it("writes entries of unknown types as system lines", () => {
+    const lines = convertSessionToClaudeTranscript({
+      sessionId: "s",
+      agentName: "claude-code",
+      sessionRef: "s",
+      modifiedFiles: [],
+      entries: [
+        { uuid: "x1", type: "note" as EntryType, content: "remember" },
+        { uuid: "a1", type: EntryType.Assistant, content: "ok" },
+      ],
+    });
+
+    expect(lines.map((l) => l.type)).toEqual(["system", "assistant"]);
+    expect(lines[0]).toMatchObject({ uuid: "x1", content: "remember" });
+  });
+
+  it("writes sessions built from ACP events", () => {
+    const session = convertACPEventsToSession(
+      [
+        { sessionUpdate: "user_message_chunk", content: { type: "text", text: "edit a.ts" } },
+        { sessionUpdate: "agent_message_chunk", content: { type: "text", text: "Editing." } },
+        {
+          sessionUpdate: "tool_call",
+          toolCallId: "call_1",
+          title: "Edit",
+          rawInput: { file_path: "/a.ts", old_string: "a", new_string: "b" },
+        },
+        {
+          sessionUpdate: "tool_call_update",
+          toolCallId: "call_1",
+          status: "completed",
+          content: [{ type: "content", content: { type: "text", text: "ok" } }],
+        },
+      ],
+      "acp-1",
+    );
+
+    const written = parseFromString(serializeTranscript(convertSessionToClaudeTranscript(session)));
+    expect(extractAllPromptResponses(written)).toEqual([
+      { prompt: "edit a.ts", responses: ["Editing."], files: ["/a.ts"] },
+    ]);
+    expect(calculateTokenUsage(written).apiCallCount).toBe(0);
+  });
+});
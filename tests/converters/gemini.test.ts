@@ -0,0 +1,284 @@
+import { describe, it, expect } from "vitest";
+import { EntryType } from "../../src/types.js";
+import {
+  convertGeminiTranscriptToSession,
+  convertGeminiMessageToEntries,
+  convertSessionToGeminiTranscript,
+  convertClaudeTranscriptToSession,
+} from "../../src/converters/index.js";
+import { parseTranscript, serializeTranscript } from "../../src/parsers/gemini/parse.js";
+import {
+  extractAllPromptResponses,
+  extractModifiedFiles,
+} from "../../src/parsers/gemini/extract.js";
+import { parseFromString } from "../../src/parsers/claude/parse.js";
+
+// ── Fixtures ─────────────────────────────────────────────────────
+
+const TRANSCRIPT = JSON.stringify({
+  sessionId: "gem-1",
+  projectHash: "abc123",
+  startTime: "2025-02-01T09:00:00.000Z",
+  lastUpdated: "2025-02-01T09:05:00.000Z",
+  messages: [
+    {
+      id: "m1",
+      timestamp: "2025-02-01T09:00:01.000Z",
+      type: "user",
+      content: [{ text: "create hello.py" }],
+    },
+    {
+      id: "m2",
+      timestamp: "2025-02-01T09:00:03.000Z",
+      type: "gemini",
+      content: "Creating the file.",
+      model: "gemini-2.5-pro",
+      toolCalls: [
+        {
+          id: "write_file-1",
+          name: "write_file",
+          args: { file_path: "/repo/hello.py", content: "print('hi')" },
+          status: "success",
+          timestamp: "2025-02-01T09:00:04.000Z",
+          result: [
+            {
+              functionResponse: {
+                id: "write_file-1",
+                name: "write_file",
+                response: { output: "Successfully created /repo/hello.py" },
+              },
+            },
+          ],
+        },
+        {
+          id: "run_shell_command-2",
+          name: "run_shell_command",
+          args: { command: "python hello.py" },
+          status: "error",
+        },
+      ],
+    },
+    { id: "m3", type: "info", content: "Request cancelled." },
+  ],
+});
+
+// ── convertGeminiTranscriptToSession ─────────────────────────────
+
+describe("convertGeminiTranscriptToSession", () => {
+  it("fills session metadata from top-level fields", () => {
+    const session = convertGeminiTranscriptToSession(parseTranscript(TRANSCRIPT));
+
+    expect(session.sessionId).toBe("gem-1");
+    expect(session.sessionRef).toBe("gem-1");
+    expect(session.agentName).toBe("gemini");
+    expect(session.startTime).toEqual(new Date("2025-02-01T09:00:00.000Z"));
+    expect(session.modifiedFiles).toEqual(["/repo/hello.py"]);
+  });
+
+  it("emits user, assistant, tool and system entries in order", () => {
+    const session = convertGeminiTranscriptToSession(parseTranscript(TRANSCRIPT));
+
+    expect(session.entries!.map((e) => [e.type, e.uuid])).toEqual([
+      [EntryType.User, "m1"],
+      [EntryType.Assistant, "m2"],
+      [EntryType.Tool, "write_file-1"],
+      [EntryType.Tool, "run_shell_command-2"],
+      [EntryType.System, "m3"],
+    ]);
+    expect(session.entries![0].content).toBe("create hello.py");
+  });
+
+  it("maps tool calls with args, status and result", () => {
+    const session = convertGeminiTranscriptToSession(parseTranscript(TRANSCRIPT));
+    const [write, shell] = session.entries!.filter((e) => e.type === EntryType.Tool);
+
+    expect(write).toMatchObject({
+      content: "Tool call: write_file",
+      toolName: "write_file",
+      toolInput: { file_path: "/repo/hello.py", content: "print('hi')" },
+      toolOutput: "Successfully created /repo/hello.py",
+      toolStatus: "success",
+      filesAffected: ["/repo/hello.py"],
+      timestamp: new Date("2025-02-01T09:00:04.000Z"),
+    });
+    expect(shell.toolOutput).toBe("Tool call failed");
+    expect(shell.toolStatus).toBe("error");
+    expect(shell.timestamp).toEqual(new Date("2025-02-01T09:00:03.000Z"));
+  });
+
+  it("falls back to the earliest message timestamp without startTime", () => {
+    const session = convertGeminiTranscriptToSession({
+      messages: [
+        { type: "user", content: "hi", timestamp: "2025-02-01T10:00:00.000Z" },
+      ],
+    });
+    expect(session.sessionId).toBe("");
+    expect(session.startTime).toEqual(new Date("2025-02-01T10:00:00.000Z"));
+  });
+
+  it("applies option overrides and keeps native data", () => {
+    const session = convertGeminiTranscriptToSession(parseTranscript(TRANSCRIPT), {
+      sessionId: "override",
+      repoPath: "/repo",
+      nativeData: TRANSCRIPT,
+    });
+
+    expect(session.sessionId).toBe("override");
+    expect(session.repoPath).toBe("/repo");
+    expect(new TextDecoder().decode(session.nativeData)).toBe(TRANSCRIPT);
+  });
+});
+
+// ── convertGeminiMessageToEntries ────────────────────────────────
+
+describe("convertGeminiMessageToEntries", () => {
+  it("uses the message index for IDs when missing", () => {
+    const entries = convertGeminiMessageToEntries(
+      { type: "gemini", content: "", toolCalls: [{ id: "", name: "read_file", args: {} }] },
+      4,
+    );
+    expect(entries).toHaveLength(1);
+    expect(entries[0].uuid).toBe("message_4_0");
+    expect(entries[0].filesAffected).toBeUndefined();
+  });
+
+  it("emits thoughts as thinking assistant entries", () => {
+    const entries = convertGeminiMessageToEntries(
+      {
+        id: "g1",
+        type: "gemini",
+        content: "Done.",
+        thoughts: [{ subject: "Planning", description: "Read the file first." }],
+      },
+      0,
+    );
+
+    expect(entries.map((e) => [e.uuid, e.content, e.isThinking])).toEqual([
+      ["g1_thought_0", "Planning\n\nRead the file first.", true],
+      ["g1", "Done.", undefined],
+    ]);
+  });
+
+  it("skips empty user messages", () => {
+    expect(convertGeminiMessageToEntries({ type: "user", content: "" })).toEqual([]);
+  });
+});
+
+// ── convertSessionToGeminiTranscript ─────────────────────────────
+
+describe("convertSessionToGeminiTranscript", () => {
+  it("round-trips a transcript through AgentSession", () => {
+    const original = parseTranscript(TRANSCRIPT);
+    const session = convertGeminiTranscriptToSession(original);
+    const written = parseTranscript(
+      serializeTranscript(convertSessionToGeminiTranscript(session)),
+    );
+
+    expect(written.sessionId).toBe("gem-1");
+    expect(written.startTime).toBe("2025-02-01T09:00:00.000Z");
+    expect(extractAllPromptResponses(written)).toEqual(extractAllPromptResponses(original));
+    expect(extractModifiedFiles(written)).toEqual(extractModifiedFiles(original));
+    expect(convertGeminiTranscriptToSession(written).entries).toEqual(session.entries);
+  });
+
+  it("records tool results as functionResponse parts", () => {
+    const session = convertGeminiTranscriptToSession(parseTranscript(TRANSCRIPT));
+    const transcript = convertSessionToGeminiTranscript(session);
+    const [write, shell] = transcript.messages[1].toolCalls!;
+
+    expect(write.result).toEqual([
+      {
+        functionResponse: {
+          id: "write_file-1",
+          name: "write_file",
+          response: { output: "Successfully created /repo/hello.py" },
+        },
+      },
+    ]);
+    expect(shell.status).toBe("error");
+    expect(shell.result![0].functionResponse!.response).toEqual({ error: "Tool call failed" });
+    expect(transcript.lastUpdated).toBe("2025-02-01T09:00:04.000Z");
+  });
+
+  it("writes sessions converted from Claude transcripts", () => {
+    const claudeSession = convertClaudeTranscriptToSession(
+      parseFromString(
+        [
+          { type: "user", uuid: "u1", message: { content: "fix bug" } },
+          {
+            type: "assistant",
+            uuid: "a1",
+            message: {
+              id: "msg_1",
+              content: [{ type: "tool_use", id: "tu_1", name: "Edit", input: { file_path: "/x.ts" } }],
+            },
+          },
+          {
+            type: "user",
+            uuid: "u2",
+            message: { content: [{ type: "tool_result", tool_use_id: "tu_1", content: "ok" }] },
+          },
+          { type: "assistant", uuid: "a2", message: { id: "msg_2", content: [{ type: "text", text: "Fixed." }] } },
+        ]
+          .map((l) => JSON.stringify(l))
+          .join("\n"),
+      ),
+    );
+
+    const transcript = convertSessionToGeminiTranscript(claudeSession);
+    expect(transcript.messages.map((m) => m.type)).toEqual(["user", "gemini", "gemini"]);
+    expect(transcript.messages[1].content).toBe("");
+    expect(transcript.messages[1].toolCalls![0]).toMatchObject({
+      id: "tu_1",
+      name: "replace",
+      args: { file_path: "/x.ts" },
+      status: "success",
+    });
+    expect(extractModifiedFiles(transcript)).toEqual(claudeSession.modifiedFiles);
+    expect(extractAllPromptResponses(transcript)).toEqual([
+      { prompt: "fix bug", responses: ["Fixed."], files: ["/x.ts"] },
+    ]);
+  });
+
+  it("maps whole-file writes to write_file", () => {
+    const transcript = convertSessionToGeminiTranscript({
+      sessionId: "s1",
+      agentName: "claude-code",
+      sessionRef: "s1",
+      modifiedFiles: ["/a.ts"],
+      entries: [
+        {
+          uuid: "t1",
+          type: EntryType.Tool,
+          content: "",
+          toolName: "Write",
+          toolInput: { file_path: "/a.ts", content: "x" },
+          filesAffected: ["/a.ts"],
+        },
+      ],
+    });
+
+    expect(transcript.messages[0].toolCalls![0]).toMatchObject({
+      name: "write_file",
+      args: { file_path: "/a.ts", content: "x" },
+    });
+  });
+
+  it("writes entries of unknown types as info messages", () => {
+    const transcript = convertSessionToGeminiTranscript({
+      sessionId: "s1",
+      agentName: "claude-code",
+      sessionRef: "s1",
+      modifiedFiles: [],
+      entries: [
+        { uuid: "x1", type: "note" as EntryType, content: "remember" },
+        { uuid: "a1", type: EntryType.Assistant, content: "ok" },
+      ],
+    });
+
+    expect(transcript.messages.map((m) => [m.type, m.content])).toEqual([
+      ["info", "remember"],
+      ["gemini", "ok"],
+    ]);
+  });
+});
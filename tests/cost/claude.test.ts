@@ -0,0 +1,110 @@
+import { describe, it, expect } from "vitest";
+import { estimateClaudeCost } from "../../src/cost/claude.js";
+import { withPricingOverrides, DEFAULT_PRICING } from "../../src/cost/pricing.js";
+import type { TranscriptLine } from "../../src/parsers/claude/types.js";
+import { M, claudeCall, userLine } from "../fixtures.js";
+
+// ── Fixtures ──────────────────────────────────────────────────────
+
+function taskResult(uuid: string, toolUseId: string, agentId: string): TranscriptLine {
+  return userLine(uuid, [{ type: "tool_result", tool_use_id: toolUseId, content: `done\nagentId: ${agentId}` }]);
+}
+
+// ── estimateClaudeCost ───────────────────────────────────────────
+
+describe("estimateClaudeCost", () => {
+  it("prices each call by its model", () => {
+    const cost = estimateClaudeCost([
+      userLine("u1", "plan"),
+      claudeCall("a1", { id: "m1", model: "claude-opus-4-5-20251101", input: M }),
+      userLine("u2", "implement"),
+      claudeCall("a2", { id: "m2", model: "claude-haiku-4-5-20251001", output: M, cacheRead: M }),
+    ]);
+
+    expect(cost.pricingVersion).toBe(DEFAULT_PRICING.version);
+    expect(cost.currency).toBe("USD");
+    expect(cost.total.total).toBeCloseTo(5 + 5 + 0.1);
+    expect(cost.byModel.map((m) => [m.model, m.usage.apiCallCount])).toEqual([
+      ["claude-opus-4-5-20251101", 1],
+      ["claude-haiku-4-5-20251001", 1],
+    ]);
+    expect(cost.byTurn.map((t) => [t.prompt, t.cost.total])).toEqual([
+      ["plan", 5],
+      ["implement", expect.closeTo(5.1)],
+    ]);
+    expect(cost.unpricedModels).toEqual([]);
+  });
+
+  it("deduplicates streaming rows by message.id", () => {
+    const cost = estimateClaudeCost([
+      userLine("u1", "hi"),
+      claudeCall("a1", { id: "m1", model: "claude-sonnet-4-5", input: M, output: 10 }),
+      claudeCall("a2", { id: "m1", model: "claude-sonnet-4-5", input: M, output: M }),
+    ]);
+    expect(cost.byModel[0].usage.apiCallCount).toBe(1);
+    expect(cost.total.total).toBeCloseTo(3 + 15);
+  });
+
+  it("counts calls before the first prompt only toward the totals", () => {
+    const cost = estimateClaudeCost([claudeCall("a0", { id: "m0", model: "claude-sonnet-4-5", input: M }), userLine("u1", "hi")]);
+    expect(cost.total.total).toBeCloseTo(3);
+    expect(cost.byTurn[0].cost.total).toBe(0);
+  });
+
+  it("reports models without a price", () => {
+    const cost = estimateClaudeCost([
+      userLine("u1", "hi"),
+      claudeCall("a1", { id: "m1", model: "custom-model", input: M }),
+      claudeCall("a2", { id: "m2", model: "<synthetic>" }),
+    ]);
+    expect(cost.unpricedModels).toEqual(["custom-model"]);
+    expect(cost.byModel.find((m) => m.model === "custom-model")?.priced).toBe(false);
+    expect(cost.total.total).toBe(0);
+  });
+
+  it("uses an overridden pricing table", () => {
+    const pricing = withPricingOverrides(DEFAULT_PRICING, {
+      "custom-model": { input: 2, output: 4, cacheWrite: 2, cacheRead: 0.2 },
+    });
+    const cost = estimateClaudeCost([userLine("u1", "hi"), claudeCall("a1", { id: "m1", model: "custom-model", input: M, output: M })], { pricing });
+    expect(cost.total.total).toBeCloseTo(6);
+    expect(cost.pricingVersion).toBe(pricing.version);
+  });
+
+  it("includes nested subagents and attributes them to the spawning turn", () => {
+    const transcripts: Record<string, string> = {
+      sub1: [
+        claudeCall("s1", { id: "sm1", model: "claude-haiku-4-5", input: M }),
+        taskResult("s2", "tu_nested", "sub2"),
+      ]
+        .map((l) => JSON.stringify(l))
+        .join("\n"),
+      sub2: JSON.stringify(claudeCall("n1", { id: "nm1", model: "claude-sonnet-4-5", input: M })),
+    };
+
+    const cost = estimateClaudeCost(
+      [
+        userLine("u1", "first"),
+        claudeCall("a1", { id: "m1", model: "claude-opus-4-5", input: M }),
+        userLine("u2", "second"),
+        taskResult("r1", "tu_1", "sub1"),
+      ],
+      { loadSubagentTranscript: (id) => transcripts[id] ?? null }
+    );
+
+    expect(cost.total.total).toBeCloseTo(5 + 1 + 3);
+    expect(cost.byModel.map((m) => m.model)).toEqual(["claude-opus-4-5", "claude-haiku-4-5", "claude-sonnet-4-5"]);
+    expect(cost.byTurn.map((t) => t.cost.total)).toEqual([5, expect.closeTo(4)]);
+
+    expect(cost.bySubagent).toHaveLength(1);
+    const [sub] = cost.bySubagent;
+    expect(sub).toMatchObject({ agentId: "sub1", toolUseId: "tu_1", turnIndex: 1 });
+    expect(sub.cost.total).toBeCloseTo(4);
+    expect(sub.subagents.map((s) => [s.agentId, s.cost.total])).toEqual([["sub2", expect.closeTo(3)]]);
+  });
+
+  it("ignores subagents without a loader", () => {
+    const cost = estimateClaudeCost([userLine("u1", "go"), taskResult("r1", "tu_1", "sub1")]);
+    expect(cost.bySubagent).toEqual([]);
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest";
+import { estimateGeminiCost } from "../../src/cost/gemini.js";
+import { M, geminiReply } from "../fixtures.js";
+
+describe("estimateGeminiCost", () => {
+  it("bills cached input at the cache read rate and thoughts as output", () => {
+    const cost = estimateGeminiCost({
+      messages: [
+        { type: "user", content: "hi" },
+        geminiReply({ model: "gemini-2.5-pro", input: 2 * M, cacheRead: M, output: M, thoughts: M }),
+      ],
+    });
+
+    const [model] = cost.byModel;
+    expect(model.usage).toMatchObject({ inputTokens: M, cacheReadTokens: M, outputTokens: 2 * M, apiCallCount: 1 });
+    expect(cost.total.input).toBeCloseTo(1.25);
+    expect(cost.total.cacheRead).toBeCloseTo(0.125);
+    expect(cost.total.output).toBeCloseTo(20);
+    expect(cost.bySubagent).toEqual([]);
+  });
+
+  it("breaks cost down by turn and model", () => {
+    const cost = estimateGeminiCost({
+      messages: [
+        { type: "user", content: "one" },
+        geminiReply({ model: "gemini-2.5-flash", input: M }),
+        { type: "user", content: "two" },
+        geminiReply({ model: "gemini-2.5-pro", input: M }),
+        geminiReply({ input: M }),
+      ],
+    });
+
+    expect(cost.byTurn.map((t) => [t.prompt, t.byModel.map((m) => m.model)])).toEqual([
+      ["one", ["gemini-2.5-flash"]],
+      ["two", ["gemini-2.5-pro", "unknown"]],
+    ]);
+    expect(cost.total.total).toBeCloseTo(0.3 + 1.25);
+    expect(cost.unpricedModels).toEqual(["unknown"]);
+  });
+});
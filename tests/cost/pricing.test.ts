@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_PRICING,
+  withPricingOverrides,
+  findModelPricing,
+  costOfUsage,
+  estimateUsageCost,
+} from "../../src/cost/pricing.js";
+import { emptyTokenUsage, type TokenUsage } from "../../src/types.js";
+
+function usage(fields: Partial<TokenUsage>): TokenUsage {
+  return { ...emptyTokenUsage(), ...fields };
+}
+
+describe("findModelPricing", () => {
+  it("matches exact names and dated model IDs", () => {
+    expect(findModelPricing(DEFAULT_PRICING, "claude-sonnet-4-5")).toBe(DEFAULT_PRICING.models["claude-sonnet-4-5"]);
+    expect(findModelPricing(DEFAULT_PRICING, "claude-sonnet-4-5-20250929")).toBe(
+      DEFAULT_PRICING.models["claude-sonnet-4-5"]
+    );
+    expect(findModelPricing(DEFAULT_PRICING, "Claude-Opus-4-20250514")).toBe(DEFAULT_PRICING.models["claude-opus-4"]);
+  });
+
+  it("prefers the longest matching name", () => {
+    expect(findModelPricing(DEFAULT_PRICING, "claude-opus-4-5-20251101")).toBe(DEFAULT_PRICING.models["claude-opus-4-5"]);
+    expect(findModelPricing(DEFAULT_PRICING, "gemini-2.5-flash-lite")).toBe(DEFAULT_PRICING.models["gemini-2.5-flash-lite"]);
+  });
+
+  it("returns undefined for unknown models", () => {
+    expect(findModelPricing(DEFAULT_PRICING, "gpt-4o")).toBeUndefined();
+  });
+});
+
+describe("withPricingOverrides", () => {
+  it("adds and replaces models under a new version", () => {
+    const custom = { input: 1, output: 2, cacheWrite: 1, cacheRead: 0.1 };
+    const table = withPricingOverrides(DEFAULT_PRICING, { "claude-sonnet-4-5": custom, "my-model": custom });
+    expect(table.version).toBe(`${DEFAULT_PRICING.version}+custom`);
+    expect(findModelPricing(table, "claude-sonnet-4-5-20250929")).toBe(custom);
+    expect(findModelPricing(table, "my-model")).toBe(custom);
+    expect(DEFAULT_PRICING.models["my-model"]).toBeUndefined();
+
+    expect(withPricingOverrides(DEFAULT_PRICING, {}, "2026-q1").version).toBe("2026-q1");
+  });
+});
+
+describe("costOfUsage", () => {
+  it("prices each token kind at its own rate", () => {
+    const cost = costOfUsage(
+      usage({ inputTokens: 1_000_000, outputTokens: 1_000_000, cacheCreationTokens: 1_000_000, cacheReadTokens: 1_000_000 }),
+      { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 }
+    );
+    expect(cost).toEqual({ input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3, total: 22.05 });
+  });
+});
+
+describe("estimateUsageCost", () => {
+  it("includes nested subagent tokens", () => {
+    const total = usage({
+      inputTokens: 1_000_000,
+      subagentTokens: usage({ outputTokens: 1_000_000, subagentTokens: usage({ cacheReadTokens: 1_000_000 }) }),
+    });
+    const cost = estimateUsageCost(total, "claude-sonnet-4-5");
+    expect(cost?.input).toBeCloseTo(3);
+    expect(cost?.output).toBeCloseTo(15);
+    expect(cost?.cacheRead).toBeCloseTo(0.3);
+    expect(cost?.total).toBeCloseTo(18.3);
+  });
+
+  it("returns undefined for unknown models", () => {
+    expect(estimateUsageCost(usage({ inputTokens: 10 }), "unknown-model")).toBeUndefined();
+  });
+});
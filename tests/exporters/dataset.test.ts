@@ -0,0 +1,261 @@
+import { describe, it, expect } from "vitest";
+import { EntryType, type AgentSession, type SessionEntry } from "../../src/types.js";
+import {
+  extractDatasetConversations,
+  exportOpenAIDataset,
+  exportShareGPTDataset,
+  exportAnthropicDataset,
+  serializeDatasetJSONL,
+} from "../../src/exporters/index.js";
+import { convertClaudeTranscriptToSession } from "../../src/converters/index.js";
+import { parseFromString } from "../../src/parsers/claude/parse.js";
+
+// ── Fixtures ─────────────────────────────────────────────────────
+
+function session(entries: SessionEntry[]): AgentSession {
+  return { sessionId: "s1", agentName: "test", sessionRef: "s1", modifiedFiles: [], entries };
+}
+
+const ENTRIES: SessionEntry[] = [
+  { uuid: "sys", type: EntryType.System, content: "Session started" },
+  { uuid: "u1", type: EntryType.User, content: "fix the bug" },
+  { uuid: "t1", type: EntryType.Assistant, content: "Look at main.ts.", isThinking: true },
+  { uuid: "a1", type: EntryType.Assistant, content: "Reading the file." },
+  { uuid: "tool_1", type: EntryType.Tool, content: "", toolName: "Read", toolInput: { file_path: "/main.ts" }, toolOutput: "code", toolStatus: "success" },
+  { uuid: "tool_2", type: EntryType.Tool, content: "", toolName: "Bash", toolInput: { command: "false" }, toolOutput: "exit 1", toolStatus: "error" },
+  { uuid: "a2", type: EntryType.Assistant, content: "Fixed it." },
+  { uuid: "a3", type: EntryType.Assistant, content: "Tests pass." },
+  { uuid: "u2", type: EntryType.User, content: "thanks" },
+  { uuid: "a4", type: EntryType.Assistant, content: "You're welcome." },
+  { uuid: "u3", type: EntryType.User, content: "interrupted" },
+];
+
+// ── extractDatasetConversations ──────────────────────────────────
+
+describe("extractDatasetConversations", () => {
+  it("builds one conversation per answered prompt", () => {
+    const conversations = extractDatasetConversations(session(ENTRIES));
+
+    expect(conversations).toHaveLength(2);
+    expect(conversations[0]).toEqual([
+      { role: "user", content: "fix the bug" },
+      {
+        role: "assistant",
+        content: "Reading the file.",
+        toolCalls: [
+          { id: "tool_1", name: "Read", input: { file_path: "/main.ts" } },
+          { id: "tool_2", name: "Bash", input: { command: "false" } },
+        ],
+      },
+      { role: "tool", content: "code", toolCallId: "tool_1" },
+      { role: "tool", content: "exit 1", toolCallId: "tool_2", isError: true },
+      { role: "assistant", content: "Fixed it.\n\nTests pass." },
+    ]);
+    expect(conversations[1]).toEqual([
+      { role: "user", content: "thanks" },
+      { role: "assistant", content: "You're welcome." },
+    ]);
+  });
+
+  it("builds one conversation per session", () => {
+    const conversations = extractDatasetConversations(session(ENTRIES), { granularity: "session" });
+
+    expect(conversations).toHaveLength(1);
+    expect(conversations[0].map((m) => m.role)).toEqual([
+      "user", "assistant", "tool", "tool", "assistant", "user", "assistant", "user",
+    ]);
+  });
+
+  it("folds thinking between text entries into one assistant message", () => {
+    const entries: SessionEntry[] = [
+      { uuid: "u1", type: EntryType.User, content: "why?" },
+      { uuid: "a1", type: EntryType.Assistant, content: "A" },
+      { uuid: "t1", type: EntryType.Assistant, content: "Hmm.", isThinking: true },
+      { uuid: "a2", type: EntryType.Assistant, content: "B" },
+    ];
+
+    expect(extractDatasetConversations(session(entries), { includeThinking: true })).toEqual([
+      [
+        { role: "user", content: "why?" },
+        { role: "assistant", content: "A\n\nB", thinking: "Hmm." },
+      ],
+    ]);
+    expect(extractDatasetConversations(session(entries))[0][1]).toEqual({ role: "assistant", content: "A\n\nB" });
+  });
+
+  it("keeps thinking when requested", () => {
+    const [first] = extractDatasetConversations(session(ENTRIES), { includeThinking: true });
+    expect(first[1].thinking).toBe("Look at main.ts.");
+  });
+
+  it("drops failed tool calls when requested", () => {
+    const [first] = extractDatasetConversations(session(ENTRIES), { dropFailedToolCalls: true });
+
+    expect(first[1].toolCalls!.map((c) => c.name)).toEqual(["Read"]);
+    expect(first.filter((m) => m.role === "tool")).toHaveLength(1);
+  });
+
+  it("attaches tool calls without preceding text to an empty assistant message", () => {
+    const [conversation] = extractDatasetConversations(
+      session([
+        { uuid: "u1", type: EntryType.User, content: "list files" },
+        { uuid: "tool_1", type: EntryType.Tool, content: "", toolName: "Bash", toolInput: { command: "ls" } },
+      ]),
+    );
+
+    expect(conversation[1]).toEqual({
+      role: "assistant",
+      content: "",
+      toolCalls: [{ id: "tool_1", name: "Bash", input: { command: "ls" } }],
+    });
+    expect(conversation[2]).toEqual({ role: "tool", content: "", toolCallId: "tool_1" });
+  });
+});
+
+// ── exportOpenAIDataset ──────────────────────────────────────────
+
+describe("exportOpenAIDataset", () => {
+  it("writes tool calls with JSON-encoded arguments", () => {
+    const [sample] = exportOpenAIDataset(session(ENTRIES), { systemPrompt: "Be brief." });
+
+    expect(sample.messages[0]).toEqual({ role: "system", content: "Be brief." });
+    expect(sample.messages[2]).toEqual({
+      role: "assistant",
+      content: "Reading the file.",
+      tool_calls: [
+        { id: "tool_1", type: "function", function: { name: "Read", arguments: '{"file_path":"/main.ts"}' } },
+        { id: "tool_2", type: "function", function: { name: "Bash", arguments: '{"command":"false"}' } },
+      ],
+    });
+    expect(sample.messages[3]).toEqual({ role: "tool", tool_call_id: "tool_1", content: "code" });
+  });
+
+  it("wraps thinking in tags", () => {
+    const [sample] = exportOpenAIDataset(session(ENTRIES), { includeThinking: true });
+    expect(sample.messages[1].content).toBe("<thinking>\nLook at main.ts.\n</thinking>\n\nReading the file.");
+  });
+
+  it("drops samples over the token limit", () => {
+    const samples = exportOpenAIDataset(session(ENTRIES), {
+      maxTokens: 100,
+      countTokens: (text) => text.length,
+    });
+
+    expect(samples).toHaveLength(1);
+    expect(samples[0].messages[0].content).toBe("thanks");
+  });
+
+  it("accepts several sessions", () => {
+    expect(exportOpenAIDataset([session(ENTRIES), session(ENTRIES)])).toHaveLength(4);
+  });
+});
+
+// ── exportShareGPTDataset ────────────────────────────────────────
+
+describe("exportShareGPTDataset", () => {
+  it("writes function_call and observation turns", () => {
+    const [sample] = exportShareGPTDataset(session(ENTRIES), { systemPrompt: "Be brief." });
+
+    expect(sample.system).toBe("Be brief.");
+    expect(sample.conversations).toEqual([
+      { from: "human", value: "fix the bug" },
+      { from: "gpt", value: "Reading the file." },
+      {
+        from: "function_call",
+        value: '[{"name":"Read","arguments":{"file_path":"/main.ts"}},{"name":"Bash","arguments":{"command":"false"}}]',
+      },
+      { from: "observation", value: '["code","exit 1"]' },
+      { from: "gpt", value: "Fixed it.\n\nTests pass." },
+    ]);
+  });
+
+  it("writes a single call and result unwrapped", () => {
+    const [sample] = exportShareGPTDataset(session(ENTRIES), { dropFailedToolCalls: true });
+
+    expect(sample.conversations[2]).toEqual({
+      from: "function_call",
+      value: '{"name":"Read","arguments":{"file_path":"/main.ts"}}',
+    });
+    expect(sample.conversations[3]).toEqual({ from: "observation", value: "code" });
+  });
+});
+
+// ── exportAnthropicDataset ───────────────────────────────────────
+
+describe("exportAnthropicDataset", () => {
+  it("writes content blocks and alternates roles", () => {
+    const [sample] = exportAnthropicDataset(session(ENTRIES), { includeThinking: true });
+
+    expect(sample.system).toBeUndefined();
+    expect(sample.messages).toEqual([
+      { role: "user", content: [{ type: "text", text: "fix the bug" }] },
+      {
+        role: "assistant",
+        content: [
+          { type: "thinking", thinking: "Look at main.ts." },
+          { type: "text", text: "Reading the file." },
+          { type: "tool_use", id: "tool_1", name: "Read", input: { file_path: "/main.ts" } },
+          { type: "tool_use", id: "tool_2", name: "Bash", input: { command: "false" } },
+        ],
+      },
+      {
+        role: "user",
+        content: [
+          { type: "tool_result", tool_use_id: "tool_1", content: "code" },
+          { type: "tool_result", tool_use_id: "tool_2", content: "exit 1", is_error: true },
+        ],
+      },
+      { role: "assistant", content: [{ type: "text", text: "Fixed it.\n\nTests pass." }] },
+    ]);
+  });
+
+  it("merges a prompt into preceding tool results", () => {
+    const [sample] = exportAnthropicDataset(
+      session([
+        { uuid: "u1", type: EntryType.User, content: "run it" },
+        { uuid: "tool_1", type: EntryType.Tool, content: "", toolName: "Bash", toolInput: {}, toolOutput: "ok" },
+        { uuid: "u2", type: EntryType.User, content: "now stop" },
+        { uuid: "a1", type: EntryType.Assistant, content: "Stopped." },
+      ]),
+      { granularity: "session" },
+    );
+
+    expect(sample.messages.map((m) => m.role)).toEqual(["user", "assistant", "user", "assistant"]);
+    expect(sample.messages[2].content).toEqual([
+      { type: "tool_result", tool_use_id: "tool_1", content: "ok" },
+      { type: "text", text: "now stop" },
+    ]);
+  });
+
+  it("exports sessions converted from Claude transcripts", () => {
+    const lines = parseFromString(
+      [
+        { type: "user", uuid: "u1", message: { content: "hi" } },
+        { type: "assistant", uuid: "a1", message: { id: "m1", content: [{ type: "text", text: "Hello." }] } },
+      ]
+        .map((l) => JSON.stringify(l))
+        .join("\n"),
+    );
+
+    expect(exportAnthropicDataset(convertClaudeTranscriptToSession(lines))).toEqual([
+      {
+        messages: [
+          { role: "user", content: [{ type: "text", text: "hi" }] },
+          { role: "assistant", content: [{ type: "text", text: "Hello." }] },
+        ],
+      },
+    ]);
+  });
+});
+
+// ── serializeDatasetJSONL ────────────────────────────────────────
+
+describe("serializeDatasetJSONL", () => {
+  it("writes one sample per line", () => {
+    const jsonl = serializeDatasetJSONL(exportOpenAIDataset(session(ENTRIES)));
+    const lines = jsonl.split("\n");
+
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[1]).messages[0]).toEqual({ role: "user", content: "thanks" });
+  });
+});
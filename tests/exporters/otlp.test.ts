@@ -0,0 +1,318 @@
+import { describe, it, expect } from "vitest";
+import { EntryType, emptyTokenUsage, type AgentSession } from "../../src/types.js";
+import {
+  exportClaudeTranscriptSpans,
+  exportGeminiTranscriptSpans,
+  exportSessionSpans,
+  SpanKind,
+  StatusCode,
+  type OtlpSpan,
+  type OtlpTraceData,
+} from "../../src/exporters/index.js";
+import { parseFromString } from "../../src/parsers/claude/parse.js";
+
+// ── Helpers ──────────────────────────────────────────────────────
+
+function spansOf(data: OtlpTraceData): OtlpSpan[] {
+  return data.resourceSpans[0].scopeSpans[0].spans;
+}
+
+function attrs(span: OtlpSpan): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  for (const { key, value } of span.attributes) {
+    out[key] = value.stringValue ?? value.intValue ?? value.doubleValue ?? value.boolValue;
+  }
+  return out;
+}
+
+function children(spans: OtlpSpan[], parent: OtlpSpan): OtlpSpan[] {
+  return spans.filter((s) => s.parentSpanId === parent.spanId);
+}
+
+function jsonl(lines: object[]): string {
+  return lines.map((l) => JSON.stringify(l)).join("\n");
+}
+
+function usage(input: number, output: number, cacheRead = 0, cacheWrite = 0) {
+  return {
+    input_tokens: input,
+    output_tokens: output,
+    cache_read_input_tokens: cacheRead,
+    cache_creation_input_tokens: cacheWrite,
+  };
+}
+
+// ── Fixtures ─────────────────────────────────────────────────────
+
+const CLAUDE = jsonl([
+  { type: "user", uuid: "u1", sessionId: "sess-1", timestamp: "2025-01-01T10:00:00.000Z", message: { content: "spawn a helper" } },
+  {
+    type: "assistant",
+    uuid: "a1",
+    timestamp: "2025-01-01T10:00:02.000Z",
+    message: { id: "msg_1", model: "claude-sonnet-4-5", content: [{ type: "text", text: "Sure" }], usage: usage(10, 5, 100, 20) },
+  },
+  {
+    type: "assistant",
+    uuid: "a2",
+    timestamp: "2025-01-01T10:00:03.000Z",
+    message: {
+      id: "msg_1",
+      model: "claude-sonnet-4-5",
+      content: [{ type: "tool_use", id: "tu_task", name: "Task", input: { subagent_type: "Explore", prompt: "look" } }],
+      usage: usage(10, 40, 100, 20),
+    },
+  },
+  {
+    type: "user",
+    uuid: "u2",
+    timestamp: "2025-01-01T10:00:30.000Z",
+    message: { content: [{ type: "tool_result", tool_use_id: "tu_task", content: "done\nagentId: sub1" }] },
+  },
+  {
+    type: "assistant",
+    uuid: "a3",
+    timestamp: "2025-01-01T10:00:31.000Z",
+    message: {
+      id: "msg_2",
+      model: "claude-sonnet-4-5",
+      content: [{ type: "tool_use", id: "tu_bash", name: "Bash", input: { command: "false" } }],
+      usage: usage(3, 7),
+    },
+  },
+  {
+    type: "user",
+    uuid: "u3",
+    timestamp: "2025-01-01T10:00:32.000Z",
+    message: { content: [{ type: "tool_result", tool_use_id: "tu_bash", content: "exit 1", is_error: true }] },
+  },
+]);
+
+const SUBAGENT = jsonl([
+  { type: "user", uuid: "s1", timestamp: "2025-01-01T10:00:04.000Z", message: { content: "look" } },
+  {
+    type: "assistant",
+    uuid: "s2",
+    timestamp: "2025-01-01T10:00:20.000Z",
+    message: { id: "sub_msg", model: "claude-haiku-4-5", content: [{ type: "text", text: "found" }], usage: usage(50, 8) },
+  },
+]);
+
+// ── exportClaudeTranscriptSpans ──────────────────────────────────
+
+describe("exportClaudeTranscriptSpans", () => {
+  it("builds session, turn, chat and tool spans", () => {
+    const spans = spansOf(exportClaudeTranscriptSpans(parseFromString(CLAUDE)));
+    const [root] = spans;
+
+    expect(root.name).toBe("invoke_agent claude-code");
+    expect(root.parentSpanId).toBeUndefined();
+    expect(attrs(root)).toMatchObject({
+      "gen_ai.operation.name": "invoke_agent",
+      "gen_ai.conversation.id": "sess-1",
+      "gen_ai.provider.name": "anthropic",
+    });
+
+    const [turn] = children(spans, root);
+    expect(turn.name).toBe("turn");
+    expect(children(spans, turn).map((s) => s.name)).toEqual([
+      "chat claude-sonnet-4-5",
+      "execute_tool Task",
+      "chat claude-sonnet-4-5",
+      "execute_tool Bash",
+    ]);
+    expect(new Set(spans.map((s) => s.traceId)).size).toBe(1);
+  });
+
+  it("records gen_ai.usage attributes, deduplicated by message id", () => {
+    const spans = spansOf(exportClaudeTranscriptSpans(parseFromString(CLAUDE)));
+    const chat = spans.find((s) => attrs(s)["gen_ai.response.id"] === "msg_1")!;
+
+    expect(chat.kind).toBe(SpanKind.Client);
+    expect(attrs(chat)).toMatchObject({
+      "gen_ai.operation.name": "chat",
+      "gen_ai.request.model": "claude-sonnet-4-5",
+      "gen_ai.usage.input_tokens": "10",
+      "gen_ai.usage.output_tokens": "40",
+      "gen_ai.usage.cache_read.input_tokens": "100",
+      "gen_ai.usage.cache_creation.input_tokens": "20",
+    });
+    expect(attrs(spans[0])["gen_ai.usage.output_tokens"]).toBe("47");
+    expect(attrs(spans[1])["gen_ai.usage.output_tokens"]).toBe("47");
+  });
+
+  it("times spans from transcript timestamps", () => {
+    const spans = spansOf(exportClaudeTranscriptSpans(parseFromString(CLAUDE)));
+    const task = spans.find((s) => s.name === "execute_tool Task")!;
+    const chat = spans.find((s) => attrs(s)["gen_ai.response.id"] === "msg_1")!;
+
+    expect(task.startTimeUnixNano).toBe(String(Date.parse("2025-01-01T10:00:03.000Z") * 1_000_000));
+    expect(task.endTimeUnixNano).toBe(String(Date.parse("2025-01-01T10:00:30.000Z") * 1_000_000));
+    expect(chat.startTimeUnixNano).toBe(String(Date.parse("2025-01-01T10:00:00.000Z") * 1_000_000));
+    expect(spans[0].endTimeUnixNano).toBe(String(Date.parse("2025-01-01T10:00:32.000Z") * 1_000_000));
+  });
+
+  it("marks failed tool calls with an error status", () => {
+    const spans = spansOf(exportClaudeTranscriptSpans(parseFromString(CLAUDE)));
+    const bash = spans.find((s) => s.name === "execute_tool Bash")!;
+
+    expect(bash.status).toEqual({ code: StatusCode.Error, message: "exit 1" });
+    expect(attrs(bash)).toMatchObject({ "gen_ai.tool.name": "Bash", "gen_ai.tool.call.id": "tu_bash" });
+    expect(attrs(bash)["gen_ai.tool.call.arguments"]).toBeUndefined();
+  });
+
+  it("nests subagent runs under the spawning tool call", () => {
+    const spans = spansOf(
+      exportClaudeTranscriptSpans(parseFromString(CLAUDE), {
+        loadSubagentTranscript: (id) => (id === "sub1" ? SUBAGENT : null),
+      }),
+    );
+    const task = spans.find((s) => s.name === "execute_tool Task")!;
+    const [subagent] = children(spans, task);
+
+    expect(subagent.name).toBe("invoke_agent Explore");
+    expect(attrs(subagent)).toMatchObject({
+      "gen_ai.agent.id": "sub1",
+      "gen_ai.usage.input_tokens": "50",
+      "gen_ai.usage.output_tokens": "8",
+    });
+
+    const [subTurn] = children(spans, subagent);
+    expect(children(spans, subTurn).map((s) => s.name)).toEqual(["chat claude-haiku-4-5"]);
+  });
+
+  it("includes content and custom resource attributes when asked", () => {
+    const data = exportClaudeTranscriptSpans(parseFromString(CLAUDE), {
+      includeContent: true,
+      serviceName: "my-agent",
+      resourceAttributes: { "deployment.environment": "ci" },
+      traceId: "0123456789abcdef0123456789abcdef",
+    });
+    const spans = spansOf(data);
+
+    expect(data.resourceSpans[0].resource.attributes).toEqual([
+      { key: "service.name", value: { stringValue: "my-agent" } },
+      { key: "deployment.environment", value: { stringValue: "ci" } },
+    ]);
+    expect(spans[0].traceId).toBe("0123456789abcdef0123456789abcdef");
+    expect(attrs(spans[1])["agent_session.turn.prompt"]).toBe("spawn a helper");
+    expect(attrs(spans.find((s) => s.name === "execute_tool Bash")!)["gen_ai.tool.call.arguments"]).toBe(
+      '{"command":"false"}',
+    );
+  });
+
+  it("derives a stable trace ID from the session ID", () => {
+    const a = spansOf(exportClaudeTranscriptSpans(parseFromString(CLAUDE)));
+    const b = spansOf(exportClaudeTranscriptSpans(parseFromString(CLAUDE)));
+
+    expect(a[0].traceId).toMatch(/^[0-9a-f]{32}$/);
+    expect(a[0].traceId).toBe(b[0].traceId);
+    expect(a.every((s) => /^[0-9a-f]{16}$/.test(s.spanId))).toBe(true);
+  });
+});
+
+// ── exportGeminiTranscriptSpans ──────────────────────────────────
+
+describe("exportGeminiTranscriptSpans", () => {
+  it("builds spans from gemini messages and tool calls", () => {
+    const spans = spansOf(
+      exportGeminiTranscriptSpans({
+        sessionId: "gem-1",
+        startTime: "2025-02-01T09:00:00.000Z",
+        messages: [
+          { type: "user", content: "hi", timestamp: "2025-02-01T09:00:01.000Z" },
+          {
+            id: "g1",
+            type: "gemini",
+            content: "",
+            model: "gemini-2.5-pro",
+            timestamp: "2025-02-01T09:00:05.000Z",
+            tokens: { input: 100, output: 20, cached: 60, thoughts: 0, tool: 0, total: 180 },
+            toolCalls: [
+              { id: "rs-1", name: "run_shell_command", args: {}, status: "error", timestamp: "2025-02-01T09:00:06.000Z" },
+            ],
+          },
+        ],
+      }),
+    );
+    const [root, turn, chat, tool] = spans;
+
+    expect(root.name).toBe("invoke_agent gemini");
+    expect(attrs(root)).toMatchObject({ "gen_ai.provider.name": "gcp.gemini", "gen_ai.conversation.id": "gem-1" });
+    expect(turn.parentSpanId).toBe(root.spanId);
+    expect(attrs(turn)["gen_ai.usage.input_tokens"]).toBe("40");
+    expect(chat.name).toBe("chat gemini-2.5-pro");
+    expect(attrs(chat)).toMatchObject({
+      "gen_ai.usage.output_tokens": "20",
+      "gen_ai.usage.cache_read.input_tokens": "60",
+    });
+    expect(chat.startTimeUnixNano).toBe(String(Date.parse("2025-02-01T09:00:01.000Z") * 1_000_000));
+    expect(tool.name).toBe("execute_tool run_shell_command");
+    expect(tool.status).toEqual({ code: StatusCode.Error, message: "Tool call failed" });
+    expect(root.startTimeUnixNano).toBe(String(Date.parse("2025-02-01T09:00:00.000Z") * 1_000_000));
+  });
+
+  it("reports input tokens without cached tokens, as for Claude", () => {
+    const spans = spansOf(
+      exportGeminiTranscriptSpans({
+        messages: [
+          { type: "user", content: "hi" },
+          { type: "gemini", content: "a", tokens: { input: 100, output: 5, cached: 60, thoughts: 0, tool: 0, total: 105 } },
+          { type: "gemini", content: "b", tokens: { input: 50, output: 5, cached: 0, thoughts: 0, tool: 0, total: 55 } },
+        ],
+      }),
+    );
+    const claude = spansOf(exportClaudeTranscriptSpans(parseFromString(CLAUDE)));
+    const claudeChat = claude.find((s) => attrs(s)["gen_ai.response.id"] === "msg_1")!;
+
+    expect(attrs(spans[0])).toMatchObject({
+      "gen_ai.usage.input_tokens": "90",
+      "gen_ai.usage.cache_read.input_tokens": "60",
+    });
+    expect(spans.filter((s) => s.name.startsWith("chat")).map((s) => attrs(s)["gen_ai.usage.input_tokens"])).toEqual([
+      "40",
+      "50",
+    ]);
+    expect(attrs(claudeChat)["gen_ai.usage.input_tokens"]).toBe("10");
+    expect(attrs(claudeChat)["gen_ai.usage.cache_read.input_tokens"]).toBe("100");
+  });
+});
+
+// ── exportSessionSpans ───────────────────────────────────────────
+
+describe("exportSessionSpans", () => {
+  const session: AgentSession = {
+    sessionId: "acp-1",
+    agentName: "claude-code",
+    sessionRef: "acp-1",
+    modifiedFiles: [],
+    entries: [
+      { uuid: "u1", type: EntryType.User, content: "go", timestamp: new Date("2025-01-01T00:00:00.000Z") },
+      { uuid: "t1", type: EntryType.Tool, content: "", toolName: "Read", timestamp: new Date("2025-01-01T00:00:01.000Z") },
+      { uuid: "a1", type: EntryType.Assistant, content: "ok", timestamp: new Date("2025-01-01T00:00:02.000Z") },
+    ],
+  };
+
+  it("builds turn and tool spans", () => {
+    const spans = spansOf(exportSessionSpans(session));
+
+    expect(spans.map((s) => s.name)).toEqual(["invoke_agent claude-code", "turn", "execute_tool Read"]);
+    expect(spans[1].endTimeUnixNano).toBe(String(Date.parse("2025-01-01T00:00:02.000Z") * 1_000_000));
+  });
+
+  it("exports subagentTokens as a nested span", () => {
+    const tokenUsage = { ...emptyTokenUsage(), inputTokens: 5, outputTokens: 2, apiCallCount: 1 };
+    tokenUsage.subagentTokens = { ...emptyTokenUsage(), inputTokens: 30, outputTokens: 4, apiCallCount: 2 };
+
+    const spans = spansOf(exportSessionSpans(session, { tokenUsage, providerName: "anthropic" }));
+    const root = spans[0];
+    const subagents = spans.find((s) => s.name === "invoke_agent subagents")!;
+
+    expect(attrs(root)["gen_ai.usage.input_tokens"]).toBe("5");
+    expect(subagents.parentSpanId).toBe(root.spanId);
+    expect(attrs(subagents)).toMatchObject({
+      "gen_ai.usage.input_tokens": "30",
+      "gen_ai.provider.name": "anthropic",
+    });
+  });
+});
@@ -0,0 +1,65 @@
+// Transcript fixtures shared by the token usage, cost and analysis tests.
+
+import type { TranscriptLine } from "../src/parsers/claude/types.js";
+import type { GeminiMessage } from "../src/parsers/gemini/types.js";
+
+/** One million, the unit of model prices. */
+export const M = 1_000_000;
+
+/** Token counts and metadata of a fixture API call. */
+export interface CallFixture {
+  /** Claude message.id (Claude only) */
+  id?: string;
+  model?: string;
+  /** ISO timestamp */
+  timestamp?: string;
+  input?: number;
+  output?: number;
+  /** Claude cache_creation_input_tokens */
+  cacheWrite?: number;
+  /** Claude cache_read_input_tokens, Gemini cached (counted in input) */
+  cacheRead?: number;
+  /** Gemini thoughts tokens */
+  thoughts?: number;
+  /** Gemini tool-use prompt tokens */
+  tool?: number;
+}
+
+/** A Claude Code user line. */
+export function userLine(uuid: string, content: unknown): TranscriptLine {
+  return { type: "user", uuid, message: { content } };
+}
+
+/** A Claude Code assistant line reporting the usage of one API call (model defaults to claude-sonnet-4-5). */
+export function claudeCall(uuid: string, call: CallFixture): TranscriptLine {
+  return {
+    type: "assistant",
+    uuid,
+    timestamp: call.timestamp,
+    message: {
+      id: call.id,
+      model: call.model ?? "claude-sonnet-4-5",
+      content: [],
+      usage: {
+        input_tokens: call.input ?? 0,
+        output_tokens: call.output ?? 0,
+        cache_creation_input_tokens: call.cacheWrite ?? 0,
+        cache_read_input_tokens: call.cacheRead ?? 0,
+      },
+    },
+  };
+}
+
+/** A Gemini CLI reply with token counts (no model unless given). */
+export function geminiReply(call: CallFixture): GeminiMessage {
+  const tokens = {
+    input: call.input ?? 0,
+    output: call.output ?? 0,
+    cached: call.cacheRead ?? 0,
+    thoughts: call.thoughts ?? 0,
+    tool: call.tool ?? 0,
+    total: 0,
+  };
+  tokens.total = tokens.input + tokens.output + tokens.thoughts + tokens.tool;
+  return { type: "gemini", content: "ok", model: call.model, timestamp: call.timestamp, tokens };
+}
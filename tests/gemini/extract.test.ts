@@ -4,8 +4,14 @@ import {
   extractLastUserPrompt,
   extractAllUserPrompts,
   extractLastAssistantMessage,
+  extractAllPromptResponses,
   getLastMessageId,
   calculateTokenUsage,
+  calculateTokenUsageByModel,
+  calculateTokenUsageStream,
+  extractTokenTimeline,
+  extractTurnTokenUsage,
+  extractModifiedFilesStream,
 } from "../../src/parsers/gemini/extract.js";
 import type { GeminiTranscript } from "../../src/parsers/gemini/types.js";
 
@@ -13,6 +19,10 @@ function makeTranscript(messages: GeminiTranscript["messages"]): GeminiTranscrip
   return { messages };
 }
 
+async function* streamOf(transcript: GeminiTranscript) {
+  yield* transcript.messages;
+}
+
 describe("extractModifiedFiles", () => {
   it("extracts files from write_file tool calls", () => {
     const transcript = makeTranscript([
@@ -140,6 +150,27 @@ describe("extractLastAssistantMessage", () => {
   });
 });
 
+describe("extractAllPromptResponses", () => {
+  it("pairs prompts with responses and files", () => {
+    const transcript = makeTranscript([
+      { id: "u1", type: "user", content: "write a file" },
+      {
+        id: "a1",
+        type: "gemini",
+        content: "Writing it.",
+        toolCalls: [{ id: "tc1", name: "write_file", args: { file_path: "/a.ts" } }],
+      },
+      { id: "u2", type: "user", content: "thanks" },
+      { id: "a2", type: "gemini", content: "Welcome." },
+    ]);
+
+    expect(extractAllPromptResponses(transcript)).toEqual([
+      { prompt: "write a file", responses: ["Writing it."], files: ["/a.ts"] },
+      { prompt: "thanks", responses: ["Welcome."], files: [] },
+    ]);
+  });
+});
+
 describe("getLastMessageId", () => {
   it("returns the ID of the last message", () => {
     const transcript = makeTranscript([
@@ -222,3 +253,106 @@ describe("calculateTokenUsage", () => {
     expect(usage.apiCallCount).toBe(0);
   });
 });
+
+describe("stream extractors", () => {
+  const transcript = makeTranscript([
+    { id: "u1", type: "user", content: "edit files" },
+    {
+      id: "a1",
+      type: "gemini",
+      content: "",
+      toolCalls: [
+        { id: "t1", name: "write_file", args: { file_path: "a.ts" } },
+        { id: "t2", name: "read_file", args: { file_path: "b.ts" } },
+      ],
+      tokens: { input: 100, output: 50, cached: 5, thoughts: 0, tool: 0, total: 155 },
+    },
+    {
+      id: "a2",
+      type: "gemini",
+      content: "",
+      toolCalls: [
+        { id: "t3", name: "replace", args: { file_path: "a.ts" } },
+        { id: "t4", name: "replace", args: { path: "c.ts" } },
+      ],
+      tokens: { input: 200, output: 100, cached: 10, thoughts: 0, tool: 0, total: 310 },
+    },
+  ]);
+
+  it("calculateTokenUsageStream matches calculateTokenUsage", async () => {
+    expect(await calculateTokenUsageStream(streamOf(transcript))).toEqual(calculateTokenUsage(transcript));
+    expect(await calculateTokenUsageStream(streamOf(transcript), 2)).toEqual(calculateTokenUsage(transcript, 2));
+  });
+
+  it("extractModifiedFilesStream matches extractModifiedFiles", async () => {
+    expect(await extractModifiedFilesStream(streamOf(transcript))).toEqual(["a.ts", "c.ts"]);
+    expect(await extractModifiedFilesStream(streamOf(transcript))).toEqual(extractModifiedFiles(transcript));
+  });
+});
+
+describe("calculateTokenUsageByModel", () => {
+  it("groups usage by message model", () => {
+    const tokens = (input: number) => ({ input, output: 1, cached: 2, thoughts: 0, tool: 0, total: input + 1 });
+    const transcript = makeTranscript([
+      { id: "u1", type: "user", content: "hi", tokens: tokens(1000) },
+      { id: "a1", type: "gemini", content: "", model: "gemini-2.5-pro", tokens: tokens(100) },
+      { id: "a2", type: "gemini", content: "", model: "gemini-2.5-flash", tokens: tokens(10) },
+      { id: "a3", type: "gemini", content: "", model: "gemini-2.5-pro", tokens: tokens(200) },
+      { id: "a4", type: "gemini", content: "", tokens: tokens(1) },
+    ]);
+
+    const usage = calculateTokenUsageByModel(transcript);
+    expect(Object.keys(usage)).toEqual(["gemini-2.5-pro", "gemini-2.5-flash", "unknown"]);
+    expect(usage["gemini-2.5-pro"]).toEqual({
+      inputTokens: 300,
+      cacheCreationTokens: 0,
+      cacheReadTokens: 4,
+      outputTokens: 2,
+      apiCallCount: 2,
+    });
+    expect(calculateTokenUsageByModel(transcript, 3)).toEqual({
+      "gemini-2.5-pro": expect.objectContaining({ inputTokens: 200 }),
+      unknown: expect.objectContaining({ inputTokens: 1 }),
+    });
+  });
+});
+
+describe("extractTokenTimeline", () => {
+  const tokens = (input: number, output: number) => ({ input, output, cached: 5, thoughts: 0, tool: 0, total: input + output });
+  const transcript = makeTranscript([
+    { id: "a0", type: "gemini", content: "", model: "gemini-2.5-pro", tokens: tokens(1, 1) },
+    { id: "u1", type: "user", content: "first", timestamp: "2026-01-01T00:00:00Z" },
+    { id: "a1", type: "gemini", content: "", model: "gemini-2.5-pro", timestamp: "2026-01-01T00:00:01Z", tokens: tokens(100, 10) },
+    { type: "gemini", content: "", tokens: tokens(200, 20) },
+    { id: "a3", type: "gemini", content: "no tokens" },
+    { id: "u2", type: "user", content: "second" },
+    { id: "a4", type: "gemini", content: "", model: "gemini-2.5-flash", tokens: tokens(300, 30) },
+  ]);
+
+  it("returns one record per gemini message with tokens", () => {
+    const calls = extractTokenTimeline(transcript);
+    expect(calls.map((c) => [c.messageId, c.model, c.turnIndex, c.usage.inputTokens])).toEqual([
+      ["a0", "gemini-2.5-pro", -1, 1],
+      ["a1", "gemini-2.5-pro", 0, 100],
+      ["message_3", "unknown", 0, 200],
+      ["a4", "gemini-2.5-flash", 1, 300],
+    ]);
+    expect(calls[1].timestamp).toEqual(new Date("2026-01-01T00:00:01Z"));
+    expect(calls[1].usage).toEqual({
+      inputTokens: 100,
+      cacheCreationTokens: 0,
+      cacheReadTokens: 5,
+      outputTokens: 10,
+      apiCallCount: 1,
+    });
+  });
+
+  it("rolls calls up per turn, aligned with extractAllPromptResponses", () => {
+    const turns = extractTurnTokenUsage(transcript);
+    expect(turns.map((t) => t.prompt)).toEqual(extractAllPromptResponses(transcript).map((p) => p.prompt));
+    expect(turns.map((t) => [t.usage.inputTokens, t.usage.outputTokens, t.usage.cacheReadTokens, t.usage.apiCallCount])).toEqual([
+      [300, 30, 10, 2],
+      [300, 30, 5, 1],
+    ]);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect } from "vitest";
+import { parseHookEvent } from "../../src/parsers/gemini/hooks.js";
+import { EventType } from "../../src/types.js";
+
+// ── Fixtures ──────────────────────────────────────────────────────
+
+const session = {
+  session_id: "s1",
+  transcript_path: "/tmp/session-s1.json",
+  cwd: "/repo",
+  timestamp: "2026-01-01T10:00:00.000Z",
+};
+
+function payload(hookName: string, fields: Record<string, unknown> = {}): string {
+  return JSON.stringify({ ...session, hook_event_name: hookName, ...fields });
+}
+
+// ── parseHookEvent ──────────────────────────────────────────────
+
+describe("parseHookEvent", () => {
+  it("maps SessionStart with its timestamp and metadata", () => {
+    const event = parseHookEvent("SessionStart", payload("SessionStart", { source: "resume" }));
+    expect(event).toEqual({
+      type: EventType.SessionStart,
+      sessionId: "s1",
+      sessionRef: "/tmp/session-s1.json",
+      timestamp: new Date("2026-01-01T10:00:00.000Z"),
+      metadata: { timestamp: "2026-01-01T10:00:00.000Z", cwd: "/repo", source: "resume" },
+    });
+  });
+
+  it("maps BeforeAgent to TurnStart with the prompt", () => {
+    const event = parseHookEvent("BeforeAgent", payload("BeforeAgent", { prompt: "add tests" }));
+    expect(event.type).toBe(EventType.TurnStart);
+    expect(event.prompt).toBe("add tests");
+  });
+
+  it("maps AfterAgent to TurnEnd with the response", () => {
+    const event = parseHookEvent("AfterAgent", payload("AfterAgent", { prompt: "add tests", prompt_response: "Done." }));
+    expect(event.type).toBe(EventType.TurnEnd);
+    expect(event.responseMessage).toBe("Done.");
+  });
+
+  it("maps BeforeTool and AfterTool of subagent tools to subagent events", () => {
+    const fields = { tool_name: "codebase_investigator", tool_input: { objective: "map the parser" } };
+    const start = parseHookEvent("BeforeTool", payload("BeforeTool", fields));
+    expect(start.type).toBe(EventType.SubagentStart);
+    expect(start.toolName).toBe("codebase_investigator");
+    expect(start.toolInput).toEqual({ objective: "map the parser" });
+    expect(start.metadata?.tool_name).toBe("codebase_investigator");
+
+    const end = parseHookEvent("AfterTool", payload("AfterTool", { ...fields, tool_response: { llmContent: "ok" } }));
+    expect(end.type).toBe(EventType.SubagentEnd);
+    expect(end.toolUseId).toBe(start.toolUseId);
+  });
+
+  it("maps other tools to tool events", () => {
+    const fields = { tool_name: "read_file", tool_input: { absolute_path: "/repo/a.ts" } };
+    const start = parseHookEvent("BeforeTool", payload("BeforeTool", fields));
+    const end = parseHookEvent("AfterTool", payload("AfterTool", { ...fields, tool_response: { llmContent: "..." } }));
+
+    expect(start).toMatchObject({ type: EventType.ToolStart, toolName: "read_file" });
+    expect(end).toMatchObject({ type: EventType.ToolEnd, toolName: "read_file" });
+    expect(start.toolUseId).toMatch(/^read_file-[0-9a-f]{8}$/);
+    expect(end.toolUseId).toBe(start.toolUseId);
+  });
+
+  it("gives calls with different input different IDs", () => {
+    const call = (path: string) =>
+      parseHookEvent("BeforeTool", payload("BeforeTool", { tool_name: "read_file", tool_input: { absolute_path: path } }));
+    expect(call("/a").toolUseId).not.toBe(call("/b").toolUseId);
+  });
+
+  it("maps PreCompress and SessionEnd", () => {
+    expect(parseHookEvent("PreCompress", payload("PreCompress", { trigger: "auto" }))).toMatchObject({
+      type: EventType.Compaction,
+      metadata: { trigger: "auto" },
+    });
+    expect(parseHookEvent("SessionEnd", payload("SessionEnd", { reason: "exit" }))).toMatchObject({
+      type: EventType.SessionEnd,
+      metadata: { reason: "exit" },
+    });
+  });
+
+  it("falls back to the given time when the payload has no timestamp", () => {
+    const now = new Date("2026-02-01T00:00:00Z");
+    const stdin = JSON.stringify({ session_id: "s1", transcript_path: "/t" });
+    expect(parseHookEvent("SessionEnd", stdin, now).timestamp).toEqual(now);
+  });
+
+  it("rejects unknown hook names", () => {
+    expect(() => parseHookEvent("Stop", payload("Stop"))).toThrow(/Unknown Gemini CLI hook "Stop"/);
+  });
+
+  it("rejects malformed payloads", () => {
+    expect(() => parseHookEvent("SessionStart", "")).toThrow("Invalid Gemini CLI SessionStart hook input: not valid JSON");
+    expect(() => parseHookEvent("SessionStart", "null")).toThrow("expected a JSON object");
+    expect(() => parseHookEvent("SessionStart", JSON.stringify({ transcript_path: "/t" }))).toThrow('"session_id"');
+    expect(() => parseHookEvent("SessionStart", payload("SessionStart", { timestamp: "yesterday" }))).toThrow(
+      '"timestamp" is not a valid date'
+    );
+    expect(() => parseHookEvent("BeforeAgent", payload("BeforeAgent"))).toThrow('"prompt" must be a string');
+    expect(() => parseHookEvent("AfterAgent", payload("AfterAgent", { prompt_response: 1 }))).toThrow(
+      '"prompt_response" must be a string'
+    );
+    expect(() => parseHookEvent("BeforeTool", payload("BeforeTool"))).toThrow('"tool_name"');
+  });
+});
@@ -1,6 +1,8 @@
 import { describe, it, expect } from "vitest";
+import { Readable } from "node:stream";
 import {
   parseTranscript,
+  parseMessageStream,
   sliceFromMessage,
   serializeTranscript,
 } from "../../src/parsers/gemini/parse.js";
@@ -66,6 +68,26 @@ describe("parseTranscript", () => {
     expect(transcript.messages[0].toolCalls).toHaveLength(1);
     expect(transcript.messages[0].toolCalls![0].name).toBe("write_file");
   });
+
+  it("keeps session metadata and message timestamps", () => {
+    const data = JSON.stringify({
+      sessionId: "s1",
+      projectHash: "hash",
+      startTime: "2025-01-01T00:00:00.000Z",
+      lastUpdated: "2025-01-01T00:01:00.000Z",
+      messages: [
+        { id: "a1", type: "gemini", content: "hi", timestamp: "2025-01-01T00:00:30.000Z", model: "gemini-2.5-pro" },
+      ],
+    });
+
+    const transcript = parseTranscript(data);
+    expect(transcript.sessionId).toBe("s1");
+    expect(transcript.projectHash).toBe("hash");
+    expect(transcript.startTime).toBe("2025-01-01T00:00:00.000Z");
+    expect(transcript.lastUpdated).toBe("2025-01-01T00:01:00.000Z");
+    expect(transcript.messages[0].timestamp).toBe("2025-01-01T00:00:30.000Z");
+    expect(transcript.messages[0].model).toBe("gemini-2.5-pro");
+  });
 });
 
 describe("sliceFromMessage", () => {
@@ -106,3 +128,68 @@ describe("serializeTranscript", () => {
     expect(JSON.parse(result)).toEqual(transcript);
   });
 });
+
+describe("parseMessageStream", () => {
+  const content = JSON.stringify(
+    {
+      sessionId: "s1",
+      messages: [
+        { id: "u1", type: "user", content: [{ text: "héllo ✓" }, { text: 'quote " and \\ brace } ]' }] },
+        {
+          id: "a1",
+          type: "gemini",
+          content: "{not json}",
+          toolCalls: [{ id: "t1", name: "write_file", args: { file_path: "a[1].ts", nested: { messages: [1] } } }],
+          tokens: { input: 10, output: 5, cached: 2, thoughts: 0, tool: 0, total: 15 },
+        },
+      ],
+      lastUpdated: "2026-01-01T00:00:00Z",
+    },
+    null,
+    2
+  );
+
+  async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+    const items: T[] = [];
+    for await (const item of iterable) items.push(item);
+    return items;
+  }
+
+  async function* chunks(text: string, size: number): AsyncGenerator<Uint8Array> {
+    const bytes = new TextEncoder().encode(text);
+    for (let i = 0; i < bytes.length; i += size) yield bytes.subarray(i, i + size);
+  }
+
+  it("yields the same messages as parseTranscript", async () => {
+    const messages = await collect(parseMessageStream(chunks(content, 5)));
+    expect(messages).toEqual(parseTranscript(content).messages);
+  });
+
+  it("handles every split point, including inside multi-byte characters", async () => {
+    const expected = parseTranscript(content).messages;
+    for (const size of [1, 2, 3, 17]) {
+      expect(await collect(parseMessageStream(chunks(content, size)))).toEqual(expected);
+    }
+  });
+
+  it("ignores arrays named messages below the top level", async () => {
+    const nested = JSON.stringify({ meta: { messages: [{ id: "x" }] }, messages: [{ id: "u1", type: "user", content: "hi" }] });
+    const messages = await collect(parseMessageStream(chunks(nested, 4)));
+    expect(messages.map((m) => m.id)).toEqual(["u1"]);
+  });
+
+  it("reads Node streams", async () => {
+    const messages = await collect(parseMessageStream(Readable.from([Buffer.from(content)])));
+    expect(messages).toHaveLength(2);
+  });
+
+  it("yields nothing for a transcript without messages", async () => {
+    expect(await collect(parseMessageStream(chunks("{}", 1)))).toEqual([]);
+  });
+
+  it("throws on truncated input", async () => {
+    await expect(collect(parseMessageStream(chunks(content.slice(0, -20), 8)))).rejects.toThrow(
+      "ended unexpectedly"
+    );
+  });
+});
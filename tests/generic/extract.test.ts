@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import {
+  extractToolCalls,
+  extractModifiedFiles,
+  extractLastUserPrompt,
+  extractAllUserPrompts,
+  extractAssistantResponses,
+  extractAllPromptResponses,
+  calculateTokenUsage,
+} from "../../src/parsers/generic/extract.js";
+import type { GenericTranscript } from "../../src/parsers/generic/types.js";
+
+const transcript: GenericTranscript = {
+  format: "openai",
+  messages: [
+    { role: "system", content: "sys" },
+    { role: "user", content: "make files" },
+    {
+      role: "assistant",
+      content: "Creating.",
+      id: "r1",
+      toolCalls: [
+        { id: "c1", name: "write_file", input: { path: "a.ts" } },
+        { id: "c2", name: "save_note", input: { filename: "notes.md" } },
+        { id: "c3", name: "read_file", input: { path: "b.ts" } },
+      ],
+      usage: { inputTokens: 10, cacheCreationTokens: 0, cacheReadTokens: 0, outputTokens: 5 },
+    },
+    { role: "tool", content: "ok", toolCallId: "c1" },
+    { role: "tool", content: "denied", toolCallId: "c2", isError: true },
+    {
+      role: "assistant",
+      content: "Creating.",
+      id: "r1",
+      usage: { inputTokens: 10, cacheCreationTokens: 0, cacheReadTokens: 0, outputTokens: 9 },
+    },
+    { role: "user", content: "thanks" },
+    {
+      role: "assistant",
+      content: "Welcome.",
+      usage: { inputTokens: 3, cacheCreationTokens: 1, cacheReadTokens: 2, outputTokens: 1 },
+    },
+  ],
+};
+
+describe("extractToolCalls", () => {
+  it("pairs calls with their results", () => {
+    const calls = extractToolCalls(transcript);
+    expect(calls).toHaveLength(3);
+    expect(calls[0]).toMatchObject({ name: "write_file", result: "ok" });
+    expect(calls[1]).toMatchObject({ name: "save_note", result: "denied", isError: true });
+    expect(calls[2].result).toBeUndefined();
+  });
+});
+
+describe("extractModifiedFiles", () => {
+  it("uses the default file-writing tools", () => {
+    expect(extractModifiedFiles(transcript)).toEqual(["a.ts"]);
+  });
+
+  it("accepts a custom tool list", () => {
+    expect(extractModifiedFiles(transcript, ["write_file", "save_note"])).toEqual(["a.ts", "notes.md"]);
+  });
+});
+
+describe("prompts and responses", () => {
+  it("extracts user prompts", () => {
+    expect(extractAllUserPrompts(transcript)).toEqual(["make files", "thanks"]);
+    expect(extractLastUserPrompt(transcript)).toBe("thanks");
+  });
+
+  it("extracts assistant responses", () => {
+    expect(extractAssistantResponses(transcript)).toEqual(["Creating.", "Creating.", "Welcome."]);
+  });
+
+  it("pairs prompts with responses and files", () => {
+    const pairs = extractAllPromptResponses(transcript);
+    expect(pairs).toHaveLength(2);
+    expect(pairs[0].files).toEqual(["a.ts"]);
+    expect(pairs[1]).toEqual({ prompt: "thanks", responses: ["Welcome."], files: [] });
+  });
+});
+
+describe("calculateTokenUsage", () => {
+  it("dedupes by message ID and counts anonymous messages", () => {
+    const usage = calculateTokenUsage(transcript);
+    expect(usage.apiCallCount).toBe(2);
+    expect(usage.inputTokens).toBe(13);
+    expect(usage.outputTokens).toBe(10);
+    expect(usage.cacheCreationTokens).toBe(1);
+    expect(usage.cacheReadTokens).toBe(2);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect } from "vitest";
+import {
+  detectMessageFormat,
+  parseMessages,
+  parseTranscript,
+} from "../../src/parsers/generic/parse.js";
+
+const openaiMessages = [
+  { role: "system", content: "You are helpful." },
+  { role: "user", content: "write a.ts" },
+  {
+    role: "assistant",
+    content: null,
+    tool_calls: [
+      { id: "call_1", type: "function", function: { name: "write_file", arguments: '{"path":"a.ts"}' } },
+    ],
+    usage: { prompt_tokens: 100, completion_tokens: 20, prompt_tokens_details: { cached_tokens: 60 } },
+  },
+  { role: "tool", tool_call_id: "call_1", content: "ok" },
+];
+
+const anthropicMessages = [
+  { role: "user", content: "write a.ts" },
+  {
+    role: "assistant",
+    id: "msg_1",
+    content: [
+      { type: "text", text: "Writing." },
+      { type: "tool_use", id: "tu_1", name: "Write", input: { file_path: "a.ts" } },
+    ],
+    usage: { input_tokens: 10, output_tokens: 5, cache_creation_input_tokens: 3, cache_read_input_tokens: 7 },
+  },
+  {
+    role: "user",
+    content: [
+      { type: "tool_result", tool_use_id: "tu_1", content: [{ type: "text", text: "done" }], is_error: true },
+      { type: "text", text: "now test it" },
+    ],
+  },
+];
+
+describe("detectMessageFormat", () => {
+  it("detects OpenAI messages", () => {
+    expect(detectMessageFormat(openaiMessages)).toBe("openai");
+  });
+
+  it("detects Anthropic messages", () => {
+    expect(detectMessageFormat(anthropicMessages)).toBe("anthropic");
+  });
+
+  it("defaults to OpenAI for plain text chat", () => {
+    expect(detectMessageFormat([{ role: "user", content: "hi" }])).toBe("openai");
+  });
+});
+
+describe("parseMessages", () => {
+  it("normalizes OpenAI tool calls and usage", () => {
+    const transcript = parseMessages(openaiMessages);
+    expect(transcript.format).toBe("openai");
+
+    const assistant = transcript.messages[2];
+    expect(assistant.content).toBe("");
+    expect(assistant.toolCalls).toEqual([{ id: "call_1", name: "write_file", input: { path: "a.ts" } }]);
+    expect(assistant.usage).toEqual({
+      inputTokens: 40,
+      cacheCreationTokens: 0,
+      cacheReadTokens: 60,
+      outputTokens: 20,
+    });
+    expect(transcript.messages[3]).toEqual({ role: "tool", content: "ok", toolCallId: "call_1" });
+  });
+
+  it("keeps unparsable tool arguments as a raw string", () => {
+    const transcript = parseMessages([
+      { role: "assistant", content: null, tool_calls: [{ id: "c", type: "function", function: { name: "f", arguments: "{oops" } }] },
+    ]);
+    expect(transcript.messages[0].toolCalls![0].input).toBe("{oops");
+  });
+
+  it("splits Anthropic tool results into tool messages", () => {
+    const transcript = parseMessages(anthropicMessages);
+    expect(transcript.format).toBe("anthropic");
+    expect(transcript.messages.map((m) => m.role)).toEqual(["user", "assistant", "tool", "user"]);
+    expect(transcript.messages[2]).toEqual({ role: "tool", content: "done", toolCallId: "tu_1", isError: true });
+    expect(transcript.messages[3].content).toBe("now test it");
+  });
+
+  it("accepts a request body with a top-level system prompt", () => {
+    const transcript = parseMessages({ system: "Be brief.", messages: [{ role: "user", content: "hi" }] });
+    expect(transcript.format).toBe("anthropic");
+    expect(transcript.messages[0]).toEqual({ role: "system", content: "Be brief." });
+  });
+
+  it("honors an explicit format", () => {
+    expect(parseMessages([{ role: "user", content: "hi" }], "anthropic").format).toBe("anthropic");
+  });
+});
+
+describe("parseTranscript", () => {
+  it("parses a JSON document", () => {
+    expect(parseTranscript(JSON.stringify(openaiMessages)).messages).toHaveLength(4);
+  });
+
+  it("parses JSONL with one message per line", () => {
+    const data = openaiMessages.map((m) => JSON.stringify(m)).join("\n") + "\nnot json\n";
+    const transcript = parseTranscript(data);
+    expect(transcript.format).toBe("openai");
+    expect(transcript.messages).toHaveLength(4);
+  });
+});
@@ -0,0 +1,255 @@
+import { describe, it, expect } from "vitest";
+import {
+  emptyLifecycleState,
+  reduceLifecycle,
+  reduceLifecycleEvents,
+  turnSummaries,
+  sessionChain,
+} from "../../src/lifecycle/reducer.js";
+import { LifecycleIssueCode, TurnStatus } from "../../src/lifecycle/types.js";
+import { EventType, type Event } from "../../src/types.js";
+
+// ── Fixtures ──────────────────────────────────────────────────────
+
+let clock = 0;
+
+function event(type: EventType, fields: Partial<Event> = {}): Event {
+  clock++;
+  return {
+    type,
+    sessionId: "s1",
+    sessionRef: "/tmp/s1.jsonl",
+    timestamp: new Date(Date.UTC(2026, 0, 1, 0, 0, clock)),
+    ...fields,
+  };
+}
+
+// ── reduceLifecycle ──────────────────────────────────────────────
+
+describe("reduceLifecycle", () => {
+  it("tracks a session through turns and subagents", () => {
+    const state = reduceLifecycleEvents([
+      event(EventType.SessionStart),
+      event(EventType.TurnStart, { prompt: "investigate" }),
+      event(EventType.SubagentStart, { toolUseId: "t1", toolInput: { prompt: "search" } }),
+      event(EventType.SubagentStart, { toolUseId: "t2" }),
+      event(EventType.SubagentEnd, { toolUseId: "t2", subagentId: "agent-2" }),
+    ]);
+
+    expect(state.activeSessionId).toBe("s1");
+    expect(state.currentTurn?.prompt).toBe("investigate");
+    expect(Object.keys(state.openSubagents)).toEqual(["t1"]);
+    expect(state.currentTurn?.subagents).toEqual([
+      expect.objectContaining({ toolUseId: "t2", subagentId: "agent-2" }),
+    ]);
+
+    const ended = reduceLifecycleEvents(
+      [event(EventType.SubagentEnd, { toolUseId: "t1", subagentId: "agent-1" }), event(EventType.TurnEnd)],
+      state
+    );
+    expect(ended.currentTurn).toBeUndefined();
+    expect(ended.openSubagents).toEqual({});
+    expect(ended.turns).toHaveLength(1);
+    expect(ended.turns[0].status).toBe(TurnStatus.Completed);
+    expect(ended.turns[0].subagents.map((s) => s.subagentId)).toEqual(["agent-2", "agent-1"]);
+    expect(ended.sessions.s1.turnCount).toBe(1);
+    expect(ended.issues).toEqual([]);
+  });
+
+  it("does not modify the input state", () => {
+    const start = reduceLifecycle(emptyLifecycleState(), event(EventType.SessionStart));
+    const snapshot = JSON.stringify(start);
+    reduceLifecycle(start, event(EventType.TurnStart, { prompt: "hi" }));
+    reduceLifecycle(start, event(EventType.SessionEnd));
+    expect(JSON.stringify(start)).toBe(snapshot);
+  });
+
+  it("records the response message of a completed turn", () => {
+    const state = reduceLifecycleEvents([
+      event(EventType.SessionStart),
+      event(EventType.TurnStart, { prompt: "hi" }),
+      event(EventType.TurnEnd, { responseMessage: "hello" }),
+    ]);
+    expect(state.turns[0].responseMessage).toBe("hello");
+  });
+
+  it("records compactions", () => {
+    const state = reduceLifecycleEvents([
+      event(EventType.SessionStart),
+      event(EventType.Compaction, { metadata: { trigger: "manual" } }),
+      event(EventType.TurnStart, { prompt: "long task" }),
+      event(EventType.Compaction, { metadata: { trigger: "auto" } }),
+    ]);
+    expect(state.compactions).toEqual([
+      expect.objectContaining({ sessionId: "s1", trigger: "manual" }),
+      expect.objectContaining({ sessionId: "s1", trigger: "auto", turnIndex: 0 }),
+    ]);
+    expect(state.sessions.s1.compactionCount).toBe(2);
+    expect(state.currentTurn?.compactionCount).toBe(1);
+  });
+
+  it("ends the open turn and subagents with the session", () => {
+    const state = reduceLifecycleEvents([
+      event(EventType.SessionStart),
+      event(EventType.TurnStart, { prompt: "hi" }),
+      event(EventType.SubagentStart, { toolUseId: "t1" }),
+      event(EventType.SessionEnd),
+    ]);
+    expect(state.activeSessionId).toBeUndefined();
+    expect(state.sessions.s1.endedAt).toBeInstanceOf(Date);
+    expect(state.openSubagents).toEqual({});
+    expect(state.turns[0].status).toBe(TurnStatus.Interrupted);
+    expect(state.turns[0].subagents.map((s) => [s.toolUseId, s.endedAt])).toEqual([["t1", undefined]]);
+    expect(state.issues).toEqual([]);
+  });
+
+  it("closes the latest subagent when events carry no toolUseId", () => {
+    const state = reduceLifecycleEvents([
+      event(EventType.SessionStart),
+      event(EventType.TurnStart, { prompt: "hi" }),
+      event(EventType.SubagentStart, { toolInput: { objective: "first" } }),
+      event(EventType.SubagentStart, { toolInput: { objective: "second" } }),
+      event(EventType.SubagentEnd),
+    ]);
+    expect(Object.values(state.openSubagents).map((s) => s.toolInput)).toEqual([{ objective: "first" }]);
+    expect(state.currentTurn?.subagents.map((s) => s.toolInput)).toEqual([{ objective: "second" }]);
+  });
+
+  it("ignores tool events", () => {
+    const state = reduceLifecycleEvents([
+      event(EventType.SessionStart),
+      event(EventType.TurnStart, { prompt: "hi" }),
+    ]);
+    const next = reduceLifecycleEvents(
+      [
+        event(EventType.ToolStart, { toolUseId: "read_file-1", toolName: "read_file" }),
+        event(EventType.ToolEnd, { toolUseId: "read_file-1", toolName: "read_file" }),
+      ],
+      state
+    );
+    expect(next).toBe(state);
+  });
+
+  it("attaches subagents that finish after their turn to that turn", () => {
+    const state = reduceLifecycleEvents([
+      event(EventType.SessionStart),
+      event(EventType.TurnStart, { prompt: "first" }),
+      event(EventType.SubagentStart, { toolUseId: "t1" }),
+      event(EventType.TurnEnd),
+      event(EventType.TurnStart, { prompt: "second" }),
+      event(EventType.SubagentEnd, { toolUseId: "t1" }),
+    ]);
+    expect(state.turns[0].subagents).toHaveLength(1);
+    expect(state.currentTurn?.subagents).toEqual([]);
+  });
+});
+
+// ── Invalid transitions ──────────────────────────────────────────
+
+describe("invalid transitions", () => {
+  function codes(events: Event[]): string[] {
+    return reduceLifecycleEvents(events).issues.map((issue) => issue.code);
+  }
+
+  it("flags TurnEnd without TurnStart", () => {
+    expect(codes([event(EventType.SessionStart), event(EventType.TurnEnd)])).toEqual([
+      LifecycleIssueCode.TurnNotStarted,
+    ]);
+  });
+
+  it("flags TurnStart during a turn and interrupts the open turn", () => {
+    const state = reduceLifecycleEvents([
+      event(EventType.SessionStart),
+      event(EventType.TurnStart, { prompt: "first" }),
+      event(EventType.TurnStart, { prompt: "second" }),
+    ]);
+    expect(state.issues.map((i) => i.code)).toEqual([LifecycleIssueCode.TurnNotEnded]);
+    expect(state.turns[0].status).toBe(TurnStatus.Interrupted);
+    expect(state.currentTurn?.index).toBe(1);
+  });
+
+  it("flags unknown and duplicate subagents", () => {
+    expect(
+      codes([
+        event(EventType.SessionStart),
+        event(EventType.SubagentEnd, { toolUseId: "missing" }),
+        event(EventType.SubagentEnd),
+        event(EventType.SubagentStart, { toolUseId: "t1" }),
+        event(EventType.SubagentStart, { toolUseId: "t1" }),
+      ])
+    ).toEqual([
+      LifecycleIssueCode.UnknownSubagent,
+      LifecycleIssueCode.UnknownSubagent,
+      LifecycleIssueCode.DuplicateSubagent,
+    ]);
+  });
+
+  it("flags events for a session that is not active and adopts it", () => {
+    const state = reduceLifecycleEvents([
+      event(EventType.TurnStart, { prompt: "hi" }),
+      event(EventType.TurnEnd, { sessionId: "s2" }),
+    ]);
+    expect(state.issues.map((i) => i.code)).toEqual([
+      LifecycleIssueCode.SessionNotActive,
+      LifecycleIssueCode.SessionNotActive,
+      LifecycleIssueCode.TurnNotStarted,
+    ]);
+    expect(state.issues[0].message).toContain("not active");
+    expect(state.activeSessionId).toBe("s2");
+    expect(state.sessions.s1.endedAt).toBeInstanceOf(Date);
+  });
+
+  it("flags a new session starting before the previous one ended", () => {
+    const state = reduceLifecycleEvents([
+      event(EventType.SessionStart),
+      event(EventType.SessionStart, { sessionId: "s2" }),
+    ]);
+    expect(state.issues.map((i) => i.code)).toEqual([LifecycleIssueCode.SessionNotEnded]);
+    expect(state.activeSessionId).toBe("s2");
+  });
+
+  it("accepts a repeated SessionStart for the active session", () => {
+    expect(codes([event(EventType.SessionStart), event(EventType.SessionStart)])).toEqual([]);
+  });
+});
+
+// ── Queries ──────────────────────────────────────────────────────
+
+describe("turnSummaries", () => {
+  it("lists finished turns followed by the active one", () => {
+    const state = reduceLifecycleEvents([
+      event(EventType.SessionStart),
+      event(EventType.TurnStart, { prompt: "one" }),
+      event(EventType.TurnEnd),
+      event(EventType.TurnStart, { prompt: "two" }),
+    ]);
+    expect(turnSummaries(state).map((t) => [t.prompt, t.status])).toEqual([
+      ["one", TurnStatus.Completed],
+      ["two", TurnStatus.Active],
+    ]);
+  });
+});
+
+describe("sessionChain", () => {
+  it("follows previousSessionId links", () => {
+    const state = reduceLifecycleEvents([
+      event(EventType.SessionStart, { sessionId: "a" }),
+      event(EventType.SessionEnd, { sessionId: "a" }),
+      event(EventType.SessionStart, { sessionId: "b", previousSessionId: "a" }),
+      event(EventType.SessionEnd, { sessionId: "b" }),
+      event(EventType.SessionStart, { sessionId: "c", previousSessionId: "b" }),
+    ]);
+    expect(sessionChain(state, "c")).toEqual(["a", "b", "c"]);
+    expect(sessionChain(state, "a")).toEqual(["a"]);
+    expect(state.issues).toEqual([]);
+  });
+
+  it("stops at cycles", () => {
+    const state = reduceLifecycleEvents([
+      event(EventType.SessionStart, { sessionId: "a", previousSessionId: "b" }),
+      event(EventType.SessionEnd, { sessionId: "a" }),
+      event(EventType.SessionStart, { sessionId: "b", previousSessionId: "a" }),
+    ]);
+    expect(sessionChain(state, "b")).toEqual(["a", "b"]);
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect } from "vitest";
+import {
+  extractToolParts,
+  extractModifiedFiles,
+  extractLastUserPrompt,
+  extractAllUserPrompts,
+  extractAssistantResponses,
+  extractAllPromptResponses,
+  calculateTokenUsage,
+  calculateTotalCost,
+} from "../../src/parsers/opencode/extract.js";
+import type { OpenCodeMessage, OpenCodeSession, Part } from "../../src/parsers/opencode/types.js";
+
+// Helpers to build messages
+let partCounter = 0;
+function part(fields: Partial<Part> & { type: string }): Part {
+  return { id: `prt_${partCounter++}`, sessionID: "s", messageID: "m", ...fields };
+}
+
+function message(id: string, role: string, parts: Part[], extra: Partial<OpenCodeMessage> = {}): OpenCodeMessage {
+  return { id, sessionID: "s", role, time: { created: 0 }, parts, ...extra };
+}
+
+function tokens(input: number, output: number, read = 0, write = 0, reasoning = 0) {
+  return { input, output, reasoning, cache: { read, write } };
+}
+
+const session: OpenCodeSession = {
+  messages: [
+    message("m1", "user", [
+      part({ type: "text", text: "edit a.ts" }),
+      part({ type: "text", text: "Called the Read tool", synthetic: true }),
+    ]),
+    message(
+      "m2",
+      "assistant",
+      [
+        part({ type: "step-start" }),
+        part({ type: "text", text: "Editing." }),
+        part({
+          type: "tool",
+          tool: "edit",
+          callID: "c1",
+          state: { status: "completed", input: { filePath: "/repo/a.ts" }, output: "ok" },
+        }),
+        part({ type: "step-finish", tokens: tokens(100, 10, 50, 20) }),
+        part({ type: "patch", hash: "abc", files: ["/repo/a.ts", "/repo/b.ts"] }),
+        part({ type: "step-finish", tokens: tokens(30, 5, 0, 0, 2) }),
+      ],
+      { cost: 0.03, tokens: tokens(130, 15, 50, 20, 2) }
+    ),
+    message("m3", "user", [part({ type: "text", text: "thanks" })]),
+    message("m4", "assistant", [part({ type: "text", text: "Welcome." })], {
+      cost: 0.01,
+      tokens: tokens(40, 4),
+    }),
+  ],
+};
+
+describe("extractToolParts", () => {
+  it("returns tool parts in order", () => {
+    const parts = extractToolParts(session);
+    expect(parts).toHaveLength(1);
+    expect(parts[0].tool).toBe("edit");
+    expect(parts[0].state?.output).toBe("ok");
+  });
+});
+
+describe("extractModifiedFiles", () => {
+  it("collects files from edit tools and patch parts", () => {
+    expect(extractModifiedFiles(session)).toEqual(["/repo/a.ts", "/repo/b.ts"]);
+  });
+
+  it("ignores non-modifying tools", () => {
+    const readOnly: OpenCodeSession = {
+      messages: [
+        message("m", "assistant", [
+          part({ type: "tool", tool: "read", state: { status: "completed", input: { filePath: "/x" } } }),
+        ]),
+      ],
+    };
+    expect(extractModifiedFiles(readOnly)).toEqual([]);
+  });
+});
+
+describe("prompts", () => {
+  it("skips synthetic text parts", () => {
+    expect(extractAllUserPrompts(session)).toEqual(["edit a.ts", "thanks"]);
+    expect(extractLastUserPrompt(session)).toBe("thanks");
+  });
+});
+
+describe("extractAssistantResponses", () => {
+  it("returns assistant text parts", () => {
+    expect(extractAssistantResponses(session)).toEqual(["Editing.", "Welcome."]);
+  });
+});
+
+describe("extractAllPromptResponses", () => {
+  it("pairs prompts with responses and files", () => {
+    expect(extractAllPromptResponses(session)).toEqual([
+      { prompt: "edit a.ts", responses: ["Editing."], files: ["/repo/a.ts", "/repo/b.ts"] },
+      { prompt: "thanks", responses: ["Welcome."], files: [] },
+    ]);
+  });
+});
+
+describe("calculateTokenUsage", () => {
+  it("counts step-finish parts, falling back to message totals", () => {
+    const usage = calculateTokenUsage(session);
+    expect(usage.apiCallCount).toBe(3);
+    expect(usage.inputTokens).toBe(170);
+    expect(usage.outputTokens).toBe(21);
+    expect(usage.cacheReadTokens).toBe(50);
+    expect(usage.cacheCreationTokens).toBe(20);
+  });
+});
+
+describe("calculateTotalCost", () => {
+  it("sums assistant message cost", () => {
+    expect(calculateTotalCost(session)).toBeCloseTo(0.04);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseSession,
+  findSessionInfo,
+  assembleSession,
+} from "../../src/parsers/opencode/parse.js";
+
+// In-memory storage keyed by path relative to the storage root
+function storage(files: Record<string, unknown>) {
+  const entries = new Map(
+    Object.entries(files).map(([path, value]) => [
+      path,
+      typeof value === "string" ? value : JSON.stringify(value),
+    ])
+  );
+
+  const listDir = (dir: string) => {
+    const names = new Set<string>();
+    for (const path of entries.keys()) {
+      if (path.startsWith(dir + "/")) names.add(path.slice(dir.length + 1).split("/")[0]);
+    }
+    return [...names];
+  };
+  const readFile = (path: string) => entries.get(path) ?? null;
+
+  return { listDir, readFile };
+}
+
+const files = {
+  "session/proj1/ses_1.json": { id: "ses_1", directory: "/repo", title: "Fix bug", time: { created: 1000 } },
+  "message/ses_1/msg_b.json": { id: "msg_b", sessionID: "ses_1", role: "assistant", time: { created: 2000 } },
+  "message/ses_1/msg_a.json": { id: "msg_a", sessionID: "ses_1", role: "user", time: { created: 1000 } },
+  "message/ses_1/broken.json": "{not json",
+  "part/msg_a/prt_1.json": { id: "prt_1", sessionID: "ses_1", messageID: "msg_a", type: "text", text: "fix it" },
+  "part/msg_b/prt_3.json": { id: "prt_3", sessionID: "ses_1", messageID: "msg_b", type: "text", text: "done" },
+  "part/msg_b/prt_2.json": { id: "prt_2", sessionID: "ses_1", messageID: "msg_b", type: "step-start" },
+};
+
+describe("parseSession", () => {
+  it("assembles ordered messages and parts", () => {
+    const { listDir, readFile } = storage(files);
+    const session = parseSession("ses_1", listDir, readFile);
+
+    expect(session.messages.map((m) => m.id)).toEqual(["msg_a", "msg_b"]);
+    expect(session.messages[1].parts.map((p) => p.id)).toEqual(["prt_2", "prt_3"]);
+    expect(session.info?.title).toBe("Fix bug");
+  });
+
+  it("returns an empty session when nothing is stored", () => {
+    const { listDir, readFile } = storage({});
+    const session = parseSession("ses_x", listDir, readFile);
+    expect(session.messages).toEqual([]);
+    expect(session.info).toBeUndefined();
+  });
+});
+
+describe("findSessionInfo", () => {
+  it("searches all project directories", () => {
+    const { listDir, readFile } = storage({
+      "session/projA/ses_0.json": { id: "ses_0" },
+      "session/projB/ses_1.json": { id: "ses_1", directory: "/b" },
+    });
+    expect(findSessionInfo("ses_1", listDir, readFile)?.directory).toBe("/b");
+  });
+});
+
+describe("assembleSession", () => {
+  it("groups parts by message", () => {
+    const session = assembleSession(
+      [{ id: "msg_1", sessionID: "s", role: "user", time: { created: 1 } }],
+      [
+        { id: "prt_2", sessionID: "s", messageID: "msg_1", type: "text", text: "b" },
+        { id: "prt_1", sessionID: "s", messageID: "msg_1", type: "text", text: "a" },
+        { id: "prt_3", sessionID: "s", messageID: "msg_other", type: "text", text: "x" },
+      ]
+    );
+    expect(session.messages[0].parts.map((p) => p.text)).toEqual(["a", "b"]);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, afterEach } from "vitest";
+import {
+  type AgentAdapter,
+  registerAgent,
+  unregisterAgent,
+  getAgent,
+  getAgentByType,
+  listAgents,
+  detectAgent,
+  resolveAgent,
+} from "../src/registry.js";
+import {
+  chunkTranscript,
+  detectAgentTypeFromContent,
+  reassembleTranscript,
+} from "../src/chunking.js";
+import { EventType, emptyTokenUsage } from "../src/types.js";
+
+// A minimal in-house agent: one prompt per line, prefixed with "PROMPT:"
+const inHouseAdapter: AgentAdapter<string[]> = {
+  name: "in-house",
+  type: "In-House Agent",
+  detect: (content) => content.startsWith("PROMPT:"),
+  parse: (content) => content.split("\n").filter(Boolean),
+  chunk: (content) => content.split("\n"),
+  reassemble: (chunks) => chunks.join("\n") + "\n",
+  extractModifiedFiles: () => [],
+  extractLastUserPrompt: (lines) => lines[lines.length - 1] ?? "",
+  extractAllUserPrompts: (lines) => lines,
+  extractAllPromptResponses: (lines) => lines.map((prompt) => ({ prompt, responses: [], files: [] })),
+  calculateTokenUsage: () => emptyTokenUsage(),
+};
+
+afterEach(() => {
+  unregisterAgent("in-house");
+});
+
+describe("built-in adapters", () => {
+  it("registers the built-in agents", () => {
+    expect(listAgents().map((a) => a.name)).toEqual(["claude-code", "gemini", "codex", "aider", "cline"]);
+  });
+
+  it("looks adapters up by name and display name", () => {
+    expect(getAgent("gemini")?.type).toBe("Gemini CLI");
+    expect(getAgentByType("Claude Code")?.name).toBe("claude-code");
+    expect(getAgent("unknown")).toBeUndefined();
+  });
+
+  it("parses and extracts through an adapter", () => {
+    const adapter = getAgent("claude-code")!;
+    const lines = adapter.parse(`{"type":"user","uuid":"u1","message":{"content":"hello"}}`);
+    expect(adapter.extractAllUserPrompts(lines)).toEqual(["hello"]);
+  });
+
+  it("parses hook payloads through an adapter", () => {
+    const stdin = JSON.stringify({ session_id: "s1", transcript_path: "/t", prompt: "hi" });
+    expect(getAgent("claude-code")!.parseHookEvent!("UserPromptSubmit", stdin).type).toBe(EventType.TurnStart);
+    expect(getAgent("gemini")!.parseHookEvent!("BeforeAgent", stdin).type).toBe(EventType.TurnStart);
+    expect(getAgent("codex")!.parseHookEvent).toBeUndefined();
+  });
+});
+
+describe("detectAgent", () => {
+  it("detects built-in formats", () => {
+    expect(detectAgent(JSON.stringify({ messages: [{ type: "user", content: "hi" }] }))?.name).toBe("gemini");
+    expect(detectAgent("# aider chat started at 2024-05-01 10:00:00\n")?.name).toBe("aider");
+  });
+
+  it("returns undefined for Claude JSONL", () => {
+    expect(detectAgent(`{"type":"user","uuid":"u1","message":{}}`)).toBeUndefined();
+  });
+});
+
+describe("resolveAgent", () => {
+  it("falls back to the Claude Code adapter", () => {
+    expect(resolveAgent("anything")?.name).toBe("claude-code");
+  });
+
+  it("prefers an explicit agent type", () => {
+    expect(resolveAgent("# aider chat started at x", "Cline")?.name).toBe("cline");
+  });
+});
+
+describe("registerAgent", () => {
+  it("makes custom agents available to detection and chunking", () => {
+    registerAgent(inHouseAdapter);
+
+    const content = "PROMPT: one\nPROMPT: two\n";
+    expect(detectAgentTypeFromContent(content)).toBe("In-House Agent");
+
+    const chunks = chunkTranscript(content, undefined, 5);
+    expect(chunks).toEqual(["PROMPT: one", "PROMPT: two", ""]);
+    expect(reassembleTranscript(chunks)).toBe("PROMPT: one\nPROMPT: two\n\n");
+  });
+
+  it("rejects duplicate names and display names", () => {
+    registerAgent(inHouseAdapter);
+    expect(() => registerAgent(inHouseAdapter)).toThrow('Agent "in-house" is already registered');
+    expect(() => registerAgent({ ...inHouseAdapter, name: "other" })).toThrow(
+      'Agent type "In-House Agent" is already registered'
+    );
+  });
+
+  it("can be undone with unregisterAgent", () => {
+    registerAgent(inHouseAdapter);
+    expect(unregisterAgent("in-house")).toBe(true);
+    expect(getAgent("in-house")).toBeUndefined();
+    expect(unregisterAgent("in-house")).toBe(false);
+  });
+});
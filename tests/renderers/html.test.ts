@@ -0,0 +1,158 @@
+import { describe, it, expect } from "vitest";
+import { EntryType, emptyTokenUsage, type AgentSession } from "../../src/types.js";
+import {
+  renderSessionHTML,
+  renderClaudeTranscriptHTML,
+  renderGeminiTranscriptHTML,
+} from "../../src/renderers/index.js";
+import { parseFromString } from "../../src/parsers/claude/parse.js";
+
+// ── Fixtures ─────────────────────────────────────────────────────
+
+const SESSION: AgentSession = {
+  sessionId: "sess-1",
+  agentName: "claude-code",
+  sessionRef: "sess-1",
+  repoPath: "/repo",
+  startTime: new Date("2025-01-01T10:00:00.000Z"),
+  modifiedFiles: ["/repo/a.ts", "/repo/b.ts"],
+  entries: [
+    { uuid: "s0", type: EntryType.System, content: "Session resumed" },
+    { uuid: "u1", type: EntryType.User, content: "Fix <script>alert(1)</script> in a.ts" },
+    { uuid: "a1", type: EntryType.Assistant, content: "On it." },
+    {
+      uuid: "t1",
+      type: EntryType.Tool,
+      content: "Tool call: Edit",
+      toolName: "Edit",
+      toolInput: { file_path: "/repo/a.ts", old_string: "let a = 1", new_string: "const a = 1" },
+      toolOutput: "ok",
+      filesAffected: ["/repo/a.ts"],
+    },
+    {
+      uuid: "t2",
+      type: EntryType.Tool,
+      content: "Tool call: Bash",
+      toolName: "Bash",
+      toolInput: { command: "npm test" },
+      toolOutput: "y".repeat(30),
+      toolStatus: "error",
+    },
+    { uuid: "u2", type: EntryType.User, content: "Now b.ts" },
+  ],
+};
+
+// ── renderSessionHTML ────────────────────────────────────────────
+
+describe("renderSessionHTML", () => {
+  it("produces a standalone document without external assets", () => {
+    const html = renderSessionHTML(SESSION);
+
+    expect(html.startsWith("<!DOCTYPE html>")).toBe(true);
+    expect(html).toContain("<style>");
+    expect(html).toContain("<script>");
+    expect(html).not.toMatch(/<(script|link|img)[^>]+(src|href)=/);
+    expect(html).not.toMatch(/https?:\/\//);
+  });
+
+  it("escapes session content", () => {
+    const html = renderSessionHTML(SESSION);
+
+    expect(html).toContain("Fix &lt;script&gt;alert(1)&lt;/script&gt; in a.ts");
+    expect(html.match(/<script>/g)).toHaveLength(1);
+  });
+
+  it("renders a turn per prompt plus leading entries", () => {
+    const html = renderSessionHTML(SESSION);
+
+    expect(html.match(/<section class="turn"/g)).toHaveLength(3);
+    expect(html).toContain('<section class="turn" id="turn-1">\n<h2>Session start</h2>');
+    expect(html).toContain('<section class="turn" id="turn-2">\n<h2>Prompt 1</h2>');
+    expect(html).toContain('<a href="#turn-3">Prompt 2</a> Now b.ts');
+  });
+
+  it("renders tool calls as collapsible blocks with highlighted diffs", () => {
+    const html = renderSessionHTML(SESSION);
+
+    expect(html).toContain('<details class="tool">');
+    expect(html).toContain('<span class="diff-del">-let a = 1</span>');
+    expect(html).toContain('<span class="diff-add">+const a = 1</span>');
+    expect(html).toContain('<details class="tool failed">');
+    expect(html).toContain("&quot;command&quot;: &quot;npm test&quot;");
+  });
+
+  it("elides long tool output", () => {
+    const html = renderSessionHTML(SESSION, { maxToolOutputLength: 5 });
+    expect(html).toContain("yyyyy\n… (25 more characters)");
+  });
+
+  it("lists modified files in the side panel and per turn", () => {
+    const html = renderSessionHTML(SESSION);
+
+    expect(html).toContain("<h3>Modified files (2)</h3>");
+    expect(html).toContain("<li><code>/repo/b.ts</code></li>");
+    expect(html).toContain('<div class="turn-files"><span class="label">Files modified</span><ul><li><code>/repo/a.ts</code></li></ul></div>');
+  });
+
+  it("shows a token summary only when usage is given", () => {
+    expect(renderSessionHTML(SESSION)).not.toContain("Token usage");
+
+    const usage = { ...emptyTokenUsage(), inputTokens: 1200, outputTokens: 34, apiCallCount: 2 };
+    usage.subagentTokens = { ...emptyTokenUsage(), inputTokens: 10, outputTokens: 5 };
+    const html = renderSessionHTML(SESSION, { tokenUsage: usage });
+
+    expect(html).toContain("<h3>Token usage</h3>");
+    expect(html).toContain("<tr><th>Input</th><td>1,200</td></tr>");
+    expect(html).toContain("<tr><th>Subagent tokens</th><td>15</td></tr>");
+  });
+
+  it("includes a search box", () => {
+    const html = renderSessionHTML(SESSION, { title: "Review" });
+
+    expect(html).toContain("<title>Review</title>");
+    expect(html).toContain('<input id="search" type="search"');
+  });
+});
+
+// ── Transcript renderers ─────────────────────────────────────────
+
+describe("renderClaudeTranscriptHTML", () => {
+  it("computes token usage from the transcript", () => {
+    const lines = parseFromString(
+      [
+        { type: "user", uuid: "u1", message: { content: "hi" } },
+        {
+          type: "assistant",
+          uuid: "a1",
+          message: {
+            id: "m1",
+            content: [{ type: "text", text: "hello" }],
+            usage: { input_tokens: 7, cache_creation_input_tokens: 0, cache_read_input_tokens: 0, output_tokens: 3 },
+          },
+        },
+      ]
+        .map((l) => JSON.stringify(l))
+        .join("\n"),
+    );
+
+    const html = renderClaudeTranscriptHTML(lines);
+    expect(html).toContain("<tr><th>Input</th><td>7</td></tr>");
+    expect(html).toContain("<tr><th>API calls</th><td>1</td></tr>");
+  });
+});
+
+describe("renderGeminiTranscriptHTML", () => {
+  it("computes token usage from the transcript", () => {
+    const html = renderGeminiTranscriptHTML({
+      messages: [
+        { type: "user", content: "hi" },
+        {
+          type: "gemini",
+          content: "hello",
+          tokens: { input: 11, output: 4, cached: 0, thoughts: 0, tool: 0, total: 15 },
+        },
+      ],
+    });
+    expect(html).toContain("<tr><th>Output</th><td>4</td></tr>");
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, it, expect } from "vitest";
+import { EntryType, type AgentSession } from "../../src/types.js";
+import {
+  renderSessionMarkdown,
+  renderClaudeTranscriptMarkdown,
+  renderGeminiTranscriptMarkdown,
+} from "../../src/renderers/index.js";
+import { parseFromString } from "../../src/parsers/claude/parse.js";
+
+// ── Fixtures ─────────────────────────────────────────────────────
+
+function makeSession(entries: AgentSession["entries"]): AgentSession {
+  return {
+    sessionId: "sess-1",
+    agentName: "claude-code",
+    sessionRef: "sess-1",
+    repoPath: "/repo",
+    startTime: new Date("2025-01-01T10:00:00.000Z"),
+    modifiedFiles: ["/repo/a.ts"],
+    entries,
+  };
+}
+
+const SESSION = makeSession([
+  {
+    uuid: "u1",
+    type: EntryType.User,
+    content: "<ide_opened_file>a.ts</ide_opened_file>Rename foo to bar",
+  },
+  { uuid: "a1", type: EntryType.Assistant, content: "Renaming now." },
+  {
+    uuid: "t1",
+    type: EntryType.Tool,
+    content: "Tool call: Edit",
+    toolName: "Edit",
+    toolInput: { file_path: "/repo/a.ts", old_string: "const foo = 1;", new_string: "const bar = 1;" },
+    toolOutput: "The file has been updated.",
+    filesAffected: ["/repo/a.ts"],
+  },
+  {
+    uuid: "t2",
+    type: EntryType.Tool,
+    content: "Tool call: Bash",
+    toolName: "Bash",
+    toolInput: { command: "npm test" },
+    toolOutput: "x".repeat(50),
+    toolStatus: "error",
+  },
+  { uuid: "u2", type: EntryType.User, content: "Thanks" },
+  { uuid: "s1", type: EntryType.System, content: "Conversation compacted" },
+]);
+
+// ── renderSessionMarkdown ────────────────────────────────────────
+
+describe("renderSessionMarkdown", () => {
+  it("renders a title and session metadata", () => {
+    const md = renderSessionMarkdown(SESSION);
+
+    expect(md.startsWith("# Session sess-1\n\n")).toBe(true);
+    expect(md).toContain("- **Agent:** claude-code");
+    expect(md).toContain("- **Started:** 2025-01-01T10:00:00.000Z");
+    expect(md).toContain("- **Repository:** `/repo`");
+  });
+
+  it("renders headed prompts with IDE tags stripped", () => {
+    const md = renderSessionMarkdown(SESSION);
+
+    expect(md).toContain("## Prompt 1\n\nRename foo to bar");
+    expect(md).toContain("## Prompt 2\n\nThanks");
+    expect(md).not.toContain("ide_opened_file");
+  });
+
+  it("keeps tags when stripTags is false", () => {
+    const md = renderSessionMarkdown(SESSION, { stripTags: false });
+    expect(md).toContain("<ide_opened_file>a.ts</ide_opened_file>Rename foo to bar");
+  });
+
+  it("renders edit tools as collapsible diffs", () => {
+    const md = renderSessionMarkdown(SESSION);
+
+    expect(md).toContain("<details>\n<summary><code>Edit</code> /repo/a.ts</summary>");
+    expect(md).toContain(
+      "```diff\n--- a/repo/a.ts\n+++ b/repo/a.ts\n@@\n-const foo = 1;\n+const bar = 1;\n```",
+    );
+    expect(md).toContain("**Output**\n\n```\nThe file has been updated.\n```");
+  });
+
+  it("renders other tool input as JSON and marks failures", () => {
+    const md = renderSessionMarkdown(SESSION);
+
+    expect(md).toContain("<summary><code>Bash</code> npm test ❌</summary>");
+    expect(md).toContain('```json\n{\n  "command": "npm test"\n}\n```');
+  });
+
+  it("elides long tool output", () => {
+    const md = renderSessionMarkdown(SESSION, { maxToolOutputLength: 10 });
+    expect(md).toContain("```\nxxxxxxxxxx\n… (40 more characters)\n```");
+  });
+
+  it("lists files modified per turn", () => {
+    const md = renderSessionMarkdown(SESSION);
+    const [turn1, turn2] = md.split("## Prompt 2");
+
+    expect(turn1).toContain("**Files modified:**\n\n- `/repo/a.ts`");
+    expect(turn2).not.toContain("**Files modified:**");
+  });
+
+  it("renders system entries as quotes", () => {
+    const md = renderSessionMarkdown(SESSION);
+    expect(md).toContain("> **System:** Conversation compacted");
+  });
+
+  it("lengthens fences around output containing backticks", () => {
+    const md = renderSessionMarkdown(
+      makeSession([
+        { uuid: "t", type: EntryType.Tool, content: "", toolName: "Read", toolOutput: "```ts\ncode\n```" },
+      ]),
+    );
+    expect(md).toContain("````\n```ts\ncode\n```\n````");
+  });
+
+  it("respects title, includeMetadata and includeToolCalls", () => {
+    const md = renderSessionMarkdown(SESSION, {
+      title: "Rename refactor",
+      includeMetadata: false,
+      includeToolCalls: false,
+    });
+
+    expect(md.startsWith("# Rename refactor\n\n## Prompt 1")).toBe(true);
+    expect(md).not.toContain("<details>");
+  });
+});
+
+// ── Transcript renderers ─────────────────────────────────────────
+
+describe("renderClaudeTranscriptMarkdown", () => {
+  it("renders a parsed Claude transcript", () => {
+    const lines = parseFromString(
+      [
+        { type: "user", uuid: "u1", sessionId: "c1", message: { content: "hello" } },
+        { type: "assistant", uuid: "a1", message: { id: "m1", content: [{ type: "text", text: "Hi!" }] } },
+      ]
+        .map((l) => JSON.stringify(l))
+        .join("\n"),
+    );
+
+    const md = renderClaudeTranscriptMarkdown(lines, { includeMetadata: false });
+    expect(md).toBe("# Session c1\n\n## Prompt 1\n\nhello\n\nHi!\n");
+  });
+});
+
+describe("renderGeminiTranscriptMarkdown", () => {
+  it("renders a parsed Gemini transcript", () => {
+    const md = renderGeminiTranscriptMarkdown(
+      {
+        sessionId: "g1",
+        messages: [
+          { type: "user", content: "write it" },
+          {
+            type: "gemini",
+            content: "",
+            toolCalls: [{ id: "w1", name: "write_file", args: { file_path: "/x.py" }, status: "success" }],
+          },
+        ],
+      },
+      { includeMetadata: false },
+    );
+
+    expect(md).toContain("## Prompt 1\n\nwrite it");
+    expect(md).toContain("<summary><code>write_file</code> /x.py</summary>");
+    expect(md).toContain("- `/x.py`");
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { stripIDEContextTags, deduplicateStrings } from "../src/utils.js";
+import { stripIDEContextTags, deduplicateStrings, decodeChunks, createLineSplitter } from "../src/utils.js";
 
 describe("stripIDEContextTags", () => {
   it("strips ide_opened_file tags", () => {
@@ -65,3 +65,53 @@ describe("deduplicateStrings", () => {
     expect(deduplicateStrings(["a", "b", "c"])).toEqual(["a", "b", "c"]);
   });
 });
+
+describe("decodeChunks", () => {
+  async function collect(source: Parameters<typeof decodeChunks>[0]): Promise<string> {
+    let text = "";
+    for await (const chunk of decodeChunks(source)) text += chunk;
+    return text;
+  }
+
+  it("passes string chunks through", async () => {
+    expect(await collect((async function* () { yield "a"; yield "b"; })())).toBe("ab");
+  });
+
+  it("decodes bytes split inside a character", async () => {
+    const bytes = new TextEncoder().encode("✓");
+    const source = (async function* () {
+      yield bytes.subarray(0, 1);
+      yield bytes.subarray(1);
+    })();
+    expect(await collect(source)).toBe("✓");
+  });
+
+  it("reads from getReader() streams", async () => {
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode("hello"));
+        controller.close();
+      },
+    });
+    expect(await collect(stream)).toBe("hello");
+  });
+});
+
+describe("createLineSplitter", () => {
+  it("returns lines as they complete", () => {
+    const splitter = createLineSplitter();
+    expect(splitter.push("ab")).toEqual([]);
+    expect(splitter.push("c\nde\n\nf")).toEqual(["abc", "de", ""]);
+    expect(splitter.push("g")).toEqual([]);
+    expect(splitter.rest()).toBe("fg");
+    expect(splitter.push("\n")).toEqual(["fg"]);
+  });
+
+  it("returns and clears the partial line at the end", () => {
+    const splitter = createLineSplitter();
+    splitter.push("a\nb");
+    splitter.push("c");
+    expect(splitter.end()).toBe("bc");
+    expect(splitter.end()).toBe("");
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect } from "vitest";
+import { createClaudeTail, WatchEventType, type WatchEvent } from "../../src/watch/index.js";
+import { calculateTokenUsage } from "../../src/parsers/claude/extract.js";
+import { parseFromString, getTranscriptPosition } from "../../src/parsers/claude/parse.js";
+
+// ── Fixtures ─────────────────────────────────────────────────────
+
+function usage(input: number, output: number, cacheRead = 0, cacheWrite = 0) {
+  return {
+    input_tokens: input,
+    output_tokens: output,
+    cache_read_input_tokens: cacheRead,
+    cache_creation_input_tokens: cacheWrite,
+  };
+}
+
+const LINES = [
+  { type: "user", uuid: "u1", timestamp: "2025-01-01T10:00:00.000Z", message: { content: "write foo" } },
+  {
+    type: "assistant",
+    uuid: "a1",
+    message: { id: "msg_1", content: [{ type: "text", text: "Writing." }], usage: usage(10, 1, 100) },
+  },
+  {
+    type: "assistant",
+    uuid: "a2",
+    message: {
+      id: "msg_1",
+      content: [{ type: "tool_use", id: "tu_1", name: "Write", input: { file_path: "/foo.ts", content: "x" } }],
+      usage: usage(10, 8, 100),
+    },
+  },
+  {
+    type: "user",
+    uuid: "u2",
+    message: { content: [{ type: "tool_result", tool_use_id: "tu_1", content: "written", is_error: false }] },
+  },
+  {
+    type: "assistant",
+    uuid: "a3",
+    message: { id: "msg_2", content: [{ type: "text", text: "Done." }], usage: usage(20, 3, 0, 50) },
+  },
+].map((l) => JSON.stringify(l) + "\n");
+
+const CONTENT = LINES.join("");
+
+function types(events: WatchEvent[]): string[] {
+  return events.map((e) => e.type);
+}
+
+// ── createClaudeTail ─────────────────────────────────────────────
+
+describe("createClaudeTail", () => {
+  it("emits typed events in transcript order", () => {
+    const events = createClaudeTail().push(CONTENT);
+
+    expect(types(events)).toEqual([
+      WatchEventType.Prompt,
+      WatchEventType.TokenUsage,
+      WatchEventType.ToolCall,
+      WatchEventType.FileModified,
+      WatchEventType.TokenUsage,
+      WatchEventType.ToolResult,
+      WatchEventType.TokenUsage,
+    ]);
+    expect(events[0]).toEqual({
+      type: "prompt",
+      id: "u1",
+      prompt: "write foo",
+      timestamp: new Date("2025-01-01T10:00:00.000Z"),
+    });
+    expect(events[2]).toMatchObject({ toolUseId: "tu_1", toolName: "Write", input: { file_path: "/foo.ts", content: "x" } });
+    expect(events[3]).toMatchObject({ path: "/foo.ts", toolUseId: "tu_1" });
+    expect(events[5]).toMatchObject({ toolUseId: "tu_1", toolName: "Write", output: "written", isError: false });
+  });
+
+  it("reports token deltas deduplicated by message id", () => {
+    const tail = createClaudeTail();
+    const deltas = tail
+      .push(CONTENT)
+      .filter((e) => e.type === WatchEventType.TokenUsage)
+      .map((e) => (e.type === WatchEventType.TokenUsage ? e.delta : undefined));
+
+    expect(deltas.map((d) => [d!.inputTokens, d!.outputTokens, d!.apiCallCount])).toEqual([
+      [10, 1, 1],
+      [0, 7, 0],
+      [20, 3, 1],
+    ]);
+    expect(tail.usage).toEqual(calculateTokenUsage(parseFromString(CONTENT)));
+  });
+
+  it("waits for partial lines to complete", () => {
+    const tail = createClaudeTail();
+    const line = LINES[0];
+
+    expect(tail.push(line.slice(0, 20))).toEqual([]);
+    expect(tail.position.count).toBe(0);
+    expect(types(tail.push(line.slice(20)))).toEqual([WatchEventType.Prompt]);
+    expect(tail.position).toEqual({ lastUUID: "u1", count: 1 });
+  });
+
+  it("accepts a final line without its newline on flush", () => {
+    const tail = createClaudeTail();
+    expect(tail.push(LINES[0].trimEnd())).toEqual([]);
+    expect(types(tail.flush())).toEqual([WatchEventType.Prompt]);
+    expect(tail.push("\n")).toEqual([]);
+    expect(tail.position.count).toBe(1);
+  });
+
+  it("keeps a partial line on flush until the rest arrives", () => {
+    const tail = createClaudeTail();
+    tail.push(LINES[0].slice(0, 20));
+    expect(tail.flush()).toEqual([]);
+    expect(types(tail.push(LINES[0].slice(20)))).toEqual([WatchEventType.Prompt]);
+  });
+
+  it("produces the same events however the content is split", () => {
+    const whole = createClaudeTail().push(CONTENT);
+    const tail = createClaudeTail();
+    const pieces: WatchEvent[] = [];
+    for (let i = 0; i < CONTENT.length; i += 37) {
+      pieces.push(...tail.push(CONTENT.slice(i, i + 37)));
+    }
+    expect(pieces).toEqual(whole);
+  });
+
+  it("tracks the same position as getTranscriptPosition", () => {
+    const tail = createClaudeTail();
+    tail.push(CONTENT + "not json\n");
+    const position = getTranscriptPosition(CONTENT + "not json\n");
+
+    expect(tail.position).toEqual({ lastUUID: position.lastUUID, count: position.lineCount });
+  });
+
+  it("skips events for lines before startAt but keeps token deduplication", () => {
+    const tail = createClaudeTail({ startAt: 2 });
+    const events = tail.push(CONTENT);
+
+    expect(types(events)).toEqual([
+      WatchEventType.ToolCall,
+      WatchEventType.FileModified,
+      WatchEventType.TokenUsage,
+      WatchEventType.ToolResult,
+      WatchEventType.TokenUsage,
+    ]);
+    const first = events[2];
+    expect(first.type === WatchEventType.TokenUsage && first.delta.outputTokens).toBe(7);
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { appendFileSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { watchTranscript, type TranscriptWatcher, type WatchEvent } from "../../src/watch/index.js";
+
+// ── Helpers ──────────────────────────────────────────────────────
+
+function line(obj: object): string {
+  return JSON.stringify(obj) + "\n";
+}
+
+const PROMPT_1 = line({ type: "user", uuid: "u1", message: { content: "first" } });
+const PROMPT_2 = line({ type: "user", uuid: "u2", message: { content: "second ✓" } });
+
+let dir: string;
+let watcher: TranscriptWatcher | undefined;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "asp-watch-"));
+});
+
+afterEach(() => {
+  watcher?.close();
+  watcher = undefined;
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function start(path: string, options: { fromEnd?: boolean; agent?: "claude-code" | "gemini" } = {}) {
+  const events: WatchEvent[] = [];
+  watcher = watchTranscript(path, { ...options, interval: 10, onEvent: (e) => events.push(e) });
+  return events;
+}
+
+function prompts(events: WatchEvent[]): string[] {
+  return events.flatMap((e) => (e.type === "prompt" ? [e.prompt] : []));
+}
+
+// ── watchTranscript ──────────────────────────────────────────────
+
+describe("watchTranscript", () => {
+  it("reports existing content, then appended lines", async () => {
+    const path = join(dir, "s.jsonl");
+    writeFileSync(path, PROMPT_1);
+
+    const events = start(path);
+    expect(prompts(events)).toEqual(["first"]);
+
+    appendFileSync(path, PROMPT_2);
+    await vi.waitFor(() => expect(prompts(events)).toEqual(["first", "second ✓"]));
+    expect(watcher!.position).toEqual({ lastUUID: "u2", count: 2 });
+  });
+
+  it("reports a final line without its newline once the file stops growing", async () => {
+    const path = join(dir, "s.jsonl");
+    writeFileSync(path, PROMPT_1 + PROMPT_2.slice(0, 20));
+
+    const events = start(path);
+    expect(prompts(events)).toEqual(["first"]);
+
+    appendFileSync(path, PROMPT_2.slice(20).trimEnd());
+    await vi.waitFor(() => expect(prompts(events)).toEqual(["first", "second ✓"]));
+  });
+
+  it("skips existing content with fromEnd", async () => {
+    const path = join(dir, "s.jsonl");
+    writeFileSync(path, PROMPT_1);
+
+    const events = start(path, { fromEnd: true });
+    appendFileSync(path, PROMPT_2);
+    await vi.waitFor(() => expect(prompts(events)).toEqual(["second ✓"]));
+  });
+
+  it("waits for a file that doesn't exist yet", async () => {
+    const path = join(dir, "later.jsonl");
+    const events = start(path);
+
+    writeFileSync(path, PROMPT_1);
+    await vi.waitFor(() => expect(prompts(events)).toEqual(["first"]));
+  });
+
+  it("starts over when the transcript is truncated", async () => {
+    const path = join(dir, "s.jsonl");
+    writeFileSync(path, PROMPT_1 + PROMPT_2);
+    const events = start(path);
+
+    writeFileSync(path, PROMPT_2);
+    await vi.waitFor(() => expect(prompts(events)).toEqual(["first", "second ✓", "second ✓"]));
+  });
+
+  it("diffs rewritten Gemini session files", async () => {
+    const path = join(dir, "session.json");
+    const user = { id: "m1", type: "user", content: "hi" };
+    writeFileSync(path, JSON.stringify({ messages: [user] }));
+
+    const events = start(path);
+    expect(prompts(events)).toEqual(["hi"]);
+
+    writeFileSync(path, JSON.stringify({ messages: [user, { id: "m2", type: "gemini", content: "Hello", tokens: { input: 5, output: 1, cached: 0 } }] }));
+    await vi.waitFor(() => expect(events.map((e) => e.type)).toEqual(["prompt", "token_usage"]));
+  });
+
+  it("stops reporting after close", async () => {
+    const path = join(dir, "s.jsonl");
+    writeFileSync(path, PROMPT_1);
+    const events = start(path);
+    watcher!.close();
+
+    appendFileSync(path, PROMPT_2);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(prompts(events)).toEqual(["first"]);
+  });
+});
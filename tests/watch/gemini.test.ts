@@ -0,0 +1,126 @@
+import { describe, it, expect } from "vitest";
+import { createGeminiTail, WatchEventType, type WatchEvent } from "../../src/watch/index.js";
+
+// ── Fixtures ─────────────────────────────────────────────────────
+
+function transcript(messages: object[]): string {
+  return JSON.stringify({ sessionId: "g1", messages }, null, 2);
+}
+
+const PROMPT = { id: "m1", type: "user", content: [{ text: "create hello.py" }], timestamp: "2025-02-01T09:00:00.000Z" };
+
+const CALL = { id: "w1", name: "write_file", args: { file_path: "/hello.py", content: "print()" } };
+
+function types(events: WatchEvent[]): string[] {
+  return events.map((e) => e.type);
+}
+
+// ── createGeminiTail ─────────────────────────────────────────────
+
+describe("createGeminiTail", () => {
+  it("emits events for new messages", () => {
+    const tail = createGeminiTail();
+    const events = tail.update(
+      transcript([
+        PROMPT,
+        {
+          id: "m2",
+          type: "gemini",
+          content: "",
+          toolCalls: [{ ...CALL, status: "success", resultDisplay: "Created" }],
+          tokens: { input: 100, output: 10, cached: 40 },
+        },
+      ]),
+    );
+
+    expect(types(events)).toEqual([
+      WatchEventType.Prompt,
+      WatchEventType.ToolCall,
+      WatchEventType.FileModified,
+      WatchEventType.ToolResult,
+      WatchEventType.TokenUsage,
+    ]);
+    expect(events[0]).toMatchObject({ id: "m1", prompt: "create hello.py" });
+    expect(events[3]).toMatchObject({ toolUseId: "w1", output: "Created", isError: false });
+    expect(events[4]).toMatchObject({
+      delta: { inputTokens: 100, outputTokens: 10, cacheReadTokens: 40, apiCallCount: 1 },
+    });
+    expect(tail.position).toEqual({ lastUUID: "m2", count: 2 });
+  });
+
+  it("reports only what changed when the file is rewritten", () => {
+    const tail = createGeminiTail();
+    tail.update(transcript([PROMPT]));
+
+    const pending = tail.update(
+      transcript([PROMPT, { id: "m2", type: "gemini", content: "", toolCalls: [{ ...CALL, status: "executing" }] }]),
+    );
+    expect(types(pending)).toEqual([WatchEventType.ToolCall, WatchEventType.FileModified]);
+
+    const finished = tail.update(
+      transcript([
+        PROMPT,
+        {
+          id: "m2",
+          type: "gemini",
+          content: "",
+          toolCalls: [{ ...CALL, status: "error", result: [{ functionResponse: { response: { error: "denied" } } }] }],
+          tokens: { input: 100, output: 10, cached: 0 },
+        },
+      ]),
+    );
+    expect(types(finished)).toEqual([WatchEventType.ToolResult, WatchEventType.TokenUsage]);
+    expect(finished[0]).toMatchObject({ output: "denied", isError: true });
+
+    const unchanged = tail.update(
+      transcript([PROMPT, { id: "m2", type: "gemini", content: "", toolCalls: [CALL], tokens: { input: 100, output: 10, cached: 0 } }]),
+    );
+    expect(unchanged).toEqual([]);
+  });
+
+  it("reports token count updates as deltas", () => {
+    const tail = createGeminiTail();
+    tail.update(transcript([PROMPT, { id: "m2", type: "gemini", content: "Hi", tokens: { input: 50, output: 5, cached: 0 } }]));
+    const [event] = tail.update(
+      transcript([PROMPT, { id: "m2", type: "gemini", content: "Hi there", tokens: { input: 50, output: 9, cached: 0 } }]),
+    );
+
+    expect(event).toMatchObject({
+      type: WatchEventType.TokenUsage,
+      delta: { inputTokens: 0, outputTokens: 4, apiCallCount: 0 },
+      total: { inputTokens: 50, outputTokens: 9, apiCallCount: 1 },
+    });
+  });
+
+  it("treats a different message at a known index as new", () => {
+    const tail = createGeminiTail();
+    tail.update(transcript([PROMPT]));
+    const events = tail.update(transcript([{ ...PROMPT, id: "other", content: "new session" }]));
+
+    expect(events).toMatchObject([{ type: WatchEventType.Prompt, id: "other", prompt: "new session" }]);
+  });
+
+  it("ignores content that doesn't parse yet", () => {
+    const tail = createGeminiTail();
+    const full = transcript([PROMPT]);
+
+    expect(tail.update(full.slice(0, full.length / 2))).toEqual([]);
+    expect(types(tail.update(full))).toEqual([WatchEventType.Prompt]);
+  });
+
+  it("skips messages before startAt on the first update only", () => {
+    const tail = createGeminiTail({ startAt: 2 });
+    const existing = [PROMPT, { id: "m2", type: "gemini", content: "", toolCalls: [{ ...CALL, status: "executing" }] }];
+
+    expect(tail.update(transcript(existing))).toEqual([]);
+
+    const events = tail.update(
+      transcript([
+        PROMPT,
+        { id: "m2", type: "gemini", content: "", toolCalls: [{ ...CALL, status: "success" }] },
+        { id: "m3", type: "user", content: "thanks" },
+      ]),
+    );
+    expect(types(events)).toEqual([WatchEventType.ToolResult, WatchEventType.Prompt]);
+  });
+});